@@ -0,0 +1,94 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Sesión abierta por un usuario
+ *
+ * @interface AuthSession
+ */
+interface AuthSession {
+  /**
+   * ID del usuario de la sesión
+   * @type {string}
+   */
+  userId: string;
+
+  /**
+   * Momento en que caduca la sesión (milisegundos desde epoch)
+   * @type {number}
+   */
+  expiresAt: number;
+}
+
+/**
+ * Almacén de Sesiones
+ *
+ * Asocia los tokens aleatorios de sesión con su usuario. Las sesiones se
+ * guardan en memoria, por lo que reiniciar el servidor obliga a iniciar
+ * sesión de nuevo; las caducadas se descartan al consultarlas.
+ *
+ * @class AuthSessionStore
+ */
+export class AuthSessionStore {
+  /**
+   * Sesiones abiertas indexadas por token
+   * @private
+   */
+  private readonly sessions = new Map<string, AuthSession>();
+
+  /**
+   * @param {number} ttlMs - Duración de las sesiones en milisegundos
+   */
+  constructor(readonly ttlMs = 7 * 86400000) {}
+
+  /**
+   * Abrir una sesión para un usuario
+   * @param {string} userId - El ID del usuario
+   * @returns {string} El token de la sesión
+   */
+  create(userId: string): string {
+    this.purgeExpired();
+    const token = randomBytes(32).toString('base64url');
+    this.sessions.set(token, { userId, expiresAt: Date.now() + this.ttlMs });
+    return token;
+  }
+
+  /**
+   * Obtener el usuario de una sesión vigente
+   * @param {string} token - El token de la sesión
+   * @returns {string | null} El ID del usuario, o null si la sesión no existe o caducó
+   */
+  resolve(token: string): string | null {
+    const session = this.sessions.get(token);
+    if (!session) {
+      return null;
+    }
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+    return session.userId;
+  }
+
+  /**
+   * Cerrar una sesión
+   * @param {string} token - El token de la sesión
+   * @returns {void}
+   */
+  revoke(token: string): void {
+    this.sessions.delete(token);
+  }
+
+  /**
+   * Descartar las sesiones caducadas
+   * @private
+   * @returns {void}
+   */
+  private purgeExpired(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, token) => {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(token);
+      }
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { Request, RequestHandler, Response } from 'express';
+import { User } from '../app/models/user.model';
+import { AuthSessionStore } from './auth-sessions';
+import { UserFileStore } from './user-file.store';
+
+/**
+ * Nombre de la cookie que guarda el token de sesión
+ */
+export const SESSION_COOKIE_NAME = 'task_manager_session';
+
+/**
+ * Crear el middleware que exige una sesión válida
+ *
+ * Lee el token de la cookie de sesión (httpOnly, enviada también por las
+ * conexiones Server-Sent Events) y deja el usuario en `res.locals.user`.
+ * Sin sesión válida responde 401.
+ *
+ * @param {UserFileStore} users - Almacén de usuarios
+ * @param {AuthSessionStore} sessions - Almacén de sesiones
+ * @returns {RequestHandler} Middleware de Express
+ */
+export function createAuthMiddleware(
+  users: UserFileStore,
+  sessions: AuthSessionStore
+): RequestHandler {
+  return (req, res, next) => {
+    const token = getSessionToken(req);
+    const userId = token ? sessions.resolve(token) : null;
+    if (!userId) {
+      res.status(401).json({ message: 'Sesión no válida o caducada' });
+      return;
+    }
+
+    users
+      .get(userId)
+      .then((user) => {
+        if (!user) {
+          res.status(401).json({ message: 'Sesión no válida o caducada' });
+          return;
+        }
+        res.locals['user'] = user;
+        next();
+      })
+      .catch(next);
+  };
+}
+
+/**
+ * Obtener el usuario autenticado de una petición que pasó por el middleware
+ *
+ * @param {Response} res - La respuesta de Express
+ * @returns {User} El usuario de la sesión
+ */
+export function getAuthenticatedUser(res: Response): User {
+  return res.locals['user'] as User;
+}
+
+/**
+ * Leer el token de sesión de la cookie de la petición
+ *
+ * @param {Request} req - La petición
+ * @returns {string | null} El token, o null si no hay cookie de sesión
+ */
+export function getSessionToken(req: Request): string | null {
+  const cookies = req.headers.cookie?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const separator = cookie.indexOf('=');
+    if (separator > 0 && cookie.slice(0, separator).trim() === SESSION_COOKIE_NAME) {
+      return decodeURIComponent(cookie.slice(separator + 1).trim()) || null;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,142 @@
+import { Request, Response, Router } from 'express';
+import { User } from '../app/models/user.model';
+import { validateRegisterRequest } from '../app/validators/user.validator';
+import { AuthSessionStore } from './auth-sessions';
+import {
+  SESSION_COOKIE_NAME,
+  createAuthMiddleware,
+  getAuthenticatedUser,
+  getSessionToken,
+} from './auth.middleware';
+import { UserFileStore } from './user-file.store';
+
+/**
+ * Crear el router de la API de autenticación
+ *
+ * Expone las operaciones de cuentas bajo la ruta donde se monte
+ * (normalmente `/api/auth`):
+ *
+ * - `POST   /register` Registrar un usuario (`RegisterRequest`) e iniciar su sesión
+ * - `POST   /login`    Iniciar sesión (`LoginRequest`)
+ * - `POST   /logout`   Cerrar la sesión actual
+ * - `GET    /me`       Obtener el usuario de la sesión actual
+ *
+ * La sesión se guarda en una cookie httpOnly con `SameSite=Lax`. Las
+ * credenciales incorrectas se rechazan con 401 y los nombres de usuario
+ * repetidos con 409.
+ *
+ * @param {UserFileStore} users - Almacén de usuarios
+ * @param {AuthSessionStore} sessions - Almacén de sesiones
+ * @param {(user: User) => Promise<void>} onFirstUser - Acción al registrarse el primer usuario (p. ej. asignarle los datos creados antes de existir cuentas)
+ * @returns {Router} Router de Express con los endpoints de autenticación
+ */
+export function createAuthRouter(
+  users: UserFileStore,
+  sessions: AuthSessionStore,
+  onFirstUser: (user: User) => Promise<void> = async () => undefined
+): Router {
+  const router = Router();
+
+  router.post('/register', (req, res, next) => {
+    const body = req.body ?? {};
+    const errors = validateRegisterRequest(body);
+    if (errors) {
+      res.status(400).json({ message: 'Datos de usuario inválidos', errors });
+      return;
+    }
+
+    users
+      .create({
+        username: body.username,
+        password: body.password,
+        displayName: body.displayName ?? undefined,
+      })
+      .then(async (created) => {
+        if (!created) {
+          res.status(409).json({
+            message: 'Datos de usuario inválidos',
+            errors: {
+              username: {
+                code: 'invalid',
+                message: 'El nombre de usuario ya está en uso',
+              },
+            },
+          });
+          return;
+        }
+
+        const { user, isFirstUser } = created;
+        if (isFirstUser) {
+          await onFirstUser(user);
+        }
+        startSession(req, res, sessions, user);
+        res.status(201).json(user);
+      })
+      .catch(next);
+  });
+
+  router.post('/login', (req, res, next) => {
+    const body = req.body ?? {};
+    if (typeof body.username !== 'string' || typeof body.password !== 'string') {
+      res.status(400).json({ message: 'Usuario y contraseña son obligatorios' });
+      return;
+    }
+
+    users
+      .verifyCredentials(body.username, body.password)
+      .then((user) => {
+        if (!user) {
+          res.status(401).json({ message: 'Usuario o contraseña incorrectos' });
+          return;
+        }
+
+        startSession(req, res, sessions, user);
+        res.json(user);
+      })
+      .catch(next);
+  });
+
+  router.post('/logout', (req, res) => {
+    const token = getSessionToken(req);
+    if (token) {
+      sessions.revoke(token);
+    }
+    res.clearCookie(SESSION_COOKIE_NAME, { path: '/' });
+    res.status(204).end();
+  });
+
+  router.get('/me', createAuthMiddleware(users, sessions), (req, res) => {
+    res.json(getAuthenticatedUser(res));
+  });
+
+  return router;
+}
+
+/**
+ * Abrir una sesión para un usuario y enviar su cookie
+ *
+ * @param {Request} req - La petición
+ * @param {Response} res - La respuesta
+ * @param {AuthSessionStore} sessions - Almacén de sesiones
+ * @param {User} user - El usuario autenticado
+ * @returns {void}
+ */
+function startSession(
+  req: Request,
+  res: Response,
+  sessions: AuthSessionStore,
+  user: User
+): void {
+  const previousToken = getSessionToken(req);
+  if (previousToken) {
+    sessions.revoke(previousToken);
+  }
+
+  res.cookie(SESSION_COOKIE_NAME, sessions.create(user.id), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+    path: '/',
+    maxAge: sessions.ttlMs,
+  });
+}
@@ -0,0 +1,63 @@
+import { readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { JsonFileStore } from './json-file.store';
+import { createTempDir, removeTempDir } from './testing/api-test-server';
+
+/**
+ * Elemento de prueba con una fecha que hay que reconstruir al leerlo
+ */
+interface Note {
+  id: number;
+  createdAt: Date;
+}
+
+/**
+ * Almacén mínimo que expone la carga y el guardado de `JsonFileStore`
+ */
+class NoteFileStore extends JsonFileStore<Note> {
+  constructor(filePath: string, fileMode?: number) {
+    super(filePath, (note) => ({ ...note, createdAt: new Date(note.createdAt) }), fileMode);
+  }
+
+  list(): Promise<Note[]> {
+    return this.load();
+  }
+
+  replace(notes: Note[]): Promise<void> {
+    return this.save(notes);
+  }
+}
+
+describe('JsonFileStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await createTempDir();
+    filePath = join(dir, 'data', 'notes.json');
+  });
+
+  afterEach(() => removeTempDir(dir));
+
+  it('should start empty when the file does not exist', async () => {
+    expect(await new NoteFileStore(filePath).list()).toEqual([]);
+  });
+
+  it('should write simultaneous saves in order and revive them on load', async () => {
+    const notes = new NoteFileStore(filePath);
+    const allNotes = [1, 2, 3].map((id) => ({ id, createdAt: new Date(id) }));
+    await Promise.all([notes.replace(allNotes.slice(0, 1)), notes.replace(allNotes)]);
+
+    const saved = JSON.parse(await readFile(filePath, 'utf-8')) as Note[];
+    expect(saved.map((note) => note.id)).toEqual([1, 2, 3]);
+
+    const reloaded = await new NoteFileStore(filePath).list();
+    expect(reloaded.map((note) => note.createdAt.getTime())).toEqual([1, 2, 3]);
+  });
+
+  it('should create the file with the given permissions', async () => {
+    await new NoteFileStore(filePath, 0o600).replace([{ id: 1, createdAt: new Date() }]);
+
+    expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+});
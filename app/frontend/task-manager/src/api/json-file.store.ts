@@ -0,0 +1,80 @@
+import { Mode } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * Almacén Genérico en Archivo JSON
+ *
+ * Base de los almacenes de la API: mantiene un listado de elementos en memoria,
+ * lo carga del archivo la primera vez que se necesita y lo escribe entero
+ * después de cada mutación. Las escrituras se encadenan para que peticiones
+ * concurrentes no se sobrescriban entre sí.
+ *
+ * @class JsonFileStore
+ * @template T - El tipo de los elementos guardados
+ */
+export abstract class JsonFileStore<T> {
+  /**
+   * Elementos cargados desde el archivo (null hasta la primera lectura)
+   * @private
+   */
+  private items: T[] | null = null;
+
+  /**
+   * Cola de escrituras pendientes en disco
+   * @private
+   */
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * @param {string} filePath - Ruta del archivo JSON donde se guardan los elementos
+   * @param {(item: T) => T} revive - Reconstrucción de cada elemento leído (p. ej. sus fechas)
+   * @param {Mode} fileMode - Permisos con los que se crea el archivo
+   */
+  protected constructor(
+    private readonly filePath: string,
+    private readonly revive: (item: T) => T,
+    private readonly fileMode: Mode = 0o666
+  ) {}
+
+  /**
+   * Cargar los elementos desde disco la primera vez que se necesitan
+   * @returns {Promise<T[]>} Los elementos en memoria
+   */
+  protected async load(): Promise<T[]> {
+    if (this.items) {
+      return this.items;
+    }
+
+    try {
+      const raw = await readFile(this.filePath, 'utf-8');
+      this.items = (JSON.parse(raw) as T[]).map((item) => this.revive(item));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.items = [];
+    }
+
+    return this.items;
+  }
+
+  /**
+   * Reemplazar los elementos en memoria y encolar su escritura en disco
+   * @param {T[]} items - El nuevo listado de elementos
+   * @returns {Promise<void>} Promise que se resuelve cuando el archivo está escrito
+   */
+  protected save(items: T[]): Promise<void> {
+    this.items = items;
+    const content = JSON.stringify(items, null, 2);
+
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(this.filePath, content, { encoding: 'utf-8', mode: this.fileMode });
+      });
+
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,137 @@
+import { randomUUID } from 'node:crypto';
+import {
+  CreateProjectRequest,
+  Project,
+  UpdateProjectRequest,
+  reviveProject,
+} from '../app/models/project.model';
+import { PROJECT_COLORS } from '../app/validators/project.validator';
+import { JsonFileStore } from './json-file.store';
+
+/**
+ * Almacén de Proyectos en Archivo JSON
+ *
+ * Mantiene los proyectos de la API en memoria y los escribe en un archivo JSON
+ * después de cada mutación, a través de `JsonFileStore`.
+ * Cada proyecto pertenece a un usuario (`ownerId`), que puede compartirlo con
+ * otros (`members`); solo el propietario puede modificarlo o eliminarlo.
+ *
+ * @class ProjectFileStore
+ */
+export class ProjectFileStore extends JsonFileStore<Project> {
+  /**
+   * @param {string} filePath - Ruta del archivo JSON donde se guardan los proyectos
+   */
+  constructor(filePath: string) {
+    super(filePath, reviveProject);
+  }
+
+  /**
+   * Listar los proyectos de un usuario y los compartidos con él
+   * @param {string} userId - El ID del usuario
+   * @returns {Promise<Project[]>} Promise que se resuelve con los proyectos a los que tiene acceso
+   */
+  async list(userId: string): Promise<Project[]> {
+    const projects = await this.load();
+    return projects.filter(
+      (p) =>
+        p.ownerId === userId ||
+        p.members?.some((member) => member.userId === userId)
+    );
+  }
+
+  /**
+   * Obtener un proyecto por ID, sea del usuario que sea
+   * @param {string} id - El ID del proyecto
+   * @returns {Promise<Project | null>} Promise que se resuelve con el proyecto o null si no existe
+   */
+  async get(id: string): Promise<Project | null> {
+    const projects = await this.load();
+    return projects.find((p) => p.id === id) ?? null;
+  }
+
+  /**
+   * Crear un nuevo proyecto
+   * @param {CreateProjectRequest} projectRequest - Los datos del proyecto a crear
+   * @param {string} ownerId - El ID del usuario propietario
+   * @returns {Promise<Project>} Promise que se resuelve con el proyecto creado
+   */
+  async create(projectRequest: CreateProjectRequest, ownerId: string): Promise<Project> {
+    const projects = await this.load();
+    const ownedCount = projects.filter((p) => p.ownerId === ownerId).length;
+    const now = new Date();
+    const newProject: Project = {
+      id: randomUUID(),
+      ownerId,
+      name: projectRequest.name,
+      color:
+        projectRequest.color ?? PROJECT_COLORS[ownedCount % PROJECT_COLORS.length],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save([...projects, newProject]);
+    return newProject;
+  }
+
+  /**
+   * Actualizar parcialmente un proyecto existente
+   * @param {string} id - El ID del proyecto a actualizar
+   * @param {UpdateProjectRequest} updateRequest - Los campos a modificar
+   * @param {string} ownerId - El ID del usuario propietario
+   * @returns {Promise<Project | null>} Promise que se resuelve con el proyecto actualizado o null si no existe o es de otro usuario
+   */
+  async update(
+    id: string,
+    updateRequest: UpdateProjectRequest,
+    ownerId: string
+  ): Promise<Project | null> {
+    const projects = await this.load();
+    const existingProject = projects.find((p) => p.id === id && p.ownerId === ownerId);
+    if (!existingProject) {
+      return null;
+    }
+
+    const updatedProject: Project = {
+      ...existingProject,
+      ...updateRequest,
+      updatedAt: new Date(),
+    };
+
+    await this.save(projects.map((p) => (p.id === id ? updatedProject : p)));
+    return updatedProject;
+  }
+
+  /**
+   * Eliminar un proyecto por ID
+   * @param {string} id - El ID del proyecto a eliminar
+   * @param {string} ownerId - El ID del usuario propietario
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó
+   */
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    const projects = await this.load();
+    const filteredProjects = projects.filter(
+      (p) => p.id !== id || p.ownerId !== ownerId
+    );
+    if (filteredProjects.length === projects.length) {
+      return false;
+    }
+
+    await this.save(filteredProjects);
+    return true;
+  }
+
+  /**
+   * Asignar a un usuario los proyectos sin propietario (creados antes de existir cuentas)
+   * @param {string} ownerId - El ID del usuario
+   * @returns {Promise<number>} Promise que se resuelve con el número de proyectos asignados
+   */
+  async claimUnowned(ownerId: string): Promise<number> {
+    const projects = await this.load();
+    const unownedCount = projects.filter((p) => !p.ownerId).length;
+    if (unownedCount) {
+      await this.save(projects.map((p) => (p.ownerId ? p : { ...p, ownerId })));
+    }
+    return unownedCount;
+  }
+}
@@ -0,0 +1,179 @@
+import { Response, Router } from 'express';
+import {
+  Project,
+  ProjectMember,
+  UpdateProjectRequest,
+  getProjectAccess,
+} from '../app/models/project.model';
+import {
+  validateCreateProjectRequest,
+  validateUpdateProjectRequest,
+} from '../app/validators/project.validator';
+import { ProjectFileStore } from './project-file.store';
+import { UserFileStore } from './user-file.store';
+import { getAuthenticatedUser } from './auth.middleware';
+
+/**
+ * Crear el router de la API REST de proyectos
+ *
+ * Expone las operaciones de proyectos bajo la ruta donde se monte
+ * (normalmente `/api/projects`):
+ *
+ * - `GET    /`     Listar los proyectos propios y los compartidos con el usuario
+ * - `POST   /`     Crear un proyecto (`CreateProjectRequest`)
+ * - `PATCH  /:id`  Actualizar un proyecto (`UpdateProjectRequest`, incluye `members` para compartirlo)
+ * - `DELETE /:id`  Eliminar un proyecto
+ *
+ * Requiere el middleware de autenticación: los miembros de un proyecto
+ * compartido pueden verlo, pero solo su propietario puede modificarlo o
+ * eliminarlo (403 para los miembros, 404 para el resto).
+ *
+ * Eliminar un proyecto no modifica sus tareas: el cliente las mueve a la
+ * bandeja de entrada a través de la API de tareas.
+ *
+ * @param {ProjectFileStore} store - Almacén donde se persisten los proyectos
+ * @param {UserFileStore} users - Almacén de usuarios, para comprobar los miembros
+ * @returns {Router} Router de Express con los endpoints de proyectos
+ */
+export function createProjectsRouter(
+  store: ProjectFileStore,
+  users: UserFileStore
+): Router {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    store
+      .list(getAuthenticatedUser(res).id)
+      .then((projects) => res.json(projects))
+      .catch(next);
+  });
+
+  router.post('/', (req, res, next) => {
+    const body = req.body ?? {};
+    const errors = validateCreateProjectRequest(body);
+    if (errors) {
+      res.status(400).json({ message: 'Datos de proyecto inválidos', errors });
+      return;
+    }
+
+    store
+      .create(
+        { name: body.name.trim(), color: body.color },
+        getAuthenticatedUser(res).id
+      )
+      .then((project) => res.status(201).json(project))
+      .catch(next);
+  });
+
+  router.patch('/:id', (req, res, next) => {
+    const body = req.body ?? {};
+    const errors = validateUpdateProjectRequest(body);
+    if (errors) {
+      res.status(400).json({ message: 'Datos de proyecto inválidos', errors });
+      return;
+    }
+
+    const updateRequest: UpdateProjectRequest = {};
+    if (body.name !== undefined) updateRequest.name = body.name.trim();
+    if (body.color !== undefined) updateRequest.color = body.color;
+    if (body.members !== undefined) {
+      updateRequest.members = (body.members as ProjectMember[]).map(
+        ({ userId, role }) => ({ userId, role })
+      );
+    }
+
+    const ownerId = getAuthenticatedUser(res).id;
+    findOwnedProject(store, req.params.id, ownerId, res)
+      .then(async (project) => {
+        if (!project) {
+          return;
+        }
+        if (updateRequest.members) {
+          const membersError = await checkMembers(updateRequest.members, ownerId, users);
+          if (membersError) {
+            res.status(400).json({
+              message: 'Datos de proyecto inválidos',
+              errors: { members: { code: 'invalid', message: membersError } },
+            });
+            return;
+          }
+        }
+
+        const updatedProject = await store.update(project.id, updateRequest, ownerId);
+        if (!updatedProject) {
+          res.status(404).json({ message: 'Proyecto no encontrado' });
+          return;
+        }
+        res.json(updatedProject);
+      })
+      .catch(next);
+  });
+
+  router.delete('/:id', (req, res, next) => {
+    const ownerId = getAuthenticatedUser(res).id;
+    findOwnedProject(store, req.params.id, ownerId, res)
+      .then(async (project) => {
+        if (project) {
+          await store.delete(project.id, ownerId);
+          res.status(204).end();
+        }
+      })
+      .catch(next);
+  });
+
+  return router;
+}
+
+/**
+ * Buscar un proyecto que el usuario puede modificar, respondiendo con el error si no
+ *
+ * @param {ProjectFileStore} store - Almacén de proyectos
+ * @param {string} id - El ID del proyecto
+ * @param {string} userId - El ID del usuario
+ * @param {Response} res - La respuesta de Express
+ * @returns {Promise<Project | null>} El proyecto, o null si ya se respondió con 404 o 403
+ */
+async function findOwnedProject(
+  store: ProjectFileStore,
+  id: string,
+  userId: string,
+  res: Response
+): Promise<Project | null> {
+  const project = await store.get(id);
+  const access = project && getProjectAccess(project, userId);
+  if (!project || !access) {
+    res.status(404).json({ message: 'Proyecto no encontrado' });
+    return null;
+  }
+  if (access !== 'owner') {
+    res
+      .status(403)
+      .json({ message: 'Solo el propietario puede modificar el proyecto' });
+    return null;
+  }
+  return project;
+}
+
+/**
+ * Comprobar que los miembros de un proyecto son usuarios existentes
+ *
+ * @param {ProjectMember[]} members - Los miembros ya validados
+ * @param {string} ownerId - El ID del propietario del proyecto
+ * @param {UserFileStore} users - Almacén de usuarios
+ * @returns {Promise<string | null>} El mensaje de error, o null si son válidos
+ */
+async function checkMembers(
+  members: ProjectMember[],
+  ownerId: string,
+  users: UserFileStore
+): Promise<string | null> {
+  if (members.some((member) => member.userId === ownerId)) {
+    return 'El propietario no puede ser miembro de su proyecto';
+  }
+  for (const member of members) {
+    if (!(await users.get(member.userId))) {
+      return 'Algún miembro no es un usuario registrado';
+    }
+  }
+  return null;
+}
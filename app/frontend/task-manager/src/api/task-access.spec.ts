@@ -0,0 +1,137 @@
+import { join } from 'node:path';
+import { Project } from '../app/models/project.model';
+import { Task } from '../app/models/task.model';
+import { ProjectFileStore } from './project-file.store';
+import { TaskAccessPolicy, TaskListAccess, UserTaskAccess } from './task-access';
+import { createTempDir, removeTempDir } from './testing/api-test-server';
+
+/**
+ * Crear una tarea de prueba
+ *
+ * @param {Partial<Task>} task - Los campos a fijar
+ * @returns {Task} La tarea
+ */
+function createTask(task: Partial<Task>): Task {
+  return {
+    id: 'task-1',
+    title: 'Tarea de prueba',
+    description: '',
+    completed: false,
+    priority: 'medium',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...task,
+  };
+}
+
+describe('UserTaskAccess', () => {
+  const sharedProject: Project = {
+    id: 'shared',
+    ownerId: 'owner',
+    name: 'Compartido',
+    color: '#1976d2',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    members: [
+      { userId: 'editor', role: 'editor' },
+      { userId: 'viewer', role: 'viewer' },
+    ],
+  };
+
+  it('should give the owner full access to their inbox tasks', () => {
+    const access = new UserTaskAccess('owner', [sharedProject]);
+    const task = createTask({ ownerId: 'owner' });
+
+    expect(access.getTaskList(task)).toEqual({
+      ownerId: 'owner',
+      access: 'owner',
+      userIds: ['owner'],
+    });
+    expect(access.canView(task)).toBeTrue();
+    expect(access.canEdit(task)).toBeTrue();
+  });
+
+  it('should hide tasks of other users outside shared projects', () => {
+    const access = new UserTaskAccess('editor', [sharedProject]);
+    const task = createTask({ ownerId: 'owner' });
+
+    expect(access.getTaskList(task)).toBeNull();
+    expect(access.canView(task)).toBeFalse();
+    expect(access.canEdit(task)).toBeFalse();
+  });
+
+  it('should let editors of a shared project edit its tasks', () => {
+    const access = new UserTaskAccess('editor', [sharedProject]);
+    const task = createTask({ ownerId: 'owner', projectId: 'shared' });
+
+    expect(access.getTaskList(task)).toEqual({
+      ownerId: 'owner',
+      access: 'editor',
+      userIds: ['owner', 'editor', 'viewer'],
+    });
+    expect(access.canEdit(task)).toBeTrue();
+  });
+
+  it('should let viewers of a shared project view but not edit its tasks', () => {
+    const access = new UserTaskAccess('viewer', [sharedProject]);
+    const task = createTask({ ownerId: 'owner', projectId: 'shared' });
+
+    expect(access.canView(task)).toBeTrue();
+    expect(access.canEdit(task)).toBeFalse();
+  });
+
+  it('should not grant access through a project owned by someone else than the task owner', () => {
+    const access = new UserTaskAccess('viewer', [sharedProject]);
+    const task = createTask({ ownerId: 'stranger', projectId: 'shared' });
+
+    expect(access.canView(task)).toBeFalse();
+  });
+
+  it('should treat unknown projects and the inbox as the own list', () => {
+    const access = new UserTaskAccess('editor', [sharedProject]);
+    const ownList: TaskListAccess = { ownerId: 'editor', access: 'owner', userIds: ['editor'] };
+
+    expect(access.getList('unknown')).toEqual(ownList);
+    expect(access.getList('inbox')).toEqual(ownList);
+    expect(access.getList(undefined)).toEqual(ownList);
+    expect(access.getList('shared').ownerId).toBe('owner');
+  });
+});
+
+describe('TaskAccessPolicy', () => {
+  let dir: string;
+  let projects: ProjectFileStore;
+  let policy: TaskAccessPolicy;
+
+  beforeEach(async () => {
+    dir = await createTempDir();
+    projects = new ProjectFileStore(join(dir, 'projects.json'));
+    policy = new TaskAccessPolicy(projects);
+  });
+
+  afterEach(() => removeTempDir(dir));
+
+  it('should resolve access from the projects shared with the user', async () => {
+    const project = await projects.create({ name: 'Equipo' }, 'owner');
+    await projects.update(project.id, { members: [{ userId: 'viewer', role: 'viewer' }] }, 'owner');
+    const task = createTask({ ownerId: 'owner', projectId: project.id });
+
+    const viewerAccess = await policy.forUser('viewer');
+    const strangerAccess = await policy.forUser('stranger');
+
+    expect(viewerAccess.canView(task)).toBeTrue();
+    expect(viewerAccess.canEdit(task)).toBeFalse();
+    expect(strangerAccess.canView(task)).toBeFalse();
+  });
+
+  it('should stop granting access once the user is removed from the project', async () => {
+    const project = await projects.create({ name: 'Equipo' }, 'owner');
+    await projects.update(project.id, { members: [{ userId: 'editor', role: 'editor' }] }, 'owner');
+    const task = createTask({ ownerId: 'owner', projectId: project.id });
+    expect((await policy.forUser('editor')).canEdit(task)).toBeTrue();
+
+    await projects.update(project.id, { members: [] }, 'owner');
+
+    expect((await policy.forUser('editor')).canView(task)).toBeFalse();
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  INBOX_PROJECT_ID,
+  Project,
+  ProjectAccess,
+  canEditProjectTasks,
+  getProjectAccess,
+  getProjectUserIds,
+} from '../app/models/project.model';
+import { Task } from '../app/models/task.model';
+import { ProjectFileStore } from './project-file.store';
+
+/**
+ * Lista de tareas vista por un usuario: su bandeja de entrada, uno de sus
+ * proyectos o un proyecto compartido con él
+ *
+ * @interface TaskListAccess
+ */
+export interface TaskListAccess {
+  /**
+   * ID del propietario de la lista, que es también el de sus tareas
+   * @type {string}
+   */
+  ownerId: string;
+
+  /**
+   * Nivel de acceso del usuario a la lista
+   * @type {ProjectAccess}
+   */
+  access: ProjectAccess;
+
+  /**
+   * IDs de los usuarios con acceso a la lista, que reciben sus cambios
+   * @type {string[]}
+   */
+  userIds: string[];
+}
+
+/**
+ * Permisos de un Usuario sobre las Tareas
+ *
+ * Resuelve a qué lista pertenece cada tarea y qué puede hacer el usuario con
+ * ella, a partir de los proyectos propios y compartidos con él cargados al
+ * crearse. Una tarea es visible para su propietario y, si está en un proyecto
+ * compartido del mismo propietario, para los miembros del proyecto.
+ *
+ * @class UserTaskAccess
+ */
+export class UserTaskAccess {
+  /**
+   * @param {string} userId - El ID del usuario
+   * @param {Project[]} projects - Los proyectos propios y compartidos con el usuario
+   */
+  constructor(
+    readonly userId: string,
+    private readonly projects: Project[]
+  ) {}
+
+  /**
+   * Obtener la lista en la que el usuario crea o a la que mueve una tarea
+   *
+   * Los proyectos que el usuario no conoce se tratan como su bandeja de
+   * entrada, igual que en el cliente.
+   *
+   * @param {string | null | undefined} projectId - El ID del proyecto (sin definir para la bandeja de entrada)
+   * @returns {TaskListAccess} La lista y el acceso del usuario a ella
+   */
+  getList(projectId: string | null | undefined): TaskListAccess {
+    const project = projectId
+      ? this.projects.find((p) => p.id === projectId)
+      : undefined;
+    const access = project && getProjectAccess(project, this.userId);
+    if (!project || !access || projectId === INBOX_PROJECT_ID) {
+      return this.getOwnList();
+    }
+
+    return {
+      ownerId: project.ownerId ?? this.userId,
+      access,
+      userIds: getProjectUserIds(project),
+    };
+  }
+
+  /**
+   * Obtener la lista de una tarea existente
+   *
+   * @param {Task} task - La tarea
+   * @returns {TaskListAccess | null} La lista y el acceso del usuario, o null si no puede ver la tarea
+   */
+  getTaskList(task: Task): TaskListAccess | null {
+    const project = task.projectId
+      ? this.projects.find((p) => p.id === task.projectId)
+      : undefined;
+    if (project && project.ownerId === task.ownerId) {
+      return this.getList(project.id);
+    }
+    return task.ownerId === this.userId ? this.getOwnList() : null;
+  }
+
+  /**
+   * Indicar si el usuario puede ver una tarea
+   *
+   * @param {Task} task - La tarea
+   * @returns {boolean} true si la tarea es suya o de un proyecto compartido con él
+   */
+  canView(task: Task): boolean {
+    return this.getTaskList(task) !== null;
+  }
+
+  /**
+   * Indicar si el usuario puede modificar o eliminar una tarea
+   *
+   * @param {Task} task - La tarea
+   * @returns {boolean} true para el propietario de la lista y sus editores
+   */
+  canEdit(task: Task): boolean {
+    return canEditProjectTasks(this.getTaskList(task)?.access ?? null);
+  }
+
+  /**
+   * Lista privada del usuario (bandeja de entrada o proyectos no compartidos)
+   * @private
+   * @returns {TaskListAccess} La lista propia del usuario
+   */
+  private getOwnList(): TaskListAccess {
+    return { ownerId: this.userId, access: 'owner', userIds: [this.userId] };
+  }
+}
+
+/**
+ * Política de Acceso a las Tareas
+ *
+ * Carga los proyectos de un usuario para comprobar sus permisos sobre las
+ * tareas en cada petición a la API.
+ *
+ * @class TaskAccessPolicy
+ */
+export class TaskAccessPolicy {
+  /**
+   * @param {ProjectFileStore} projects - Almacén de proyectos
+   */
+  constructor(private readonly projects: ProjectFileStore) {}
+
+  /**
+   * Obtener los permisos de un usuario
+   *
+   * @param {string} userId - El ID del usuario
+   * @returns {Promise<UserTaskAccess>} Promise que se resuelve con sus permisos
+   */
+  async forUser(userId: string): Promise<UserTaskAccess> {
+    return new UserTaskAccess(userId, await this.projects.list(userId));
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  TaskActivity,
+  reviveTaskActivity,
+} from '../app/models/task-activity.model';
+import { JsonFileStore } from './json-file.store';
+
+/**
+ * Almacén del Historial de Actividad en Archivo JSON
+ *
+ * Mantiene el historial de actividad de las tareas en memoria y lo escribe en
+ * un archivo JSON después de cada adición, a través de `JsonFileStore`. Solo
+ * admite añadir eventos: nunca se modifican ni eliminan.
+ *
+ * @class TaskActivityFileStore
+ */
+export class TaskActivityFileStore extends JsonFileStore<TaskActivity> {
+  /**
+   * @param {string} filePath - Ruta del archivo JSON donde se guarda el historial
+   */
+  constructor(filePath: string) {
+    super(filePath, reviveTaskActivity);
+  }
+
+  /**
+   * Listar los eventos que cumplen un criterio
+   * @param {(entry: TaskActivity) => boolean} predicate - El criterio
+   * @returns {Promise<TaskActivity[]>} Promise que se resuelve con los eventos, del más antiguo al más reciente
+   */
+  async list(predicate: (entry: TaskActivity) => boolean): Promise<TaskActivity[]> {
+    const entries = await this.load();
+    return entries.filter(predicate);
+  }
+
+  /**
+   * Añadir eventos al final del historial
+   *
+   * Los eventos cuyo ID ya existe se ignoran, de modo que reenviar un lote
+   * no los duplica.
+   *
+   * @param {TaskActivity[]} newEntries - Los eventos a añadir
+   * @returns {Promise<TaskActivity[]>} Promise que se resuelve con los eventos añadidos
+   */
+  async append(newEntries: TaskActivity[]): Promise<TaskActivity[]> {
+    const entries = await this.load();
+    const existingIds = new Set(entries.map((entry) => entry.id));
+    const addedEntries = newEntries.filter((entry) => {
+      if (existingIds.has(entry.id)) {
+        return false;
+      }
+      existingIds.add(entry.id);
+      return true;
+    });
+    if (addedEntries.length) {
+      await this.save([...entries, ...addedEntries]);
+    }
+    return addedEntries;
+  }
+
+  /**
+   * Asignar a un usuario los eventos sin autor registrado (anteriores a las cuentas)
+   *
+   * Es la única modificación de eventos existentes que admite el almacén.
+   *
+   * @param {string} actorId - El ID del usuario
+   * @returns {Promise<number>} Promise que se resuelve con el número de eventos asignados
+   */
+  async claimUnowned(actorId: string): Promise<number> {
+    const entries = await this.load();
+    const unownedCount = entries.filter((entry) => !entry.actorId).length;
+    if (unownedCount) {
+      await this.save(
+        entries.map((entry) => (entry.actorId ? entry : { ...entry, actorId }))
+      );
+    }
+    return unownedCount;
+  }
+}
@@ -0,0 +1,156 @@
+import { join } from 'node:path';
+import { TaskActivity } from '../app/models/task-activity.model';
+import { Task } from '../app/models/task.model';
+import { ProjectFileStore } from './project-file.store';
+import { TaskAccessPolicy } from './task-access';
+import { TaskActivityFileStore } from './task-activity-file.store';
+import { createTaskActivityRouter } from './task-activity.router';
+import { TaskFileStore } from './task-file.store';
+import {
+  TestApiError,
+  TestApiServer,
+  createTempDir,
+  removeTempDir,
+} from './testing/api-test-server';
+
+describe('createTaskActivityRouter', () => {
+  let dir: string;
+  let tasks: TaskFileStore;
+  let activity: TaskActivityFileStore;
+  let api: TestApiServer;
+  let ownTask: Task;
+  let sharedTask: Task;
+
+  /**
+   * Crear un evento de actividad como lo envía el cliente
+   *
+   * @param {string} id - ID del evento
+   * @param {Task} task - La tarea del evento
+   * @param {Partial<TaskActivity>} entry - Campos a sobrescribir
+   * @returns {TaskActivity} El evento
+   */
+  function createEntry(id: string, task: Task, entry: Partial<TaskActivity> = {}): TaskActivity {
+    return {
+      id,
+      taskId: task.id,
+      taskTitle: task.title,
+      type: 'updated',
+      changes: [{ field: 'title', oldValue: 'Antes', newValue: task.title }],
+      actor: 'Cliente',
+      timestamp: new Date('2020-01-01T00:00:00Z'),
+      ...entry,
+    };
+  }
+
+  beforeEach(async () => {
+    dir = await createTempDir();
+    tasks = new TaskFileStore(join(dir, 'tasks.json'));
+    activity = new TaskActivityFileStore(join(dir, 'task-activity.json'));
+    const projects = new ProjectFileStore(join(dir, 'projects.json'));
+    api = await TestApiServer.start(
+      '/api/task-activity',
+      createTaskActivityRouter(activity, tasks, new TaskAccessPolicy(projects))
+    );
+
+    const project = await projects.create({ name: 'Equipo' }, 'owner');
+    await projects.update(
+      project.id,
+      {
+        members: [
+          { userId: 'editor', role: 'editor' },
+          { userId: 'viewer', role: 'viewer' },
+        ],
+      },
+      'owner'
+    );
+    ownTask = await tasks.create({ title: 'Tarea privada' }, 'owner', 'owner');
+    sharedTask = await tasks.create(
+      { title: 'Tarea compartida', projectId: project.id },
+      'owner',
+      'owner'
+    );
+  });
+
+  afterEach(async () => {
+    await api.close();
+    await removeTempDir(dir);
+  });
+
+  describe('POST /', () => {
+    it('should reject bodies that are not activity entries with 400', async () => {
+      const response = await api.request<TestApiError>('POST', '/', 'owner', [{ id: 'a1' }]);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should record the session user and the server time', async () => {
+      const before = Date.now();
+
+      const response = await api.request<TaskActivity[]>('POST', '/', 'owner', [
+        createEntry('a1', ownTask, { actor: 'Otra persona', actorId: 'editor' }),
+      ]);
+
+      expect(response.status).toBe(201);
+      expect(response.body.length).toBe(1);
+      expect(response.body[0].actorId).toBe('owner');
+      expect(new Date(response.body[0].timestamp).getTime()).toBeGreaterThanOrEqual(before);
+    });
+
+    it('should drop entries for tasks of other users', async () => {
+      const response = await api.request<TaskActivity[]>('POST', '/', 'editor', [
+        createEntry('a1', ownTask),
+      ]);
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual([]);
+      expect(await activity.list(() => true)).toEqual([]);
+    });
+
+    it('should drop entries of viewers for shared tasks', async () => {
+      const response = await api.request<TaskActivity[]>('POST', '/', 'viewer', [
+        createEntry('a1', sharedTask),
+      ]);
+
+      expect(response.body).toEqual([]);
+    });
+
+    it('should keep entries of editors for shared tasks', async () => {
+      const response = await api.request<TaskActivity[]>('POST', '/', 'editor', [
+        createEntry('a1', sharedTask),
+        createEntry('a2', ownTask),
+      ]);
+
+      expect(response.body.map((entry) => entry.id)).toEqual(['a1']);
+    });
+
+    it('should keep purge entries of tasks that no longer exist', async () => {
+      const purgedTask = { ...ownTask, id: 'purged-task' };
+
+      const response = await api.request<TaskActivity[]>('POST', '/', 'owner', [
+        createEntry('a1', purgedTask, { type: 'purged' }),
+        createEntry('a2', purgedTask, { type: 'updated' }),
+      ]);
+
+      expect(response.body.map((entry) => entry.id)).toEqual(['a1']);
+    });
+  });
+
+  describe('GET /', () => {
+    it('should list entries of other users only for tasks the user can view', async () => {
+      await api.request<TaskActivity[]>('POST', '/', 'owner', [
+        createEntry('a1', sharedTask),
+        createEntry('a2', ownTask),
+      ]);
+
+      const shared = await api.request<TaskActivity[]>(
+        'GET',
+        `/?taskId=${sharedTask.id}`,
+        'viewer'
+      );
+      const hidden = await api.request<TaskActivity[]>('GET', `/?taskId=${ownTask.id}`, 'viewer');
+
+      expect(shared.body.map((entry) => entry.id)).toEqual(['a1']);
+      expect(hidden.body).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import {
+  TASK_ACTIVITY_FIELDS,
+  TaskActivity,
+  TaskActivityType,
+  TaskFieldChange,
+} from '../app/models/task-activity.model';
+import { TaskActivityFileStore } from './task-activity-file.store';
+import { TaskFileStore } from './task-file.store';
+import { TaskAccessPolicy } from './task-access';
+import { getAuthenticatedUser } from './auth.middleware';
+
+/**
+ * Tipos de evento admitidos
+ */
+const TASK_ACTIVITY_TYPES: TaskActivityType[] = [
+  'created',
+  'updated',
+  'completed',
+  'reopened',
+  'deleted',
+  'restored',
+  'purged',
+];
+
+/**
+ * Crear el router de la API REST del historial de actividad de tareas
+ *
+ * Expone el historial de solo adición bajo la ruta donde se monte
+ * (normalmente `/api/task-activity`):
+ *
+ * - `GET    /`     Listar los eventos; `?taskId=` filtra los de una tarea
+ * - `POST   /`     Añadir un array de eventos (`TaskActivity[]`); los IDs ya registrados se ignoran
+ *
+ * No hay operaciones para modificar ni eliminar eventos.
+ *
+ * Requiere el middleware de autenticación: el autor de los eventos añadidos
+ * es siempre el usuario de la sesión y su fecha, la del servidor al recibirlos.
+ * Solo se añaden los eventos de tareas que el usuario puede modificar, o los
+ * de eliminación definitiva de tareas que ya no existen; el resto se descartan.
+ * Cada usuario lista sus eventos y, para
+ * una tarea que puede ver (p. ej. de un proyecto compartido), también los de
+ * los demás usuarios.
+ *
+ * @param {TaskActivityFileStore} store - Almacén donde se persiste el historial
+ * @param {TaskFileStore} tasks - Almacén de tareas, para comprobar el acceso a cada tarea
+ * @param {TaskAccessPolicy} policy - Permisos de los usuarios sobre las tareas
+ * @returns {Router} Router de Express con los endpoints del historial
+ */
+export function createTaskActivityRouter(
+  store: TaskActivityFileStore,
+  tasks: TaskFileStore,
+  policy: TaskAccessPolicy
+): Router {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    const taskId = typeof req.query['taskId'] === 'string' ? req.query['taskId'] : undefined;
+    const userId = getAuthenticatedUser(res).id;
+    Promise.all([taskId ? tasks.get(taskId) : null, policy.forUser(userId)])
+      .then(([task, access]) => {
+        const includeOthers = !!task && access.canView(task);
+        return store.list(
+          (entry) =>
+            (!taskId || entry.taskId === taskId) &&
+            (includeOthers || entry.actorId === userId)
+        );
+      })
+      .then((entries) => res.json(entries))
+      .catch(next);
+  });
+
+  router.post('/', (req, res, next) => {
+    const body: unknown = req.body;
+    if (!Array.isArray(body) || !body.every(isTaskActivity)) {
+      res.status(400).json({ message: 'Eventos de actividad inválidos' });
+      return;
+    }
+
+    const user = getAuthenticatedUser(res);
+    const taskIds = [...new Set(body.map((entry) => entry.taskId))];
+    Promise.all([policy.forUser(user.id), Promise.all(taskIds.map((id) => tasks.get(id)))])
+      .then(([access, foundTasks]) => {
+        const tasksById = new Map(taskIds.map((id, i) => [id, foundTasks[i]]));
+        const timestamp = new Date();
+        return store.append(
+          body
+            .filter((entry) => {
+              const task = tasksById.get(entry.taskId);
+              return task ? access.canEdit(task) : entry.type === 'purged';
+            })
+            .map((entry) => ({
+              id: entry.id,
+              taskId: entry.taskId,
+              taskTitle: entry.taskTitle,
+              type: entry.type,
+              changes: entry.changes.map(({ field, oldValue, newValue }) => ({
+                field,
+                oldValue,
+                newValue,
+              })),
+              actor: user.displayName,
+              actorId: user.id,
+              timestamp,
+            }))
+        );
+      })
+      .then((entries) => res.status(201).json(entries))
+      .catch(next);
+  });
+
+  return router;
+}
+
+/**
+ * Verificar que un valor recibido tiene la forma de un evento de actividad
+ *
+ * @param {unknown} value - El valor recibido
+ * @returns {boolean} True si es un `TaskActivity` válido
+ */
+function isTaskActivity(value: unknown): value is TaskActivity {
+  const entry = value as Partial<TaskActivity> | null;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    isNonEmptyString(entry.id) &&
+    isNonEmptyString(entry.taskId) &&
+    typeof entry.taskTitle === 'string' &&
+    TASK_ACTIVITY_TYPES.includes(entry.type as TaskActivityType) &&
+    !isNaN(new Date(entry.timestamp as Date).getTime()) &&
+    Array.isArray(entry.changes) &&
+    entry.changes.every(isTaskFieldChange)
+  );
+}
+
+/**
+ * Verificar que un valor recibido tiene la forma de un cambio de campo
+ *
+ * @param {unknown} value - El valor recibido
+ * @returns {boolean} True si es un `TaskFieldChange` válido
+ */
+function isTaskFieldChange(value: unknown): value is TaskFieldChange {
+  const change = value as Partial<TaskFieldChange> | null;
+  return (
+    typeof change === 'object' &&
+    change !== null &&
+    TASK_ACTIVITY_FIELDS.includes(change.field!) &&
+    'oldValue' in change &&
+    'newValue' in change
+  );
+}
+
+/**
+ * Verificar que un valor es un texto no vacío
+ *
+ * @param {unknown} value - El valor
+ * @returns {boolean} True si es un texto con contenido
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
@@ -0,0 +1,64 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+/**
+ * Almacén de Archivos Adjuntos en Disco
+ *
+ * Guarda el contenido de los adjuntos de las tareas en un directorio, un
+ * archivo por adjunto nombrado con su ID. Los metadatos (nombre, tipo y
+ * tamaño) viven en la propia tarea, dentro de `TaskFileStore`.
+ *
+ * @class TaskAttachmentFileStore
+ */
+export class TaskAttachmentFileStore {
+  /**
+   * @param {string} directory - Directorio donde se guardan los archivos
+   */
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Guardar el contenido de un adjunto
+   * @param {string} id - El ID del adjunto
+   * @param {Buffer} content - El contenido del archivo
+   * @returns {Promise<void>} Promise que se resuelve cuando el archivo está escrito
+   */
+  async write(id: string, content: Buffer): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.getPath(id), content);
+  }
+
+  /**
+   * Leer el contenido de un adjunto
+   * @param {string} id - El ID del adjunto
+   * @returns {Promise<Buffer | null>} Promise que se resuelve con el contenido o null si no existe
+   */
+  async read(id: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.getPath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar el contenido de varios adjuntos; los que no existen se ignoran
+   * @param {string[]} ids - Los IDs de los adjuntos
+   * @returns {Promise<void>} Promise que se resuelve cuando se eliminaron los archivos
+   */
+  async delete(ids: string[]): Promise<void> {
+    await Promise.all(ids.map((id) => rm(this.getPath(id), { force: true })));
+  }
+
+  /**
+   * Ruta del archivo de un adjunto
+   * @private
+   * @param {string} id - El ID del adjunto (un UUID generado por el servidor)
+   * @returns {string} La ruta absoluta del archivo
+   */
+  private getPath(id: string): string {
+    return resolve(this.directory, id);
+  }
+}
@@ -0,0 +1,147 @@
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Router } from 'express';
+import { Task } from '../app/models/task.model';
+import { ProjectFileStore } from './project-file.store';
+import { TaskAccessPolicy } from './task-access';
+import { TaskAttachmentFileStore } from './task-attachment-file.store';
+import { createTaskAttachmentsRouter } from './task-attachments.router';
+import { TaskEventBroadcaster } from './task-events';
+import { TaskFileStore } from './task-file.store';
+import {
+  TestApiError,
+  TestApiServer,
+  createTempDir,
+  removeTempDir,
+} from './testing/api-test-server';
+
+describe('createTaskAttachmentsRouter', () => {
+  const content = Buffer.from('Contenido del archivo');
+  const headers = { 'Content-Type': 'text/plain', 'X-File-Name': 'notas.txt' };
+  let dir: string;
+  let tasks: TaskFileStore;
+  let files: TaskAttachmentFileStore;
+  let api: TestApiServer;
+  let task: Task;
+
+  /**
+   * Listar los archivos guardados en el directorio de adjuntos
+   *
+   * @returns {Promise<string[]>} Los nombres de los archivos
+   */
+  function listFiles(): Promise<string[]> {
+    return readdir(join(dir, 'attachments')).catch(() => []);
+  }
+
+  beforeEach(async () => {
+    dir = await createTempDir();
+    tasks = new TaskFileStore(join(dir, 'tasks.json'));
+    files = new TaskAttachmentFileStore(join(dir, 'attachments'));
+    const projects = new ProjectFileStore(join(dir, 'projects.json'));
+    const project = await projects.create({ name: 'Equipo' }, 'owner');
+    await projects.update(
+      project.id,
+      { members: [{ userId: 'viewer', role: 'viewer' }] },
+      'owner'
+    );
+
+    const router = Router();
+    router.use(
+      '/:taskId/attachments',
+      createTaskAttachmentsRouter(
+        tasks,
+        files,
+        new TaskEventBroadcaster(),
+        new TaskAccessPolicy(projects)
+      )
+    );
+    api = await TestApiServer.start('/api/tasks', router);
+    task = await tasks.create(
+      { title: 'Tarea con adjuntos', projectId: project.id },
+      'owner',
+      'owner'
+    );
+  });
+
+  afterEach(async () => {
+    await api.close();
+    await removeTempDir(dir);
+  });
+
+  describe('POST /', () => {
+    it('should store the file and add it to the task', async () => {
+      const response = await api.request<Task>(
+        'POST',
+        `/${task.id}/attachments`,
+        'owner',
+        content,
+        headers
+      );
+
+      expect(response.status).toBe(201);
+      expect(response.body.attachments?.map((attachment) => attachment.name)).toEqual([
+        'notas.txt',
+      ]);
+      expect(await listFiles()).toEqual([response.body.attachments![0].id]);
+    });
+
+    it('should respond 403 to viewers', async () => {
+      const response = await api.request<TestApiError>(
+        'POST',
+        `/${task.id}/attachments`,
+        'viewer',
+        content,
+        headers
+      );
+
+      expect(response.status).toBe(403);
+      expect(await listFiles()).toEqual([]);
+    });
+
+    it('should respond 404 and remove the file when the task is deleted during the upload', async () => {
+      const addAttachment = tasks.addAttachment.bind(tasks);
+      spyOn(tasks, 'addAttachment').and.callFake(async (id, attachment) => {
+        await tasks.delete(id);
+        return addAttachment(id, attachment);
+      });
+
+      const response = await api.request<TestApiError>(
+        'POST',
+        `/${task.id}/attachments`,
+        'owner',
+        content,
+        headers
+      );
+
+      expect(response.status).toBe(404);
+      expect(await listFiles()).toEqual([]);
+    });
+  });
+
+  describe('DELETE /:attachmentId', () => {
+    it('should respond 404 when the task is deleted while the file is removed', async () => {
+      const upload = await api.request<Task>(
+        'POST',
+        `/${task.id}/attachments`,
+        'owner',
+        content,
+        headers
+      );
+      const attachmentId = upload.body.attachments![0].id;
+      const removeAttachment = tasks.removeAttachment.bind(tasks);
+      spyOn(tasks, 'removeAttachment').and.callFake(async (id, removedId) => {
+        await tasks.delete(id);
+        return removeAttachment(id, removedId);
+      });
+
+      const response = await api.request<TestApiError>(
+        'DELETE',
+        `/${task.id}/attachments/${attachmentId}`,
+        'owner'
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body.message).toBe('Tarea no encontrada');
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { randomUUID } from 'node:crypto';
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { Task } from '../app/models/task.model';
+import {
+  TaskAttachment,
+  getAttachmentMimeType,
+  isImageAttachment,
+} from '../app/models/task-attachment.model';
+import {
+  TASK_ATTACHMENT_MAX_SIZE,
+  TaskAttachmentValidationErrors,
+  validateTaskAttachmentUpload,
+} from '../app/validators/task-attachment.validator';
+import { TaskFileStore } from './task-file.store';
+import { TaskAttachmentFileStore } from './task-attachment-file.store';
+import { TaskEventBroadcaster } from './task-events';
+import { TaskAccessPolicy, TaskListAccess } from './task-access';
+import { getAuthenticatedUser } from './auth.middleware';
+
+/**
+ * Crear el router de la API REST de archivos adjuntos
+ *
+ * Expone los adjuntos de una tarea bajo la ruta donde se monte, que debe
+ * incluir el parámetro `:taskId` (normalmente `/api/tasks/:taskId/attachments`):
+ *
+ * - `POST   /`               Subir un archivo: el cuerpo es el contenido, `Content-Type`
+ *                            su tipo y `X-File-Name` su nombre codificado con `encodeURIComponent`
+ * - `GET    /:attachmentId`  Descargar un archivo
+ * - `DELETE /:attachmentId`  Eliminar un archivo
+ *
+ * Subir y eliminar responden con la tarea actualizada y difunden el cambio a
+ * los clientes suscritos. Los archivos de más de `TASK_ATTACHMENT_MAX_SIZE`
+ * se rechazan con 413 y los de tipo no admitido con 400, ambos con un cuerpo
+ * `{ message, errors }`. Las imágenes se sirven para mostrarse en línea y el
+ * resto como descarga.
+ *
+ * Requiere el middleware de autenticación: quien puede ver una tarea puede
+ * descargar sus adjuntos, y quien puede modificarla puede subirlos y
+ * eliminarlos (403 para los lectores).
+ *
+ * @param {TaskFileStore} tasks - Almacén de tareas, donde se guardan los metadatos de los adjuntos
+ * @param {TaskAttachmentFileStore} files - Almacén del contenido de los adjuntos
+ * @param {TaskEventBroadcaster} events - Difusor de cambios a los clientes conectados
+ * @param {TaskAccessPolicy} policy - Permisos de los usuarios sobre las tareas
+ * @returns {Router} Router de Express con los endpoints de adjuntos
+ */
+export function createTaskAttachmentsRouter(
+  tasks: TaskFileStore,
+  files: TaskAttachmentFileStore,
+  events: TaskEventBroadcaster,
+  policy: TaskAccessPolicy
+): Router {
+  const router = Router({ mergeParams: true });
+
+  router.post(
+    '/',
+    express.raw({ type: () => true, limit: TASK_ATTACHMENT_MAX_SIZE }),
+    (req, res, next) => {
+      const content: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const name = parseFileName(req.get('X-File-Name'));
+      const mimeType = getAttachmentMimeType(
+        name,
+        req.get('Content-Type')?.split(';')[0].trim().toLowerCase() ?? ''
+      );
+      const userId = getAuthenticatedUser(res).id;
+
+      findTask(tasks, policy, req, res, 'edit')
+        .then(async (found) => {
+          if (!found) {
+            return;
+          }
+
+          const upload = { name, mimeType, size: content.length };
+          const errors = validateTaskAttachmentUpload(
+            upload,
+            found.task.attachments?.length ?? 0
+          );
+          if (errors) {
+            sendValidationErrors(res, 400, errors);
+            return;
+          }
+
+          const attachment: TaskAttachment = {
+            id: randomUUID(),
+            ...upload,
+            uploadedBy: userId,
+            uploadedAt: new Date(),
+          };
+          await files.write(attachment.id, content);
+          const task = await tasks.addAttachment(found.task.id, attachment);
+          if (!task) {
+            // La tarea se eliminó mientras se guardaba el archivo
+            await files.delete([attachment.id]);
+            res.status(404).json({ message: 'Tarea no encontrada' });
+            return;
+          }
+          events.publish({ type: 'updated', task }, found.list.userIds);
+          res.status(201).json(task);
+        })
+        .catch(next);
+    }
+  );
+
+  router.get('/:attachmentId', (req, res, next) => {
+    findTask(tasks, policy, req, res, 'view')
+      .then(async (found) => {
+        if (!found) {
+          return;
+        }
+        const attachment = found.task.attachments?.find(
+          (a) => a.id === req.params.attachmentId
+        );
+        const content = attachment && (await files.read(attachment.id));
+        if (!attachment || !content) {
+          res.status(404).json({ message: 'Adjunto no encontrado' });
+          return;
+        }
+
+        res
+          .set({
+            'Content-Type': attachment.mimeType,
+            'Content-Disposition': getContentDisposition(attachment),
+            'X-Content-Type-Options': 'nosniff',
+            'Cache-Control': 'private, max-age=31536000, immutable',
+          })
+          .send(content);
+      })
+      .catch(next);
+  });
+
+  router.delete('/:attachmentId', (req, res, next) => {
+    findTask(tasks, policy, req, res, 'edit')
+      .then(async (found) => {
+        if (!found) {
+          return;
+        }
+        const attachmentId = req.params.attachmentId;
+        if (!found.task.attachments?.some((a) => a.id === attachmentId)) {
+          res.status(404).json({ message: 'Adjunto no encontrado' });
+          return;
+        }
+
+        const task = await tasks.removeAttachment(found.task.id, attachmentId);
+        if (!task) {
+          res.status(404).json({ message: 'Tarea no encontrada' });
+          return;
+        }
+        await files.delete([attachmentId]);
+        events.publish({ type: 'updated', task }, found.list.userIds);
+        res.json(task);
+      })
+      .catch(next);
+  });
+
+  router.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if ((error as { type?: string }).type === 'entity.too.large') {
+      sendValidationErrors(res, 413, {
+        size: {
+          code: 'maxlength',
+          message: `El archivo no puede superar los ${TASK_ATTACHMENT_MAX_SIZE / (1024 * 1024)} MB`,
+        },
+      });
+      return;
+    }
+    next(error);
+  });
+
+  return router;
+}
+
+/**
+ * Buscar la tarea de la ruta comprobando el acceso del usuario,
+ * respondiendo con el error si no
+ *
+ * @param {TaskFileStore} tasks - Almacén de tareas
+ * @param {TaskAccessPolicy} policy - Permisos de los usuarios sobre las tareas
+ * @param {Request} req - La petición, con el parámetro `taskId`
+ * @param {Response} res - La respuesta de Express
+ * @param {'view' | 'edit'} required - El acceso necesario
+ * @returns {Promise<{ task: Task; list: TaskListAccess } | null>} La tarea y su lista, o null si ya se respondió con 404 o 403
+ */
+async function findTask(
+  tasks: TaskFileStore,
+  policy: TaskAccessPolicy,
+  req: Request,
+  res: Response,
+  required: 'view' | 'edit'
+): Promise<{ task: Task; list: TaskListAccess } | null> {
+  const [task, access] = await Promise.all([
+    tasks.get(req.params['taskId']),
+    policy.forUser(getAuthenticatedUser(res).id),
+  ]);
+  const list = task && access.getTaskList(task);
+  if (!task || !list) {
+    res.status(404).json({ message: 'Tarea no encontrada' });
+    return null;
+  }
+  if (required === 'edit' && list.access === 'viewer') {
+    res
+      .status(403)
+      .json({ message: 'No tienes permiso para modificar las tareas de esta lista' });
+    return null;
+  }
+  return { task, list };
+}
+
+/**
+ * Obtener el nombre del archivo subido desde la cabecera `X-File-Name`
+ *
+ * @param {string | undefined} header - El valor de la cabecera
+ * @returns {string} El nombre decodificado, sin rutas ni caracteres de control
+ */
+function parseFileName(header: string | undefined): string {
+  let name = header ?? '';
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Se conserva el valor sin decodificar
+  }
+  return (name.split(/[\\/]/).pop() ?? '').replace(/[\u0000-\u001f\u007f]/g, '').trim();
+}
+
+/**
+ * Construir la cabecera `Content-Disposition` de un adjunto
+ *
+ * @param {TaskAttachment} attachment - El adjunto
+ * @returns {string} `inline` para las imágenes y `attachment` para el resto, con el nombre original
+ */
+function getContentDisposition(attachment: TaskAttachment): string {
+  const type = isImageAttachment(attachment) ? 'inline' : 'attachment';
+  const asciiName = attachment.name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encodedName = encodeURIComponent(attachment.name).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
+
+/**
+ * Responder con los errores de validación por campo
+ *
+ * @param {Response} res - La respuesta de Express
+ * @param {number} status - El código de estado (400 o 413)
+ * @param {TaskAttachmentValidationErrors} errors - Los errores por campo
+ * @returns {void}
+ */
+function sendValidationErrors(
+  res: Response,
+  status: number,
+  errors: TaskAttachmentValidationErrors
+): void {
+  res.status(status).json({ message: 'Archivo adjunto inválido', errors });
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+import {
+  CreateTaskCommentRequest,
+  TaskComment,
+  reviveTaskComment,
+} from '../app/models/task-comment.model';
+import { User } from '../app/models/user.model';
+import { JsonFileStore } from './json-file.store';
+
+/**
+ * Almacén de Comentarios de Tareas en Archivo JSON
+ *
+ * Mantiene los comentarios de las tareas en memoria y los escribe en un
+ * archivo JSON después de cada mutación, a través de `JsonFileStore`. Cada
+ * comentario guarda su autor (`authorId`); el router comprueba que solo él
+ * lo modifique.
+ *
+ * @class TaskCommentFileStore
+ */
+export class TaskCommentFileStore extends JsonFileStore<TaskComment> {
+  /**
+   * @param {string} filePath - Ruta del archivo JSON donde se guardan los comentarios
+   */
+  constructor(filePath: string) {
+    super(filePath, reviveTaskComment);
+  }
+
+  /**
+   * Listar los comentarios que cumplen un criterio
+   * @param {(comment: TaskComment) => boolean} predicate - El criterio
+   * @returns {Promise<TaskComment[]>} Promise que se resuelve con los comentarios, del más antiguo al más reciente
+   */
+  async list(predicate: (comment: TaskComment) => boolean): Promise<TaskComment[]> {
+    const comments = await this.load();
+    return comments.filter(predicate);
+  }
+
+  /**
+   * Obtener un comentario por ID
+   * @param {string} id - El ID del comentario
+   * @returns {Promise<TaskComment | null>} Promise que se resuelve con el comentario o null si no existe
+   */
+  async get(id: string): Promise<TaskComment | null> {
+    const comments = await this.load();
+    return comments.find((c) => c.id === id) ?? null;
+  }
+
+  /**
+   * Crear un nuevo comentario
+   * @param {CreateTaskCommentRequest} commentRequest - La tarea y el texto del comentario
+   * @param {User} author - El usuario que escribe el comentario
+   * @returns {Promise<TaskComment>} Promise que se resuelve con el comentario creado
+   */
+  async create(
+    commentRequest: CreateTaskCommentRequest,
+    author: User
+  ): Promise<TaskComment> {
+    const comments = await this.load();
+    const now = new Date();
+    const newComment: TaskComment = {
+      id: randomUUID(),
+      taskId: commentRequest.taskId,
+      text: commentRequest.text,
+      author: author.displayName,
+      authorId: author.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save([...comments, newComment]);
+    return newComment;
+  }
+
+  /**
+   * Cambiar el texto de un comentario existente
+   * @param {string} id - El ID del comentario
+   * @param {string} text - El nuevo texto
+   * @returns {Promise<TaskComment | null>} Promise que se resuelve con el comentario editado o null si no existe
+   */
+  async update(id: string, text: string): Promise<TaskComment | null> {
+    const comments = await this.load();
+    const existingComment = comments.find((c) => c.id === id);
+    if (!existingComment) {
+      return null;
+    }
+
+    const updatedComment: TaskComment = {
+      ...existingComment,
+      text,
+      updatedAt: new Date(),
+    };
+
+    await this.save(comments.map((c) => (c.id === id ? updatedComment : c)));
+    return updatedComment;
+  }
+
+  /**
+   * Eliminar un comentario por ID
+   * @param {string} id - El ID del comentario
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó
+   */
+  async delete(id: string): Promise<boolean> {
+    const comments = await this.load();
+    const filteredComments = comments.filter((c) => c.id !== id);
+    if (filteredComments.length === comments.length) {
+      return false;
+    }
+
+    await this.save(filteredComments);
+    return true;
+  }
+}
@@ -0,0 +1,171 @@
+import { join } from 'node:path';
+import { TaskComment } from '../app/models/task-comment.model';
+import { Task } from '../app/models/task.model';
+import { ProjectFileStore } from './project-file.store';
+import { TaskAccessPolicy } from './task-access';
+import { TaskCommentFileStore } from './task-comment-file.store';
+import { createTaskCommentsRouter } from './task-comments.router';
+import { TaskFileStore } from './task-file.store';
+import {
+  TestApiError,
+  TestApiServer,
+  createTempDir,
+  createTestUser,
+  removeTempDir,
+} from './testing/api-test-server';
+
+describe('createTaskCommentsRouter', () => {
+  let dir: string;
+  let comments: TaskCommentFileStore;
+  let api: TestApiServer;
+  let ownTask: Task;
+  let sharedTask: Task;
+  let ownerComment: TaskComment;
+
+  beforeEach(async () => {
+    dir = await createTempDir();
+    const tasks = new TaskFileStore(join(dir, 'tasks.json'));
+    const projects = new ProjectFileStore(join(dir, 'projects.json'));
+    comments = new TaskCommentFileStore(join(dir, 'task-comments.json'));
+    api = await TestApiServer.start(
+      '/api/task-comments',
+      createTaskCommentsRouter(comments, tasks, new TaskAccessPolicy(projects))
+    );
+
+    const project = await projects.create({ name: 'Equipo' }, 'owner');
+    await projects.update(
+      project.id,
+      { members: [{ userId: 'viewer', role: 'viewer' }] },
+      'owner'
+    );
+    ownTask = await tasks.create({ title: 'Tarea privada' }, 'owner', 'owner');
+    sharedTask = await tasks.create(
+      { title: 'Tarea compartida', projectId: project.id },
+      'owner',
+      'owner'
+    );
+    ownerComment = await comments.create(
+      { taskId: sharedTask.id, text: 'Comentario del propietario' },
+      createTestUser('owner')
+    );
+  });
+
+  afterEach(async () => {
+    await api.close();
+    await removeTempDir(dir);
+  });
+
+  describe('GET /', () => {
+    it('should list comments of shared tasks to their members', async () => {
+      const response = await api.request<TaskComment[]>(
+        'GET',
+        `/?taskId=${sharedTask.id}`,
+        'viewer'
+      );
+
+      expect(response.body.map((comment) => comment.id)).toEqual([ownerComment.id]);
+    });
+
+    it('should not list comments of tasks the user cannot view', async () => {
+      const response = await api.request<TaskComment[]>('GET', '/', 'stranger');
+
+      expect(response.body).toEqual([]);
+    });
+  });
+
+  describe('POST /', () => {
+    it('should reject empty comments with 400', async () => {
+      const response = await api.request<TestApiError>('POST', '/', 'owner', {
+        taskId: ownTask.id,
+        text: '   ',
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should respond 404 for tasks the user cannot view', async () => {
+      const response = await api.request<TestApiError>('POST', '/', 'viewer', {
+        taskId: ownTask.id,
+        text: 'Hola',
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should let viewers comment shared tasks', async () => {
+      const response = await api.request<TaskComment>('POST', '/', 'viewer', {
+        taskId: sharedTask.id,
+        text: 'Comentario del lector',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.authorId).toBe('viewer');
+    });
+  });
+
+  describe('PATCH /:id', () => {
+    it('should respond 404 for unknown comments', async () => {
+      const response = await api.request<TestApiError>('PATCH', '/unknown', 'owner', {
+        text: 'Editado',
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should respond 404 for comments on tasks the user cannot view', async () => {
+      const response = await api.request<TestApiError>('PATCH', `/${ownerComment.id}`, 'stranger', {
+        text: 'Editado',
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should respond 403 when editing a comment of another user', async () => {
+      const response = await api.request<TestApiError>('PATCH', `/${ownerComment.id}`, 'viewer', {
+        text: 'Editado',
+      });
+
+      expect(response.status).toBe(403);
+      expect((await comments.get(ownerComment.id))?.text).toBe('Comentario del propietario');
+    });
+
+    it('should let authors edit their comments', async () => {
+      const response = await api.request<TaskComment>('PATCH', `/${ownerComment.id}`, 'owner', {
+        text: 'Editado',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.text).toBe('Editado');
+    });
+
+    it('should respond 404 when the comment is deleted while it is edited', async () => {
+      const update = comments.update.bind(comments);
+      spyOn(comments, 'update').and.callFake(async (id, text) => {
+        await comments.delete(id);
+        return update(id, text);
+      });
+
+      const response = await api.request<TestApiError>('PATCH', `/${ownerComment.id}`, 'owner', {
+        text: 'Editado',
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should respond 403 when deleting a comment of another user', async () => {
+      const response = await api.request<TestApiError>('DELETE', `/${ownerComment.id}`, 'viewer');
+
+      expect(response.status).toBe(403);
+      expect(await comments.get(ownerComment.id)).not.toBeNull();
+    });
+
+    it('should let authors delete their comments', async () => {
+      const response = await api.request<null>('DELETE', `/${ownerComment.id}`, 'owner');
+
+      expect(response.status).toBe(204);
+      expect(await comments.get(ownerComment.id)).toBeNull();
+    });
+  });
+});
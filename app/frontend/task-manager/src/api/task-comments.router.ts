@@ -0,0 +1,148 @@
+import { Response, Router } from 'express';
+import { TaskComment } from '../app/models/task-comment.model';
+import {
+  validateCreateTaskCommentRequest,
+  validateUpdateTaskCommentRequest,
+} from '../app/validators/task-comment.validator';
+import { TaskCommentFileStore } from './task-comment-file.store';
+import { TaskFileStore } from './task-file.store';
+import { TaskAccessPolicy } from './task-access';
+import { getAuthenticatedUser } from './auth.middleware';
+
+/**
+ * Crear el router de la API REST de comentarios de tareas
+ *
+ * Expone los comentarios bajo la ruta donde se monte
+ * (normalmente `/api/task-comments`):
+ *
+ * - `GET    /`     Listar los comentarios; `?taskId=` filtra los de una tarea
+ * - `POST   /`     Comentar una tarea (`CreateTaskCommentRequest`)
+ * - `PATCH  /:id`  Editar el texto de un comentario (`UpdateTaskCommentRequest`)
+ * - `DELETE /:id`  Eliminar un comentario
+ *
+ * Requiere el middleware de autenticación: cualquier usuario que pueda ver una
+ * tarea (también los lectores de un proyecto compartido) puede leer y escribir
+ * sus comentarios, pero solo el autor de un comentario puede editarlo o
+ * eliminarlo (403 para los demás).
+ *
+ * @param {TaskCommentFileStore} store - Almacén donde se persisten los comentarios
+ * @param {TaskFileStore} tasks - Almacén de tareas, para comprobar el acceso a cada tarea
+ * @param {TaskAccessPolicy} policy - Permisos de los usuarios sobre las tareas
+ * @returns {Router} Router de Express con los endpoints de comentarios
+ */
+export function createTaskCommentsRouter(
+  store: TaskCommentFileStore,
+  tasks: TaskFileStore,
+  policy: TaskAccessPolicy
+): Router {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    const taskId = typeof req.query['taskId'] === 'string' ? req.query['taskId'] : undefined;
+    policy
+      .forUser(getAuthenticatedUser(res).id)
+      .then(async (access) => {
+        const visibleTasks = await tasks.list(
+          (task) => (!taskId || task.id === taskId) && access.canView(task)
+        );
+        const visibleTaskIds = new Set(visibleTasks.map((task) => task.id));
+        return store.list((comment) => visibleTaskIds.has(comment.taskId));
+      })
+      .then((comments) => res.json(comments))
+      .catch(next);
+  });
+
+  router.post('/', (req, res, next) => {
+    const body = req.body ?? {};
+    const errors = validateCreateTaskCommentRequest(body);
+    if (errors) {
+      res.status(400).json({ message: 'Datos de comentario inválidos', errors });
+      return;
+    }
+
+    const user = getAuthenticatedUser(res);
+    Promise.all([tasks.get(body.taskId), policy.forUser(user.id)])
+      .then(async ([task, access]) => {
+        if (!task || !access.canView(task)) {
+          res.status(404).json({ message: 'Tarea no encontrada' });
+          return;
+        }
+
+        const comment = await store.create(
+          { taskId: task.id, text: body.text.trim() },
+          user
+        );
+        res.status(201).json(comment);
+      })
+      .catch(next);
+  });
+
+  router.patch('/:id', (req, res, next) => {
+    const body = req.body ?? {};
+    const errors = validateUpdateTaskCommentRequest(body);
+    if (errors) {
+      res.status(400).json({ message: 'Datos de comentario inválidos', errors });
+      return;
+    }
+
+    findOwnComment(store, tasks, policy, req.params.id, res)
+      .then(async (comment) => {
+        if (!comment) {
+          return;
+        }
+        const updatedComment = await store.update(comment.id, body.text.trim());
+        if (!updatedComment) {
+          res.status(404).json({ message: 'Comentario no encontrado' });
+          return;
+        }
+        res.json(updatedComment);
+      })
+      .catch(next);
+  });
+
+  router.delete('/:id', (req, res, next) => {
+    findOwnComment(store, tasks, policy, req.params.id, res)
+      .then(async (comment) => {
+        if (comment) {
+          await store.delete(comment.id);
+          res.status(204).end();
+        }
+      })
+      .catch(next);
+  });
+
+  return router;
+}
+
+/**
+ * Buscar un comentario que el usuario puede modificar, respondiendo con el error si no
+ *
+ * @param {TaskCommentFileStore} store - Almacén de comentarios
+ * @param {TaskFileStore} tasks - Almacén de tareas
+ * @param {TaskAccessPolicy} policy - Permisos de los usuarios sobre las tareas
+ * @param {string} id - El ID del comentario
+ * @param {Response} res - La respuesta de Express
+ * @returns {Promise<TaskComment | null>} El comentario, o null si ya se respondió con 404 o 403
+ */
+async function findOwnComment(
+  store: TaskCommentFileStore,
+  tasks: TaskFileStore,
+  policy: TaskAccessPolicy,
+  id: string,
+  res: Response
+): Promise<TaskComment | null> {
+  const userId = getAuthenticatedUser(res).id;
+  const comment = await store.get(id);
+  const task = comment && (await tasks.get(comment.taskId));
+  if (!comment || !task || !(await policy.forUser(userId)).canView(task)) {
+    res.status(404).json({ message: 'Comentario no encontrado' });
+    return null;
+  }
+  if (comment.authorId !== userId) {
+    res
+      .status(403)
+      .json({ message: 'Solo el autor puede modificar el comentario' });
+    return null;
+  }
+  return comment;
+}
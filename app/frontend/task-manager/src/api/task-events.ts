@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { TaskChangeEvent } from '../app/models/task-event.model';
+
+/**
+ * Difusor de Eventos de Tareas
+ *
+ * Mantiene las conexiones Server-Sent Events abiertas por los clientes y
+ * les envía los cambios de las tareas a las que tiene acceso su usuario.
+ *
+ * @class TaskEventBroadcaster
+ */
+export class TaskEventBroadcaster {
+  /**
+   * Respuestas abiertas de los clientes suscritos, con el ID de su usuario
+   * @private
+   */
+  private readonly clients = new Map<Response, string>();
+
+  /**
+   * @param {number} heartbeatMs - Intervalo de los comentarios que mantienen viva la conexión
+   */
+  constructor(private readonly heartbeatMs = 30000) {}
+
+  /**
+   * Abrir un flujo de eventos para un cliente
+   *
+   * @param {Request} req - La petición del cliente
+   * @param {Response} res - La respuesta que se mantiene abierta
+   * @param {TaskChangeEvent} initialEvent - Evento enviado nada más conectarse
+   * @param {string} userId - El ID del usuario del cliente
+   * @returns {void}
+   */
+  subscribe(
+    req: Request,
+    res: Response,
+    initialEvent: TaskChangeEvent,
+    userId: string
+  ): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    this.send(res, initialEvent);
+    this.clients.set(res, userId);
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), this.heartbeatMs);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      this.clients.delete(res);
+    });
+  }
+
+  /**
+   * Enviar un evento a los clientes conectados de varios usuarios
+   *
+   * @param {TaskChangeEvent} event - El evento a difundir
+   * @param {string[]} userIds - Los IDs de los usuarios afectados
+   * @returns {void}
+   */
+  publish(event: TaskChangeEvent, userIds: string[]): void {
+    this.clients.forEach((clientUserId, res) => {
+      if (userIds.includes(clientUserId)) {
+        this.send(res, event);
+      }
+    });
+  }
+
+  /**
+   * Escribir un evento en formato SSE
+   * @private
+   * @param {Response} res - La respuesta del cliente
+   * @param {TaskChangeEvent} event - El evento a enviar
+   * @returns {void}
+   */
+  private send(res: Response, event: TaskChangeEvent): void {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  }
+}
@@ -0,0 +1,241 @@
+import { randomUUID } from 'node:crypto';
+import {
+  Task,
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  reviveTask,
+} from '../app/models/task.model';
+import { TaskAttachment } from '../app/models/task-attachment.model';
+import { JsonFileStore } from './json-file.store';
+
+/**
+ * Almacén de Tareas en Archivo JSON
+ *
+ * Mantiene las tareas de la API en memoria y las escribe en un archivo JSON
+ * después de cada mutación, a través de `JsonFileStore`.
+ * Cada tarea pertenece al propietario de su lista (`ownerId`) y recuerda quién
+ * la creó (`createdBy`). El almacén no comprueba permisos: los routers filtran
+ * y autorizan cada operación con `UserTaskAccess`.
+ *
+ * @class TaskFileStore
+ */
+export class TaskFileStore extends JsonFileStore<Task> {
+  /**
+   * @param {string} filePath - Ruta del archivo JSON donde se guardan las tareas
+   */
+  constructor(filePath: string) {
+    super(filePath, reviveTask);
+  }
+
+  /**
+   * Listar las tareas que cumplen un criterio
+   * @param {(task: Task) => boolean} predicate - El criterio (p. ej. `access.canView`)
+   * @returns {Promise<Task[]>} Promise que se resuelve con las tareas
+   */
+  async list(predicate: (task: Task) => boolean): Promise<Task[]> {
+    const tasks = await this.load();
+    return tasks.filter(predicate);
+  }
+
+  /**
+   * Obtener una tarea por ID
+   * @param {string} id - El ID de la tarea
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea o null si no existe
+   */
+  async get(id: string): Promise<Task | null> {
+    const tasks = await this.load();
+    return tasks.find((t) => t.id === id) ?? null;
+  }
+
+  /**
+   * Crear una nueva tarea
+   * @param {CreateTaskRequest} taskRequest - Los datos de la tarea a crear
+   * @param {string} ownerId - El ID del propietario de la lista de la tarea
+   * @param {string} createdBy - El ID del usuario que la crea
+   * @returns {Promise<Task>} Promise que se resuelve con la tarea creada
+   */
+  async create(
+    taskRequest: CreateTaskRequest,
+    ownerId: string,
+    createdBy: string
+  ): Promise<Task> {
+    const tasks = await this.load();
+    const now = new Date();
+    const newTask: Task = {
+      id: randomUUID(),
+      ownerId,
+      createdBy,
+      assigneeId: taskRequest.assigneeId,
+      title: taskRequest.title,
+      description: taskRequest.description || '',
+      completed: taskRequest.completed ?? false,
+      status: taskRequest.status,
+      priority: taskRequest.priority || 'medium',
+      createdAt: now,
+      updatedAt: now,
+      dueDate: taskRequest.dueDate,
+      dueTime: taskRequest.dueTime,
+      reminders: taskRequest.reminders,
+      subtasks: taskRequest.subtasks,
+      tags: taskRequest.tags,
+      projectId: taskRequest.projectId,
+      order: taskRequest.order,
+      recurrence: taskRequest.recurrence,
+      blockedBy: taskRequest.blockedBy,
+    };
+
+    await this.save([...tasks, newTask]);
+    return newTask;
+  }
+
+  /**
+   * Actualizar parcialmente una tarea existente
+   * @param {string} id - El ID de la tarea a actualizar
+   * @param {UpdateTaskRequest} updateRequest - Los campos a modificar
+   * @param {string | undefined} ownerId - Nuevo propietario, al moverla a una lista de otro usuario
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no existe
+   */
+  async update(
+    id: string,
+    updateRequest: UpdateTaskRequest,
+    ownerId?: string
+  ): Promise<Task | null> {
+    const tasks = await this.load();
+    const existingTask = tasks.find((t) => t.id === id);
+    if (!existingTask) {
+      return null;
+    }
+
+    const {
+      dueDate,
+      deletedAt,
+      projectId,
+      recurrence,
+      dueTime,
+      assigneeId,
+      ...changes
+    } = updateRequest;
+    const updatedTask: Task = {
+      ...existingTask,
+      ...changes,
+      ownerId: ownerId ?? existingTask.ownerId,
+      updatedAt: new Date(),
+    };
+    if (deletedAt !== undefined) {
+      updatedTask.deletedAt = deletedAt ?? undefined;
+    }
+    if (projectId !== undefined) {
+      updatedTask.projectId = projectId ?? undefined;
+    }
+    if (dueDate !== undefined) {
+      updatedTask.dueDate = dueDate ?? undefined;
+    }
+    if (dueTime !== undefined) {
+      updatedTask.dueTime = dueTime ?? undefined;
+    }
+    if (recurrence !== undefined) {
+      updatedTask.recurrence = recurrence ?? undefined;
+    }
+    if (assigneeId !== undefined) {
+      updatedTask.assigneeId = assigneeId ?? undefined;
+    }
+
+    await this.save(tasks.map((t) => (t.id === id ? updatedTask : t)));
+    return updatedTask;
+  }
+
+  /**
+   * Añadir un archivo adjunto a una tarea
+   * @param {string} id - El ID de la tarea
+   * @param {TaskAttachment} attachment - Los metadatos del adjunto
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no existe
+   */
+  async addAttachment(id: string, attachment: TaskAttachment): Promise<Task | null> {
+    return this.updateAttachments(id, (attachments) => [...attachments, attachment]);
+  }
+
+  /**
+   * Quitar un archivo adjunto de una tarea
+   * @param {string} id - El ID de la tarea
+   * @param {string} attachmentId - El ID del adjunto
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no existe
+   */
+  async removeAttachment(id: string, attachmentId: string): Promise<Task | null> {
+    return this.updateAttachments(id, (attachments) =>
+      attachments.filter((attachment) => attachment.id !== attachmentId)
+    );
+  }
+
+  /**
+   * Eliminar una tarea por ID
+   * @param {string} id - El ID de la tarea a eliminar
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó
+   */
+  async delete(id: string): Promise<boolean> {
+    const tasks = await this.load();
+    const filteredTasks = tasks.filter((t) => t.id !== id);
+    if (filteredTasks.length === tasks.length) {
+      return false;
+    }
+
+    await this.save(filteredTasks);
+    return true;
+  }
+
+  /**
+   * Eliminar todas las tareas que cumplen un criterio
+   * @param {(task: Task) => boolean} predicate - El criterio
+   * @returns {Promise<Task[]>} Promise que se resuelve con las tareas eliminadas
+   */
+  async clear(predicate: (task: Task) => boolean): Promise<Task[]> {
+    const tasks = await this.load();
+    const removedTasks = tasks.filter(predicate);
+    if (removedTasks.length) {
+      await this.save(tasks.filter((t) => !predicate(t)));
+    }
+    return removedTasks;
+  }
+
+  /**
+   * Asignar a un usuario las tareas sin propietario (creadas antes de existir cuentas)
+   * @param {string} ownerId - El ID del usuario
+   * @returns {Promise<number>} Promise que se resuelve con el número de tareas asignadas
+   */
+  async claimUnowned(ownerId: string): Promise<number> {
+    const tasks = await this.load();
+    const unownedCount = tasks.filter((t) => !t.ownerId).length;
+    if (unownedCount) {
+      await this.save(
+        tasks.map((t) => (t.ownerId ? t : { ...t, ownerId, createdBy: ownerId }))
+      );
+    }
+    return unownedCount;
+  }
+
+  /**
+   * Reemplazar los adjuntos de una tarea y marcarla como actualizada
+   * @private
+   * @param {string} id - El ID de la tarea
+   * @param {(attachments: TaskAttachment[]) => TaskAttachment[]} change - Cálculo de los nuevos adjuntos
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no existe
+   */
+  private async updateAttachments(
+    id: string,
+    change: (attachments: TaskAttachment[]) => TaskAttachment[]
+  ): Promise<Task | null> {
+    const tasks = await this.load();
+    const existingTask = tasks.find((t) => t.id === id);
+    if (!existingTask) {
+      return null;
+    }
+
+    const attachments = change(existingTask.attachments ?? []);
+    const updatedTask: Task = {
+      ...existingTask,
+      attachments: attachments.length ? attachments : undefined,
+      updatedAt: new Date(),
+    };
+    await this.save(tasks.map((t) => (t.id === id ? updatedTask : t)));
+    return updatedTask;
+  }
+}
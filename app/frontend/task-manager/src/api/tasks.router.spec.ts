@@ -0,0 +1,207 @@
+import { join } from 'node:path';
+import { Task } from '../app/models/task.model';
+import { ProjectFileStore } from './project-file.store';
+import { TaskAccessPolicy } from './task-access';
+import { TaskAttachmentFileStore } from './task-attachment-file.store';
+import { TaskEventBroadcaster } from './task-events';
+import { TaskFileStore } from './task-file.store';
+import { createTasksRouter } from './tasks.router';
+import {
+  TestApiError,
+  TestApiServer,
+  createTempDir,
+  removeTempDir,
+} from './testing/api-test-server';
+
+describe('createTasksRouter', () => {
+  let dir: string;
+  let tasks: TaskFileStore;
+  let projects: ProjectFileStore;
+  let api: TestApiServer;
+  let projectId: string;
+  let ownTask: Task;
+  let sharedTask: Task;
+
+  beforeEach(async () => {
+    dir = await createTempDir();
+    tasks = new TaskFileStore(join(dir, 'tasks.json'));
+    projects = new ProjectFileStore(join(dir, 'projects.json'));
+    api = await TestApiServer.start(
+      '/api/tasks',
+      createTasksRouter(
+        tasks,
+        new TaskEventBroadcaster(),
+        new TaskAccessPolicy(projects),
+        new TaskAttachmentFileStore(join(dir, 'attachments'))
+      )
+    );
+
+    const project = await projects.create({ name: 'Equipo' }, 'owner');
+    await projects.update(
+      project.id,
+      {
+        members: [
+          { userId: 'editor', role: 'editor' },
+          { userId: 'viewer', role: 'viewer' },
+        ],
+      },
+      'owner'
+    );
+    projectId = project.id;
+    ownTask = await tasks.create({ title: 'Tarea privada' }, 'owner', 'owner');
+    sharedTask = await tasks.create({ title: 'Tarea compartida', projectId }, 'owner', 'owner');
+  });
+
+  afterEach(async () => {
+    await api.close();
+    await removeTempDir(dir);
+  });
+
+  describe('GET /', () => {
+    it('should list only the tasks the user can view', async () => {
+      const response = await api.request<Task[]>('GET', '/', 'viewer');
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((task) => task.id)).toEqual([sharedTask.id]);
+    });
+  });
+
+  describe('GET /:id', () => {
+    it('should respond 404 for tasks of other users', async () => {
+      const response = await api.request<TestApiError>('GET', `/${ownTask.id}`, 'editor');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should respond 404 for unknown tasks', async () => {
+      const response = await api.request<TestApiError>('GET', '/unknown', 'owner');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return tasks of projects shared with the user', async () => {
+      const response = await api.request<Task>('GET', `/${sharedTask.id}`, 'viewer');
+
+      expect(response.status).toBe(200);
+      expect(response.body.title).toBe('Tarea compartida');
+    });
+  });
+
+  describe('POST /', () => {
+    it('should reject invalid tasks with 400', async () => {
+      const response = await api.request<TestApiError>('POST', '/', 'owner', { title: 'x' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors?.['title']?.code).toBe('minlength');
+    });
+
+    it('should respond 403 when a viewer creates a task in the shared project', async () => {
+      const response = await api.request<TestApiError>('POST', '/', 'viewer', {
+        title: 'Nueva tarea',
+        projectId,
+      });
+
+      expect(response.status).toBe(403);
+      expect((await tasks.list(() => true)).length).toBe(2);
+    });
+
+    it('should create tasks of a shared project on behalf of its owner', async () => {
+      const response = await api.request<Task>('POST', '/', 'editor', {
+        title: 'Nueva tarea',
+        projectId,
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.ownerId).toBe('owner');
+      expect(response.body.createdBy).toBe('editor');
+    });
+  });
+
+  describe('PATCH /:id', () => {
+    it('should respond 404 for tasks of other users', async () => {
+      const response = await api.request<TestApiError>('PATCH', `/${ownTask.id}`, 'editor', {
+        title: 'Cambiada',
+      });
+
+      expect(response.status).toBe(404);
+      expect((await tasks.get(ownTask.id))?.title).toBe('Tarea privada');
+    });
+
+    it('should respond 403 when a viewer updates a shared task', async () => {
+      const response = await api.request<TestApiError>('PATCH', `/${sharedTask.id}`, 'viewer', {
+        completed: true,
+      });
+
+      expect(response.status).toBe(403);
+      expect((await tasks.get(sharedTask.id))?.completed).toBeFalse();
+    });
+
+    it('should let editors update shared tasks', async () => {
+      const response = await api.request<Task>('PATCH', `/${sharedTask.id}`, 'editor', {
+        completed: true,
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.completed).toBeTrue();
+    });
+
+    it('should reject assignees without access to the list', async () => {
+      const response = await api.request<TestApiError>('PATCH', `/${sharedTask.id}`, 'owner', {
+        assigneeId: 'stranger',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors?.['assigneeId']?.code).toBe('invalid');
+    });
+
+    it('should respond 404 when the task is deleted while it is updated', async () => {
+      const update = tasks.update.bind(tasks);
+      spyOn(tasks, 'update').and.callFake(async (id, updateRequest, ownerId) => {
+        await tasks.delete(id);
+        return update(id, updateRequest, ownerId);
+      });
+
+      const response = await api.request<TestApiError>('PATCH', `/${ownTask.id}`, 'owner', {
+        completed: true,
+      });
+
+      expect(response.status).toBe(404);
+      expect(response.body.message).toBe('Tarea no encontrada');
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should respond 404 for tasks of other users', async () => {
+      const response = await api.request<TestApiError>('DELETE', `/${ownTask.id}`, 'viewer');
+
+      expect(response.status).toBe(404);
+      expect(await tasks.get(ownTask.id)).not.toBeNull();
+    });
+
+    it('should respond 403 when a viewer deletes a shared task', async () => {
+      const response = await api.request<TestApiError>('DELETE', `/${sharedTask.id}`, 'viewer');
+
+      expect(response.status).toBe(403);
+      expect(await tasks.get(sharedTask.id)).not.toBeNull();
+    });
+
+    it('should let the owner delete their tasks', async () => {
+      const response = await api.request<null>('DELETE', `/${ownTask.id}`, 'owner');
+
+      expect(response.status).toBe(204);
+      expect(await tasks.get(ownTask.id)).toBeNull();
+    });
+  });
+
+  describe('DELETE /', () => {
+    it('should only clear the tasks owned by the user', async () => {
+      const editorTask = await tasks.create({ title: 'Tarea del editor' }, 'editor', 'editor');
+
+      const response = await api.request<null>('DELETE', '/', 'editor');
+
+      expect(response.status).toBe(204);
+      expect(await tasks.get(editorTask.id)).toBeNull();
+      expect((await tasks.list(() => true)).length).toBe(2);
+    });
+  });
+});
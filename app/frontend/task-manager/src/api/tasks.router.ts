@@ -0,0 +1,369 @@
+import { Response, Router } from 'express';
+import {
+  CreateTaskRequest,
+  Subtask,
+  Task,
+  UpdateTaskRequest,
+  normalizeTags,
+} from '../app/models/task.model';
+import { TaskRecurrence } from '../app/models/task-recurrence.model';
+import {
+  TaskValidationErrors,
+  parseTaskDate,
+  validateCreateTaskRequest,
+  validateUpdateTaskRequest,
+} from '../app/validators/task.validator';
+import { TaskFileStore } from './task-file.store';
+import { TaskAttachmentFileStore } from './task-attachment-file.store';
+import { TaskEventBroadcaster } from './task-events';
+import { TaskAccessPolicy, TaskListAccess } from './task-access';
+import { getAuthenticatedUser } from './auth.middleware';
+
+/**
+ * Crear el router de la API REST de tareas
+ *
+ * Expone las operaciones CRUD de tareas bajo la ruta donde se monte
+ * (normalmente `/api/tasks`):
+ *
+ * - `GET    /`     Listar todas las tareas
+ * - `GET    /events` Flujo Server-Sent Events con los cambios (`TaskChangeEvent`)
+ * - `GET    /:id`  Obtener una tarea
+ * - `POST   /`     Crear una tarea (`CreateTaskRequest`)
+ * - `PATCH  /:id`  Actualizar una tarea (`UpdateTaskRequest`); `deletedAt` la envía a la papelera o la restaura
+ * - `DELETE /:id`  Eliminar una tarea definitivamente, junto con sus archivos adjuntos
+ * - `DELETE /`     Eliminar todas las tareas
+ *
+ * Los datos inválidos se rechazan con 400 y un cuerpo
+ * `{ message, errors }`, donde `errors` es un `TaskValidationErrors`.
+ *
+ * Requiere el middleware de autenticación. Cada usuario ve sus tareas y las
+ * de los proyectos compartidos con él; los lectores no pueden crearlas,
+ * modificarlas ni eliminarlas (403). Las tareas de otros usuarios responden
+ * 404. Cada mutación se difunde a los clientes suscritos a `/events` de los
+ * usuarios con acceso a la lista de la tarea, y `DELETE /` solo elimina las
+ * tareas de las listas propias del usuario.
+ *
+ * @param {TaskFileStore} store - Almacén donde se persisten las tareas
+ * @param {TaskEventBroadcaster} events - Difusor de cambios a los clientes conectados
+ * @param {TaskAccessPolicy} policy - Permisos de los usuarios sobre las tareas
+ * @param {TaskAttachmentFileStore} attachments - Almacén del contenido de los adjuntos de las tareas
+ * @returns {Router} Router de Express con los endpoints de tareas
+ */
+export function createTasksRouter(
+  store: TaskFileStore,
+  events: TaskEventBroadcaster,
+  policy: TaskAccessPolicy,
+  attachments: TaskAttachmentFileStore
+): Router {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    policy
+      .forUser(getAuthenticatedUser(res).id)
+      .then((access) => store.list((task) => access.canView(task)))
+      .then((tasks) => res.json(tasks))
+      .catch(next);
+  });
+
+  router.get('/events', (req, res, next) => {
+    const userId = getAuthenticatedUser(res).id;
+    policy
+      .forUser(userId)
+      .then((access) => store.list((task) => access.canView(task)))
+      .then((tasks) => events.subscribe(req, res, { type: 'snapshot', tasks }, userId))
+      .catch(next);
+  });
+
+  router.get('/:id', (req, res, next) => {
+    Promise.all([store.get(req.params.id), policy.forUser(getAuthenticatedUser(res).id)])
+      .then(([task, access]) =>
+        task && access.canView(task)
+          ? res.json(task)
+          : res.status(404).json({ message: 'Tarea no encontrada' })
+      )
+      .catch(next);
+  });
+
+  router.post('/', (req, res, next) => {
+    const body = req.body ?? {};
+    const errors = validateCreateTaskRequest(body);
+    if (errors) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+
+    const taskRequest: CreateTaskRequest = {
+      title: body.title.trim(),
+      description: body.description ?? undefined,
+      completed: body.completed,
+      priority: body.priority,
+      status: body.status,
+      dueDate: parseTaskDate(body.dueDate),
+      dueTime: body.dueTime ?? undefined,
+      reminders: body.reminders,
+      subtasks: body.subtasks ? parseSubtasks(body.subtasks) : undefined,
+      tags: body.tags ? normalizeTags(body.tags) : undefined,
+      projectId: body.projectId ?? undefined,
+      assigneeId: body.assigneeId ?? undefined,
+      order: body.order,
+      recurrence: body.recurrence ? parseRecurrence(body.recurrence) : undefined,
+      blockedBy: body.blockedBy?.length ? [...new Set<string>(body.blockedBy)] : undefined,
+    };
+
+    const userId = getAuthenticatedUser(res).id;
+    policy
+      .forUser(userId)
+      .then(async (access) => {
+        const list = access.getList(taskRequest.projectId);
+        if (!checkListAccess(res, list, taskRequest.assigneeId)) {
+          return;
+        }
+
+        const task = await store.create(taskRequest, list.ownerId, userId);
+        events.publish({ type: 'created', task }, list.userIds);
+        res.status(201).json(task);
+      })
+      .catch(next);
+  });
+
+  router.patch('/:id', (req, res, next) => {
+    const body = req.body ?? {};
+    const errors = validateUpdateTaskRequest(body);
+    if (errors) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+
+    const updateRequest: UpdateTaskRequest = {};
+    if (body.title !== undefined) updateRequest.title = body.title.trim();
+    if (body.description !== undefined) updateRequest.description = body.description;
+    if (body.completed !== undefined) updateRequest.completed = body.completed;
+    if (body.priority !== undefined) updateRequest.priority = body.priority;
+    if (body.status !== undefined) updateRequest.status = body.status;
+    if (body.dueDate !== undefined) {
+      updateRequest.dueDate = parseTaskDate(body.dueDate) ?? null;
+    }
+    if (body.dueTime !== undefined) updateRequest.dueTime = body.dueTime;
+    if (body.reminders !== undefined) updateRequest.reminders = body.reminders;
+    if (body.deletedAt !== undefined) {
+      updateRequest.deletedAt = parseTaskDate(body.deletedAt) ?? null;
+    }
+    if (body.subtasks !== undefined) {
+      updateRequest.subtasks = parseSubtasks(body.subtasks);
+    }
+    if (body.tags !== undefined) updateRequest.tags = normalizeTags(body.tags);
+    if (body.projectId !== undefined) updateRequest.projectId = body.projectId;
+    if (body.assigneeId !== undefined) updateRequest.assigneeId = body.assigneeId;
+    if (body.order !== undefined) updateRequest.order = body.order;
+    if (body.recurrence !== undefined) {
+      updateRequest.recurrence = body.recurrence && parseRecurrence(body.recurrence);
+    }
+    if (body.blockedBy !== undefined) {
+      updateRequest.blockedBy = [...new Set<string>(body.blockedBy)];
+    }
+
+    Promise.all([store.get(req.params.id), policy.forUser(getAuthenticatedUser(res).id)])
+      .then(async ([existingTask, access]) => {
+        const currentList = existingTask && access.getTaskList(existingTask);
+        if (!existingTask || !checkTaskAccess(res, currentList)) {
+          return;
+        }
+
+        const list =
+          updateRequest.projectId === undefined
+            ? currentList
+            : access.getList(updateRequest.projectId);
+        // Al cambiar de lista, el responsable sin acceso a la nueva deja de serlo
+        const keepsAssignee =
+          updateRequest.assigneeId === undefined ||
+          (updateRequest.assigneeId ?? undefined) === existingTask.assigneeId;
+        if (
+          keepsAssignee &&
+          existingTask.assigneeId &&
+          !list.userIds.includes(existingTask.assigneeId)
+        ) {
+          updateRequest.assigneeId = null;
+        }
+        if (!checkListAccess(res, list, updateRequest.assigneeId ?? undefined)) {
+          return;
+        }
+
+        const task = await store.update(existingTask.id, updateRequest, list.ownerId);
+        if (!task) {
+          res.status(404).json({ message: 'Tarea no encontrada' });
+          return;
+        }
+        events.publish({ type: 'updated', task }, list.userIds);
+        publishRemoval(
+          events,
+          task,
+          currentList.userIds.filter((userId) => !list.userIds.includes(userId))
+        );
+        res.json(task);
+      })
+      .catch(next);
+  });
+
+  router.delete('/:id', (req, res, next) => {
+    Promise.all([store.get(req.params.id), policy.forUser(getAuthenticatedUser(res).id)])
+      .then(async ([task, access]) => {
+        const list = task && access.getTaskList(task);
+        if (!task || !checkTaskAccess(res, list)) {
+          return;
+        }
+
+        await store.delete(task.id);
+        await deleteAttachmentFiles(attachments, [task]);
+        publishRemoval(events, task, list.userIds);
+        res.status(204).end();
+      })
+      .catch(next);
+  });
+
+  router.delete('/', (req, res, next) => {
+    const userId = getAuthenticatedUser(res).id;
+    policy
+      .forUser(userId)
+      .then(async (access) => {
+        const removedTasks = await store.clear((task) => task.ownerId === userId);
+        await deleteAttachmentFiles(attachments, removedTasks);
+        removedTasks.forEach((task) =>
+          publishRemoval(events, task, access.getTaskList(task)?.userIds ?? [userId])
+        );
+        res.status(204).end();
+      })
+      .catch(next);
+  });
+
+  return router;
+}
+
+/**
+ * Comprobar que el usuario puede ver y modificar una tarea existente,
+ * respondiendo con el error si no
+ *
+ * @param {Response} res - La respuesta de Express
+ * @param {TaskListAccess | null} list - La lista de la tarea (null si el usuario no puede verla)
+ * @returns {boolean} true si puede modificarla; false si ya se respondió con 404 o 403
+ */
+function checkTaskAccess(
+  res: Response,
+  list: TaskListAccess | null
+): list is TaskListAccess {
+  if (!list) {
+    res.status(404).json({ message: 'Tarea no encontrada' });
+    return false;
+  }
+  return checkListAccess(res, list);
+}
+
+/**
+ * Comprobar que el usuario puede modificar las tareas de una lista y que el
+ * responsable tiene acceso a ella, respondiendo con el error si no
+ *
+ * @param {Response} res - La respuesta de Express
+ * @param {TaskListAccess} list - La lista de destino
+ * @param {string | undefined} assigneeId - El responsable indicado, si lo hay
+ * @returns {boolean} true si la operación está permitida; false si ya se respondió con 403 o 400
+ */
+function checkListAccess(
+  res: Response,
+  list: TaskListAccess,
+  assigneeId?: string
+): boolean {
+  if (list.access === 'viewer') {
+    res
+      .status(403)
+      .json({ message: 'No tienes permiso para modificar las tareas de esta lista' });
+    return false;
+  }
+  if (assigneeId && !list.userIds.includes(assigneeId)) {
+    sendValidationErrors(res, {
+      assigneeId: {
+        code: 'invalid',
+        message: 'El responsable debe tener acceso a la lista de la tarea',
+      },
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Avisar a los clientes de unos usuarios de que una tarea ya no está disponible
+ *
+ * @param {TaskEventBroadcaster} events - Difusor de cambios
+ * @param {Task} task - La tarea eliminada o movida fuera de su alcance
+ * @param {string[]} userIds - Los IDs de los usuarios afectados
+ * @returns {void}
+ */
+function publishRemoval(
+  events: TaskEventBroadcaster,
+  task: Task,
+  userIds: string[]
+): void {
+  if (userIds.length) {
+    events.publish({ type: 'deleted', id: task.id }, userIds);
+  }
+}
+
+/**
+ * Eliminar del disco los archivos adjuntos de unas tareas eliminadas
+ *
+ * @param {TaskAttachmentFileStore} attachments - Almacén del contenido de los adjuntos
+ * @param {Task[]} tasks - Las tareas eliminadas
+ * @returns {Promise<void>} Promise que se resuelve cuando se eliminaron los archivos
+ */
+function deleteAttachmentFiles(
+  attachments: TaskAttachmentFileStore,
+  tasks: Task[]
+): Promise<void> {
+  return attachments.delete(
+    tasks.flatMap((task) => task.attachments?.map((attachment) => attachment.id) ?? [])
+  );
+}
+
+/**
+ * Normalizar las subtareas recibidas, conservando solo los campos conocidos
+ *
+ * @param {Subtask[]} subtasks - Las subtareas ya validadas
+ * @returns {Subtask[]} Las subtareas con el título recortado
+ */
+function parseSubtasks(subtasks: Subtask[]): Subtask[] {
+  return subtasks.map(({ id, title, completed }) => ({
+    id,
+    title: title.trim(),
+    completed,
+  }));
+}
+
+/**
+ * Normalizar la regla de repetición recibida, conservando solo los campos de su frecuencia
+ *
+ * @param {TaskRecurrence} recurrence - La regla ya validada
+ * @returns {TaskRecurrence} La regla con la fecha de fin convertida en `Date`
+ */
+function parseRecurrence(recurrence: TaskRecurrence): TaskRecurrence {
+  const { frequency, interval, weekdays, dayOfMonth, endDate, count, occurrence } =
+    recurrence;
+  return {
+    frequency,
+    interval: frequency === 'interval' ? interval : undefined,
+    weekdays: frequency === 'weekly' ? weekdays : undefined,
+    dayOfMonth: frequency === 'monthly' ? dayOfMonth : undefined,
+    endDate: parseTaskDate(endDate),
+    count,
+    occurrence,
+  };
+}
+
+/**
+ * Responder con 400 y los errores de validación por campo
+ *
+ * @param {Response} res - La respuesta de Express
+ * @param {TaskValidationErrors} errors - Los errores por campo
+ * @returns {void}
+ */
+function sendValidationErrors(res: Response, errors: TaskValidationErrors): void {
+  res.status(400).json({ message: 'Datos de tarea inválidos', errors });
+}
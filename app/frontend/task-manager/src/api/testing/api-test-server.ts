@@ -0,0 +1,168 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import express, { Router } from 'express';
+import { User } from '../../app/models/user.model';
+
+/**
+ * Cabecera con la que las pruebas indican el usuario de cada petición
+ */
+const TEST_USER_HEADER = 'X-Test-User';
+
+/**
+ * Respuesta de una petición de prueba
+ *
+ * @interface TestApiResponse
+ */
+export interface TestApiResponse<T = unknown> {
+  /**
+   * Código de estado HTTP
+   * @type {number}
+   */
+  status: number;
+
+  /**
+   * Cuerpo JSON de la respuesta (null si no tiene)
+   * @type {T}
+   */
+  body: T;
+}
+
+/**
+ * Cuerpo de las respuestas de error de la API
+ *
+ * @interface TestApiError
+ */
+export interface TestApiError {
+  /**
+   * Mensaje del error
+   * @type {string}
+   */
+  message: string;
+
+  /**
+   * Errores de validación por campo, en las respuestas 400
+   * @type {Record<string, { code: string; message: string }> | undefined}
+   */
+  errors?: Record<string, { code: string; message: string }>;
+}
+
+/**
+ * Servidor Express de Pruebas
+ *
+ * Monta un router de la API en un puerto libre, sustituyendo el middleware de
+ * autenticación por la cabecera `X-Test-User`, que indica el ID del usuario
+ * de cada petición.
+ *
+ * @class TestApiServer
+ */
+export class TestApiServer {
+  /**
+   * @param {Server} server - El servidor HTTP en escucha
+   * @param {string} baseUrl - URL donde está montado el router
+   */
+  private constructor(
+    private readonly server: Server,
+    private readonly baseUrl: string
+  ) {}
+
+  /**
+   * Arrancar un servidor con un router montado en una ruta
+   *
+   * @param {string} path - Ruta de montaje (p. ej. `/api/tasks`)
+   * @param {Router} router - El router a probar
+   * @returns {Promise<TestApiServer>} Promise que se resuelve con el servidor en escucha
+   */
+  static start(path: string, router: Router): Promise<TestApiServer> {
+    const app = express();
+    app.use(path, (req, res, next) => {
+      const userId = req.get(TEST_USER_HEADER);
+      if (!userId) {
+        res.status(401).json({ message: 'Sesión no válida o caducada' });
+        return;
+      }
+      res.locals['user'] = createTestUser(userId);
+      next();
+    });
+    app.use(path, express.json(), router);
+
+    return new Promise((resolve) => {
+      const server = app.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        resolve(new TestApiServer(server, `http://127.0.0.1:${port}${path}`));
+      });
+    });
+  }
+
+  /**
+   * Hacer una petición al router como un usuario
+   *
+   * @param {string} method - Método HTTP
+   * @param {string} path - Ruta relativa al punto de montaje (p. ej. `/` o `/:id`)
+   * @param {string} userId - ID del usuario que hace la petición
+   * @param {unknown} body - Cuerpo de la petición: un `Buffer` se envía tal cual y el resto como JSON (opcional)
+   * @param {Record<string, string>} headers - Cabeceras adicionales (opcional)
+   * @returns {Promise<TestApiResponse<T>>} Promise que se resuelve con la respuesta
+   */
+  async request<T = unknown>(
+    method: string,
+    path: string,
+    userId: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<TestApiResponse<T>> {
+    const isJson = body !== undefined && !Buffer.isBuffer(body);
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        [TEST_USER_HEADER]: userId,
+        ...(isJson ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      },
+      body: isJson ? JSON.stringify(body) : (body as Buffer | undefined),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  }
+
+  /**
+   * Detener el servidor
+   * @returns {Promise<void>} Promise que se resuelve cuando el servidor está cerrado
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+}
+
+/**
+ * Crear el usuario de pruebas con un ID
+ *
+ * @param {string} id - El ID del usuario
+ * @returns {User} Usuario con nombre de usuario y nombre mostrado iguales al ID
+ */
+export function createTestUser(id: string): User {
+  return { id, username: id, displayName: id, createdAt: new Date(0) };
+}
+
+/**
+ * Crear un directorio temporal para los archivos de los almacenes
+ *
+ * @returns {Promise<string>} Promise que se resuelve con la ruta del directorio
+ */
+export function createTempDir(): Promise<string> {
+  return mkdtemp(join(tmpdir(), 'task-manager-spec-'));
+}
+
+/**
+ * Eliminar un directorio temporal creado con `createTempDir`
+ *
+ * @param {string} dir - La ruta del directorio
+ * @returns {Promise<void>} Promise que se resuelve cuando se eliminó
+ */
+export function removeTempDir(dir: string): Promise<void> {
+  return rm(dir, { recursive: true, force: true });
+}
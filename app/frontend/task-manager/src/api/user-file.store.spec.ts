@@ -0,0 +1,55 @@
+import { join } from 'node:path';
+import { UserFileStore } from './user-file.store';
+import { createTempDir, removeTempDir } from './testing/api-test-server';
+
+describe('UserFileStore', () => {
+  let dir: string;
+  let filePath: string;
+  let users: UserFileStore;
+
+  beforeEach(async () => {
+    dir = await createTempDir();
+    filePath = join(dir, 'users.json');
+    users = new UserFileStore(filePath);
+  });
+
+  afterEach(() => removeTempDir(dir));
+
+  it('should keep every user of simultaneous registrations', async () => {
+    await Promise.all([
+      users.create({ username: 'ana', password: 'password123' }),
+      users.create({ username: 'bob', password: 'password123' }),
+      users.create({ username: 'eva', password: 'password123' }),
+    ]);
+
+    const reloaded = new UserFileStore(filePath);
+    expect((await reloaded.list()).map((user) => user.username)).toEqual(['ana', 'bob', 'eva']);
+  });
+
+  it('should reject a username registered at the same time', async () => {
+    const results = await Promise.all([
+      users.create({ username: 'ana', password: 'password123' }),
+      users.create({ username: 'ANA', password: 'password456' }),
+    ]);
+
+    expect(results.filter((result) => result !== null).length).toBe(1);
+    expect((await users.list()).length).toBe(1);
+  });
+
+  it('should mark only one of simultaneous registrations as the first user', async () => {
+    const results = await Promise.all([
+      users.create({ username: 'ana', password: 'password123' }),
+      users.create({ username: 'bob', password: 'password123' }),
+    ]);
+
+    expect(results.filter((result) => result?.isFirstUser).length).toBe(1);
+    expect((await users.list()).length).toBe(2);
+  });
+
+  it('should verify the password of registered users', async () => {
+    await users.create({ username: 'ana', password: 'password123' });
+
+    expect((await users.verifyCredentials(' Ana ', 'password123'))?.username).toBe('ana');
+    expect(await users.verifyCredentials('ana', 'wrong-password')).toBeNull();
+  });
+});
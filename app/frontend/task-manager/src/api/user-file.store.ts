@@ -0,0 +1,176 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { RegisterRequest, User, reviveUser } from '../app/models/user.model';
+import { JsonFileStore } from './json-file.store';
+
+/**
+ * Derivación de claves scrypt en forma de Promise
+ */
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+/**
+ * Longitud en bytes del hash de las contraseñas
+ */
+const PASSWORD_HASH_LENGTH = 64;
+
+/**
+ * Usuario tal como se guarda en disco, con el hash y la sal de su contraseña
+ *
+ * @interface StoredUser
+ */
+interface StoredUser extends User {
+  /**
+   * Hash scrypt de la contraseña, en hexadecimal
+   * @type {string}
+   */
+  passwordHash: string;
+
+  /**
+   * Sal aleatoria usada al calcular el hash, en hexadecimal
+   * @type {string}
+   */
+  passwordSalt: string;
+}
+
+/**
+ * Resultado del alta de un usuario
+ *
+ * @interface CreatedUser
+ */
+export interface CreatedUser {
+  /**
+   * El usuario creado, sin sus credenciales
+   * @type {User}
+   */
+  user: User;
+
+  /**
+   * Indica si es el primer usuario registrado
+   * @type {boolean}
+   */
+  isFirstUser: boolean;
+}
+
+/**
+ * Almacén de Usuarios en Archivo JSON
+ *
+ * Mantiene las cuentas locales en memoria y las escribe en un archivo JSON
+ * después de cada alta, a través de `JsonFileStore` y solo legible por el
+ * propietario del proceso.
+ * Las altas también se encadenan, para que dos registros simultáneos no se
+ * pisen ni repitan el nombre de usuario.
+ * Las contraseñas se guardan como hash scrypt con una sal aleatoria por
+ * usuario y se comparan en tiempo constante.
+ *
+ * @class UserFileStore
+ */
+export class UserFileStore extends JsonFileStore<StoredUser> {
+  /**
+   * Cola de altas pendientes, que se aplican de una en una
+   * @private
+   */
+  private pendingCreate: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param {string} filePath - Ruta del archivo JSON donde se guardan los usuarios
+   */
+  constructor(filePath: string) {
+    super(filePath, (user) => ({ ...user, ...reviveUser(user) }), 0o600);
+  }
+
+  /**
+   * Obtener un usuario por ID
+   * @param {string} id - El ID del usuario
+   * @returns {Promise<User | null>} Promise que se resuelve con el usuario o null si no existe
+   */
+  async get(id: string): Promise<User | null> {
+    const users = await this.load();
+    const user = users.find((u) => u.id === id);
+    return user ? toPublicUser(user) : null;
+  }
+
+  /**
+   * Listar todos los usuarios, sin sus credenciales
+   * @returns {Promise<User[]>} Promise que se resuelve con los usuarios ordenados por nombre mostrado
+   */
+  async list(): Promise<User[]> {
+    const users = await this.load();
+    return users
+      .map(toPublicUser)
+      .sort((a, b) => a.displayName.localeCompare(b.displayName));
+  }
+
+  /**
+   * Registrar un usuario nuevo
+   *
+   * El hash de la contraseña se calcula antes de entrar en la cola de altas;
+   * dentro de ella se comprueba el nombre de usuario y se guarda el listado
+   * sin esperas intermedias.
+   *
+   * @param {RegisterRequest} registerRequest - Los datos ya validados del usuario
+   * @returns {Promise<CreatedUser | null>} Promise que se resuelve con el usuario creado, o null si el nombre de usuario ya existe
+   */
+  async create(registerRequest: RegisterRequest): Promise<CreatedUser | null> {
+    const username = registerRequest.username.trim().toLowerCase();
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(registerRequest.password, salt, PASSWORD_HASH_LENGTH);
+    const newUser: StoredUser = {
+      id: randomUUID(),
+      username,
+      displayName: registerRequest.displayName?.trim() || username,
+      createdAt: new Date(),
+      passwordHash: hash.toString('hex'),
+      passwordSalt: salt.toString('hex'),
+    };
+
+    const created = this.pendingCreate
+      .catch(() => undefined)
+      .then(async (): Promise<CreatedUser | null> => {
+        const users = await this.load();
+        if (users.some((u) => u.username === username)) {
+          return null;
+        }
+
+        await this.save([...users, newUser]);
+        return { user: toPublicUser(newUser), isFirstUser: users.length === 0 };
+      });
+    this.pendingCreate = created;
+    return created;
+  }
+
+  /**
+   * Comprobar las credenciales de un usuario
+   * @param {string} username - El nombre de usuario
+   * @param {string} password - La contraseña
+   * @returns {Promise<User | null>} Promise que se resuelve con el usuario, o null si las credenciales no son válidas
+   */
+  async verifyCredentials(username: string, password: string): Promise<User | null> {
+    const users = await this.load();
+    const user = users.find((u) => u.username === username.trim().toLowerCase());
+    if (!user) {
+      return null;
+    }
+
+    const expected = Buffer.from(user.passwordHash, 'hex');
+    const actual = await scryptAsync(
+      password,
+      Buffer.from(user.passwordSalt, 'hex'),
+      expected.length
+    );
+    return timingSafeEqual(expected, actual) ? toPublicUser(user) : null;
+  }
+}
+
+/**
+ * Obtener los datos públicos de un usuario, sin su contraseña
+ *
+ * @param {StoredUser} user - El usuario almacenado
+ * @returns {User} El usuario sin hash ni sal
+ */
+function toPublicUser({ id, username, displayName, createdAt }: StoredUser): User {
+  return { id, username, displayName, createdAt };
+}
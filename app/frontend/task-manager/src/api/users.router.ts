@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { UserFileStore } from './user-file.store';
+
+/**
+ * Crear el router del directorio de usuarios
+ *
+ * Expone la lista de cuentas bajo la ruta donde se monte (normalmente
+ * `/api/users`), para elegir con quién compartir un proyecto o a quién
+ * asignar una tarea:
+ *
+ * - `GET    /`     Listar los usuarios (`User[]`, sin credenciales)
+ *
+ * Requiere el middleware de autenticación.
+ *
+ * @param {UserFileStore} users - Almacén de usuarios
+ * @returns {Router} Router de Express con los endpoints de usuarios
+ */
+export function createUsersRouter(users: UserFileStore): Router {
+  const router = Router();
+
+  router.get('/', (req, res, next) => {
+    users
+      .list()
+      .then((list) => res.json(list))
+      .catch(next);
+  });
+
+  return router;
+}
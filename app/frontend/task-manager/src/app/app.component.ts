@@ -1,16 +1,25 @@
-import { Component } from '@angular/core';
+import { Component, afterNextRender, inject } from '@angular/core';
+import { NgIf } from '@angular/common';
+import { RouterOutlet } from '@angular/router';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatIconModule } from '@angular/material/icon';
 import { MatButtonModule } from '@angular/material/button';
 import { MatTooltipModule } from '@angular/material/tooltip';
-import { TaskListComponent } from './components/task-list/task-list.component';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { ProjectSidebarComponent } from './components/project-sidebar/project-sidebar.component';
+import { TaskReminderService } from './services/task-reminder.service';
+import { TaskService } from './services/task.service';
+import { AuthService } from './services/auth.service';
 
 /**
  * Componente Principal de la Aplicación
  *
  * Componente raíz de la aplicación Task Manager. Proporciona el layout principal
- * y contiene el componente de lista de tareas. Incluye toolbar con branding
- * y navegación básica.
+ * con la barra lateral de proyectos y la lista de tareas del proyecto activo
+ * (vía router). Incluye toolbar con branding, el usuario con sesión iniciada y
+ * navegación básica. En el navegador, si hay sesión, inicia el servicio de
+ * recordatorios de tareas e importa las tareas que quedaran guardadas en el
+ * navegador de versiones anteriores.
  *
  * @component AppComponent
  * @author osmar lópez
@@ -19,11 +28,14 @@ import { TaskListComponent } from './components/task-list/task-list.component';
   selector: 'app-root',
   standalone: true,
   imports: [
+    NgIf,
     MatToolbarModule,
     MatIconModule,
     MatButtonModule,
     MatTooltipModule,
-    TaskListComponent,
+    MatSnackBarModule,
+    RouterOutlet,
+    ProjectSidebarComponent,
   ],
   template: `
     <div class="app-container">
@@ -34,14 +46,51 @@ import { TaskListComponent } from './components/task-list/task-list.component';
             <mat-icon class="brand-icon">assignment</mat-icon>
             <span class="brand-title">{{ applicationTitle }}</span>
           </div>
+
+          <div class="toolbar-actions">
+            <button
+              *ngIf="taskReminders.notificationPermission() === 'default'"
+              mat-icon-button
+              (click)="taskReminders.requestNotificationPermission()"
+              matTooltip="Activar notificaciones de recordatorios"
+            >
+              <mat-icon>notifications_off</mat-icon>
+            </button>
+            <mat-icon
+              *ngIf="taskReminders.notificationPermission() === 'granted'"
+              matTooltip="Notificaciones de recordatorios activadas"
+            >
+              notifications_active
+            </mat-icon>
+            <ng-container *ngIf="auth.user() as user">
+              <span class="user-name">
+                <mat-icon>account_circle</mat-icon>
+                {{ user.displayName }}
+              </span>
+              <button
+                mat-icon-button
+                (click)="onLogout()"
+                matTooltip="Cerrar sesión"
+              >
+                <mat-icon>logout</mat-icon>
+              </button>
+            </ng-container>
+          </div>
         </div>
       </mat-toolbar>
 
       <!-- Contenido principal -->
       <main class="main-content">
         <div class="content-wrapper">
-          <!-- Componente principal de lista de tareas -->
-          <app-task-list></app-task-list>
+          <!-- Barra lateral de proyectos -->
+          <aside *ngIf="auth.isAuthenticated()" class="sidebar">
+            <app-project-sidebar></app-project-sidebar>
+          </aside>
+
+          <!-- Lista de tareas del proyecto activo -->
+          <section class="project-content">
+            <router-outlet></router-outlet>
+          </section>
         </div>
       </main>
 
@@ -108,9 +157,17 @@ import { TaskListComponent } from './components/task-list/task-list.component';
 
       .toolbar-actions {
         display: flex;
+        align-items: center;
         gap: 8px;
       }
 
+      .user-name {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 0.9rem;
+      }
+
       /* Contenido principal */
       .main-content {
         flex: 1;
@@ -118,11 +175,22 @@ import { TaskListComponent } from './components/task-list/task-list.component';
       }
 
       .content-wrapper {
+        display: flex;
+        gap: 16px;
         max-width: 1200px;
         margin: 0 auto;
         padding: 0 16px;
       }
 
+      .sidebar {
+        flex: 0 0 240px;
+      }
+
+      .project-content {
+        flex: 1;
+        min-width: 0;
+      }
+
       /* Footer */
       .app-footer {
         background-color: #f5f5f5;
@@ -171,6 +239,10 @@ import { TaskListComponent } from './components/task-list/task-list.component';
           font-size: 1rem;
         }
 
+        .user-name {
+          display: none;
+        }
+
         .welcome-section {
           padding: 30px 16px;
           margin: 16px -16px;
@@ -187,9 +259,14 @@ import { TaskListComponent } from './components/task-list/task-list.component';
         }
 
         .content-wrapper {
+          flex-direction: column;
           padding: 0 8px;
         }
 
+        .sidebar {
+          flex-basis: auto;
+        }
+
         .footer-content p {
           flex-direction: column;
           gap: 4px;
@@ -220,4 +297,82 @@ export class AppComponent {
    * @type {string}
    */
   readonly applicationVersion = 'Prueba técnica Angular';
+
+  /**
+   * Servicio de recordatorios de tareas
+   * @readonly
+   */
+  readonly taskReminders = inject(TaskReminderService);
+
+  /**
+   * Servicio de autenticación
+   * @readonly
+   */
+  readonly auth = inject(AuthService);
+
+  /**
+   * Servicio de tareas, para importar las tareas locales y avisar de cambios
+   * sin sincronizar al cerrar sesión
+   * @private
+   */
+  private readonly taskService = inject(TaskService);
+
+  /**
+   * Servicio de notificaciones emergentes
+   * @private
+   */
+  private readonly snackBar = inject(MatSnackBar);
+
+  constructor() {
+    afterNextRender(() => {
+      if (this.auth.isAuthenticated()) {
+        this.taskReminders.start();
+        void this.importLegacyTasks();
+      }
+    });
+  }
+
+  /**
+   * Importar las tareas guardadas en el navegador y avisar de ello
+   *
+   * @private
+   * @returns {Promise<void>} Promise que se resuelve cuando termina la importación
+   */
+  private async importLegacyTasks(): Promise<void> {
+    try {
+      const importedCount = await this.taskService.importLegacyTasks();
+      if (importedCount) {
+        this.snackBar.open(
+          `${importedCount} tarea(s) guardadas en este navegador se han importado a tu bandeja de entrada`,
+          'OK',
+          { duration: 8000 }
+        );
+      }
+    } catch (error) {
+      console.error('Error importing local tasks:', error);
+    }
+  }
+
+  /**
+   * Cerrar la sesión y volver a la página de acceso
+   *
+   * Los cambios sin sincronizar se pierden al cerrar sesión, por lo que se
+   * pide confirmación si los hay.
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se cerró la sesión
+   */
+  async onLogout(): Promise<void> {
+    const pendingChanges = this.taskService.pendingChangesCount();
+    if (
+      pendingChanges &&
+      !confirm(
+        `Hay ${pendingChanges} cambio(s) sin sincronizar que se perderán al cerrar sesión. ¿Cerrar sesión de todos modos?`
+      )
+    ) {
+      return;
+    }
+
+    await this.auth.logout();
+    window.location.assign('/login');
+  }
 }
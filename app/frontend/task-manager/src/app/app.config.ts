@@ -1,9 +1,15 @@
 import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
-import { provideRouter } from '@angular/router';
+import { provideRouter, withComponentInputBinding } from '@angular/router';
+import { provideHttpClient, withFetch, withInterceptors } from '@angular/common/http';
 
 import { routes } from './app.routes';
 import { provideClientHydration, withEventReplay } from '@angular/platform-browser';
+import { provideTaskRepository } from './services/task.repository';
+import { provideProjectRepository } from './services/project.repository';
+import { provideTaskActivityRepository } from './services/task-activity.repository';
+import { provideTaskCommentRepository } from './services/task-comment.repository';
+import { authInterceptor } from './services/auth.interceptor';
 
 export const appConfig: ApplicationConfig = {
-  providers: [provideZoneChangeDetection({ eventCoalescing: true }), provideRouter(routes), provideClientHydration(withEventReplay())]
+  providers: [provideZoneChangeDetection({ eventCoalescing: true }), provideRouter(routes, withComponentInputBinding()), provideClientHydration(withEventReplay()), provideHttpClient(withFetch(), withInterceptors([authInterceptor])), provideTaskRepository('http'), provideProjectRepository('http'), provideTaskActivityRepository('http'), provideTaskCommentRepository('http')]
 };
@@ -1,6 +1,22 @@
 import { RenderMode, ServerRoute } from '@angular/ssr';
 
 export const serverRoutes: ServerRoute[] = [
+  {
+    path: 'projects/:id',
+    renderMode: RenderMode.Server
+  },
+  {
+    path: 'projects/:id/calendar',
+    renderMode: RenderMode.Server
+  },
+  {
+    path: 'projects/:id/board',
+    renderMode: RenderMode.Server
+  },
+  {
+    path: 'projects/:id/dependencies',
+    renderMode: RenderMode.Server
+  },
   {
     path: '**',
     renderMode: RenderMode.Prerender
@@ -1,3 +1,30 @@
 import { Routes } from '@angular/router';
+import { TaskListComponent } from './components/task-list/task-list.component';
+import { TaskCalendarComponent } from './components/task-calendar/task-calendar.component';
+import { TaskBoardComponent } from './components/task-board/task-board.component';
+import { TaskDependencyGraphComponent } from './components/task-dependency-graph/task-dependency-graph.component';
+import { LoginComponent } from './components/login/login.component';
+import { authGuard, guestGuard } from './services/auth.guard';
+import { INBOX_PROJECT_ID } from './models/project.model';
 
-export const routes: Routes = [];
+export const routes: Routes = [
+  { path: '', pathMatch: 'full', redirectTo: `projects/${INBOX_PROJECT_ID}` },
+  { path: 'login', component: LoginComponent, canActivate: [guestGuard] },
+  { path: 'projects/:id', component: TaskListComponent, canActivate: [authGuard] },
+  {
+    path: 'projects/:id/calendar',
+    component: TaskCalendarComponent,
+    canActivate: [authGuard],
+  },
+  {
+    path: 'projects/:id/board',
+    component: TaskBoardComponent,
+    canActivate: [authGuard],
+  },
+  {
+    path: 'projects/:id/dependencies',
+    component: TaskDependencyGraphComponent,
+    canActivate: [authGuard],
+  },
+  { path: '**', redirectTo: `projects/${INBOX_PROJECT_ID}` },
+];
@@ -0,0 +1,221 @@
+import { Component, inject, input } from '@angular/core';
+import { NgIf } from '@angular/common';
+import {
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { AuthService } from '../../services/auth.service';
+import {
+  DISPLAY_NAME_MAX_LENGTH,
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+  USERNAME_PATTERN,
+  UserValidationError,
+  UserValidationErrors,
+} from '../../validators/user.validator';
+
+/**
+ * Modo de la página de acceso
+ */
+type LoginMode = 'login' | 'register';
+
+/**
+ * Componente de Acceso
+ *
+ * Página standalone para iniciar sesión o crear una cuenta. Tras el acceso
+ * recarga la aplicación en `returnUrl` para que los servicios carguen los
+ * datos del usuario desde el principio.
+ *
+ * @component LoginComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-login',
+  standalone: true,
+  imports: [
+    NgIf,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+  ],
+  templateUrl: './login.component.html',
+  styleUrl: './login.component.scss',
+})
+export class LoginComponent {
+  /**
+   * Constructor de formularios reactivos
+   * @private
+   */
+  private readonly formBuilder = inject(FormBuilder);
+
+  /**
+   * Servicio de autenticación
+   * @private
+   */
+  private readonly auth = inject(AuthService);
+
+  /**
+   * Entrada: ruta a la que volver tras el acceso (parámetro de consulta)
+   * @type {InputSignal<string | undefined>}
+   */
+  readonly returnUrl = input<string>();
+
+  /**
+   * Límites de los campos, para los mensajes de error
+   * @readonly
+   */
+  readonly limits = {
+    passwordMin: PASSWORD_MIN_LENGTH,
+    passwordMax: PASSWORD_MAX_LENGTH,
+    displayNameMax: DISPLAY_NAME_MAX_LENGTH,
+  };
+
+  /**
+   * Modo actual: iniciar sesión o crear una cuenta
+   * @type {LoginMode}
+   */
+  mode: LoginMode = 'login';
+
+  /**
+   * Formulario de acceso
+   * @type {FormGroup}
+   */
+  loginForm: FormGroup = this.formBuilder.group({
+    username: ['', [Validators.required, Validators.pattern(USERNAME_PATTERN)]],
+    displayName: ['', [Validators.maxLength(DISPLAY_NAME_MAX_LENGTH)]],
+    password: [
+      '',
+      [
+        Validators.required,
+        Validators.minLength(PASSWORD_MIN_LENGTH),
+        Validators.maxLength(PASSWORD_MAX_LENGTH),
+      ],
+    ],
+  });
+
+  /**
+   * Mensaje de error general del último intento (null si no hay)
+   * @type {string | null}
+   */
+  errorMessage: string | null = null;
+
+  /**
+   * Indica si hay una petición en curso
+   * @type {boolean}
+   */
+  isLoading = false;
+
+  /**
+   * Alternar entre iniciar sesión y crear una cuenta
+   *
+   * @returns {void}
+   */
+  toggleMode(): void {
+    this.mode = this.mode === 'login' ? 'register' : 'login';
+    this.errorMessage = null;
+  }
+
+  /**
+   * Verificar si un campo es inválido y debe mostrar errores
+   *
+   * @param {string} fieldName - Nombre del campo a verificar
+   * @returns {boolean} true si el campo es inválido y fue tocado o modificado
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.loginForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Manejar el envío del formulario
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se completa el intento
+   */
+  async onSubmit(): Promise<void> {
+    if (this.isLoading) {
+      return;
+    }
+    if (this.loginForm.invalid) {
+      this.loginForm.markAllAsTouched();
+      return;
+    }
+
+    const { username, displayName, password } = this.loginForm.value;
+    this.isLoading = true;
+    this.errorMessage = null;
+
+    try {
+      if (this.mode === 'register') {
+        await this.auth.register({
+          username: username.trim(),
+          password,
+          displayName: displayName.trim() || undefined,
+        });
+      } else if (!(await this.auth.login({ username: username.trim(), password }))) {
+        this.errorMessage = 'Usuario o contraseña incorrectos';
+        return;
+      }
+      window.location.assign(this.getSafeReturnUrl());
+    } catch (error) {
+      if (error instanceof UserValidationError) {
+        this.applyValidationErrors(error.errors);
+      } else {
+        console.error('Error signing in:', error);
+        this.errorMessage = 'No se pudo conectar con el servidor';
+      }
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * Asignar a los campos del formulario los errores devueltos por el servidor
+   *
+   * @param {UserValidationErrors} errors - Errores por campo
+   * @returns {void}
+   */
+  applyValidationErrors(errors: UserValidationErrors): void {
+    Object.entries(errors).forEach(([fieldName, fieldError]) => {
+      const control = this.loginForm.get(fieldName);
+      if (control && fieldError) {
+        control.setErrors({
+          ...control.errors,
+          [fieldError.code]: { message: fieldError.message },
+        });
+        control.markAsTouched();
+      }
+    });
+  }
+
+  /**
+   * Obtener la ruta a la que volver, solo si es interna a la aplicación
+   *
+   * Se rechazan las barras invertidas, que el navegador trata como `/` (así
+   * `/\evil.com` equivaldría a `//evil.com`), y cualquier ruta que no se
+   * resuelva en el propio origen.
+   *
+   * @private
+   * @returns {string} La ruta de `returnUrl`, o `/` si no es válida
+   */
+  private getSafeReturnUrl(): string {
+    const returnUrl = this.returnUrl();
+    if (!returnUrl?.startsWith('/') || returnUrl.includes('\\')) {
+      return '/';
+    }
+
+    const url = new URL(returnUrl, window.location.origin);
+    return url.origin === window.location.origin && !url.pathname.startsWith('/login')
+      ? `${url.pathname}${url.search}${url.hash}`
+      : '/';
+  }
+}
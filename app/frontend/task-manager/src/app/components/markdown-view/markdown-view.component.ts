@@ -0,0 +1,44 @@
+import { Component, ViewEncapsulation, computed, input } from '@angular/core';
+import { renderMarkdown } from '../../markdown/markdown';
+
+/**
+ * Componente Vista de Markdown
+ *
+ * Componente standalone que muestra un texto en Markdown (descripciones de
+ * tareas) convertido con `renderMarkdown`. El HTML generado pasa además por el
+ * saneamiento de Angular al asignarse a `innerHTML`, tanto en el navegador como
+ * en el renderizado en servidor.
+ *
+ * Usa `ViewEncapsulation.None` porque los estilos deben alcanzar el HTML
+ * insertado; todas las reglas cuelgan de la clase `.markdown-view`.
+ *
+ * @component MarkdownViewComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-markdown-view',
+  standalone: true,
+  templateUrl: './markdown-view.component.html',
+  styleUrl: './markdown-view.component.scss',
+  encapsulation: ViewEncapsulation.None,
+})
+export class MarkdownViewComponent {
+  /**
+   * Entrada: texto en Markdown
+   * @type {InputSignal<string>}
+   */
+  readonly text = input.required<string>();
+
+  /**
+   * Entrada: términos de búsqueda normalizados a resaltar
+   * @type {InputSignal<string[]>}
+   */
+  readonly highlightTerms = input<string[]>([]);
+
+  /**
+   * Señal computada del HTML a mostrar
+   * @readonly
+   * @returns {Signal<string>} El Markdown convertido en HTML
+   */
+  readonly html = computed(() => renderMarkdown(this.text(), this.highlightTerms()));
+}
@@ -0,0 +1,275 @@
+import { Component, inject } from '@angular/core';
+import { NgFor, NgIf } from '@angular/common';
+import { Router, RouterLink, RouterLinkActive } from '@angular/router';
+import { MatListModule } from '@angular/material/list';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import {
+  INBOX_PROJECT_ID,
+  PROJECT_ROLES,
+  Project,
+  ProjectMember,
+  ProjectRole,
+} from '../../models/project.model';
+import { ProjectService } from '../../services/project.service';
+import { UserDirectoryService } from '../../services/user-directory.service';
+import { ProjectValidationError } from '../../validators/project.validator';
+
+/**
+ * Componente Barra Lateral de Proyectos
+ *
+ * Componente standalone que lista la bandeja de entrada y los proyectos con su
+ * número de tareas pendientes, enlazando a `/projects/:id`. Permite crear,
+ * renombrar, eliminar y compartir proyectos con otros usuarios como lectores
+ * o editores. Los proyectos compartidos con el usuario se marcan con un icono
+ * y solo su propietario puede modificarlos.
+ *
+ * @component ProjectSidebarComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-project-sidebar',
+  standalone: true,
+  imports: [
+    NgFor,
+    NgIf,
+    RouterLink,
+    RouterLinkActive,
+    MatListModule,
+    MatIconModule,
+    MatButtonModule,
+    MatMenuModule,
+    MatTooltipModule,
+  ],
+  templateUrl: './project-sidebar.component.html',
+  styleUrl: './project-sidebar.component.scss',
+})
+export class ProjectSidebarComponent {
+  /**
+   * Servicio de proyectos inyectado
+   * @readonly
+   */
+  readonly projectService = inject(ProjectService);
+
+  /**
+   * Router para navegar al crear o eliminar proyectos
+   * @private
+   */
+  private readonly router = inject(Router);
+
+  /**
+   * Directorio de usuarios, para compartir proyectos y mostrar sus miembros
+   * @readonly
+   */
+  readonly userDirectory = inject(UserDirectoryService);
+
+  /**
+   * ID del proyecto implícito "Bandeja de entrada"
+   * @readonly
+   */
+  readonly inboxProjectId = INBOX_PROJECT_ID;
+
+  /**
+   * Mensaje de error al crear o renombrar un proyecto
+   * @type {string | null}
+   */
+  errorMessage: string | null = null;
+
+  /**
+   * Obtener el número de tareas pendientes de un proyecto
+   *
+   * @param {string} projectId - El ID del proyecto
+   * @returns {number} Número de tareas pendientes
+   */
+  getPendingCount(projectId: string): number {
+    return this.projectService.pendingCounts().get(projectId) ?? 0;
+  }
+
+  /**
+   * Crear un proyecto con el nombre escrito y navegar a él
+   *
+   * @param {HTMLInputElement} input - El campo con el nombre del proyecto
+   * @returns {Promise<void>} Promise que se resuelve cuando se crea el proyecto
+   */
+  async createProject(input: HTMLInputElement): Promise<void> {
+    if (!input.value.trim()) return;
+
+    try {
+      const project = await this.projectService.createProject({
+        name: input.value,
+      });
+      input.value = '';
+      this.errorMessage = null;
+      await this.router.navigate(['/projects', project.id]);
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Renombrar un proyecto
+   *
+   * @param {Project} project - El proyecto a renombrar
+   * @returns {Promise<void>} Promise que se resuelve cuando se renombra el proyecto
+   */
+  async renameProject(project: Project): Promise<void> {
+    // Simple prompt (in a real app, use a proper dialog)
+    const name = prompt('Nuevo nombre del proyecto', project.name);
+    if (name === null || name.trim() === project.name) return;
+
+    try {
+      await this.projectService.updateProject(project.id, { name });
+      this.errorMessage = null;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Eliminar un proyecto después de confirmación
+   *
+   * Sus tareas pasan a la bandeja de entrada.
+   *
+   * @param {Project} project - El proyecto a eliminar
+   * @returns {Promise<void>} Promise que se resuelve cuando se elimina el proyecto
+   */
+  async deleteProject(project: Project): Promise<void> {
+    const confirmed = confirm(
+      `¿Eliminar el proyecto "${project.name}"? Sus tareas se moverán a la bandeja de entrada.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await this.projectService.deleteProject(project.id);
+      if (this.router.url === `/projects/${project.id}`) {
+        await this.router.navigate(['/projects', INBOX_PROJECT_ID]);
+      }
+    } catch (error) {
+      console.error('Error deleting project:', error);
+    }
+  }
+
+  /**
+   * Obtener la etiqueta del rol de un miembro
+   *
+   * @param {ProjectRole} role - El rol
+   * @returns {string} La etiqueta en español ("Lector" o "Editor")
+   */
+  getRoleLabel(role: ProjectRole): string {
+    return PROJECT_ROLES.find((option) => option.value === role)?.label ?? role;
+  }
+
+  /**
+   * Obtener la descripción de un proyecto compartido con el usuario
+   *
+   * @param {Project} project - El proyecto
+   * @returns {string} Quién lo compartió y con qué rol
+   */
+  getSharedTooltip(project: Project): string {
+    const owner = this.userDirectory.getDisplayName(project.ownerId ?? '');
+    const access = this.projectService.getAccess(project.id);
+    const role = access && access !== 'owner' ? ` · ${this.getRoleLabel(access)}` : '';
+    return `Compartido por ${owner}${role}`;
+  }
+
+  /**
+   * Compartir un proyecto con otro usuario
+   *
+   * Pide el nombre de usuario y si podrá modificar las tareas (editor) o solo
+   * verlas (lector). Si el usuario ya era miembro, se cambia su rol.
+   *
+   * @param {Project} project - El proyecto a compartir
+   * @returns {Promise<void>} Promise que se resuelve cuando se comparte el proyecto
+   */
+  async shareProject(project: Project): Promise<void> {
+    const username = prompt(`Compartir "${project.name}" con el usuario`);
+    if (!username?.trim()) return;
+
+    await this.userDirectory.refresh();
+    const user = this.userDirectory.findByUsername(username);
+    if (!user) {
+      this.errorMessage = `No existe el usuario "${username.trim()}"`;
+      return;
+    }
+    if (user.id === project.ownerId) {
+      this.errorMessage = 'El propietario ya tiene acceso al proyecto';
+      return;
+    }
+
+    const role: ProjectRole = confirm(
+      `¿Permitir que ${user.displayName} modifique las tareas de "${project.name}"?\n` +
+        'Aceptar: Editor · Cancelar: Lector (solo ver)'
+    )
+      ? 'editor'
+      : 'viewer';
+    await this.saveMembers(project, [
+      ...(project.members ?? []).filter((member) => member.userId !== user.id),
+      { userId: user.id, role },
+    ]);
+  }
+
+  /**
+   * Dejar de compartir un proyecto con uno de sus miembros después de confirmación
+   *
+   * @param {Project} project - El proyecto
+   * @param {ProjectMember} member - El miembro a quitar
+   * @returns {Promise<void>} Promise que se resuelve cuando se quita el miembro
+   */
+  async removeMember(project: Project, member: ProjectMember): Promise<void> {
+    const confirmed = confirm(
+      `¿Dejar de compartir "${project.name}" con ${this.userDirectory.getDisplayName(member.userId)}?`
+    );
+    if (!confirmed) return;
+
+    await this.saveMembers(
+      project,
+      (project.members ?? []).filter((m) => m.userId !== member.userId)
+    );
+  }
+
+  /**
+   * Función de seguimiento para ngFor optimizada
+   *
+   * @param {number} index - Índice del elemento
+   * @param {Project} project - El proyecto
+   * @returns {string} ID del proyecto
+   */
+  trackByProjectId(index: number, project: Project): string {
+    return project.id;
+  }
+
+  /**
+   * Guardar los miembros de un proyecto
+   *
+   * @private
+   * @param {Project} project - El proyecto
+   * @param {ProjectMember[]} members - Los nuevos miembros
+   * @returns {Promise<void>} Promise que se resuelve cuando se guardan los miembros
+   */
+  private async saveMembers(project: Project, members: ProjectMember[]): Promise<void> {
+    try {
+      await this.projectService.updateProject(project.id, { members });
+      this.errorMessage = null;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Mostrar el error de validación de un proyecto
+   *
+   * @private
+   * @param {unknown} error - El error recibido
+   * @returns {void}
+   */
+  private handleError(error: unknown): void {
+    if (error instanceof ProjectValidationError) {
+      this.errorMessage =
+        error.errors.name?.message ?? error.errors.members?.message ?? error.message;
+    } else {
+      console.error('Error saving project:', error);
+    }
+  }
+}
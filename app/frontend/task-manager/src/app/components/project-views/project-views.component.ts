@@ -0,0 +1,41 @@
+import { Component, input } from '@angular/core';
+import { NgFor } from '@angular/common';
+import { RouterLink, RouterLinkActive } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+
+/**
+ * Componente Selector de Vistas de Proyecto
+ *
+ * Componente standalone con enlaces a las vistas de un proyecto: la lista
+ * (`/projects/:id`), el calendario (`/projects/:id/calendar`), el tablero
+ * (`/projects/:id/board`) y el grafo de dependencias (`/projects/:id/dependencies`).
+ *
+ * @component ProjectViewsComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-project-views',
+  standalone: true,
+  imports: [NgFor, RouterLink, RouterLinkActive, MatButtonModule, MatIconModule],
+  templateUrl: './project-views.component.html',
+  styleUrl: './project-views.component.scss',
+})
+export class ProjectViewsComponent {
+  /**
+   * Entrada: ID del proyecto cuyas vistas se enlazan
+   * @type {InputSignal<string>}
+   */
+  readonly projectId = input.required<string>();
+
+  /**
+   * Vistas disponibles, con su ruta relativa al proyecto
+   * @readonly
+   */
+  readonly views = [
+    { path: [], icon: 'view_list', label: 'Lista' },
+    { path: ['calendar'], icon: 'calendar_month', label: 'Calendario' },
+    { path: ['board'], icon: 'view_kanban', label: 'Tablero' },
+    { path: ['dependencies'], icon: 'account_tree', label: 'Dependencias' },
+  ];
+}
@@ -0,0 +1,115 @@
+import { Component, inject } from '@angular/core';
+import { NgFor, NgIf } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import {
+  TaskConflict,
+  TaskConflictResolution,
+  TaskMergeField,
+  TASK_FIELD_LABELS,
+} from '../../models/task-sync.model';
+import { TaskService } from '../../services/task.service';
+
+/**
+ * Componente Estado de Sincronización
+ *
+ * Componente standalone que informa cuando no hay conexión con el servidor,
+ * cuántos cambios quedan pendientes de sincronizar, y muestra los conflictos
+ * que no pudieron resolverse automáticamente para que el usuario elija qué versión conservar.
+ *
+ * @component SyncStatusComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-sync-status',
+  standalone: true,
+  imports: [NgFor, NgIf, MatCardModule, MatButtonModule, MatIconModule],
+  templateUrl: './sync-status.component.html',
+  styleUrl: './sync-status.component.scss',
+})
+export class SyncStatusComponent {
+  /**
+   * Servicio de tareas inyectado
+   * @readonly
+   */
+  readonly taskService = inject(TaskService);
+
+  /**
+   * ID del conflicto que se está resolviendo
+   * @type {string | null}
+   */
+  resolvingConflictId: string | null = null;
+
+  /**
+   * Resolver un conflicto con la versión elegida
+   *
+   * @param {TaskConflict} conflict - El conflicto a resolver
+   * @param {TaskConflictResolution} resolution - Versión a conservar
+   * @returns {Promise<void>} Promise que se resuelve cuando se aplica la decisión
+   */
+  async resolve(
+    conflict: TaskConflict,
+    resolution: TaskConflictResolution
+  ): Promise<void> {
+    if (this.resolvingConflictId) return;
+
+    try {
+      this.resolvingConflictId = conflict.id;
+      await this.taskService.resolveConflict(conflict.id, resolution);
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+    } finally {
+      this.resolvingConflictId = null;
+    }
+  }
+
+  /**
+   * Obtener el título de la tarea en conflicto
+   *
+   * @param {TaskConflict} conflict - El conflicto
+   * @returns {string} Título de la versión local o, si no existe, de la remota
+   */
+  getConflictTitle(conflict: TaskConflict): string {
+    return (conflict.local ?? conflict.remote)?.title ?? '';
+  }
+
+  /**
+   * Obtener la explicación del conflicto
+   *
+   * @param {TaskConflict} conflict - El conflicto
+   * @returns {string} Descripción del conflicto en español
+   */
+  getConflictMessage(conflict: TaskConflict): string {
+    if (!conflict.local) {
+      return 'Eliminaste esta tarea sin conexión, pero alguien la modificó en el servidor.';
+    }
+    if (!conflict.remote) {
+      return 'Modificaste esta tarea sin conexión, pero alguien la eliminó en el servidor.';
+    }
+    return `Campos modificados por ti y en el servidor: ${conflict.fields
+      .map((field) => this.getFieldLabel(field))
+      .join(', ')}.`;
+  }
+
+  /**
+   * Obtener el nombre en español de un campo de tarea
+   *
+   * @param {TaskMergeField} field - El campo
+   * @returns {string} Nombre del campo
+   */
+  getFieldLabel(field: TaskMergeField): string {
+    return TASK_FIELD_LABELS[field];
+  }
+
+  /**
+   * Función de seguimiento para ngFor optimizada
+   *
+   * @param {number} index - Índice del elemento
+   * @param {TaskConflict} conflict - Conflicto
+   * @returns {string} ID único del conflicto
+   */
+  trackByConflictId(index: number, conflict: TaskConflict): string {
+    return conflict.id;
+  }
+}
@@ -0,0 +1,256 @@
+import { Component, OnInit, computed, inject, input, signal } from '@angular/core';
+import { DatePipe, NgFor, NgIf } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import {
+  TaskActivity,
+  TaskActivityField,
+  TaskActivityType,
+  TaskActivityValue,
+  TaskFieldChange,
+  describeTaskActivity,
+} from '../../models/task-activity.model';
+import { TASK_FIELD_LABELS } from '../../models/task-sync.model';
+import { describeReminder } from '../../models/task-reminder.model';
+import { INBOX_PROJECT_ID } from '../../models/project.model';
+import { TaskActivityService } from '../../services/task-activity.service';
+import { TaskStatusService } from '../../services/task-status.service';
+import { ProjectService } from '../../services/project.service';
+import { UserDirectoryService } from '../../services/user-directory.service';
+import { TaskService } from '../../services/task.service';
+
+/**
+ * Longitud máxima de una descripción mostrada en el historial
+ */
+const DESCRIPTION_PREVIEW_LENGTH = 80;
+
+/**
+ * Componente Historial de Actividad
+ *
+ * Componente standalone que muestra la línea de tiempo de una tarea: quién la
+ * creó, modificó, completó o eliminó, cuándo, y los valores anterior y nuevo
+ * de cada campo modificado. Los eventos más recientes aparecen primero y los
+ * registrados mientras el historial está abierto se añaden al momento.
+ *
+ * @component TaskActivityComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-task-activity',
+  standalone: true,
+  imports: [DatePipe, NgFor, NgIf, MatIconModule, MatProgressBarModule],
+  templateUrl: './task-activity.component.html',
+  styleUrl: './task-activity.component.scss',
+})
+export class TaskActivityComponent implements OnInit {
+  /**
+   * Servicio del historial de actividad
+   * @private
+   */
+  private readonly taskActivity = inject(TaskActivityService);
+
+  /**
+   * Servicio de estados del tablero, para mostrar el nombre de los estados
+   * @private
+   */
+  private readonly taskStatuses = inject(TaskStatusService);
+
+  /**
+   * Servicio de proyectos, para mostrar el nombre de los proyectos
+   * @private
+   */
+  private readonly projectService = inject(ProjectService);
+
+  /**
+   * Directorio de usuarios, para mostrar el nombre de los responsables
+   * @private
+   */
+  private readonly userDirectory = inject(UserDirectoryService);
+
+  /**
+   * Servicio de tareas, para mostrar el título de las tareas bloqueantes
+   * @private
+   */
+  private readonly taskService = inject(TaskService);
+
+  /**
+   * Entrada: ID de la tarea cuyo historial se muestra
+   * @type {InputSignal<string>}
+   */
+  readonly taskId = input.required<string>();
+
+  /**
+   * Eventos cargados del almacenamiento
+   * @private
+   */
+  private readonly storedEntries = signal<TaskActivity[]>([]);
+
+  /**
+   * Indica si se está cargando el historial
+   * @type {WritableSignal<boolean>}
+   */
+  readonly loading = signal(true);
+
+  /**
+   * Indica si no se pudo cargar el historial guardado
+   * @type {WritableSignal<boolean>}
+   */
+  readonly loadFailed = signal(false);
+
+  /**
+   * Señal computada de los eventos de la tarea, del más reciente al más antiguo
+   * @readonly
+   * @returns {Signal<TaskActivity[]>} Eventos guardados más los registrados en la sesión
+   */
+  readonly entries = computed(() => {
+    const entriesById = new Map(
+      this.storedEntries().map((entry) => [entry.id, entry])
+    );
+    this.taskActivity
+      .recorded()
+      .filter((entry) => entry.taskId === this.taskId())
+      .forEach((entry) => entriesById.set(entry.id, entry));
+
+    return [...entriesById.values()].sort(
+      (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+    );
+  });
+
+  /**
+   * Cargar el historial guardado de la tarea
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando el historial está cargado
+   */
+  async ngOnInit(): Promise<void> {
+    try {
+      this.storedEntries.set(await this.taskActivity.getTaskActivity(this.taskId()));
+    } catch (error) {
+      console.error('Error loading task activity:', error);
+      this.loadFailed.set(true);
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  /**
+   * Describir la acción de un evento
+   *
+   * @param {TaskActivityType} type - Tipo de evento
+   * @returns {string} Descripción en español
+   */
+  describe(type: TaskActivityType): string {
+    return describeTaskActivity(type);
+  }
+
+  /**
+   * Obtener el icono de un tipo de evento
+   *
+   * @param {TaskActivityType} type - Tipo de evento
+   * @returns {string} Nombre del icono Material
+   */
+  getActivityIcon(type: TaskActivityType): string {
+    switch (type) {
+      case 'created':
+        return 'add_circle';
+      case 'updated':
+        return 'edit';
+      case 'completed':
+        return 'check_circle';
+      case 'reopened':
+        return 'replay';
+      case 'deleted':
+        return 'delete';
+      case 'restored':
+        return 'restore_from_trash';
+      case 'purged':
+        return 'delete_forever';
+    }
+  }
+
+  /**
+   * Obtener el nombre en español de un campo
+   *
+   * @param {TaskActivityField} field - El campo
+   * @returns {string} Nombre del campo
+   */
+  getFieldLabel(field: TaskActivityField): string {
+    return TASK_FIELD_LABELS[field];
+  }
+
+  /**
+   * Formatear un valor registrado para mostrarlo
+   *
+   * @param {TaskActivityField} field - El campo al que pertenece el valor
+   * @param {TaskActivityValue} value - El valor registrado
+   * @returns {string} El valor legible
+   */
+  formatValue(field: TaskActivityField, value: TaskActivityValue): string {
+    if (field === 'projectId') {
+      return this.projectService.getProjectName((value as string | null) ?? INBOX_PROJECT_ID);
+    }
+    if (value === null) {
+      return 'vacío';
+    }
+
+    switch (field) {
+      case 'completed':
+        return value ? 'Sí' : 'No';
+      case 'priority':
+        return value === 'high' ? 'Alta' : value === 'low' ? 'Baja' : 'Media';
+      case 'status':
+        return (
+          this.taskStatuses.statuses().find((status) => status.id === value)?.label ??
+          String(value)
+        );
+      case 'dueDate':
+        return new Date(value as string).toLocaleDateString('es-ES');
+      case 'reminders':
+        return (value as number[]).map(describeReminder).join(', ');
+      case 'subtasks':
+        return `${value} completadas`;
+      case 'tags':
+        return (value as string[]).join(', ');
+      case 'assigneeId':
+        return this.userDirectory.getDisplayName(value as string);
+      case 'blockedBy':
+        return (value as string[])
+          .map(
+            (id) =>
+              [...this.taskService.tasks(), ...this.taskService.trashedTasks()].find(
+                (task) => task.id === id
+              )?.title ?? 'Tarea eliminada'
+          )
+          .join(', ');
+      case 'description': {
+        const text = String(value).replace(/\s+/g, ' ').trim();
+        return text.length > DESCRIPTION_PREVIEW_LENGTH
+          ? `${text.slice(0, DESCRIPTION_PREVIEW_LENGTH)}…`
+          : text;
+      }
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * Función de seguimiento para ngFor optimizada
+   *
+   * @param {number} index - Índice del elemento
+   * @param {TaskActivity} entry - Evento
+   * @returns {string} ID único del evento
+   */
+  trackByEntryId(index: number, entry: TaskActivity): string {
+    return entry.id;
+  }
+
+  /**
+   * Función de seguimiento de los cambios de un evento
+   *
+   * @param {number} index - Índice del elemento
+   * @param {TaskFieldChange} change - Cambio de campo
+   * @returns {string} Campo modificado (único dentro del evento)
+   */
+  trackByField(index: number, change: TaskFieldChange): string {
+    return change.field;
+  }
+}
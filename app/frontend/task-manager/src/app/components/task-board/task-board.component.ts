@@ -0,0 +1,456 @@
+import { Component, computed, inject, input, viewChild } from '@angular/core';
+import { NgClass, NgFor, NgIf } from '@angular/common';
+import {
+  CdkDrag,
+  CdkDragDrop,
+  CdkDropList,
+  DragDropModule,
+  moveItemInArray,
+} from '@angular/cdk/drag-drop';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { Task } from '../../models/task.model';
+import { TaskStatus } from '../../models/task-status.model';
+import {
+  INBOX_PROJECT_ID,
+  canEditProjectTasks,
+} from '../../models/project.model';
+import { TaskService } from '../../services/task.service';
+import { ProjectService } from '../../services/project.service';
+import { TaskStatusService } from '../../services/task-status.service';
+import {
+  TASK_STATUS_LABEL_MAX_LENGTH,
+  TaskValidationError,
+} from '../../validators/task.validator';
+import { sortTasks } from '../../search/task-sort';
+import { TaskItemComponent } from '../task-item/task-item.component';
+import { TaskFormComponent } from '../task-form/task-form.component';
+import { ProjectViewsComponent } from '../project-views/project-views.component';
+
+/**
+ * Columna del tablero con sus tareas
+ *
+ * @interface BoardColumn
+ */
+export interface BoardColumn {
+  /**
+   * Estado que representa la columna
+   * @type {TaskStatus}
+   */
+  status: TaskStatus;
+
+  /**
+   * Tareas del proyecto en ese estado, en orden manual
+   * @type {Task[]}
+   */
+  tasks: Task[];
+}
+
+/**
+ * Componente Tablero de Tareas
+ *
+ * Componente standalone que muestra las tareas de un proyecto (ruta
+ * `/projects/:id/board`) en columnas según su estado, con las tareas como
+ * tarjetas `TaskItemComponent`. Arrastrar una tarjeta a otra columna cambia su
+ * estado (y la completa o reabre); dentro de una columna, la reordena. Las columnas
+ * con límite de trabajo en curso no admiten más tareas al alcanzarlo.
+ * Las columnas se agregan, renombran, reordenan y eliminan desde su menú.
+ *
+ * @component TaskBoardComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-task-board',
+  standalone: true,
+  imports: [
+    NgClass,
+    NgFor,
+    NgIf,
+    DragDropModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatMenuModule,
+    MatDividerModule,
+    MatTooltipModule,
+    MatSnackBarModule,
+    TaskItemComponent,
+    TaskFormComponent,
+    ProjectViewsComponent,
+  ],
+  templateUrl: './task-board.component.html',
+  styleUrl: './task-board.component.scss',
+})
+export class TaskBoardComponent {
+  /**
+   * Servicio de tareas inyectado
+   * @readonly
+   */
+  readonly taskService = inject(TaskService);
+
+  /**
+   * Servicio de proyectos inyectado
+   * @readonly
+   */
+  readonly projectService = inject(ProjectService);
+
+  /**
+   * Servicio de estados del tablero inyectado
+   * @readonly
+   */
+  readonly taskStatuses = inject(TaskStatusService);
+
+  /**
+   * Servicio de notificaciones emergentes
+   * @private
+   */
+  private readonly snackBar = inject(MatSnackBar);
+
+  /**
+   * Referencia al formulario de tareas, usado para editar tarjetas (no se muestra a los lectores)
+   * @private
+   */
+  private readonly taskFormRef = viewChild(TaskFormComponent);
+
+  /**
+   * ID del proyecto implícito "Bandeja de entrada"
+   * @readonly
+   */
+  readonly inboxProjectId = INBOX_PROJECT_ID;
+
+  /**
+   * Entrada: ID del proyecto activo, enlazado desde el parámetro `:id` de la ruta
+   * @type {InputSignal<string>}
+   */
+  readonly projectId = input<string>(INBOX_PROJECT_ID, { alias: 'id' });
+
+  /**
+   * Señal computada que indica si el usuario puede crear y modificar tareas en el proyecto
+   * @readonly
+   * @returns {Signal<boolean>} False en los proyectos compartidos como lector
+   */
+  readonly canEditTasks = computed(() =>
+    canEditProjectTasks(this.projectService.getAccess(this.projectId()))
+  );
+
+  /**
+   * Señal computada de las columnas del tablero con las tareas del proyecto actual
+   * @readonly
+   * @returns {Signal<BoardColumn[]>} Una columna por estado, en el orden configurado
+   */
+  readonly columns = computed<BoardColumn[]>(() => {
+    const projectTasks = sortTasks(
+      this.taskService
+        .tasks()
+        .filter(
+          (task) =>
+            this.projectService.resolveProjectId(task.projectId) === this.projectId()
+        ),
+      'manual'
+    );
+
+    return this.taskStatuses.statuses().map((status) => ({
+      status,
+      tasks: projectTasks.filter(
+        (task) => this.taskStatuses.getTaskStatus(task).id === status.id
+      ),
+    }));
+  });
+
+  /**
+   * Predicado de CDK que impide soltar tareas de otra columna en una columna llena
+   *
+   * @param {CdkDrag<Task>} drag - La tarjeta arrastrada
+   * @param {CdkDropList<BoardColumn>} drop - La columna de destino
+   * @returns {boolean} True si la columna admite la tarjeta
+   */
+  readonly canEnterColumn = (
+    drag: CdkDrag<Task>,
+    drop: CdkDropList<BoardColumn>
+  ): boolean =>
+    drop.data.tasks.some((task) => task.id === drag.data.id) ||
+    !this.isAtLimit(drop.data);
+
+  /**
+   * Verificar si una columna alcanzó su límite de trabajo en curso
+   *
+   * @param {BoardColumn} column - La columna
+   * @returns {boolean} True si la columna tiene límite y no admite más tareas
+   */
+  isAtLimit(column: BoardColumn): boolean {
+    const { wipLimit } = column.status;
+    return wipLimit !== undefined && column.tasks.length >= wipLimit;
+  }
+
+  /**
+   * Verificar si una columna supera su límite de trabajo en curso
+   *
+   * Puede ocurrir al cambiar el estado desde la lista o al reducir el límite.
+   *
+   * @param {BoardColumn} column - La columna
+   * @returns {boolean} True si la columna tiene más tareas que su límite
+   */
+  isOverLimit(column: BoardColumn): boolean {
+    const { wipLimit } = column.status;
+    return wipLimit !== undefined && column.tasks.length > wipLimit;
+  }
+
+  /**
+   * Obtener el contador de tareas de una columna
+   *
+   * @param {BoardColumn} column - La columna
+   * @returns {string} Número de tareas, con el límite si lo tiene (p. ej. "3/5")
+   */
+  getCountText(column: BoardColumn): string {
+    const { wipLimit } = column.status;
+    return wipLimit === undefined
+      ? `${column.tasks.length}`
+      : `${column.tasks.length}/${wipLimit}`;
+  }
+
+  /**
+   * Mover o reordenar una tarjeta soltada en una columna
+   *
+   * @param {CdkDragDrop<BoardColumn, BoardColumn, Task>} event - El evento de soltar
+   * @returns {Promise<void>} Promise que se resuelve cuando se guarda el cambio
+   */
+  async onTaskDropped(
+    event: CdkDragDrop<BoardColumn, BoardColumn, Task>
+  ): Promise<void> {
+    const column = event.container.data;
+
+    if (event.previousContainer !== event.container) {
+      await this.moveTask(event.item.data, column.status);
+      return;
+    }
+
+    if (event.previousIndex === event.currentIndex) return;
+
+    const orderedIds = column.tasks.map((task) => task.id);
+    moveItemInArray(orderedIds, event.previousIndex, event.currentIndex);
+    await this.taskService.reorderTasks(orderedIds);
+  }
+
+  /**
+   * Maneja la solicitud de edición de una tarjeta
+   *
+   * @param {Task} task - La tarea a editar
+   * @returns {void}
+   */
+  onTaskEdit(task: Task): void {
+    this.taskFormRef()?.initializeEditMode(task);
+    document
+      .querySelector('.form-section')
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /**
+   * Maneja la actualización exitosa de una tarea desde el formulario
+   *
+   * @param {Task} task - La tarea actualizada
+   * @returns {void}
+   */
+  onTaskUpdated(task: Task): void {
+    this.snackBar.open(`Tarea "${task.title}" actualizada`, 'OK', {
+      duration: 3000,
+    });
+  }
+
+  /**
+   * Agregar una columna al final del tablero
+   *
+   * @returns {void}
+   */
+  addColumn(): void {
+    const label = this.promptColumnLabel('Nombre de la nueva columna:');
+    if (label) {
+      this.taskStatuses.addStatus(label);
+    }
+  }
+
+  /**
+   * Cambiar el nombre de una columna
+   *
+   * @param {TaskStatus} status - El estado de la columna
+   * @returns {void}
+   */
+  renameColumn(status: TaskStatus): void {
+    const label = this.promptColumnLabel('Nuevo nombre de la columna:', status.label);
+    if (label) {
+      this.taskStatuses.updateStatus(status.id, { label });
+    }
+  }
+
+  /**
+   * Establecer o quitar el límite de trabajo en curso de una columna
+   *
+   * @param {TaskStatus} status - El estado de la columna
+   * @returns {void}
+   */
+  setWipLimit(status: TaskStatus): void {
+    const value = prompt(
+      `Máximo de tareas en "${status.label}" por proyecto (vacío para no limitar):`,
+      status.wipLimit?.toString() ?? ''
+    );
+    if (value === null) return;
+
+    const wipLimit = value.trim() ? Number(value) : null;
+    if (wipLimit !== null && (!Number.isInteger(wipLimit) || wipLimit < 1)) {
+      this.snackBar.open('El límite debe ser un número entero positivo', 'OK', {
+        duration: 4000,
+      });
+      return;
+    }
+
+    this.taskStatuses.updateStatus(status.id, { wipLimit });
+  }
+
+  /**
+   * Alternar si una columna corresponde a tareas completadas
+   *
+   * @param {TaskStatus} status - El estado de la columna
+   * @returns {void}
+   */
+  toggleColumnDone(status: TaskStatus): void {
+    if (!this.taskStatuses.updateStatus(status.id, { done: !status.done })) {
+      this.showMinimumColumnsMessage();
+    }
+  }
+
+  /**
+   * Desplazar una columna a la izquierda o a la derecha
+   *
+   * @param {TaskStatus} status - El estado de la columna
+   * @param {number} step - -1 para moverla a la izquierda, 1 a la derecha
+   * @returns {void}
+   */
+  moveColumn(status: TaskStatus, step: number): void {
+    this.taskStatuses.moveStatus(status.id, step);
+  }
+
+  /**
+   * Eliminar una columna; sus tareas pasan a la columna predeterminada
+   *
+   * @param {TaskStatus} status - El estado de la columna
+   * @returns {void}
+   */
+  removeColumn(status: TaskStatus): void {
+    const fallback = status.done
+      ? this.taskStatuses.defaultDoneStatus()
+      : this.taskStatuses.defaultOpenStatus();
+    const message =
+      fallback.id === status.id
+        ? `¿Eliminar la columna "${status.label}"?`
+        : `¿Eliminar la columna "${status.label}"? Sus tareas pasarán a "${fallback.label}".`;
+    if (!confirm(message)) return;
+
+    if (!this.taskStatuses.removeStatus(status.id)) {
+      this.showMinimumColumnsMessage();
+    }
+  }
+
+  /**
+   * Restablecer las columnas iniciales
+   *
+   * @returns {void}
+   */
+  resetColumns(): void {
+    if (confirm('¿Restablecer las columnas iniciales del tablero?')) {
+      this.taskStatuses.resetStatuses();
+    }
+  }
+
+  /**
+   * Función de seguimiento para ngFor de columnas
+   *
+   * @param {number} index - Índice del elemento
+   * @param {BoardColumn} column - La columna
+   * @returns {string} ID del estado de la columna
+   */
+  trackByStatusId(index: number, column: BoardColumn): string {
+    return column.status.id;
+  }
+
+  /**
+   * Función de seguimiento para ngFor de tarjetas
+   *
+   * @param {number} index - Índice del elemento
+   * @param {Task} task - La tarea
+   * @returns {string} ID de la tarea
+   */
+  trackByTaskId(index: number, task: Task): string {
+    return task.id;
+  }
+
+  /**
+   * Cambiar el estado de una tarea, con opción de deshacer
+   *
+   * @private
+   * @param {Task} task - La tarea a mover
+   * @param {TaskStatus} status - El estado destino
+   * @returns {Promise<void>} Promise que se resuelve cuando se guarda el cambio
+   */
+  private async moveTask(task: Task, status: TaskStatus): Promise<void> {
+    try {
+      await this.taskService.setTaskStatus(task.id, status.id);
+      const historyEntry = this.taskService.undoEntry();
+      this.snackBar
+        .open(`"${task.title}" movida a "${status.label}"`, 'Deshacer', {
+          duration: 4000,
+        })
+        .onAction()
+        .subscribe(() => void this.taskService.undo(historyEntry));
+    } catch (error) {
+      if (error instanceof TaskValidationError) {
+        this.snackBar.open(
+          Object.values(error.errors)[0]?.message ?? error.message,
+          'OK',
+          { duration: 4000 }
+        );
+      } else {
+        console.error('Error al mover la tarea:', error);
+      }
+    }
+  }
+
+  /**
+   * Pedir el nombre de una columna y validarlo
+   *
+   * @private
+   * @param {string} message - Texto de la petición
+   * @param {string} initialValue - Valor inicial
+   * @returns {string | null} El nombre sin espacios sobrantes, o null si se canceló o no es válido
+   */
+  private promptColumnLabel(message: string, initialValue = ''): string | null {
+    const label = prompt(message, initialValue)?.trim();
+    if (!label) return null;
+
+    if (label.length > TASK_STATUS_LABEL_MAX_LENGTH) {
+      this.snackBar.open(
+        `El nombre no puede superar los ${TASK_STATUS_LABEL_MAX_LENGTH} caracteres`,
+        'OK',
+        { duration: 4000 }
+      );
+      return null;
+    }
+    return label;
+  }
+
+  /**
+   * Avisar de que el tablero necesita columnas pendientes y completadas
+   * @private
+   * @returns {void}
+   */
+  private showMinimumColumnsMessage(): void {
+    this.snackBar.open(
+      'El tablero necesita al menos una columna pendiente y una completada',
+      'OK',
+      { duration: 4000 }
+    );
+  }
+}
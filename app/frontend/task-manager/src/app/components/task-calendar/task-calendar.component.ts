@@ -0,0 +1,432 @@
+import { Component, computed, inject, input, signal } from '@angular/core';
+import { NgClass, NgFor, NgIf } from '@angular/common';
+import { CdkDragDrop, DragDropModule } from '@angular/cdk/drag-drop';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { Task, getTaskDeadline, isTaskOverdue } from '../../models/task.model';
+import { INBOX_PROJECT_ID } from '../../models/project.model';
+import { TaskService } from '../../services/task.service';
+import { ProjectService } from '../../services/project.service';
+import { TaskReminderService } from '../../services/task-reminder.service';
+import { TaskValidationError } from '../../validators/task.validator';
+import { ProjectViewsComponent } from '../project-views/project-views.component';
+
+/**
+ * Modos de visualización del calendario
+ */
+export type CalendarViewMode = 'month' | 'week';
+
+/**
+ * Día mostrado en el calendario con sus tareas
+ *
+ * @interface CalendarDay
+ */
+export interface CalendarDay {
+  /**
+   * Fecha del día (a las 00:00 hora local)
+   * @type {Date}
+   */
+  date: Date;
+
+  /**
+   * Clave del día (`AAAA-MM-DD`), usada como identificador
+   * @type {string}
+   */
+  key: string;
+
+  /**
+   * Indica si el día pertenece al mes mostrado
+   * @type {boolean}
+   */
+  inCurrentMonth: boolean;
+
+  /**
+   * Indica si el día es hoy
+   * @type {boolean}
+   */
+  isToday: boolean;
+
+  /**
+   * Tareas que vencen ese día, ordenadas por hora de vencimiento
+   * @type {Task[]}
+   */
+  tasks: Task[];
+}
+
+/**
+ * Componente Calendario de Tareas
+ *
+ * Componente standalone que muestra las tareas de un proyecto (ruta
+ * `/projects/:id/calendar`) en un calendario mensual o semanal según su fecha
+ * de vencimiento. Las tareas se reprograman arrastrándolas a otro día; arrastrarlas
+ * a la bandeja "Sin fecha" les quita la fecha, y desde ella se programan las tareas
+ * pendientes sin fecha. Las tareas vencidas se resaltan con el mismo criterio que la lista.
+ *
+ * @component TaskCalendarComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-task-calendar',
+  standalone: true,
+  imports: [
+    NgClass,
+    NgFor,
+    NgIf,
+    DragDropModule,
+    MatCardModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule,
+    MatTooltipModule,
+    MatSnackBarModule,
+    ProjectViewsComponent,
+  ],
+  templateUrl: './task-calendar.component.html',
+  styleUrl: './task-calendar.component.scss',
+})
+export class TaskCalendarComponent {
+  /**
+   * Servicio de tareas inyectado
+   * @readonly
+   */
+  readonly taskService = inject(TaskService);
+
+  /**
+   * Servicio de proyectos inyectado
+   * @readonly
+   */
+  readonly projectService = inject(ProjectService);
+
+  /**
+   * Servicio de recordatorios, que proporciona la hora actual para el vencimiento
+   * @private
+   */
+  private readonly taskReminders = inject(TaskReminderService);
+
+  /**
+   * Servicio de notificaciones emergentes
+   * @private
+   */
+  private readonly snackBar = inject(MatSnackBar);
+
+  /**
+   * ID del proyecto implícito "Bandeja de entrada"
+   * @readonly
+   */
+  readonly inboxProjectId = INBOX_PROJECT_ID;
+
+  /**
+   * Entrada: ID del proyecto activo, enlazado desde el parámetro `:id` de la ruta
+   * @type {InputSignal<string>}
+   */
+  readonly projectId = input<string>(INBOX_PROJECT_ID, { alias: 'id' });
+
+  /**
+   * Nombres abreviados de los días de la semana, empezando en lunes
+   * @readonly
+   */
+  readonly weekdayNames = ['lun', 'mar', 'mié', 'jue', 'vie', 'sáb', 'dom'];
+
+  /**
+   * Modo de visualización actual
+   * @type {WritableSignal<CalendarViewMode>}
+   */
+  readonly viewMode = signal<CalendarViewMode>('month');
+
+  /**
+   * Fecha de referencia del periodo mostrado
+   * @type {WritableSignal<Date>}
+   */
+  readonly anchorDate = signal(startOfDay(new Date()));
+
+  /**
+   * Señal computada de las tareas activas del proyecto actual
+   * @readonly
+   * @returns {Signal<Task[]>} Tareas del proyecto
+   */
+  readonly projectTasks = computed(() =>
+    this.taskService
+      .tasks()
+      .filter(
+        (task) =>
+          this.projectService.resolveProjectId(task.projectId) === this.projectId()
+      )
+  );
+
+  /**
+   * Señal computada de las tareas pendientes sin fecha de vencimiento
+   * @readonly
+   * @returns {Signal<Task[]>} Tareas de la bandeja "Sin fecha"
+   */
+  readonly unscheduledTasks = computed(() =>
+    this.projectTasks().filter((task) => !task.dueDate && !task.completed)
+  );
+
+  /**
+   * Señal computada de los días del periodo mostrado con sus tareas
+   *
+   * El mes se muestra en semanas completas de lunes a domingo.
+   *
+   * @readonly
+   * @returns {Signal<CalendarDay[]>} Días del mes (en semanas completas) o de la semana
+   */
+  readonly days = computed<CalendarDay[]>(() => {
+    const anchor = this.anchorDate();
+    const todayKey = toDayKey(this.taskReminders.now());
+    const tasksByDay = new Map<string, Task[]>();
+    for (const task of this.projectTasks()) {
+      if (task.dueDate) {
+        const key = toDayKey(task.dueDate);
+        tasksByDay.set(key, [...(tasksByDay.get(key) ?? []), task]);
+      }
+    }
+
+    const isMonth = this.viewMode() === 'month';
+    const firstDay = isMonth
+      ? startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+      : startOfWeek(anchor);
+    const dayCount = isMonth
+      ? Math.ceil(
+          (daysBetween(firstDay, endOfMonth(anchor)) + 1) / 7
+        ) * 7
+      : 7;
+
+    return Array.from({ length: dayCount }, (_, i) => {
+      const date = new Date(
+        firstDay.getFullYear(),
+        firstDay.getMonth(),
+        firstDay.getDate() + i
+      );
+      const key = toDayKey(date);
+      return {
+        date,
+        key,
+        inCurrentMonth: !isMonth || date.getMonth() === anchor.getMonth(),
+        isToday: key === todayKey,
+        tasks: (tasksByDay.get(key) ?? []).sort(
+          (a, b) => getTaskDeadline(a)!.getTime() - getTaskDeadline(b)!.getTime()
+        ),
+      };
+    });
+  });
+
+  /**
+   * Señal computada del título del periodo mostrado
+   * @readonly
+   * @returns {Signal<string>} Mes y año, o rango de la semana
+   */
+  readonly periodTitle = computed(() => {
+    if (this.viewMode() === 'month') {
+      return this.anchorDate().toLocaleDateString('es-ES', {
+        month: 'long',
+        year: 'numeric',
+      });
+    }
+
+    const days = this.days();
+    const format: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short' };
+    return `${days[0].date.toLocaleDateString('es-ES', format)} – ${days[6].date.toLocaleDateString(
+      'es-ES',
+      { ...format, year: 'numeric' }
+    )}`;
+  });
+
+  /**
+   * Cambiar entre vista mensual y semanal
+   *
+   * @param {CalendarViewMode} mode - El modo de visualización
+   * @returns {void}
+   */
+  setViewMode(mode: CalendarViewMode): void {
+    this.viewMode.set(mode);
+  }
+
+  /**
+   * Avanzar o retroceder un periodo (mes o semana)
+   *
+   * @param {number} step - 1 para el siguiente periodo, -1 para el anterior
+   * @returns {void}
+   */
+  movePeriod(step: number): void {
+    const anchor = this.anchorDate();
+    this.anchorDate.set(
+      this.viewMode() === 'month'
+        ? new Date(anchor.getFullYear(), anchor.getMonth() + step, 1)
+        : new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + step * 7)
+    );
+  }
+
+  /**
+   * Volver al periodo que contiene el día de hoy
+   *
+   * @returns {void}
+   */
+  goToToday(): void {
+    this.anchorDate.set(startOfDay(new Date()));
+  }
+
+  /**
+   * Verificar si una tarea está vencida
+   *
+   * @param {Task} task - La tarea
+   * @returns {boolean} True si la tarea está vencida
+   */
+  isOverdue(task: Task): boolean {
+    return isTaskOverdue(task, this.taskReminders.now());
+  }
+
+  /**
+   * Obtener el texto de ayuda de una tarea del calendario
+   *
+   * @param {Task} task - La tarea
+   * @returns {string} Título, hora y prioridad de la tarea
+   */
+  getTaskTooltip(task: Task): string {
+    const priority = { low: 'baja', medium: 'media', high: 'alta' }[task.priority];
+    const time = task.dueTime ? ` · ${task.dueTime}` : '';
+    return `${task.title}${time} · Prioridad ${priority}`;
+  }
+
+  /**
+   * Reprogramar una tarea soltada en un día del calendario
+   *
+   * @param {CdkDragDrop<CalendarDay, unknown, Task>} event - El evento de soltar
+   * @returns {Promise<void>} Promise que se resuelve cuando se guarda la nueva fecha
+   */
+  async onTaskDroppedOnDay(
+    event: CdkDragDrop<CalendarDay, unknown, Task>
+  ): Promise<void> {
+    if (event.previousContainer === event.container) return;
+    await this.rescheduleTask(event.item.data, event.container.data.date);
+  }
+
+  /**
+   * Quitar la fecha a una tarea soltada en la bandeja "Sin fecha"
+   *
+   * @param {CdkDragDrop<null, unknown, Task>} event - El evento de soltar
+   * @returns {Promise<void>} Promise que se resuelve cuando se guarda el cambio
+   */
+  async onTaskUnscheduled(event: CdkDragDrop<null, unknown, Task>): Promise<void> {
+    if (event.previousContainer === event.container) return;
+    await this.rescheduleTask(event.item.data, null);
+  }
+
+  /**
+   * Cambiar la fecha de vencimiento de una tarea, conservando su hora
+   *
+   * Muestra un aviso con la opción de deshacer el cambio.
+   *
+   * @private
+   * @param {Task} task - La tarea a reprogramar
+   * @param {Date | null} date - El nuevo día, o null para quitar la fecha
+   * @returns {Promise<void>} Promise que se resuelve cuando se guarda el cambio
+   */
+  private async rescheduleTask(task: Task, date: Date | null): Promise<void> {
+    try {
+      await this.taskService.updateTask(task.id, {
+        dueDate: date && new Date(date),
+      });
+      const historyEntry = this.taskService.undoEntry();
+      this.snackBar
+        .open(
+          date
+            ? `"${task.title}" reprogramada para el ${date.toLocaleDateString('es-ES')}`
+            : `"${task.title}" ya no tiene fecha`,
+          'Deshacer',
+          { duration: 4000 }
+        )
+        .onAction()
+        .subscribe(() => void this.taskService.undo(historyEntry));
+    } catch (error) {
+      if (error instanceof TaskValidationError) {
+        this.snackBar.open(
+          Object.values(error.errors)[0]?.message ?? error.message,
+          'Cerrar',
+          { duration: 4000 }
+        );
+      } else {
+        console.error('Error al reprogramar la tarea:', error);
+      }
+    }
+  }
+
+  /**
+   * Función de seguimiento para ngFor de días
+   *
+   * @param {number} index - Índice del elemento
+   * @param {CalendarDay} day - El día
+   * @returns {string} Clave del día
+   */
+  trackByDayKey(index: number, day: CalendarDay): string {
+    return day.key;
+  }
+
+  /**
+   * Función de seguimiento para ngFor de tareas
+   *
+   * @param {number} index - Índice del elemento
+   * @param {Task} task - La tarea
+   * @returns {string} ID de la tarea
+   */
+  trackByTaskId(index: number, task: Task): string {
+    return task.id;
+  }
+}
+
+/**
+ * Obtener el inicio (00:00) de un día
+ *
+ * @param {Date} date - La fecha
+ * @returns {Date} La fecha a las 00:00 hora local
+ */
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Obtener el lunes de la semana de una fecha
+ *
+ * @param {Date} date - La fecha
+ * @returns {Date} El lunes a las 00:00
+ */
+function startOfWeek(date: Date): Date {
+  const offset = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
+/**
+ * Obtener el último día del mes de una fecha
+ *
+ * @param {Date} date - La fecha
+ * @returns {Date} El último día del mes a las 00:00
+ */
+function endOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0);
+}
+
+/**
+ * Contar los días entre dos fechas a las 00:00
+ *
+ * @param {Date} from - Fecha inicial
+ * @param {Date} to - Fecha final
+ * @returns {number} Número de días (redondeado, para tolerar cambios de horario)
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 86400000);
+}
+
+/**
+ * Obtener la clave de un día en hora local
+ *
+ * @param {Date} date - La fecha
+ * @returns {string} Clave `AAAA-MM-DD`
+ */
+function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
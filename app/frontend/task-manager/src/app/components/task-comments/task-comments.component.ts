@@ -0,0 +1,249 @@
+import { Component, OnInit, computed, inject, input } from '@angular/core';
+import { DatePipe, NgFor, NgIf } from '@angular/common';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MarkdownViewComponent } from '../markdown-view/markdown-view.component';
+import { TaskComment } from '../../models/task-comment.model';
+import { TaskCommentService } from '../../services/task-comment.service';
+import {
+  TASK_COMMENT_MAX_LENGTH,
+  TaskCommentValidationError,
+} from '../../validators/task-comment.validator';
+
+/**
+ * Componente Comentarios de Tarea
+ *
+ * Componente standalone que muestra la conversación de una tarea bajo su
+ * tarjeta: cada comentario con su autor, fecha y si fue editado. El texto
+ * admite Markdown. Permite comentar (Ctrl+Enter envía) y editar o eliminar
+ * los comentarios propios.
+ *
+ * @component TaskCommentsComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-task-comments',
+  standalone: true,
+  imports: [
+    DatePipe,
+    NgFor,
+    NgIf,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatTooltipModule,
+    MarkdownViewComponent,
+  ],
+  templateUrl: './task-comments.component.html',
+  styleUrl: './task-comments.component.scss',
+})
+export class TaskCommentsComponent implements OnInit {
+  /**
+   * Servicio de comentarios
+   * @readonly
+   */
+  readonly commentService = inject(TaskCommentService);
+
+  /**
+   * Entrada: ID de la tarea cuyos comentarios se muestran
+   * @type {InputSignal<string>}
+   */
+  readonly taskId = input.required<string>();
+
+  /**
+   * Señal computada de los comentarios de la tarea, del más antiguo al más reciente
+   * @readonly
+   * @returns {Signal<TaskComment[]>} Los comentarios
+   */
+  readonly comments = computed(() =>
+    this.commentService.getTaskComments(this.taskId())
+  );
+
+  /**
+   * Longitud máxima de un comentario
+   * @readonly
+   */
+  readonly maxLength = TASK_COMMENT_MAX_LENGTH;
+
+  /**
+   * Control del comentario nuevo
+   * @type {FormControl<string>}
+   */
+  readonly newCommentControl = new FormControl('', {
+    nonNullable: true,
+    validators: [Validators.maxLength(TASK_COMMENT_MAX_LENGTH)],
+  });
+
+  /**
+   * Control del texto del comentario en edición
+   * @type {FormControl<string>}
+   */
+  readonly editControl = new FormControl('', {
+    nonNullable: true,
+    validators: [Validators.maxLength(TASK_COMMENT_MAX_LENGTH)],
+  });
+
+  /**
+   * ID del comentario en edición (null si no se edita ninguno)
+   * @type {string | null}
+   */
+  editingCommentId: string | null = null;
+
+  /**
+   * Indica si hay una operación en curso
+   * @type {boolean}
+   */
+  isSaving = false;
+
+  /**
+   * Mensaje de error de la última operación (null si no hay)
+   * @type {string | null}
+   */
+  errorMessage: string | null = null;
+
+  /**
+   * Cargar los comentarios más recientes, incluidos los de otros usuarios
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se cargaron los comentarios
+   */
+  async ngOnInit(): Promise<void> {
+    await this.commentService.refresh();
+  }
+
+  /**
+   * Verificar si un comentario fue editado después de escribirse
+   *
+   * @param {TaskComment} comment - El comentario
+   * @returns {boolean} True si su fecha de edición es posterior a la de creación
+   */
+  isEdited(comment: TaskComment): boolean {
+    return comment.updatedAt.getTime() > comment.createdAt.getTime();
+  }
+
+  /**
+   * Enviar el comentario nuevo con Ctrl+Enter
+   *
+   * @param {KeyboardEvent} event - El evento de teclado
+   * @returns {void}
+   */
+  onNewCommentKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      void this.addComment();
+    }
+  }
+
+  /**
+   * Publicar el comentario nuevo
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se publica el comentario
+   */
+  async addComment(): Promise<void> {
+    const text = this.newCommentControl.value;
+    if (!text.trim() || this.isSaving) return;
+
+    await this.runSaving(async () => {
+      await this.commentService.addComment(this.taskId(), text);
+      this.newCommentControl.reset();
+    });
+  }
+
+  /**
+   * Empezar a editar un comentario propio
+   *
+   * @param {TaskComment} comment - El comentario
+   * @returns {void}
+   */
+  startEdit(comment: TaskComment): void {
+    this.editingCommentId = comment.id;
+    this.editControl.setValue(comment.text);
+    this.errorMessage = null;
+  }
+
+  /**
+   * Cancelar la edición en curso
+   *
+   * @returns {void}
+   */
+  cancelEdit(): void {
+    this.editingCommentId = null;
+    this.editControl.reset();
+  }
+
+  /**
+   * Guardar el texto editado del comentario
+   *
+   * @param {TaskComment} comment - El comentario en edición
+   * @returns {Promise<void>} Promise que se resuelve cuando se guarda el comentario
+   */
+  async saveEdit(comment: TaskComment): Promise<void> {
+    const text = this.editControl.value;
+    if (text.trim() === comment.text) {
+      this.cancelEdit();
+      return;
+    }
+
+    await this.runSaving(async () => {
+      await this.commentService.updateComment(comment.id, text);
+      this.cancelEdit();
+    });
+  }
+
+  /**
+   * Eliminar un comentario propio después de confirmación
+   *
+   * @param {TaskComment} comment - El comentario a eliminar
+   * @returns {Promise<void>} Promise que se resuelve cuando se elimina el comentario
+   */
+  async deleteComment(comment: TaskComment): Promise<void> {
+    if (!confirm('¿Eliminar este comentario?')) return;
+
+    await this.runSaving(async () => {
+      await this.commentService.deleteComment(comment.id);
+      if (this.editingCommentId === comment.id) {
+        this.cancelEdit();
+      }
+    });
+  }
+
+  /**
+   * Función de seguimiento para ngFor optimizada
+   *
+   * @param {number} index - Índice del elemento
+   * @param {TaskComment} comment - El comentario
+   * @returns {string} ID del comentario
+   */
+  trackByCommentId(index: number, comment: TaskComment): string {
+    return comment.id;
+  }
+
+  /**
+   * Ejecutar una operación marcando el estado de guardado y mostrando sus errores
+   *
+   * @private
+   * @param {() => Promise<void>} operation - La operación a ejecutar
+   * @returns {Promise<void>} Promise que se resuelve cuando termina la operación
+   */
+  private async runSaving(operation: () => Promise<void>): Promise<void> {
+    this.isSaving = true;
+    this.errorMessage = null;
+    try {
+      await operation();
+    } catch (error) {
+      if (error instanceof TaskCommentValidationError) {
+        this.errorMessage = error.errors.text?.message ?? error.message;
+      } else {
+        console.error('Error saving task comment:', error);
+        this.errorMessage = 'No se pudo guardar el comentario';
+      }
+    } finally {
+      this.isSaving = false;
+    }
+  }
+}
@@ -0,0 +1,309 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { NgFor, NgIf } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { Task } from '../../models/task.model';
+import { INBOX_PROJECT_ID } from '../../models/project.model';
+import { getDependencyLevels } from '../../models/task-dependency.model';
+import { TaskService } from '../../services/task.service';
+import { ProjectService } from '../../services/project.service';
+import { ProjectViewsComponent } from '../project-views/project-views.component';
+
+/**
+ * Estados de una tarea en el grafo de dependencias
+ */
+export type DependencyNodeState = 'completed' | 'blocked' | 'ready';
+
+/**
+ * Tarea colocada en el grafo de dependencias
+ *
+ * @interface DependencyNode
+ */
+export interface DependencyNode {
+  /**
+   * La tarea
+   * @type {Task}
+   */
+  task: Task;
+
+  /**
+   * Estado de la tarea, que determina su color
+   * @type {DependencyNodeState}
+   */
+  state: DependencyNodeState;
+
+  /**
+   * Posición horizontal de la esquina superior izquierda
+   * @type {number}
+   */
+  x: number;
+
+  /**
+   * Posición vertical de la esquina superior izquierda
+   * @type {number}
+   */
+  y: number;
+}
+
+/**
+ * Relación "bloquea a" dibujada entre dos tareas del grafo
+ *
+ * @interface DependencyEdge
+ */
+export interface DependencyEdge {
+  /**
+   * Identificador de la relación (`bloqueante→bloqueada`)
+   * @type {string}
+   */
+  key: string;
+
+  /**
+   * Trazado SVG de la flecha
+   * @type {string}
+   */
+  path: string;
+
+  /**
+   * Indica si la tarea bloqueante sigue pendiente
+   * @type {boolean}
+   */
+  pending: boolean;
+}
+
+/**
+ * Ancho de cada tarea del grafo, en píxeles
+ */
+const NODE_WIDTH = 200;
+
+/**
+ * Alto de cada tarea del grafo, en píxeles
+ */
+const NODE_HEIGHT = 48;
+
+/**
+ * Separación horizontal entre niveles del grafo, en píxeles
+ */
+const LEVEL_GAP = 80;
+
+/**
+ * Separación vertical entre tareas del mismo nivel, en píxeles
+ */
+const ROW_GAP = 16;
+
+/**
+ * Longitud máxima del título mostrado en cada tarea
+ */
+const TITLE_MAX_LENGTH = 26;
+
+/**
+ * Componente Grafo de Dependencias
+ *
+ * Componente standalone que dibuja las dependencias entre las tareas de un
+ * proyecto (ruta `/projects/:id/dependencies`). Cada tarea bloqueante queda a
+ * la izquierda de las tareas que bloquea, unidas por una flecha; las tareas se
+ * colorean según estén completadas, bloqueadas o listas para empezar. Se
+ * incluyen las tareas de otros proyectos relacionadas con las del proyecto.
+ *
+ * @component TaskDependencyGraphComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-task-dependency-graph',
+  standalone: true,
+  imports: [NgFor, NgIf, MatCardModule, MatIconModule, ProjectViewsComponent],
+  templateUrl: './task-dependency-graph.component.html',
+  styleUrl: './task-dependency-graph.component.scss',
+})
+export class TaskDependencyGraphComponent {
+  /**
+   * Servicio de tareas inyectado
+   * @readonly
+   */
+  readonly taskService = inject(TaskService);
+
+  /**
+   * Servicio de proyectos inyectado
+   * @readonly
+   */
+  readonly projectService = inject(ProjectService);
+
+  /**
+   * ID del proyecto implícito "Bandeja de entrada"
+   * @readonly
+   */
+  readonly inboxProjectId = INBOX_PROJECT_ID;
+
+  /**
+   * Dimensiones de cada tarea del grafo
+   * @readonly
+   */
+  readonly nodeSize = { width: NODE_WIDTH, height: NODE_HEIGHT };
+
+  /**
+   * Entrada: ID del proyecto activo, enlazado desde el parámetro `:id` de la ruta
+   * @type {InputSignal<string>}
+   */
+  readonly projectId = input<string>(INBOX_PROJECT_ID, { alias: 'id' });
+
+  /**
+   * Señal computada de las tareas del grafo
+   *
+   * Incluye las tareas del proyecto que bloquean o están bloqueadas por otras
+   * y las del otro extremo de cada relación, aunque sean de otro proyecto.
+   *
+   * @readonly
+   * @returns {Signal<Task[]>} Tareas con dependencias
+   */
+  readonly graphTasks = computed(() => {
+    const tasks = this.taskService.tasks();
+    const projectTaskIds = new Set(
+      tasks
+        .filter(
+          (task) => this.projectService.resolveProjectId(task.projectId) === this.projectId()
+        )
+        .map((task) => task.id)
+    );
+    const ids = new Set<string>();
+
+    for (const task of tasks) {
+      for (const blocker of this.taskService.getBlockers(task)) {
+        if (projectTaskIds.has(task.id) || projectTaskIds.has(blocker.id)) {
+          ids.add(task.id);
+          ids.add(blocker.id);
+        }
+      }
+    }
+
+    return tasks.filter((task) => ids.has(task.id));
+  });
+
+  /**
+   * Señal computada de las tareas del grafo con su posición
+   *
+   * Cada nivel es una columna; dentro de ella las tareas se ordenan por título.
+   *
+   * @readonly
+   * @returns {Signal<DependencyNode[]>} Tareas colocadas
+   */
+  readonly nodes = computed<DependencyNode[]>(() => {
+    const tasks = this.graphTasks();
+    const levels = getDependencyLevels(tasks);
+    const columns: Task[][] = [];
+    for (const task of tasks) {
+      const level = levels.get(task.id) ?? 0;
+      (columns[level] ??= []).push(task);
+    }
+
+    return columns.flatMap((column, level) =>
+      [...column]
+        .sort((a, b) => a.title.localeCompare(b.title))
+        .map((task, row) => ({
+          task,
+          state: this.getNodeState(task),
+          x: level * (NODE_WIDTH + LEVEL_GAP),
+          y: row * (NODE_HEIGHT + ROW_GAP),
+        }))
+    );
+  });
+
+  /**
+   * Señal computada de las flechas entre tareas bloqueantes y bloqueadas
+   * @readonly
+   * @returns {Signal<DependencyEdge[]>} Relaciones del grafo
+   */
+  readonly edges = computed<DependencyEdge[]>(() => {
+    const nodesById = new Map(this.nodes().map((node) => [node.task.id, node]));
+
+    return this.nodes().flatMap((node) =>
+      (node.task.blockedBy ?? [])
+        .map((blockerId) => nodesById.get(blockerId))
+        .filter((blocker): blocker is DependencyNode => !!blocker)
+        .map((blocker) => {
+          const startX = blocker.x + NODE_WIDTH;
+          const startY = blocker.y + NODE_HEIGHT / 2;
+          const endX = node.x;
+          const endY = node.y + NODE_HEIGHT / 2;
+          const curve = Math.max(LEVEL_GAP / 2, (endX - startX) / 2);
+          return {
+            key: `${blocker.task.id}→${node.task.id}`,
+            path: `M ${startX} ${startY} C ${startX + curve} ${startY}, ${endX - curve} ${endY}, ${endX} ${endY}`,
+            pending: !blocker.task.completed,
+          };
+        })
+    );
+  });
+
+  /**
+   * Señal computada del tamaño del dibujo
+   * @readonly
+   * @returns {Signal<{ width: number; height: number }>} Ancho y alto en píxeles
+   */
+  readonly viewBox = computed(() => {
+    const nodes = this.nodes();
+    return {
+      width: Math.max(0, ...nodes.map((node) => node.x + NODE_WIDTH)),
+      height: Math.max(0, ...nodes.map((node) => node.y + NODE_HEIGHT)),
+    };
+  });
+
+  /**
+   * Obtener el estado de una tarea del grafo
+   *
+   * @param {Task} task - La tarea
+   * @returns {DependencyNodeState} Completada, bloqueada por tareas pendientes o lista
+   */
+  getNodeState(task: Task): DependencyNodeState {
+    if (task.completed) {
+      return 'completed';
+    }
+    return this.taskService.isBlocked(task) ? 'blocked' : 'ready';
+  }
+
+  /**
+   * Obtener el título abreviado que cabe en una tarea del grafo
+   *
+   * @param {Task} task - La tarea
+   * @returns {string} El título, recortado con puntos suspensivos si es largo
+   */
+  getNodeTitle(task: Task): string {
+    return task.title.length > TITLE_MAX_LENGTH
+      ? `${task.title.slice(0, TITLE_MAX_LENGTH - 1)}…`
+      : task.title;
+  }
+
+  /**
+   * Obtener la descripción del estado de una tarea del grafo
+   *
+   * @param {DependencyNode} node - La tarea colocada
+   * @returns {string} Estado y proyecto de la tarea
+   */
+  getNodeSubtitle(node: DependencyNode): string {
+    const state = { completed: 'Completada', blocked: 'Bloqueada', ready: 'Lista' }[node.state];
+    const projectId = this.projectService.resolveProjectId(node.task.projectId);
+    return projectId === this.projectId()
+      ? state
+      : `${state} · ${this.projectService.getProjectName(projectId)}`;
+  }
+
+  /**
+   * Función de seguimiento para ngFor de tareas del grafo
+   *
+   * @param {number} index - Índice del elemento
+   * @param {DependencyNode} node - La tarea colocada
+   * @returns {string} El ID de la tarea
+   */
+  trackByTaskId(index: number, node: DependencyNode): string {
+    return node.task.id;
+  }
+
+  /**
+   * Función de seguimiento para ngFor de relaciones
+   *
+   * @param {number} index - Índice del elemento
+   * @param {DependencyEdge} edge - La relación
+   * @returns {string} El identificador de la relación
+   */
+  trackByEdgeKey(index: number, edge: DependencyEdge): string {
+    return edge.key;
+  }
+}
@@ -1,11 +1,14 @@
-import { Component, inject, output } from '@angular/core';
+import { Component, inject, input, output } from '@angular/core';
+import { COMMA, ENTER } from '@angular/cdk/keycodes';
 import {
+  FormArray,
   FormBuilder,
+  FormControl,
   FormGroup,
   Validators,
   ReactiveFormsModule,
 } from '@angular/forms';
-import { NgIf } from '@angular/common';
+import { NgFor, NgIf } from '@angular/common';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 import { MatButtonModule } from '@angular/material/button';
@@ -14,14 +17,72 @@ import { MatDatepickerModule } from '@angular/material/datepicker';
 import { MatNativeDateModule } from '@angular/material/core';
 import { MatCardModule } from '@angular/material/card';
 import { MatIconModule } from '@angular/material/icon';
-import { CreateTaskRequest, Task, UpdateTaskRequest } from '../../models/task.model';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatChipInputEvent, MatChipsModule } from '@angular/material/chips';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import {
+  MatAutocompleteModule,
+  MatAutocompleteSelectedEvent,
+} from '@angular/material/autocomplete';
+import {
+  CreateTaskRequest,
+  Subtask,
+  Task,
+  UpdateTaskRequest,
+  createSubtask,
+  normalizeTags,
+} from '../../models/task.model';
+import { INBOX_PROJECT_ID } from '../../models/project.model';
+import {
+  TaskRecurrence,
+  TaskRecurrenceFrequency,
+  WEEKDAY_LABELS,
+} from '../../models/task-recurrence.model';
+import {
+  TASK_REMINDER_PRESETS,
+  describeReminder,
+} from '../../models/task-reminder.model';
+import { User } from '../../models/user.model';
+import {
+  TaskAttachment,
+  formatAttachmentSize,
+  getAttachmentIcon,
+} from '../../models/task-attachment.model';
 import { TaskService } from '../../services/task.service';
+import { ProjectService } from '../../services/project.service';
+import { UserDirectoryService } from '../../services/user-directory.service';
+import { TaskAttachmentService } from '../../services/task-attachment.service';
+import { MarkdownViewComponent } from '../markdown-view/markdown-view.component';
+import {
+  TASK_BLOCKERS_MAX,
+  TASK_DESCRIPTION_MAX_LENGTH,
+  TASK_RECURRENCE_INTERVAL_MAX,
+  TASK_REMINDERS_MAX,
+  TASK_SUBTASKS_MAX,
+  TASK_SUBTASK_TITLE_MAX_LENGTH,
+  TASK_TAGS_MAX,
+  TASK_TAG_MAX_LENGTH,
+  TASK_TITLE_MAX_LENGTH,
+  TASK_TITLE_MIN_LENGTH,
+  TaskValidationError,
+  TaskValidationErrors,
+} from '../../validators/task.validator';
+import {
+  TASK_ATTACHMENTS_MAX,
+  TASK_ATTACHMENT_MAX_SIZE,
+  TaskAttachmentValidationError,
+  TaskAttachmentValidationErrors,
+} from '../../validators/task-attachment.validator';
 
 /**
  * Componente Formulario de Tarea
  *
  * Un componente standalone para crear nuevas tareas. Este componente proporciona un formulario reactivo
- * con validación para la creación de tareas incluyendo título, descripción, prioridad y fecha límite.
+ * con validación para la creación de tareas incluyendo título, descripción (en Markdown, con vista previa),
+ * prioridad, responsable, tareas que la bloquean, fecha y hora límite,
+ * recordatorios,
+ * etiquetas (con autocompletado de las existentes), una lista de subtareas, una regla de repetición
+ * y archivos adjuntos, que se arrastran a la zona de adjuntos y se suben al guardar la tarea.
  *
  * @component TaskFormComponent
  * @standalone
@@ -33,6 +94,7 @@ import { TaskService } from '../../services/task.service';
   imports: [
     ReactiveFormsModule,
     NgIf,
+    NgFor,
     MatFormFieldModule,
     MatInputModule,
     MatButtonModule,
@@ -41,6 +103,11 @@ import { TaskService } from '../../services/task.service';
     MatNativeDateModule,
     MatCardModule,
     MatIconModule,
+    MatCheckboxModule,
+    MatChipsModule,
+    MatAutocompleteModule,
+    MatButtonToggleModule,
+    MarkdownViewComponent,
   ],
   templateUrl: './task-form.component.html',
   styleUrls: ['./task-form.component.scss'],
@@ -53,10 +120,34 @@ export class TaskFormComponent {
   private readonly formBuilder = inject(FormBuilder);
 
   /**
-   * Servicio de tareas para crear tareas
+   * Servicio de tareas para crear tareas y consultar etiquetas existentes
+   * @readonly
+   */
+  readonly taskService = inject(TaskService);
+
+  /**
+   * Servicio de proyectos, para conocer los usuarios de la lista
+   * @private
+   */
+  private readonly projectService = inject(ProjectService);
+
+  /**
+   * Directorio de usuarios, para elegir el responsable de la tarea
    * @private
    */
-  private readonly taskService = inject(TaskService);
+  private readonly userDirectory = inject(UserDirectoryService);
+
+  /**
+   * Servicio de archivos adjuntos, para subirlos al guardar la tarea
+   * @private
+   */
+  private readonly attachmentService = inject(TaskAttachmentService);
+
+  /**
+   * Entrada: Proyecto en el que se crean las tareas nuevas
+   * @type {InputSignal<string>}
+   */
+  readonly projectId = input<string>(INBOX_PROJECT_ID);
 
   /**
    * Emisor de evento de salida para cuando una tarea se crea exitosamente
@@ -91,12 +182,91 @@ export class TaskFormComponent {
    */
   isEditMode = false;
 
+  /**
+   * Modo del campo de descripción: escribir el Markdown o ver cómo queda
+   * @type {'write' | 'preview'}
+   */
+  descriptionMode: 'write' | 'preview' = 'write';
+
   /**
    * ID de la tarea en edición (si aplica)
    * @type {string | null}
    */
   editingTaskId: string | null = null;
 
+  /**
+   * ID del proyecto de la tarea en edición (si aplica)
+   * @type {string | null}
+   */
+  editingProjectId: string | null = null;
+
+  /**
+   * Límites de longitud compartidos con la validación del servicio y la API
+   * @readonly
+   */
+  readonly limits = {
+    titleMin: TASK_TITLE_MIN_LENGTH,
+    titleMax: TASK_TITLE_MAX_LENGTH,
+    descriptionMax: TASK_DESCRIPTION_MAX_LENGTH,
+    subtaskTitleMax: TASK_SUBTASK_TITLE_MAX_LENGTH,
+    subtasksMax: TASK_SUBTASKS_MAX,
+    tagMax: TASK_TAG_MAX_LENGTH,
+    tagsMax: TASK_TAGS_MAX,
+    recurrenceIntervalMax: TASK_RECURRENCE_INTERVAL_MAX,
+    remindersMax: TASK_REMINDERS_MAX,
+    blockersMax: TASK_BLOCKERS_MAX,
+    attachmentsMax: TASK_ATTACHMENTS_MAX,
+    attachmentSizeMb: TASK_ATTACHMENT_MAX_SIZE / (1024 * 1024),
+  };
+
+  /**
+   * Archivos elegidos que se subirán al guardar la tarea
+   * @type {File[]}
+   */
+  pendingFiles: File[] = [];
+
+  /**
+   * Indica si se está arrastrando un archivo sobre la zona de adjuntos
+   * @type {boolean}
+   */
+  isDraggingFiles = false;
+
+  /**
+   * Mensaje del último archivo rechazado o que no se pudo subir (null si no hay)
+   * @type {string | null}
+   */
+  attachmentError: string | null = null;
+
+  /**
+   * Recordatorios seleccionables, en minutos antes del vencimiento
+   * @readonly
+   */
+  readonly reminderOptions = TASK_REMINDER_PRESETS.map((minutes) => ({
+    value: minutes,
+    label: describeReminder(minutes),
+  }));
+
+  /**
+   * Días de la semana seleccionables, empezando en lunes
+   * @readonly
+   */
+  readonly weekdayOptions = [1, 2, 3, 4, 5, 6, 0].map((day) => ({
+    value: day,
+    label: WEEKDAY_LABELS[day],
+  }));
+
+  /**
+   * Teclas que confirman una etiqueta en el campo de etiquetas
+   * @readonly
+   */
+  readonly tagSeparatorKeys = [ENTER, COMMA] as const;
+
+  /**
+   * Control del texto de la etiqueta que se está escribiendo
+   * @type {FormControl<string | null>}
+   */
+  readonly tagInputControl = new FormControl('');
+
   /**
    * Grupo de formulario reactivo para creación/edición de tareas
    * @type {FormGroup}
@@ -107,6 +277,267 @@ export class TaskFormComponent {
     this.taskForm = this.initializeForm();
   }
 
+  /**
+   * Lista de controles de las subtareas
+   * @returns {FormArray} El FormArray de subtareas
+   */
+  get subtasks(): FormArray {
+    return this.taskForm.get('subtasks') as FormArray;
+  }
+
+  /**
+   * Agregar una subtarea vacía al formulario
+   *
+   * @param {Subtask} subtask - Subtarea existente a editar (opcional)
+   * @returns {void}
+   */
+  addSubtask(subtask: Subtask = createSubtask('')): void {
+    if (this.subtasks.length >= TASK_SUBTASKS_MAX) {
+      return;
+    }
+
+    this.subtasks.push(
+      this.formBuilder.group({
+        id: [subtask.id],
+        title: [
+          subtask.title,
+          [Validators.required, Validators.maxLength(TASK_SUBTASK_TITLE_MAX_LENGTH)],
+        ],
+        completed: [subtask.completed],
+      })
+    );
+  }
+
+  /**
+   * Etiquetas actuales del formulario
+   * @returns {string[]} Las etiquetas seleccionadas
+   */
+  get tags(): string[] {
+    return this.taskForm.get('tags')?.value ?? [];
+  }
+
+  /**
+   * Agregar una etiqueta escrita en el campo de etiquetas
+   *
+   * @param {MatChipInputEvent} event - Evento del campo de etiquetas
+   * @returns {void}
+   */
+  addTag(event: MatChipInputEvent): void {
+    this.pushTag(event.value);
+    event.chipInput.clear();
+    this.tagInputControl.setValue('');
+  }
+
+  /**
+   * Agregar una etiqueta elegida en el autocompletado
+   *
+   * @param {MatAutocompleteSelectedEvent} event - Evento de selección
+   * @returns {void}
+   */
+  selectTag(event: MatAutocompleteSelectedEvent): void {
+    this.pushTag(event.option.viewValue);
+    event.option.deselect();
+    this.tagInputControl.setValue('');
+  }
+
+  /**
+   * Quitar una etiqueta del formulario
+   *
+   * @param {string} tag - La etiqueta a quitar
+   * @returns {void}
+   */
+  removeTag(tag: string): void {
+    const tagsControl = this.taskForm.get('tags')!;
+    tagsControl.setValue(this.tags.filter((t) => t !== tag));
+    tagsControl.markAsDirty();
+  }
+
+  /**
+   * Obtener las etiquetas existentes que coinciden con el texto escrito
+   *
+   * @returns {string[]} Sugerencias que aún no están en la tarea
+   */
+  getTagSuggestions(): string[] {
+    const query = (this.tagInputControl.value ?? '').trim().toLowerCase();
+    const current = this.tags.map((tag) => tag.toLowerCase());
+
+    return this.taskService
+      .allTags()
+      .filter(
+        (tag) =>
+          !current.includes(tag.toLowerCase()) &&
+          tag.toLowerCase().includes(query)
+      );
+  }
+
+  /**
+   * Grupo de controles de la regla de repetición
+   * @returns {FormGroup} El grupo `recurrence`
+   */
+  get recurrence(): FormGroup {
+    return this.taskForm.get('recurrence') as FormGroup;
+  }
+
+  /**
+   * Frecuencia de repetición seleccionada
+   * @returns {TaskRecurrenceFrequency | ''} La frecuencia, o cadena vacía si la tarea no se repite
+   */
+  get recurrenceFrequency(): TaskRecurrenceFrequency | '' {
+    return this.recurrence.get('frequency')?.value ?? '';
+  }
+
+  /**
+   * Quitar una subtarea del formulario
+   *
+   * @param {number} index - Posición de la subtarea
+   * @returns {void}
+   */
+  removeSubtask(index: number): void {
+    this.subtasks.removeAt(index);
+    this.subtasks.markAsDirty();
+  }
+
+  /**
+   * Obtener los usuarios a los que se puede asignar la tarea
+   *
+   * @returns {User[]} El propietario y los miembros de la lista de la tarea
+   */
+  getAssignableUsers(): User[] {
+    return this.projectService
+      .getAssignableUserIds(this.editingProjectId ?? this.projectId())
+      .map((id) => this.userDirectory.getUser(id))
+      .filter((user): user is User => !!user);
+  }
+
+  /**
+   * Obtener las tareas que pueden bloquear a la tarea del formulario
+   *
+   * Excluye la propia tarea y las que formarían una dependencia circular.
+   *
+   * @returns {Task[]} Las tareas activas candidatas, por título
+   */
+  getBlockerOptions(): Task[] {
+    const taskId = this.editingTaskId;
+    return this.taskService
+      .tasks()
+      .filter(
+        (task) =>
+          task.id !== taskId &&
+          (!taskId || !this.taskService.findDependencyCycle(taskId, [task.id]))
+      )
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  /**
+   * Obtener los adjuntos ya subidos de la tarea en edición
+   *
+   * @returns {TaskAttachment[]} Los adjuntos, o ninguno al crear una tarea
+   */
+  getExistingAttachments(): TaskAttachment[] {
+    return (
+      this.taskService.tasks().find((task) => task.id === this.editingTaskId)?.attachments ??
+      []
+    );
+  }
+
+  /**
+   * Obtener el icono de un adjunto según su tipo
+   *
+   * @param {TaskAttachment} attachment - El adjunto
+   * @returns {string} Nombre del icono Material
+   */
+  getAttachmentIcon(attachment: TaskAttachment): string {
+    return getAttachmentIcon(attachment);
+  }
+
+  /**
+   * Formatear el tamaño de un archivo
+   *
+   * @param {number} size - Tamaño en bytes
+   * @returns {string} Tamaño legible
+   */
+  formatFileSize(size: number): string {
+    return formatAttachmentSize(size);
+  }
+
+  /**
+   * Resaltar la zona de adjuntos mientras se arrastran archivos sobre ella
+   *
+   * @param {DragEvent} event - El evento de arrastre
+   * @returns {void}
+   */
+  onFilesDragOver(event: DragEvent): void {
+    if (!event.dataTransfer?.types.includes('Files')) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    this.isDraggingFiles = true;
+  }
+
+  /**
+   * Quitar el resaltado de la zona de adjuntos
+   *
+   * @returns {void}
+   */
+  onFilesDragLeave(): void {
+    this.isDraggingFiles = false;
+  }
+
+  /**
+   * Añadir los archivos soltados en la zona de adjuntos
+   *
+   * @param {DragEvent} event - El evento de soltar
+   * @returns {void}
+   */
+  onFilesDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isDraggingFiles = false;
+    this.addFiles(Array.from(event.dataTransfer?.files ?? []));
+  }
+
+  /**
+   * Añadir los archivos elegidos con el selector de archivos
+   *
+   * @param {Event} event - El evento `change` del input de archivos
+   * @returns {void}
+   */
+  onFilesSelected(event: Event): void {
+    const fileInput = event.target as HTMLInputElement;
+    this.addFiles(Array.from(fileInput.files ?? []));
+    fileInput.value = '';
+  }
+
+  /**
+   * Quitar un archivo pendiente de subir
+   *
+   * @param {number} index - Posición del archivo
+   * @returns {void}
+   */
+  removePendingFile(index: number): void {
+    this.pendingFiles = this.pendingFiles.filter((_, i) => i !== index);
+  }
+
+  /**
+   * Eliminar un adjunto ya subido de la tarea en edición, después de confirmación
+   *
+   * @param {TaskAttachment} attachment - El adjunto a eliminar
+   * @returns {Promise<void>} Promise que se resuelve cuando se elimina el adjunto
+   */
+  async deleteAttachment(attachment: TaskAttachment): Promise<void> {
+    if (!this.editingTaskId || !confirm(`¿Eliminar el adjunto "${attachment.name}"?`)) {
+      return;
+    }
+
+    this.attachmentError = null;
+    try {
+      await this.attachmentService.delete(this.editingTaskId, attachment.id);
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      this.attachmentError = 'No se pudo eliminar el adjunto';
+    }
+  }
+
   /**
    * Inicializar el formulario para modo de edición con datos de tarea existente
    *
@@ -116,13 +547,26 @@ export class TaskFormComponent {
   initializeEditMode(task: Task): void {
     this.isEditMode = true;
     this.editingTaskId = task.id;
+    this.editingProjectId = this.projectService.resolveProjectId(task.projectId);
+    this.descriptionMode = 'write';
     
     this.taskForm.patchValue({
       title: task.title,
       description: task.description || '',
       priority: task.priority,
-      dueDate: task.dueDate || null
+      assigneeId: task.assigneeId ?? null,
+      blockedBy: task.blockedBy ?? [],
+      dueDate: task.dueDate || null,
+      dueTime: task.dueTime ?? '',
+      reminders: task.reminders ?? [],
+      tags: task.tags ?? [],
+      recurrence: this.getRecurrenceFormValue(task.recurrence),
     });
+
+    this.subtasks.clear();
+    (task.subtasks ?? []).forEach((subtask) => this.addSubtask(subtask));
+    this.pendingFiles = [];
+    this.attachmentError = null;
   }
 
   /**
@@ -133,6 +577,7 @@ export class TaskFormComponent {
   cancelEdit(): void {
     this.isEditMode = false;
     this.editingTaskId = null;
+    this.editingProjectId = null;
     this.resetForm();
     this.editCancelled.emit();
   }
@@ -149,13 +594,32 @@ export class TaskFormComponent {
         '',
         [
           Validators.required,
-          Validators.minLength(3),
-          Validators.maxLength(100),
+          Validators.minLength(TASK_TITLE_MIN_LENGTH),
+          Validators.maxLength(TASK_TITLE_MAX_LENGTH),
         ],
       ],
-      description: ['', [Validators.maxLength(500)]],
+      description: ['', [Validators.maxLength(TASK_DESCRIPTION_MAX_LENGTH)]],
       priority: ['medium', Validators.required],
+      assigneeId: [null as string | null],
+      blockedBy: [[] as string[], Validators.maxLength(TASK_BLOCKERS_MAX)],
       dueDate: [null],
+      dueTime: [''],
+      reminders: [[] as number[], Validators.maxLength(TASK_REMINDERS_MAX)],
+      tags: [[] as string[]],
+      subtasks: this.formBuilder.array([]),
+      recurrence: this.formBuilder.group({
+        frequency: [''],
+        interval: [
+          2,
+          [Validators.min(1), Validators.max(TASK_RECURRENCE_INTERVAL_MAX)],
+        ],
+        weekdays: [[] as number[]],
+        dayOfMonth: [1, [Validators.min(1), Validators.max(31)]],
+        end: ['never'],
+        endDate: [null],
+        count: [10, [Validators.min(1)]],
+        occurrence: [1],
+      }),
     });
   }
 
@@ -191,14 +655,23 @@ export class TaskFormComponent {
             title: formValue.title.trim(),
             description: formValue.description?.trim() || undefined,
             priority: formValue.priority,
-            dueDate: formValue.dueDate || undefined,
+            assigneeId: formValue.assigneeId ?? null,
+            blockedBy: formValue.blockedBy ?? [],
+            dueDate: formValue.dueDate || null,
+            dueTime: (formValue.dueDate && formValue.dueTime) || null,
+            reminders: formValue.dueDate ? formValue.reminders ?? [] : [],
+            tags: this.tags,
+            subtasks: this.getSubtasksValue(),
+            recurrence: this.getRecurrenceValue() ?? null,
           };
 
           const updatedTask = await this.taskService.updateTask(this.editingTaskId, updateRequest);
 
           if (updatedTask) {
+            const uploadError = await this.uploadPendingFiles(updatedTask);
             this.taskUpdated.emit(updatedTask);
             this.cancelEdit();
+            this.attachmentError = uploadError;
           }
         } else {
           // Modo creación: Crear nueva tarea
@@ -206,15 +679,30 @@ export class TaskFormComponent {
             title: formValue.title.trim(),
             description: formValue.description?.trim() || undefined,
             priority: formValue.priority,
+            assigneeId: formValue.assigneeId ?? undefined,
+            blockedBy: formValue.blockedBy?.length ? formValue.blockedBy : undefined,
             dueDate: formValue.dueDate || undefined,
+            dueTime: (formValue.dueDate && formValue.dueTime) || undefined,
+            reminders: formValue.dueDate ? formValue.reminders ?? [] : undefined,
+            tags: this.tags,
+            subtasks: this.getSubtasksValue(),
+            recurrence: this.getRecurrenceValue(),
+            projectId:
+              this.projectId() === INBOX_PROJECT_ID ? undefined : this.projectId(),
           };
 
           const newTask = await this.taskService.createTask(taskRequest);
+          const uploadError = await this.uploadPendingFiles(newTask);
           this.taskCreated.emit(newTask);
           this.resetForm();
+          this.attachmentError = uploadError;
         }
       } catch (error) {
-        console.error('Error processing task:', error);
+        if (error instanceof TaskValidationError) {
+          this.applyValidationErrors(error.errors);
+        } else {
+          console.error('Error processing task:', error);
+        }
       } finally {
         this.isLoading = false;
       }
@@ -235,13 +723,190 @@ export class TaskFormComponent {
       title: '',
       description: '',
       priority: 'medium',
+      assigneeId: null,
+      blockedBy: [],
       dueDate: null,
+      dueTime: '',
+      reminders: [],
+      tags: [],
+      recurrence: this.getRecurrenceFormValue(),
     });
+    this.subtasks.clear();
+    this.tagInputControl.setValue('');
+    this.descriptionMode = 'write';
+    this.pendingFiles = [];
+    this.attachmentError = null;
 
     this.taskForm.markAsPristine();
     this.taskForm.markAsUntouched();
   }
 
+  /**
+   * Agregar una etiqueta si no está ya presente y no se superan los límites
+   *
+   * @private
+   * @param {string} value - El texto de la etiqueta
+   * @returns {void}
+   */
+  private pushTag(value: string): void {
+    const tag = value.trim().slice(0, TASK_TAG_MAX_LENGTH);
+    if (!tag || this.tags.length >= TASK_TAGS_MAX) {
+      return;
+    }
+
+    const tagsControl = this.taskForm.get('tags')!;
+    tagsControl.setValue(normalizeTags([...this.tags, tag]));
+    tagsControl.markAsDirty();
+  }
+
+  /**
+   * Añadir archivos a los pendientes de subir, rechazando los no válidos
+   *
+   * @private
+   * @param {File[]} files - Los archivos elegidos
+   * @returns {void}
+   */
+  private addFiles(files: File[]): void {
+    this.attachmentError = null;
+    files.forEach((file) => {
+      const errors = this.attachmentService.validate(
+        file,
+        this.getExistingAttachments().length + this.pendingFiles.length
+      );
+      if (errors) {
+        this.attachmentError = `${file.name}: ${this.getAttachmentErrorMessage(errors)}`;
+      } else {
+        this.pendingFiles = [...this.pendingFiles, file];
+      }
+    });
+  }
+
+  /**
+   * Subir uno a uno los archivos pendientes como adjuntos de una tarea guardada
+   *
+   * @private
+   * @param {Task} task - La tarea recién creada o actualizada
+   * @returns {Promise<string | null>} Mensaje del primer archivo que no se pudo subir, o null si se subieron todos
+   */
+  private async uploadPendingFiles(task: Task): Promise<string | null> {
+    let currentTask = task;
+    for (const file of this.pendingFiles) {
+      try {
+        currentTask = await this.attachmentService.upload(currentTask, file);
+      } catch (error) {
+        if (error instanceof TaskAttachmentValidationError) {
+          return `${file.name}: ${this.getAttachmentErrorMessage(error.errors)}`;
+        }
+        console.error('Error uploading attachment:', error);
+        return `No se pudo subir ${file.name}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Obtener el mensaje del primer error de validación de un adjunto
+   *
+   * @private
+   * @param {TaskAttachmentValidationErrors} errors - Errores por campo
+   * @returns {string} El mensaje
+   */
+  private getAttachmentErrorMessage(errors: TaskAttachmentValidationErrors): string {
+    return Object.values(errors)[0]?.message ?? 'Archivo adjunto inválido';
+  }
+
+  /**
+   * Obtener las subtareas del formulario con el título recortado
+   *
+   * @private
+   * @returns {Subtask[]} Las subtareas a guardar
+   */
+  private getSubtasksValue(): Subtask[] {
+    return (this.subtasks.value as Subtask[]).map((subtask) => ({
+      id: subtask.id,
+      title: subtask.title.trim(),
+      completed: !!subtask.completed,
+    }));
+  }
+
+  /**
+   * Construir la regla de repetición a partir del formulario
+   *
+   * Solo incluye los campos de la frecuencia elegida. Una repetición semanal
+   * sin días marcados se repite el mismo día de la semana que la fecha de vencimiento.
+   *
+   * @private
+   * @returns {TaskRecurrence | undefined} La regla, o undefined si la tarea no se repite
+   */
+  private getRecurrenceValue(): TaskRecurrence | undefined {
+    const value = this.recurrence.value;
+    const frequency = value.frequency as TaskRecurrenceFrequency | '';
+    if (!frequency) {
+      return undefined;
+    }
+
+    const dueDate: Date = this.taskForm.get('dueDate')?.value ?? new Date();
+    return {
+      frequency,
+      interval: frequency === 'interval' ? Number(value.interval) : undefined,
+      weekdays:
+        frequency === 'weekly'
+          ? value.weekdays?.length
+            ? value.weekdays
+            : [dueDate.getDay()]
+          : undefined,
+      dayOfMonth: frequency === 'monthly' ? Number(value.dayOfMonth) : undefined,
+      endDate: value.end === 'date' ? value.endDate ?? undefined : undefined,
+      count: value.end === 'count' ? Number(value.count) : undefined,
+      occurrence: value.occurrence ?? 1,
+    };
+  }
+
+  /**
+   * Obtener los valores del grupo de repetición para una regla
+   *
+   * @private
+   * @param {TaskRecurrence} recurrence - La regla de la tarea (opcional)
+   * @returns {Record<string, unknown>} Valores para el grupo `recurrence`
+   */
+  private getRecurrenceFormValue(recurrence?: TaskRecurrence): Record<string, unknown> {
+    return {
+      frequency: recurrence?.frequency ?? '',
+      interval: recurrence?.interval ?? 2,
+      weekdays: recurrence?.weekdays ?? [],
+      dayOfMonth: recurrence?.dayOfMonth ?? 1,
+      end: recurrence?.count ? 'count' : recurrence?.endDate ? 'date' : 'never',
+      endDate: recurrence?.endDate ?? null,
+      count: recurrence?.count ?? 10,
+      occurrence: recurrence?.occurrence ?? 1,
+    };
+  }
+
+  /**
+   * Mostrar en los controles los errores de validación devueltos por el servicio
+   *
+   * Cada error se registra en el control con su código (`required`, `minlength`,
+   * `maxlength`, `invalid`) y su mensaje, para que el template lo muestre.
+   *
+   * @param {TaskValidationErrors} errors - Errores por campo
+   * @returns {void}
+   */
+  applyValidationErrors(errors: TaskValidationErrors): void {
+    if (errors.description) {
+      this.descriptionMode = 'write';
+    }
+    Object.entries(errors).forEach(([fieldName, fieldError]) => {
+      const control = this.taskForm.get(fieldName);
+      if (control && fieldError) {
+        control.setErrors({
+          ...control.errors,
+          [fieldError.code]: { message: fieldError.message },
+        });
+        control.markAsTouched();
+      }
+    });
+  }
+
   /**
    * Marcar todos los campos del formulario como tocados para activar la visualización de validación
    *
@@ -253,6 +918,7 @@ export class TaskFormComponent {
       const control = this.taskForm.get(key);
       control?.markAsTouched();
     });
+    this.subtasks.controls.forEach((control) => control.markAllAsTouched());
   }
 
   /**
@@ -0,0 +1,171 @@
+import { Component, computed, input, output, signal } from '@angular/core';
+import { NgClass, NgFor, NgIf } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { CreateTaskRequest } from '../../models/task.model';
+import {
+  TaskImportPreview,
+  TaskImportRow,
+  TaskImportRowStatus,
+} from '../../transfer/task-import';
+import { getTransferFormatInfo } from '../../transfer/task-export';
+
+/**
+ * Componente Vista Previa de Importación
+ *
+ * Componente standalone que muestra las filas leídas de un archivo antes de
+ * importarlas: cuáles son nuevas, cuáles duplicadas y cuáles no son válidas
+ * (con sus errores). Las filas no válidas nunca se importan; las duplicadas
+ * solo si se marca la opción correspondiente.
+ *
+ * @component TaskImportPreviewComponent
+ * @standalone
+ */
+@Component({
+  selector: 'app-task-import-preview',
+  standalone: true,
+  imports: [
+    NgClass,
+    NgFor,
+    NgIf,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatCheckboxModule,
+  ],
+  templateUrl: './task-import-preview.component.html',
+  styleUrl: './task-import-preview.component.scss',
+})
+export class TaskImportPreviewComponent {
+  /**
+   * Entrada: vista previa a mostrar
+   * @type {InputSignal<TaskImportPreview>}
+   */
+  readonly preview = input.required<TaskImportPreview>();
+
+  /**
+   * Entrada: indica si se está importando
+   * @type {InputSignal<boolean>}
+   */
+  readonly importing = input(false);
+
+  /**
+   * Evento emitido al confirmar, con los datos de las tareas a crear
+   * @type {OutputEmitterRef<CreateTaskRequest[]>}
+   */
+  readonly confirmed = output<CreateTaskRequest[]>();
+
+  /**
+   * Evento emitido al cancelar la importación
+   * @type {OutputEmitterRef<void>}
+   */
+  readonly cancelled = output<void>();
+
+  /**
+   * Indica si también se importan las filas duplicadas
+   * @type {WritableSignal<boolean>}
+   */
+  readonly includeDuplicates = signal(false);
+
+  /**
+   * Señal computada del número de filas de cada tipo
+   * @readonly
+   * @returns {Signal<Record<TaskImportRowStatus, number>>} Filas nuevas, duplicadas y no válidas
+   */
+  readonly counts = computed(() => {
+    const counts: Record<TaskImportRowStatus, number> = {
+      new: 0,
+      duplicate: 0,
+      invalid: 0,
+    };
+    this.preview().rows.forEach((row) => counts[row.status]++);
+    return counts;
+  });
+
+  /**
+   * Señal computada de las filas que se importarán
+   * @readonly
+   * @returns {Signal<TaskImportRow[]>} Filas nuevas y, si se eligió, duplicadas
+   */
+  readonly rowsToImport = computed(() =>
+    this.preview().rows.filter(
+      (row) =>
+        row.status === 'new' ||
+        (row.status === 'duplicate' && this.includeDuplicates())
+    )
+  );
+
+  /**
+   * Obtiene el nombre visible del formato del archivo
+   *
+   * @returns {string} Nombre del formato (p. ej. "iCalendar")
+   */
+  getFormatLabel(): string {
+    return getTransferFormatInfo(this.preview().format).label;
+  }
+
+  /**
+   * Obtiene el icono del resultado de una fila
+   *
+   * @param {TaskImportRow} row - La fila
+   * @returns {string} Nombre del icono de Material
+   */
+  getStatusIcon(row: TaskImportRow): string {
+    switch (row.status) {
+      case 'new':
+        return 'add_circle';
+      case 'duplicate':
+        return 'content_copy';
+      case 'invalid':
+        return 'error';
+    }
+  }
+
+  /**
+   * Obtiene el texto del resultado de una fila
+   *
+   * @param {TaskImportRow} row - La fila
+   * @returns {string} "Nueva", "Duplicada" o "No válida"
+   */
+  getStatusLabel(row: TaskImportRow): string {
+    switch (row.status) {
+      case 'new':
+        return 'Nueva';
+      case 'duplicate':
+        return 'Duplicada';
+      case 'invalid':
+        return 'No válida';
+    }
+  }
+
+  /**
+   * Confirma la importación de las filas elegidas
+   *
+   * @returns {void}
+   */
+  onConfirm(): void {
+    this.confirmed.emit(this.rowsToImport().map((row) => row.request));
+  }
+
+  /**
+   * Cancela la importación
+   *
+   * @returns {void}
+   */
+  onCancel(): void {
+    this.cancelled.emit();
+  }
+
+  /**
+   * Función de seguimiento para *ngFor
+   *
+   * @param {number} index - Índice de la fila
+   * @param {TaskImportRow} row - La fila
+   * @returns {number} Número de la fila en el archivo
+   */
+  trackByPosition(index: number, row: TaskImportRow): number {
+    return row.position;
+  }
+}
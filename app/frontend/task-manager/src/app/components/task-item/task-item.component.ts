@@ -1,5 +1,5 @@
 import { Component, input, output, inject } from '@angular/core';
-import { DatePipe, NgClass, NgIf } from '@angular/common';
+import { DatePipe, NgClass, NgFor, NgIf } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -8,14 +8,65 @@ import { MatChipsModule } from '@angular/material/chips';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatDividerModule } from '@angular/material/divider';
-import { Task } from '../../models/task.model';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatBadgeModule } from '@angular/material/badge';
+import { MarkdownViewComponent } from '../markdown-view/markdown-view.component';
+import { TaskActivityComponent } from '../task-activity/task-activity.component';
+import { TaskCommentsComponent } from '../task-comments/task-comments.component';
+import { Subtask, Task, isTaskOverdue } from '../../models/task.model';
+import { describeReminder } from '../../models/task-reminder.model';
+import {
+  TaskAttachment,
+  formatAttachmentSize,
+  getAttachmentIcon,
+  isImageAttachment,
+} from '../../models/task-attachment.model';
+import { INBOX_PROJECT_ID } from '../../models/project.model';
+import { describeRecurrence } from '../../models/task-recurrence.model';
+import { TaskStatus } from '../../models/task-status.model';
 import { TaskService } from '../../services/task.service';
+import { ProjectService } from '../../services/project.service';
+import { TaskReminderService } from '../../services/task-reminder.service';
+import { TaskStatusService } from '../../services/task-status.service';
+import { UserDirectoryService } from '../../services/user-directory.service';
+import { TaskCommentService } from '../../services/task-comment.service';
+import { TaskAttachmentService } from '../../services/task-attachment.service';
+import { TaskValidationError } from '../../validators/task.validator';
+import { TextSegment, highlightMatches } from '../../search/task-query';
+
+/**
+ * Evento de selección de una tarea en el modo de selección múltiple
+ *
+ * @interface TaskSelectionEvent
+ */
+export interface TaskSelectionEvent {
+  /**
+   * La tarea pulsada
+   * @type {Task}
+   */
+  task: Task;
+
+  /**
+   * Indica si se pulsó con Mayús para seleccionar un rango
+   * @type {boolean}
+   */
+  range: boolean;
+}
 
 /**
  * Componente Item de Tarea
  *
  * Un componente standalone que muestra una tarea individual con características interactivas.
  * Soporta alternar completado de tarea, edición y eliminación con estilo Material Design.
+ * La descripción se muestra con formato Markdown.
+ * Las subtareas se muestran como una lista de verificación con su progreso.
+ * El menú permite cambiar el estado de la tarea entre los estados del tablero.
+ * En el modo de selección múltiple muestra una casilla para seleccionar la tarea.
+ * Las tareas en la papelera solo pueden restaurarse o eliminarse definitivamente.
+ * El historial de actividad y los comentarios de la tarea se despliegan bajo la
+ * tarjeta; el botón de comentarios muestra cuántos hay.
+ * En los proyectos compartidos como lector la tarea es de solo lectura.
  *
  * @component TaskItemComponent
  * @standalone
@@ -26,6 +77,7 @@ import { TaskService } from '../../services/task.service';
   imports: [
     DatePipe,
     NgClass,
+    NgFor,
     NgIf,
     MatCardModule,
     MatButtonModule,
@@ -35,6 +87,12 @@ import { TaskService } from '../../services/task.service';
     MatTooltipModule,
     MatMenuModule,
     MatDividerModule,
+    MatSnackBarModule,
+    MatProgressBarModule,
+    MatBadgeModule,
+    MarkdownViewComponent,
+    TaskActivityComponent,
+    TaskCommentsComponent,
   ],
   templateUrl: './task-item.component.html',
   styleUrls: ['./task-item.component.scss'],
@@ -46,12 +104,85 @@ export class TaskItemComponent {
    */
   private readonly taskService = inject(TaskService);
 
+  /**
+   * Servicio de proyectos, para mover la tarea entre proyectos
+   * @readonly
+   */
+  readonly projectService = inject(ProjectService);
+
+  /**
+   * Servicio de recordatorios, que proporciona la hora actual para el vencimiento
+   * @private
+   */
+  private readonly taskReminders = inject(TaskReminderService);
+
+  /**
+   * Servicio de estados del tablero
+   * @readonly
+   */
+  readonly taskStatuses = inject(TaskStatusService);
+
+  /**
+   * Directorio de usuarios, para mostrar el responsable de la tarea
+   * @private
+   */
+  private readonly userDirectory = inject(UserDirectoryService);
+
+  /**
+   * Servicio de comentarios, para el contador de comentarios
+   * @private
+   */
+  private readonly commentService = inject(TaskCommentService);
+
+  /**
+   * Servicio de archivos adjuntos
+   * @private
+   */
+  private readonly attachmentService = inject(TaskAttachmentService);
+
+  /**
+   * ID del proyecto implícito "Bandeja de entrada"
+   * @readonly
+   */
+  readonly inboxProjectId = INBOX_PROJECT_ID;
+
+  /**
+   * Servicio de notificaciones emergentes
+   * @private
+   */
+  private readonly snackBar = inject(MatSnackBar);
+
   /**
    * Entrada: Datos de la tarea a mostrar
    * @type {InputSignal<Task>}
    */
   readonly task = input.required<Task>();
 
+  /**
+   * Entrada: Términos de búsqueda (normalizados) a resaltar en título y descripción
+   * @type {InputSignal<string[]>}
+   */
+  readonly highlightTerms = input<string[]>([]);
+
+  /**
+   * Entrada: Indica si se muestra la casilla de selección múltiple
+   * @type {InputSignal<boolean>}
+   */
+  readonly selectable = input(false);
+
+  /**
+   * Entrada: Indica si la tarea está seleccionada
+   * @type {InputSignal<boolean>}
+   */
+  readonly selected = input(false);
+
+  /**
+   * Salida: Se emite al pulsar la casilla de selección
+   * @event selectionToggled
+   * @type {OutputEmitterRef<TaskSelectionEvent>}
+   */
+  readonly selectionToggled = output<TaskSelectionEvent>();
+
   /**
    * Salida: Se emite cuando se alterna el completado de la tarea
    * @event taskToggled
@@ -66,6 +197,13 @@ export class TaskItemComponent {
    */
   readonly taskDeleted = output<string>();
 
+  /**
+   * Salida: Se emite cuando se restaura la tarea desde la papelera
+   * @event taskRestored
+   * @type {OutputEmitterRef<Task>}
+   */
+  readonly taskRestored = output<Task>();
+
   /**
    * Salida: Se emite cuando se solicita editar la tarea
    * @event taskEdit
@@ -79,6 +217,45 @@ export class TaskItemComponent {
    */
   isLoading = false;
 
+  /**
+   * Indica si se muestra el historial de actividad
+   * @type {boolean}
+   */
+  showHistory = false;
+
+  /**
+   * Indica si se muestran los comentarios
+   * @type {boolean}
+   */
+  showComments = false;
+
+  /**
+   * Mostrar u ocultar el historial de actividad de la tarea
+   *
+   * @returns {void}
+   */
+  onToggleHistory(): void {
+    this.showHistory = !this.showHistory;
+  }
+
+  /**
+   * Mostrar u ocultar los comentarios de la tarea
+   *
+   * @returns {void}
+   */
+  onToggleComments(): void {
+    this.showComments = !this.showComments;
+  }
+
+  /**
+   * Obtener el número de comentarios de la tarea
+   *
+   * @returns {number} Número de comentarios
+   */
+  getCommentCount(): number {
+    return this.commentService.getCommentCount(this.task().id);
+  }
+
   /**
    * Alternar el estado de completado de la tarea
    *
@@ -100,12 +277,120 @@ export class TaskItemComponent {
         this.taskToggled.emit(updatedTask);
       }
     } catch (error) {
-      console.error('Error toggling task completion:', error);
+      this.handleToggleError(error);
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * Seleccionar o deseleccionar la tarea
+   *
+   * @param {MouseEvent} event - El clic; con Mayús selecciona un rango
+   * @returns {void}
+   */
+  onSelectionClick(event: MouseEvent): void {
+    this.selectionToggled.emit({ task: this.task(), range: event.shiftKey });
+  }
+
+  /**
+   * Alternar el estado de completado de una subtarea
+   *
+   * Puede completar o reabrir la tarea según las reglas de completado.
+   *
+   * @param {Subtask} subtask - La subtarea a alternar
+   * @returns {Promise<void>} Promise que se resuelve cuando se completa el alternado
+   */
+  async onToggleSubtask(subtask: Subtask): Promise<void> {
+    if (this.isLoading) return;
+
+    try {
+      this.isLoading = true;
+      const updatedTask = await this.taskService.toggleSubtaskCompletion(
+        this.task().id,
+        subtask.id
+      );
+
+      if (updatedTask && updatedTask.completed !== this.task().completed) {
+        this.taskToggled.emit(updatedTask);
+      }
+    } catch (error) {
+      this.handleToggleError(error);
     } finally {
       this.isLoading = false;
     }
   }
 
+  /**
+   * Obtener el progreso de las subtareas
+   *
+   * @returns {{ completed: number; total: number }} Subtareas completadas y totales
+   */
+  getSubtaskProgress(): { completed: number; total: number } {
+    return this.taskService.getSubtaskProgress(this.task());
+  }
+
+  /**
+   * Obtener el porcentaje de subtareas completadas
+   *
+   * @returns {number} Porcentaje entre 0 y 100
+   */
+  getSubtaskProgressPercent(): number {
+    const { completed, total } = this.getSubtaskProgress();
+    return total ? Math.round((completed / total) * 100) : 0;
+  }
+
+  /**
+   * Dividir un texto en fragmentos resaltando los términos de búsqueda
+   *
+   * @param {string} text - El título o la descripción de la tarea
+   * @returns {TextSegment[]} Fragmentos con las coincidencias marcadas
+   */
+  getHighlightedSegments(text: string): TextSegment[] {
+    return highlightMatches(text, this.highlightTerms());
+  }
+
+  /**
+   * Obtener el color de fondo de una etiqueta
+   *
+   * @param {string} tag - La etiqueta
+   * @returns {string} Color CSS de fondo
+   */
+  getTagColor(tag: string): string {
+    return this.taskService.getTagColor(tag);
+  }
+
+  /**
+   * Función de seguimiento para ngFor de subtareas
+   *
+   * @param {number} index - Índice del elemento
+   * @param {Subtask} subtask - La subtarea
+   * @returns {string} ID de la subtarea
+   */
+  trackBySubtaskId(index: number, subtask: Subtask): string {
+    return subtask.id;
+  }
+
+  /**
+   * Mostrar el motivo por el que no se pudo cambiar el completado o el estado
+   *
+   * @private
+   * @param {unknown} error - El error recibido
+   * @returns {void}
+   */
+  private handleToggleError(error: unknown): void {
+    const message =
+      error instanceof TaskValidationError
+        ? error.errors.completed?.message ?? error.errors.status?.message
+        : null;
+
+    if (message) {
+      this.snackBar.open(message, 'OK', { duration: 4000 });
+    } else {
+      console.error('Error toggling task completion:', error);
+    }
+  }
+
   /**
    * Solicitar edición de la tarea actual
    *
@@ -118,48 +403,368 @@ export class TaskItemComponent {
   }
 
   /**
-   * Eliminar la tarea actual
+   * Mover la tarea actual a la papelera
    *
    * Elimina la tarea y emite el evento taskDeleted con el ID de la tarea.
-   * Incluye confirmación y manejo de errores.
+   * No requiere confirmación porque la tarea puede restaurarse o deshacerse.
    */
   async onDeleteTask(): Promise<void> {
     if (this.isLoading) return;
 
+    try {
+      this.isLoading = true;
+      const deleted = await this.taskService.deleteTask(this.task().id);
+
+      if (deleted) {
+        const historyEntry = this.taskService.undoEntry();
+        this.taskDeleted.emit(this.task().id);
+        this.snackBar
+          .open(`Tarea "${this.task().title}" movida a la papelera`, 'Deshacer', {
+            duration: 5000,
+          })
+          .onAction()
+          .subscribe(() => {
+            this.taskService
+              .undo(historyEntry)
+              .catch((error) => console.error('Error undoing delete:', error));
+          });
+      }
+    } catch (error) {
+      console.error('Error deleting task:', error);
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * Mover la tarea actual a otro proyecto
+   *
+   * @param {string} projectId - El ID del proyecto destino
+   * @returns {Promise<void>} Promise que se resuelve cuando se mueve la tarea
+   */
+  async onMoveToProject(projectId: string): Promise<void> {
+    if (this.isLoading || this.isInProject(projectId)) return;
+
+    try {
+      this.isLoading = true;
+      const movedTask = await this.taskService.moveTaskToProject(
+        this.task().id,
+        projectId
+      );
+
+      if (movedTask) {
+        const historyEntry = this.taskService.undoEntry();
+        this.snackBar
+          .open(
+            `Tarea movida a "${this.projectService.getProjectName(projectId)}"`,
+            'Deshacer',
+            { duration: 5000 }
+          )
+          .onAction()
+          .subscribe(() => {
+            this.taskService
+              .undo(historyEntry)
+              .catch((error) => console.error('Error undoing move:', error));
+          });
+      }
+    } catch (error) {
+      console.error('Error moving task:', error);
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * Cambiar el estado de la tarea actual
+   *
+   * Pasar a un estado completado completa la tarea, y a uno pendiente la reabre;
+   * en ese caso se emite también el evento taskToggled.
+   *
+   * @param {TaskStatus} status - El estado destino
+   * @returns {Promise<void>} Promise que se resuelve cuando se cambia el estado
+   */
+  async onChangeStatus(status: TaskStatus): Promise<void> {
+    if (this.isLoading || this.getStatus().id === status.id) return;
+
+    try {
+      this.isLoading = true;
+      const updatedTask = await this.taskService.setTaskStatus(
+        this.task().id,
+        status.id
+      );
+
+      if (updatedTask) {
+        const historyEntry = this.taskService.undoEntry();
+        if (updatedTask.completed !== this.task().completed) {
+          this.taskToggled.emit(updatedTask);
+        }
+        this.snackBar
+          .open(`Tarea movida a "${status.label}"`, 'Deshacer', { duration: 5000 })
+          .onAction()
+          .subscribe(() => {
+            this.taskService
+              .undo(historyEntry)
+              .catch((error) => console.error('Error undoing status change:', error));
+          });
+      }
+    } catch (error) {
+      this.handleToggleError(error);
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * Obtener el estado de la tarea en el tablero
+   *
+   * @returns {TaskStatus} El estado, coherente con el completado de la tarea
+   */
+  getStatus(): TaskStatus {
+    return this.taskStatuses.getTaskStatus(this.task());
+  }
+
+  /**
+   * Verificar si el usuario actual puede modificar la tarea
+   *
+   * @returns {boolean} false si la tarea está en un proyecto compartido como lector
+   */
+  canEdit(): boolean {
+    return this.projectService.canEditTask(this.task());
+  }
+
+  /**
+   * Obtener el nombre del responsable de la tarea
+   *
+   * @returns {string | null} Su nombre mostrado, o null si la tarea no está asignada
+   */
+  getAssigneeName(): string | null {
+    const assigneeId = this.task().assigneeId;
+    return assigneeId ? this.userDirectory.getDisplayName(assigneeId) : null;
+  }
+
+  /**
+   * Verificar si la tarea está bloqueada por tareas pendientes
+   *
+   * @returns {boolean} True si no está completada y alguna de sus bloqueantes está pendiente
+   */
+  isBlocked(): boolean {
+    return this.taskService.isBlocked(this.task());
+  }
+
+  /**
+   * Obtener el texto del tooltip del indicador de tarea bloqueada
+   *
+   * @returns {string} Las tareas pendientes que la bloquean
+   */
+  getBlockedTooltip(): string {
+    const titles = this.taskService
+      .getPendingBlockers(this.task())
+      .map((blocker) => `"${blocker.title}"`);
+    return `Esperando a ${titles.join(', ')}`;
+  }
+
+  /**
+   * Obtener los títulos de las tareas que bloquean a la tarea
+   *
+   * @returns {string | null} Títulos separados por comas, o null si no depende de ninguna
+   */
+  getBlockerTitles(): string | null {
+    const blockers = this.taskService.getBlockers(this.task());
+    return blockers.length ? blockers.map((blocker) => blocker.title).join(', ') : null;
+  }
+
+  /**
+   * Obtener el número de tareas que dependen de la tarea
+   *
+   * @returns {number} Número de tareas bloqueadas por ella
+   */
+  getDependentCount(): number {
+    return this.taskService.getDependents(this.task()).length;
+  }
+
+  /**
+   * Obtener los adjuntos de imagen de la tarea, que se muestran como miniatura
+   *
+   * @returns {TaskAttachment[]} Las imágenes adjuntas
+   */
+  getImageAttachments(): TaskAttachment[] {
+    return (this.task().attachments ?? []).filter(isImageAttachment);
+  }
+
+  /**
+   * Obtener los adjuntos de la tarea que no son imágenes
+   *
+   * @returns {TaskAttachment[]} Los documentos adjuntos
+   */
+  getFileAttachments(): TaskAttachment[] {
+    return (this.task().attachments ?? []).filter(
+      (attachment) => !isImageAttachment(attachment)
+    );
+  }
+
+  /**
+   * Obtener la URL de descarga de un adjunto de la tarea
+   *
+   * @param {TaskAttachment} attachment - El adjunto
+   * @returns {string} La URL del archivo
+   */
+  getAttachmentUrl(attachment: TaskAttachment): string {
+    return this.attachmentService.getDownloadUrl(this.task().id, attachment.id);
+  }
+
+  /**
+   * Obtener el icono de un adjunto según su tipo
+   *
+   * @param {TaskAttachment} attachment - El adjunto
+   * @returns {string} Nombre del icono Material
+   */
+  getAttachmentIcon(attachment: TaskAttachment): string {
+    return getAttachmentIcon(attachment);
+  }
+
+  /**
+   * Formatear el tamaño de un adjunto
+   *
+   * @param {TaskAttachment} attachment - El adjunto
+   * @returns {string} Tamaño legible
+   */
+  getAttachmentSize(attachment: TaskAttachment): string {
+    return formatAttachmentSize(attachment.size);
+  }
+
+  /**
+   * Función de seguimiento para ngFor optimizada
+   *
+   * @param {number} index - Índice del elemento
+   * @param {TaskAttachment} attachment - El adjunto
+   * @returns {string} ID del adjunto
+   */
+  trackByAttachmentId(index: number, attachment: TaskAttachment): string {
+    return attachment.id;
+  }
+
+  /**
+   * Verificar si la tarea pertenece a un proyecto
+   *
+   * @param {string} projectId - El ID del proyecto
+   * @returns {boolean} True si la tarea está en ese proyecto
+   */
+  isInProject(projectId: string): boolean {
+    return this.projectService.resolveProjectId(this.task().projectId) === projectId;
+  }
+
+  /**
+   * Restaurar la tarea actual desde la papelera
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se restaura la tarea
+   */
+  async onRestoreTask(): Promise<void> {
+    if (this.isLoading) return;
+
+    try {
+      this.isLoading = true;
+      const restoredTask = await this.taskService.restoreTask(this.task().id);
+
+      if (restoredTask) {
+        this.taskRestored.emit(restoredTask);
+        this.snackBar.open(`Tarea "${restoredTask.title}" restaurada`, 'OK', {
+          duration: 3000,
+        });
+      }
+    } catch (error) {
+      console.error('Error restoring task:', error);
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * Eliminar definitivamente la tarea actual de la papelera
+   *
+   * Incluye confirmación; la operación aún puede deshacerse desde el historial.
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se elimina la tarea
+   */
+  async onPurgeTask(): Promise<void> {
+    if (this.isLoading) return;
+
     // Simple confirmation (in a real app, use a proper dialog)
-    if (!confirm(`Are you sure you want to delete "${this.task().title}"?`)) {
+    if (
+      !confirm(
+        `¿Eliminar definitivamente "${this.task().title}"? Ya no aparecerá en la papelera.`
+      )
+    ) {
       return;
     }
 
     try {
       this.isLoading = true;
-      const deleted = await this.taskService.deleteTask(this.task().id);
+      const purged = await this.taskService.purgeTask(this.task().id);
 
-      if (deleted) {
+      if (purged) {
         this.taskDeleted.emit(this.task().id);
       }
     } catch (error) {
-      console.error('Error deleting task:', error);
+      console.error('Error purging task:', error);
     } finally {
       this.isLoading = false;
     }
   }
 
+  /**
+   * Verificar si la tarea está en la papelera
+   *
+   * @returns {boolean} True si la tarea fue eliminada y puede restaurarse
+   */
+  isTrashed(): boolean {
+    return !!this.task().deletedAt;
+  }
+
+  /**
+   * Obtener la descripción de la regla de repetición de la tarea
+   *
+   * @returns {string | null} Descripción de la repetición, o null si la tarea no se repite
+   */
+  getRecurrenceText(): string | null {
+    const recurrence = this.task().recurrence;
+    return recurrence ? describeRecurrence(recurrence) : null;
+  }
+
+  /**
+   * Obtener la fecha en que la tarea se eliminará definitivamente
+   *
+   * @returns {Date | null} Fecha de purga, o null si la tarea no está en la papelera
+   */
+  getPurgeDate(): Date | null {
+    return this.taskService.getPurgeDate(this.task());
+  }
+
   /**
    * Verificar si la tarea está vencida
    *
-   * Compara la fecha límite de la tarea con la fecha actual para determinar si está vencida.
+   * Compara el vencimiento de la tarea (fecha y hora, o el final del día si no
+   * tiene hora) con la hora actual del servicio de recordatorios, que se actualiza
+   * periódicamente para reevaluar el estado sin esperar a otro cambio.
    *
    * @returns {boolean} True si la tarea está vencida
    */
   isOverdue(): boolean {
-    if (!this.task().dueDate || this.task().completed) {
-      return false;
-    }
+    return isTaskOverdue(this.task(), this.taskReminders.now());
+  }
 
-    const now = new Date();
-    const dueDate = new Date(this.task().dueDate!);
-    return dueDate < now;
+  /**
+   * Obtener la descripción de los recordatorios de la tarea
+   *
+   * @returns {string | null} Recordatorios separados por comas, o null si no tiene
+   */
+  getRemindersText(): string | null {
+    const reminders = this.task().reminders ?? [];
+    return reminders.length
+      ? [...reminders]
+          .sort((a, b) => b - a)
+          .map(describeReminder)
+          .join(', ')
+      : null;
   }
 
   /**
@@ -1,4 +1,12 @@
-import { Component, inject, signal, computed, viewChild } from '@angular/core';
+import {
+  Component,
+  HostListener,
+  inject,
+  signal,
+  computed,
+  input,
+  viewChild,
+} from '@angular/core';
 import { NgFor, NgIf } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -7,17 +15,88 @@ import { MatBadgeModule } from '@angular/material/badge';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatButtonToggleModule } from '@angular/material/button-toggle';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
-import { TaskItemComponent } from '../task-item/task-item.component';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatDividerModule } from '@angular/material/divider';
+import {
+  CdkDragDrop,
+  DragDropModule,
+  moveItemInArray,
+} from '@angular/cdk/drag-drop';
+import {
+  TaskItemComponent,
+  TaskSelectionEvent,
+} from '../task-item/task-item.component';
 import { TaskFormComponent } from '../task-form/task-form.component';
-import { Task } from '../../models/task.model';
+import { SyncStatusComponent } from '../sync-status/sync-status.component';
+import { ProjectViewsComponent } from '../project-views/project-views.component';
+import { TaskImportPreviewComponent } from '../task-import-preview/task-import-preview.component';
+import { CreateTaskRequest, Task } from '../../models/task.model';
+import { TaskBatchAction } from '../../models/task-batch.model';
+import { TaskHistoryEntry } from '../../models/task-history.model';
+import {
+  INBOX_PROJECT_ID,
+  canEditProjectTasks,
+} from '../../models/project.model';
 import { TaskService } from '../../services/task.service';
+import { ProjectService } from '../../services/project.service';
+import { AuthService } from '../../services/auth.service';
+import {
+  isEmptyTaskQuery,
+  matchesTaskQuery,
+  parseTaskQuery,
+} from '../../search/task-query';
+import {
+  TASK_SORT_MODES,
+  TaskSortMode,
+  sortTasks,
+} from '../../search/task-sort';
+import { TaskValidationError } from '../../validators/task.validator';
+import {
+  TASK_TRANSFER_FORMATS,
+  TaskTransferFormat,
+  exportTasks,
+  getExportFileName,
+  getTransferFormatFromFileName,
+  getTransferFormatInfo,
+} from '../../transfer/task-export';
+import {
+  TaskImportError,
+  TaskImportPreview,
+  previewTaskImport,
+} from '../../transfer/task-import';
+
+/**
+ * Filtros disponibles para la lista de tareas
+ */
+export type TaskFilter = 'all' | 'pending' | 'completed' | 'trash';
+
+/**
+ * Filtros por asignación: todas, las asignadas al usuario o las que asignó a otros
+ */
+export type TaskAssignmentFilter = 'all' | 'mine' | 'assigned-by-me';
 
 /**
  * Componente Lista de Tareas
  *
- * Componente standalone que muestra y gestiona una lista de tareas con funcionalidades
+ * Componente standalone que muestra y gestiona la lista de tareas de un proyecto
+ * (ruta `/projects/:id`) con funcionalidades
  * de filtrado, estadísticas y operaciones CRUD. Incluye formulario para crear nuevas tareas
- * y maneja la visualización según diferentes filtros (todas, completadas, pendientes).
+ * y maneja la visualización según diferentes filtros (todas, completadas, pendientes, papelera),
+ * combinables con un filtro por asignación ("Mis tareas", "Asignadas por mí"),
+ * un filtro por etiquetas y una búsqueda de texto con sintaxis de campos
+ * (`priority:high`, `due:<2026-11-01`, `tag:casa`). Las tareas pueden ordenarse por
+ * varios criterios o manualmente arrastrándolas.
+ * En el modo de selección se eligen varias tareas (Mayús+clic para un rango,
+ * Ctrl+A para todas las filtradas) y se les aplican acciones masivas.
+ * La lista filtrada se puede exportar a JSON, CSV o iCalendar, y se pueden
+ * importar tareas desde esos formatos tras revisar una vista previa.
+ * Permite deshacer y rehacer cambios con Ctrl+Z / Ctrl+Shift+Z.
+ * En los proyectos compartidos como lector no se pueden crear ni modificar tareas.
  *
  * @component TaskListComponent
  * @standalone
@@ -35,8 +114,19 @@ import { TaskService } from '../../services/task.service';
     MatChipsModule,
     MatButtonToggleModule,
     MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTooltipModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatMenuModule,
+    MatDividerModule,
+    DragDropModule,
     TaskItemComponent,
     TaskFormComponent,
+    SyncStatusComponent,
+    ProjectViewsComponent,
+    TaskImportPreviewComponent,
   ],
   templateUrl: './task-list.component.html',
   styleUrl: './task-list.component.scss',
@@ -49,16 +139,180 @@ export class TaskListComponent {
   readonly taskService = inject(TaskService);
 
   /**
-   * Referencia al componente del formulario de tareas
+   * Servicio de proyectos inyectado
+   * @readonly
+   */
+  readonly projectService = inject(ProjectService);
+
+  /**
+   * Servicio de autenticación, para los filtros por asignación
+   * @private
+   */
+  private readonly auth = inject(AuthService);
+
+  /**
+   * ID del proyecto implícito "Bandeja de entrada"
+   * @readonly
+   */
+  readonly inboxProjectId = INBOX_PROJECT_ID;
+
+  /**
+   * Entrada: ID del proyecto activo, enlazado desde el parámetro `:id` de la ruta
+   * @type {InputSignal<string>}
+   */
+  readonly projectId = input<string>(INBOX_PROJECT_ID, { alias: 'id' });
+
+  /**
+   * Servicio de notificaciones emergentes
    * @private
    */
-  private readonly taskFormRef = viewChild.required(TaskFormComponent);
+  private readonly snackBar = inject(MatSnackBar);
+
+  /**
+   * Referencia al componente del formulario de tareas (no se muestra a los lectores)
+   * @private
+   */
+  private readonly taskFormRef = viewChild(TaskFormComponent);
 
   /**
    * Filtro actual aplicado a las tareas
    * @type {WritableSignal<string>}
    */
-  readonly currentFilter = signal<'all' | 'pending' | 'completed'>('all');
+  readonly currentFilter = signal<TaskFilter>('all');
+
+  /**
+   * Etiquetas seleccionadas para filtrar; una tarea debe tenerlas todas
+   * @type {WritableSignal<string[]>}
+   */
+  readonly selectedTags = signal<string[]>([]);
+
+  /**
+   * Filtro por asignación aplicado a las tareas
+   * @type {WritableSignal<TaskAssignmentFilter>}
+   */
+  readonly assignmentFilter = signal<TaskAssignmentFilter>('all');
+
+  /**
+   * Señal computada que indica si el usuario puede crear y modificar tareas en el proyecto
+   * @readonly
+   * @returns {Signal<boolean>} False en los proyectos compartidos como lector
+   */
+  readonly canEditTasks = computed(() =>
+    canEditProjectTasks(this.projectService.getAccess(this.projectId()))
+  );
+
+  /**
+   * Modo de ordenación de la lista
+   * @type {WritableSignal<TaskSortMode>}
+   */
+  readonly sortMode = signal<TaskSortMode>('manual');
+
+  /**
+   * Modos de ordenación disponibles
+   * @readonly
+   */
+  readonly sortModes = TASK_SORT_MODES;
+
+  /**
+   * Señal computada que indica si las tareas se pueden reordenar arrastrándolas
+   * @readonly
+   * @returns {Signal<boolean>} True en orden manual, fuera de la papelera y del modo de selección
+   */
+  readonly canReorder = computed(
+    () =>
+      this.sortMode() === 'manual' &&
+      this.canEditTasks() &&
+      this.currentFilter() !== 'trash' &&
+      !this.selectionMode()
+  );
+
+  /**
+   * Indica si está activo el modo de selección múltiple
+   * @type {WritableSignal<boolean>}
+   */
+  readonly selectionMode = signal(false);
+
+  /**
+   * IDs de las tareas seleccionadas
+   * @type {WritableSignal<ReadonlySet<string>>}
+   */
+  readonly selectedIds = signal<ReadonlySet<string>>(new Set());
+
+  /**
+   * ID de la última tarea pulsada, origen de la selección por rango
+   * @private
+   */
+  private selectionAnchorId: string | null = null;
+
+  /**
+   * Formatos de exportación disponibles
+   * @readonly
+   */
+  readonly transferFormats = TASK_TRANSFER_FORMATS;
+
+  /**
+   * Vista previa del archivo que se va a importar (null si no hay importación en curso)
+   * @type {WritableSignal<TaskImportPreview | null>}
+   */
+  readonly importPreview = signal<TaskImportPreview | null>(null);
+
+  /**
+   * Indica si se están creando las tareas importadas
+   * @type {WritableSignal<boolean>}
+   */
+  readonly importing = signal(false);
+
+  /**
+   * Texto de búsqueda escrito por el usuario
+   * @type {WritableSignal<string>}
+   */
+  readonly searchQuery = signal('');
+
+  /**
+   * Señal computada de la búsqueda interpretada
+   * @readonly
+   * @returns {Signal<TaskQuery>} Términos y filtros de la búsqueda
+   */
+  readonly parsedQuery = computed(() => parseTaskQuery(this.searchQuery()));
+
+  /**
+   * Señal computada de las tareas activas del proyecto actual
+   * @readonly
+   * @returns {Signal<Task[]>} Tareas del proyecto
+   */
+  readonly projectTasks = computed(() =>
+    this.taskService
+      .tasks()
+      .filter(
+        (task) =>
+          this.projectService.resolveProjectId(task.projectId) === this.projectId()
+      )
+  );
+
+  /**
+   * Señal computada del número de tareas del proyecto actual
+   * @readonly
+   * @returns {Signal<number>} Número total de tareas del proyecto
+   */
+  readonly totalCount = computed(() => this.projectTasks().length);
+
+  /**
+   * Señal computada del número de tareas pendientes del proyecto actual
+   * @readonly
+   * @returns {Signal<number>} Número de tareas pendientes del proyecto
+   */
+  readonly pendingCount = computed(
+    () => this.projectTasks().filter((task) => !task.completed).length
+  );
+
+  /**
+   * Señal computada del número de tareas completadas del proyecto actual
+   * @readonly
+   * @returns {Signal<number>} Número de tareas completadas del proyecto
+   */
+  readonly completedCount = computed(
+    () => this.projectTasks().filter((task) => task.completed).length
+  );
 
   /**
    * Estado de carga
@@ -67,41 +321,452 @@ export class TaskListComponent {
   isLoading = false;
 
   /**
-   * Señal computada de tareas filtradas según el filtro actual
+   * Señal computada de tareas filtradas según el filtro actual, en el orden elegido
    * @readonly
-   * @returns {Signal<Task[]>} Array de tareas filtradas
+   * @returns {Signal<Task[]>} Array de tareas filtradas y ordenadas
    */
   readonly filteredTasks = computed(() => {
-    const filter = this.currentFilter();
-    const tasks = this.taskService.tasks();
+    const selectedTags = this.selectedTags().map((tag) => tag.toLowerCase());
+    const query = this.parsedQuery();
 
-    switch (filter) {
-      case 'completed':
-        return tasks.filter((task) => task.completed);
-      case 'pending':
-        return tasks.filter((task) => !task.completed);
-      default:
-        return tasks;
-    }
+    const tasks = this.getTasksForFilter(this.currentFilter()).filter((task) => {
+      const taskTags = (task.tags ?? []).map((tag) => tag.toLowerCase());
+      return (
+        selectedTags.every((tag) => taskTags.includes(tag)) &&
+        this.matchesAssignmentFilter(task) &&
+        matchesTaskQuery(task, query)
+      );
+    });
+    return sortTasks(tasks, this.sortMode());
   });
 
+  /**
+   * Señal computada de las tareas seleccionadas que se muestran con los filtros actuales
+   *
+   * Las acciones masivas solo afectan a estas tareas.
+   *
+   * @readonly
+   * @returns {Signal<Task[]>} Tareas seleccionadas y visibles, en el orden de la lista
+   */
+  readonly selectedTasks = computed(() =>
+    this.filteredTasks().filter((task) => this.selectedIds().has(task.id))
+  );
+
+  /**
+   * Señal computada que indica si están seleccionadas todas las tareas filtradas
+   * @readonly
+   * @returns {Signal<boolean>} True si hay tareas y todas están seleccionadas
+   */
+  readonly allSelected = computed(
+    () =>
+      this.filteredTasks().length > 0 &&
+      this.selectedTasks().length === this.filteredTasks().length
+  );
+
   /**
    * Obtiene el filtro actual
    *
-   * @returns {'all' | 'pending' | 'completed'} El filtro actualmente aplicado
+   * @returns {TaskFilter} El filtro actualmente aplicado
    */
-  getCurrentFilter(): 'all' | 'pending' | 'completed' {
+  getCurrentFilter(): TaskFilter {
     return this.currentFilter();
   }
 
   /**
    * Establece un nuevo filtro para las tareas
    *
-   * @param {string} filter - El filtro a aplicar ('all', 'pending', 'completed')
+   * @param {TaskFilter} filter - El filtro a aplicar ('all', 'pending', 'completed', 'trash')
    * @returns {void}
    */
-  setFilter(filter: 'all' | 'pending' | 'completed'): void {
+  setFilter(filter: TaskFilter): void {
     this.currentFilter.set(filter);
+    if (filter === 'trash') {
+      this.setSelectionMode(false);
+    }
+  }
+
+  /**
+   * Establece las etiquetas por las que filtrar las tareas
+   *
+   * @param {string[]} tags - Las etiquetas seleccionadas
+   * @returns {void}
+   */
+  setTagFilter(tags: string[]): void {
+    this.selectedTags.set(tags);
+  }
+
+  /**
+   * Quita el filtro por etiquetas
+   *
+   * @returns {void}
+   */
+  clearTagFilter(): void {
+    this.selectedTags.set([]);
+  }
+
+  /**
+   * Establece el filtro por asignación
+   *
+   * @param {TaskAssignmentFilter} filter - El filtro a aplicar ('all', 'mine', 'assigned-by-me')
+   * @returns {void}
+   */
+  setAssignmentFilter(filter: TaskAssignmentFilter): void {
+    this.assignmentFilter.set(filter);
+  }
+
+  /**
+   * Verificar si una tarea cumple el filtro por asignación
+   *
+   * @private
+   * @param {Task} task - La tarea
+   * @returns {boolean} True si la tarea está asignada al usuario ("Mis tareas") o
+   *   la creó el usuario y la asignó a otro ("Asignadas por mí")
+   */
+  private matchesAssignmentFilter(task: Task): boolean {
+    const userId = this.auth.user()?.id;
+    switch (this.assignmentFilter()) {
+      case 'mine':
+        return !!userId && task.assigneeId === userId;
+      case 'assigned-by-me':
+        return (
+          !!userId &&
+          task.createdBy === userId &&
+          !!task.assigneeId &&
+          task.assigneeId !== userId
+        );
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Establece el modo de ordenación de la lista
+   *
+   * @param {TaskSortMode} mode - El modo de ordenación
+   * @returns {void}
+   */
+  setSortMode(mode: TaskSortMode): void {
+    this.sortMode.set(mode);
+  }
+
+  /**
+   * Maneja el arrastre de una tarea a una nueva posición
+   *
+   * @param {CdkDragDrop<Task[]>} event - El evento de soltar
+   * @returns {Promise<void>} Promise que se resuelve cuando se guarda el nuevo orden
+   */
+  async onTaskDropped(event: CdkDragDrop<Task[]>): Promise<void> {
+    if (event.previousIndex === event.currentIndex) return;
+
+    const orderedIds = this.filteredTasks().map((task) => task.id);
+    moveItemInArray(orderedIds, event.previousIndex, event.currentIndex);
+
+    try {
+      await this.taskService.reorderTasks(orderedIds);
+    } catch (error) {
+      console.error('Error al reordenar tareas:', error);
+    }
+  }
+
+  /**
+   * Activa o desactiva el modo de selección múltiple
+   *
+   * Al desactivarlo se vacía la selección.
+   *
+   * @param {boolean} enabled - True para activarlo
+   * @returns {void}
+   */
+  setSelectionMode(enabled: boolean): void {
+    this.selectionMode.set(enabled);
+    if (!enabled) {
+      this.clearSelection();
+    }
+  }
+
+  /**
+   * Maneja la pulsación de la casilla de selección de una tarea
+   *
+   * Con Mayús, selecciona todas las tareas visibles entre la última pulsada y esta.
+   *
+   * @param {TaskSelectionEvent} event - La tarea pulsada y si se seleccionó un rango
+   * @returns {void}
+   */
+  onTaskSelectionToggled({ task, range }: TaskSelectionEvent): void {
+    const tasks = this.filteredTasks();
+    const selected = new Set(this.selectedIds());
+    const anchorIndex = range
+      ? tasks.findIndex((t) => t.id === this.selectionAnchorId)
+      : -1;
+
+    if (anchorIndex >= 0) {
+      const index = tasks.findIndex((t) => t.id === task.id);
+      tasks
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .forEach((t) => selected.add(t.id));
+    } else if (selected.has(task.id)) {
+      selected.delete(task.id);
+    } else {
+      selected.add(task.id);
+    }
+
+    this.selectionAnchorId = task.id;
+    this.selectedIds.set(selected);
+  }
+
+  /**
+   * Selecciona todas las tareas filtradas, o ninguna si ya lo estaban
+   *
+   * @returns {void}
+   */
+  toggleSelectAll(): void {
+    if (this.allSelected()) {
+      this.clearSelection();
+    } else {
+      this.selectedIds.set(new Set(this.filteredTasks().map((task) => task.id)));
+    }
+  }
+
+  /**
+   * Vacía la selección
+   *
+   * @returns {void}
+   */
+  clearSelection(): void {
+    this.selectedIds.set(new Set());
+    this.selectionAnchorId = null;
+  }
+
+  /**
+   * Aplica una acción masiva a las tareas seleccionadas
+   *
+   * Muestra cuántas tareas se modificaron y, si alguna se omitió, el motivo.
+   *
+   * @param {TaskBatchAction} action - La acción a aplicar
+   * @returns {Promise<void>} Promise que se resuelve cuando se aplica la acción
+   */
+  async applyBatchAction(action: TaskBatchAction): Promise<void> {
+    const ids = this.selectedTasks().map((task) => task.id);
+    if (!ids.length) return;
+
+    try {
+      this.isLoading = true;
+      const { updated, skipped } = await this.taskService.applyBatch(ids, action);
+      if (action.type === 'delete') {
+        this.clearSelection();
+      }
+
+      const historyEntry = this.taskService.undoEntry();
+      let message = `${updated.length} tarea(s) actualizadas`;
+      if (skipped.length) {
+        message += ` · ${skipped.length} omitidas: ${skipped[0].message}`;
+      }
+      const snackBarRef = this.snackBar.open(
+        message,
+        updated.length ? 'Deshacer' : 'OK',
+        { duration: 5000 }
+      );
+      if (updated.length) {
+        snackBarRef.onAction().subscribe(() => void this.undo(historyEntry));
+      }
+    } catch (error) {
+      console.error('Error al aplicar la acción masiva:', error);
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * Cambia la fecha de vencimiento de las tareas seleccionadas
+   *
+   * @param {number | null} daysFromToday - Días desde hoy, o null para quitar la fecha
+   * @returns {Promise<void>} Promise que se resuelve cuando se aplica el cambio
+   */
+  async setBatchDueDate(daysFromToday: number | null): Promise<void> {
+    let dueDate: Date | null = null;
+    if (daysFromToday !== null) {
+      dueDate = new Date();
+      dueDate.setHours(0, 0, 0, 0);
+      dueDate.setDate(dueDate.getDate() + daysFromToday);
+    }
+    await this.applyBatchAction({ type: 'setDueDate', dueDate });
+  }
+
+  /**
+   * Pide una fecha y la asigna a las tareas seleccionadas
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se aplica el cambio
+   */
+  async promptBatchDueDate(): Promise<void> {
+    const value = prompt('Fecha de vencimiento (AAAA-MM-DD):')?.trim();
+    if (!value) return;
+
+    const [year, month, day] = value.split('-').map(Number);
+    const dueDate = new Date(year, month - 1, day);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || dueDate.getMonth() !== month - 1) {
+      this.snackBar.open('La fecha debe tener el formato AAAA-MM-DD', 'OK', {
+        duration: 4000,
+      });
+      return;
+    }
+    await this.applyBatchAction({ type: 'setDueDate', dueDate });
+  }
+
+  /**
+   * Pide una etiqueta y la agrega a las tareas seleccionadas
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se aplica el cambio
+   */
+  async promptBatchTag(): Promise<void> {
+    const tag = prompt('Etiqueta a agregar:')?.trim();
+    if (tag) {
+      await this.applyBatchAction({ type: 'addTag', tag });
+    }
+  }
+
+  /**
+   * Descarga las tareas filtradas en el formato indicado
+   *
+   * @param {TaskTransferFormat} format - El formato del archivo
+   * @returns {void}
+   */
+  exportFilteredTasks(format: TaskTransferFormat): void {
+    const tasks = this.filteredTasks();
+    if (!tasks.length) return;
+
+    const now = new Date();
+    const blob = new Blob([exportTasks(tasks, format, now)], {
+      type: `${getTransferFormatInfo(format).mimeType};charset=utf-8`,
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getExportFileName(format, now);
+    link.click();
+    URL.revokeObjectURL(url);
+
+    this.snackBar.open(`${tasks.length} tarea(s) exportadas`, 'OK', {
+      duration: 3000,
+    });
+  }
+
+  /**
+   * Lee el archivo elegido para importar y muestra su vista previa
+   *
+   * @param {Event} event - Evento `change` del campo de archivo
+   * @returns {Promise<void>} Promise que se resuelve cuando se muestra la vista previa
+   */
+  async onImportFileSelected(event: Event): Promise<void> {
+    const fileInput = event.target as HTMLInputElement;
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file) return;
+
+    const format = getTransferFormatFromFileName(file.name);
+    if (!format) {
+      this.snackBar.open('El archivo debe ser .json, .csv o .ics', 'OK', {
+        duration: 4000,
+      });
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      this.importPreview.set(
+        previewTaskImport(text, format, this.projectTasks(), file.name)
+      );
+    } catch (error) {
+      if (!(error instanceof TaskImportError)) {
+        throw error;
+      }
+      this.snackBar.open(error.message, 'OK', { duration: 5000 });
+    }
+  }
+
+  /**
+   * Crea en el proyecto actual las tareas confirmadas en la vista previa
+   *
+   * @param {CreateTaskRequest[]} taskRequests - Los datos de las tareas a crear
+   * @returns {Promise<void>} Promise que se resuelve cuando se importan las tareas
+   */
+  async onImportConfirmed(taskRequests: CreateTaskRequest[]): Promise<void> {
+    const projectId =
+      this.projectId() === INBOX_PROJECT_ID ? undefined : this.projectId();
+
+    try {
+      this.importing.set(true);
+      const created = await this.taskService.importTasks(
+        taskRequests.map((taskRequest) => ({ ...taskRequest, projectId }))
+      );
+      this.importPreview.set(null);
+      const historyEntry = this.taskService.undoEntry();
+      this.snackBar
+        .open(`${created.length} tarea(s) importadas`, 'Deshacer', {
+          duration: 5000,
+        })
+        .onAction()
+        .subscribe(() => void this.undo(historyEntry));
+    } catch (error) {
+      if (error instanceof TaskValidationError) {
+        const [firstError] = Object.values(error.errors);
+        this.snackBar.open(firstError?.message ?? error.message, 'OK', {
+          duration: 5000,
+        });
+      } else {
+        console.error('Error al importar tareas:', error);
+      }
+    } finally {
+      this.importing.set(false);
+    }
+  }
+
+  /**
+   * Descarta la importación en curso
+   *
+   * @returns {void}
+   */
+  onImportCancelled(): void {
+    this.importPreview.set(null);
+  }
+
+  /**
+   * Establece el texto de búsqueda
+   *
+   * @param {string} query - La búsqueda escrita
+   * @returns {void}
+   */
+  setSearchQuery(query: string): void {
+    this.searchQuery.set(query);
+  }
+
+  /**
+   * Verifica si hay una búsqueda activa
+   *
+   * @returns {boolean} True si la búsqueda filtra las tareas
+   */
+  isSearching(): boolean {
+    return !isEmptyTaskQuery(this.parsedQuery());
+  }
+
+  /**
+   * Obtiene las tareas que corresponden a un filtro de estado
+   *
+   * @private
+   * @param {TaskFilter} filter - El filtro de estado
+   * @returns {Task[]} Tareas que cumplen el filtro
+   */
+  private getTasksForFilter(filter: TaskFilter): Task[] {
+    const tasks = this.projectTasks();
+
+    switch (filter) {
+      case 'completed':
+        return tasks.filter((task) => task.completed);
+      case 'pending':
+        return tasks.filter((task) => !task.completed);
+      case 'trash':
+        return this.taskService.trashedTasks();
+      default:
+        return tasks;
+    }
   }
 
   /**
@@ -119,13 +784,22 @@ export class TaskListComponent {
    * @returns {number} Porcentaje de tareas completadas (0-100)
    */
   getCompletionPercentage(): number {
-    const total = this.taskService.totalTasksCount();
+    const total = this.totalCount();
     if (total === 0) return 0;
 
-    const completed = this.taskService.completedTasksCount();
+    const completed = this.completedCount();
     return Math.round((completed / total) * 100);
   }
 
+  /**
+   * Obtiene el color del proyecto actual
+   *
+   * @returns {string | null} Color CSS del proyecto, o null para la bandeja de entrada
+   */
+  getProjectColor(): string | null {
+    return this.projectService.getProject(this.projectId())?.color ?? null;
+  }
+
   /**
    * Obtiene el icono correspondiente al filtro actual
    *
@@ -137,6 +811,8 @@ export class TaskListComponent {
         return 'check_circle';
       case 'pending':
         return 'schedule';
+      case 'trash':
+        return 'delete';
       default:
         return 'list';
     }
@@ -153,6 +829,8 @@ export class TaskListComponent {
         return 'Tareas Completadas';
       case 'pending':
         return 'Tareas Pendientes';
+      case 'trash':
+        return 'Papelera';
       default:
         return 'Todas las Tareas';
     }
@@ -169,6 +847,8 @@ export class TaskListComponent {
         return 'check_circle_outline';
       case 'pending':
         return 'schedule';
+      case 'trash':
+        return 'delete_outline';
       default:
         return 'assignment';
     }
@@ -185,6 +865,8 @@ export class TaskListComponent {
         return 'No hay tareas completadas';
       case 'pending':
         return 'No hay tareas pendientes';
+      case 'trash':
+        return 'La papelera está vacía';
       default:
         return 'No hay tareas';
     }
@@ -196,11 +878,28 @@ export class TaskListComponent {
    * @returns {string} Mensaje descriptivo cuando no hay tareas
    */
   getEmptyStateMessage(): string {
+    if (this.isSearching()) {
+      return `Ninguna tarea coincide con "${this.searchQuery().trim()}".`;
+    }
+
+    if (this.selectedTags().length) {
+      return `Ninguna tarea tiene las etiquetas: ${this.selectedTags().join(', ')}.`;
+    }
+
+    switch (this.assignmentFilter()) {
+      case 'mine':
+        return 'No tienes tareas asignadas en esta lista.';
+      case 'assigned-by-me':
+        return 'No has asignado tareas a otros usuarios en esta lista.';
+    }
+
     switch (this.currentFilter()) {
       case 'completed':
         return 'Aún no has completado ninguna tarea. ¡Sigue trabajando!';
       case 'pending':
         return '¡Excelente! Has completado todas tus tareas.';
+      case 'trash':
+        return `Las tareas eliminadas se conservan aquí durante ${this.taskService.trashRetentionDays} días.`;
       default:
         return 'Comienza agregando tu primera tarea usando el formulario superior.';
     }
@@ -243,6 +942,16 @@ export class TaskListComponent {
     console.log('Tarea eliminada con ID:', taskId);
   }
 
+  /**
+   * Maneja la restauración de una tarea desde la papelera
+   *
+   * @param {Task} task - La tarea restaurada
+   * @returns {void}
+   */
+  onTaskRestored(task: Task): void {
+    console.log('Tarea restaurada:', task.title);
+  }
+
   /**
    * Maneja la solicitud de edición de una tarea
    *
@@ -303,7 +1012,7 @@ export class TaskListComponent {
    */
   async clearAllTasks(): Promise<void> {
     const confirmed = confirm(
-      '¿Estás seguro de que quieres eliminar todas las tareas? Esta acción no se puede deshacer.'
+      '¿Estás seguro de que quieres eliminar todas las tareas?'
     );
 
     if (confirmed) {
@@ -311,6 +1020,13 @@ export class TaskListComponent {
         this.isLoading = true;
         await this.taskService.clearAllTasks();
         console.log('Todas las tareas han sido eliminadas');
+        const historyEntry = this.taskService.undoEntry();
+        this.snackBar
+          .open('Todas las tareas han sido eliminadas', 'Deshacer', {
+            duration: 5000,
+          })
+          .onAction()
+          .subscribe(() => void this.undo(historyEntry));
       } catch (error) {
         console.error('Error al limpiar tareas:', error);
       } finally {
@@ -319,6 +1035,119 @@ export class TaskListComponent {
     }
   }
 
+  /**
+   * Vacía la papelera después de confirmación
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se vacía la papelera
+   */
+  async emptyTrash(): Promise<void> {
+    const confirmed = confirm(
+      '¿Estás seguro de que quieres eliminar definitivamente todas las tareas de la papelera?'
+    );
+
+    if (confirmed) {
+      try {
+        this.isLoading = true;
+        const purgedCount = await this.taskService.emptyTrash();
+        const historyEntry = this.taskService.undoEntry();
+        this.snackBar
+          .open(`${purgedCount} tarea(s) eliminadas definitivamente`, 'Deshacer', {
+            duration: 5000,
+          })
+          .onAction()
+          .subscribe(() => void this.undo(historyEntry));
+      } catch (error) {
+        console.error('Error al vaciar la papelera:', error);
+      } finally {
+        this.isLoading = false;
+      }
+    }
+  }
+
+  /**
+   * Deshacer la última operación sobre las tareas
+   *
+   * @param {TaskHistoryEntry | null} entry - Operación concreta a deshacer, si ya no es la última no se deshace nada (opcional)
+   * @returns {Promise<void>} Promise que se resuelve cuando se deshace la operación
+   */
+  async undo(entry?: TaskHistoryEntry | null): Promise<void> {
+    const historyEntry = entry === undefined ? this.taskService.undoEntry() : entry;
+    try {
+      const label = await this.taskService.undo(historyEntry);
+      if (label) {
+        this.snackBar
+          .open(`Deshecho: ${label}`, 'Rehacer', { duration: 4000 })
+          .onAction()
+          .subscribe(() => void this.redo(historyEntry));
+      }
+    } catch (error) {
+      console.error('Error al deshacer:', error);
+    }
+  }
+
+  /**
+   * Rehacer la última operación deshecha
+   *
+   * @param {TaskHistoryEntry | null} entry - Operación concreta a rehacer, si ya no es la última no se rehace nada (opcional)
+   * @returns {Promise<void>} Promise que se resuelve cuando se rehace la operación
+   */
+  async redo(entry?: TaskHistoryEntry | null): Promise<void> {
+    try {
+      const label = await this.taskService.redo(entry);
+      if (label) {
+        this.snackBar.open(`Rehecho: ${label}`, undefined, { duration: 3000 });
+      }
+    } catch (error) {
+      console.error('Error al rehacer:', error);
+    }
+  }
+
+  /**
+   * Atajos de teclado para deshacer (Ctrl+Z), rehacer (Ctrl+Shift+Z o Ctrl+Y)
+   * y, en el modo de selección, seleccionar todas las tareas filtradas (Ctrl+A)
+   *
+   * Se ignoran mientras el foco está en un campo de texto, para respetar
+   * el comportamiento nativo del navegador.
+   *
+   * @param {KeyboardEvent} event - El evento de teclado
+   * @returns {void}
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (!(event.ctrlKey || event.metaKey) || this.isEditingText(event)) {
+      return;
+    }
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      void this.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      void this.redo();
+    } else if (key === 'a' && this.selectionMode()) {
+      event.preventDefault();
+      this.selectedIds.set(new Set(this.filteredTasks().map((task) => task.id)));
+    }
+  }
+
+  /**
+   * Verificar si el evento proviene de un campo de texto editable
+   *
+   * @private
+   * @param {KeyboardEvent} event - El evento de teclado
+   * @returns {boolean} True si el foco está en un input, textarea o elemento editable
+   */
+  private isEditingText(event: KeyboardEvent): boolean {
+    const target = event.target as HTMLElement | null;
+    return (
+      !!target &&
+      (target.tagName === 'INPUT' ||
+        target.tagName === 'TEXTAREA' ||
+        target.isContentEditable)
+    );
+  }
+
   /**
    * Función de seguimiento para ngFor optimizada
    *
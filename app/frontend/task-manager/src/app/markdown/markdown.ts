@@ -0,0 +1,298 @@
+import { highlightMatches } from '../search/task-query';
+
+/**
+ * Esquemas de enlace permitidos; el resto de enlaces se muestran como texto
+ */
+const SAFE_LINK_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+/**
+ * Elementos en línea: código, enlaces, URL sueltas, negrita, tachado,
+ * cursiva y caracteres escapados con `\`
+ */
+const INLINE_PATTERN = new RegExp(
+  [
+    '`([^`]+)`',
+    '\\[([^\\]]+)\\]\\(([^)\\s]+)\\)',
+    '(https?:\\/\\/[^\\s<]*[^\\s<.,;:!?)\\]\'"])',
+    '\\*\\*(.+?)\\*\\*',
+    '(?<!\\w)__(.+?)__(?!\\w)',
+    '~~(.+?)~~',
+    '\\*([^*\\s](?:.*?[^*\\s])?)\\*',
+    '(?<!\\w)_([^_\\s](?:.*?[^_\\s])?)_(?!\\w)',
+    '\\\\([\\\\`*_{}\\[\\]()#+\\-.!~>|])',
+  ].join('|')
+);
+
+/**
+ * Elemento de lista: sangría, marcador (`-`, `*`, `+` o `1.`) y contenido
+ */
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)]) +(.*)$/;
+
+/**
+ * Casilla al inicio de un elemento de lista (`[ ]` o `[x]`)
+ */
+const CHECKBOX_PATTERN = /^\[([ xX])\] +/;
+
+/**
+ * Convertir Markdown en HTML seguro
+ *
+ * Admite párrafos (los saltos de línea se conservan), encabezados `#`, listas
+ * con viñetas, numeradas y anidadas, casillas `- [ ]` / `- [x]`, citas `>`,
+ * bloques de código con ```` ``` ````, separadores `---` y, en línea,
+ * `**negrita**`, `*cursiva*`, `~~tachado~~`, `` `código` `` y enlaces.
+ *
+ * Todo el texto se escapa y solo se generan etiquetas conocidas; los enlaces
+ * que no son `http(s)` o `mailto` se muestran como texto. No depende del DOM,
+ * por lo que funciona igual en el navegador y en el renderizado en servidor.
+ *
+ * @param {string} markdown - El texto en Markdown
+ * @param {string[]} highlightTerms - Términos normalizados a resaltar con `<mark>`
+ * @returns {string} El HTML resultante
+ */
+export function renderMarkdown(markdown: string, highlightTerms: string[] = []): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return renderBlocks(lines, highlightTerms);
+}
+
+/**
+ * Convertir líneas de Markdown en bloques HTML
+ *
+ * @param {string[]} lines - Las líneas
+ * @param {string[]} terms - Términos a resaltar
+ * @returns {string} El HTML de los bloques
+ */
+function renderBlocks(lines: string[], terms: string[]): string {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = /^ *(```+|~~~+)/.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      html.push(`<pre><code>${renderText(code.join('\n'), terms)}</code></pre>`);
+      continue;
+    }
+
+    const heading = /^ {0,3}(#{1,6}) +(.*?)(?: +#+)? *$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2], terms)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^ {0,3}([-*_])( *\1){2,} *$/.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^ {0,3}>/.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && /^ {0,3}>/.test(lines[i])) {
+        quote.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${renderBlocks(quote, terms)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      i = renderList(lines, i, terms, html);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    html.push(`<p>${paragraph.map((text) => renderInline(text, terms)).join('<br>')}</p>`);
+  }
+
+  return html.join('');
+}
+
+/**
+ * Convertir una lista (y sus sublistas) en HTML
+ *
+ * Pertenecen a un elemento las líneas siguientes con más sangría que su
+ * marcador, que se interpretan como bloques (p. ej. una sublista).
+ *
+ * @param {string[]} lines - Todas las líneas
+ * @param {number} start - Índice de la primera línea de la lista
+ * @param {string[]} terms - Términos a resaltar
+ * @param {string[]} html - Acumulador de HTML
+ * @returns {number} Índice de la primera línea tras la lista
+ */
+function renderList(lines: string[], start: number, terms: string[], html: string[]): number {
+  const first = LIST_ITEM_PATTERN.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const item = LIST_ITEM_PATTERN.exec(lines[i]);
+    if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) {
+      break;
+    }
+
+    const contentIndent = indent + item[2].length + 1;
+    const children: string[] = [];
+    i++;
+    while (
+      i < lines.length &&
+      (!lines[i].trim() || lines[i].length - lines[i].trimStart().length >= contentIndent)
+    ) {
+      children.push(lines[i].slice(Math.min(contentIndent, lines[i].length)));
+      i++;
+    }
+    while (children.length && !children[children.length - 1].trim()) {
+      children.pop();
+    }
+
+    const checkbox = CHECKBOX_PATTERN.exec(item[3]);
+    const text = checkbox ? item[3].slice(checkbox[0].length) : item[3];
+    const checked = checkbox?.[1].toLowerCase() === 'x';
+    const marker = checkbox
+      ? `<span class="task-checkbox" role="checkbox" aria-checked="${checked}">${
+          checked ? '☑' : '☐'
+        }</span> `
+      : '';
+    items.push(
+      `<li${checkbox ? ' class="task-list-item"' : ''}>${marker}${renderInline(text, terms)}${
+        children.length ? renderBlocks(children, terms) : ''
+      }</li>`
+    );
+  }
+
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  html.push(
+    ordered
+      ? `<ol${startNumber !== 1 ? ` start="${startNumber}"` : ''}>${items.join('')}</ol>`
+      : `<ul>${items.join('')}</ul>`
+  );
+  return i;
+}
+
+/**
+ * Verificar si una línea inicia un bloque distinto de un párrafo
+ *
+ * @param {string} line - La línea
+ * @returns {boolean} True si es un encabezado, cita, lista, separador o bloque de código
+ */
+function startsBlock(line: string): boolean {
+  return (
+    /^ {0,3}(#{1,6} |>|```|~~~)/.test(line) ||
+    /^ {0,3}([-*_])( *\1){2,} *$/.test(line) ||
+    LIST_ITEM_PATTERN.test(line)
+  );
+}
+
+/**
+ * Convertir el texto de una línea en HTML con sus elementos en línea
+ *
+ * @param {string} text - El texto
+ * @param {string[]} terms - Términos a resaltar
+ * @returns {string} El HTML
+ */
+function renderInline(text: string, terms: string[]): string {
+  let html = '';
+  let rest = text;
+  let match: RegExpExecArray | null;
+
+  while ((match = INLINE_PATTERN.exec(rest))) {
+    html += renderText(rest.slice(0, match.index), terms);
+    const [
+      whole,
+      code,
+      label,
+      href,
+      url,
+      strong,
+      strongAlt,
+      strike,
+      emphasis,
+      emphasisAlt,
+      escaped,
+    ] = match;
+
+    if (code !== undefined) {
+      html += `<code>${renderText(code, terms)}</code>`;
+    } else if (label !== undefined) {
+      html += SAFE_LINK_PATTERN.test(href)
+        ? renderLink(href, renderInline(label, terms))
+        : renderText(whole, terms);
+    } else if (url !== undefined) {
+      html += renderLink(url, renderText(url, terms));
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      html += `<strong>${renderInline(strong ?? strongAlt, terms)}</strong>`;
+    } else if (strike !== undefined) {
+      html += `<del>${renderInline(strike, terms)}</del>`;
+    } else if (emphasis !== undefined || emphasisAlt !== undefined) {
+      html += `<em>${renderInline(emphasis ?? emphasisAlt, terms)}</em>`;
+    } else {
+      html += renderText(escaped, terms);
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return html + renderText(rest, terms);
+}
+
+/**
+ * Generar un enlace que se abre en otra pestaña
+ *
+ * @param {string} href - La URL (ya verificada como segura)
+ * @param {string} content - El HTML del texto del enlace
+ * @returns {string} El HTML del enlace
+ */
+function renderLink(href: string, content: string): string {
+  return `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${content}</a>`;
+}
+
+/**
+ * Escapar un texto y resaltar los términos de búsqueda
+ *
+ * @param {string} text - El texto
+ * @param {string[]} terms - Términos a resaltar
+ * @returns {string} El HTML
+ */
+function renderText(text: string, terms: string[]): string {
+  return highlightMatches(text, terms)
+    .map((segment) =>
+      segment.match
+        ? `<mark class="search-match">${escapeHtml(segment.text)}</mark>`
+        : escapeHtml(segment.text)
+    )
+    .join('');
+}
+
+/**
+ * Escapar los caracteres especiales de HTML
+ *
+ * @param {string} text - El texto
+ * @returns {string} El texto escapado
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
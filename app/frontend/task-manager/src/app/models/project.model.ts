@@ -0,0 +1,198 @@
+/**
+ * ID del proyecto implícito "Bandeja de entrada"
+ *
+ * Las tareas sin `projectId` pertenecen a este proyecto, que no se almacena.
+ */
+export const INBOX_PROJECT_ID = 'inbox';
+
+/**
+ * Rol de un miembro en un proyecto compartido
+ *
+ * - `viewer`: puede ver las tareas del proyecto
+ * - `editor`: además puede crearlas, modificarlas y eliminarlas
+ */
+export type ProjectRole = 'viewer' | 'editor';
+
+/**
+ * Nivel de acceso de un usuario a un proyecto: su propietario o un miembro con su rol
+ */
+export type ProjectAccess = 'owner' | ProjectRole;
+
+/**
+ * Miembro de un Proyecto Compartido
+ *
+ * @interface ProjectMember
+ */
+export interface ProjectMember {
+  /**
+   * ID del usuario con quien se comparte el proyecto
+   * @type {string}
+   */
+  userId: string;
+
+  /**
+   * Permisos del usuario en el proyecto
+   * @type {ProjectRole}
+   */
+  role: ProjectRole;
+}
+
+/**
+ * Roles de los miembros con su nombre visible, en orden de permisos
+ */
+export const PROJECT_ROLES: ReadonlyArray<{ value: ProjectRole; label: string }> = [
+  { value: 'viewer', label: 'Lector' },
+  { value: 'editor', label: 'Editor' },
+];
+
+/**
+ * Interfaz del Modelo de Proyecto
+ *
+ * Representa una lista de tareas con nombre propio. Su propietario puede
+ * compartirla con otros usuarios como lectores o editores.
+ *
+ * @interface Project
+ */
+export interface Project {
+  /**
+   * Identificador único del proyecto
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * ID del usuario propietario; lo asigna la API (sin definir en el almacenamiento local)
+   * @type {string | undefined}
+   */
+  ownerId?: string;
+
+  /**
+   * Nombre del proyecto
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * Color identificativo del proyecto (color CSS)
+   * @type {string}
+   */
+  color: string;
+
+  /**
+   * Usuarios con quienes se comparte el proyecto
+   * @type {ProjectMember[] | undefined}
+   */
+  members?: ProjectMember[];
+
+  /**
+   * Fecha de creación del proyecto
+   * @type {Date}
+   */
+  createdAt: Date;
+
+  /**
+   * Fecha de última actualización del proyecto
+   * @type {Date}
+   */
+  updatedAt: Date;
+}
+
+/**
+ * Interfaz para crear un nuevo proyecto
+ *
+ * @interface CreateProjectRequest
+ */
+export interface CreateProjectRequest {
+  /**
+   * Nombre del nuevo proyecto
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * Color opcional del nuevo proyecto
+   * @type {string | undefined}
+   */
+  color?: string;
+}
+
+/**
+ * Interfaz para actualizar un proyecto existente
+ *
+ * @interface UpdateProjectRequest
+ */
+export interface UpdateProjectRequest {
+  /**
+   * Nombre actualizado del proyecto
+   * @type {string | undefined}
+   */
+  name?: string;
+
+  /**
+   * Color actualizado del proyecto
+   * @type {string | undefined}
+   */
+  color?: string;
+
+  /**
+   * Miembros actualizados del proyecto (solo su propietario puede cambiarlos)
+   * @type {ProjectMember[] | undefined}
+   */
+  members?: ProjectMember[];
+}
+
+/**
+ * Obtener el nivel de acceso de un usuario a un proyecto
+ *
+ * Los proyectos sin propietario (almacenamiento local) pertenecen a cualquier usuario.
+ *
+ * @param {Project} project - El proyecto
+ * @param {string | undefined} userId - El ID del usuario
+ * @returns {ProjectAccess | null} El acceso del usuario, o null si no tiene
+ */
+export function getProjectAccess(
+  project: Project,
+  userId: string | undefined
+): ProjectAccess | null {
+  if (!project.ownerId || project.ownerId === userId) {
+    return 'owner';
+  }
+  return project.members?.find((member) => member.userId === userId)?.role ?? null;
+}
+
+/**
+ * Indicar si un nivel de acceso permite modificar las tareas del proyecto
+ *
+ * @param {ProjectAccess | null} access - El nivel de acceso
+ * @returns {boolean} true para el propietario y los editores
+ */
+export function canEditProjectTasks(access: ProjectAccess | null): boolean {
+  return access === 'owner' || access === 'editor';
+}
+
+/**
+ * Obtener los IDs de los usuarios con acceso a un proyecto
+ *
+ * @param {Project} project - El proyecto
+ * @returns {string[]} El propietario seguido de los miembros
+ */
+export function getProjectUserIds(project: Project): string[] {
+  return [
+    ...(project.ownerId ? [project.ownerId] : []),
+    ...(project.members ?? []).map((member) => member.userId),
+  ];
+}
+
+/**
+ * Reconstruir un proyecto a partir de su representación JSON
+ *
+ * @param {Project} raw - El proyecto deserializado con fechas en formato texto
+ * @returns {Project} El proyecto con sus fechas restauradas
+ */
+export function reviveProject(raw: Project): Project {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
@@ -0,0 +1,266 @@
+import { Task } from './task.model';
+import { TaskMergeField } from './task-sync.model';
+import { describeRecurrence } from './task-recurrence.model';
+
+/**
+ * Tipo de evento del historial de actividad de una tarea
+ *
+ * - `created`: se creó la tarea
+ * - `updated`: se modificaron uno o más campos
+ * - `completed` / `reopened`: se marcó como completada o pendiente
+ * - `deleted` / `restored`: se envió a la papelera o se restauró
+ * - `purged`: se eliminó definitivamente
+ */
+export type TaskActivityType =
+  | 'created'
+  | 'updated'
+  | 'completed'
+  | 'reopened'
+  | 'deleted'
+  | 'restored'
+  | 'purged';
+
+/**
+ * Campos de tarea cuyos cambios se registran en el historial
+ */
+export type TaskActivityField = Exclude<TaskMergeField, 'deletedAt' | 'order'>;
+
+/**
+ * Valor de un campo registrado en el historial, en un formato serializable
+ *
+ * Las fechas se guardan en ISO 8601, las subtareas como `completadas/total`
+ * y la repetición con su descripción; null indica que el campo estaba vacío.
+ */
+export type TaskActivityValue = string | boolean | string[] | number[] | null;
+
+/**
+ * Cambio de un Campo
+ *
+ * @interface TaskFieldChange
+ */
+export interface TaskFieldChange {
+  /**
+   * Campo modificado
+   * @type {TaskActivityField}
+   */
+  field: TaskActivityField;
+
+  /**
+   * Valor anterior (null si estaba vacío o la tarea se acaba de crear)
+   * @type {TaskActivityValue}
+   */
+  oldValue: TaskActivityValue;
+
+  /**
+   * Valor nuevo (null si quedó vacío)
+   * @type {TaskActivityValue}
+   */
+  newValue: TaskActivityValue;
+}
+
+/**
+ * Evento de Actividad de una Tarea
+ *
+ * Entrada del historial de solo adición que registra quién cambió qué en una
+ * tarea y cuándo. Las entradas nunca se modifican ni se eliminan, aunque la
+ * tarea se elimine definitivamente.
+ *
+ * @interface TaskActivity
+ */
+export interface TaskActivity {
+  /**
+   * Identificador único del evento
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * ID de la tarea afectada
+   * @type {string}
+   */
+  taskId: string;
+
+  /**
+   * Título de la tarea en el momento del evento
+   * @type {string}
+   */
+  taskTitle: string;
+
+  /**
+   * Tipo de evento
+   * @type {TaskActivityType}
+   */
+  type: TaskActivityType;
+
+  /**
+   * Campos modificados; al crear la tarea, sus valores iniciales
+   * @type {TaskFieldChange[]}
+   */
+  changes: TaskFieldChange[];
+
+  /**
+   * Quién realizó el cambio
+   * @type {string}
+   */
+  actor: string;
+
+  /**
+   * ID del usuario que realizó el cambio; lo asigna la API
+   * @type {string | undefined}
+   */
+  actorId?: string;
+
+  /**
+   * Momento del cambio
+   * @type {Date}
+   */
+  timestamp: Date;
+}
+
+/**
+ * Evento de actividad pendiente de completar con su ID, autor y fecha
+ */
+export type TaskActivityDraft = Pick<
+  TaskActivity,
+  'taskId' | 'taskTitle' | 'type' | 'changes'
+>;
+
+/**
+ * Campos registrados en el historial, en el orden en que se muestran
+ */
+export const TASK_ACTIVITY_FIELDS: TaskActivityField[] = [
+  'title',
+  'description',
+  'completed',
+  'status',
+  'priority',
+  'dueDate',
+  'dueTime',
+  'reminders',
+  'subtasks',
+  'tags',
+  'projectId',
+  'assigneeId',
+  'recurrence',
+  'blockedBy',
+];
+
+/**
+ * Calcular el evento de actividad correspondiente a un cambio de una tarea
+ *
+ * @param {Task | null} before - La tarea antes del cambio (null si se creó)
+ * @param {Task | null} after - La tarea después del cambio (null si se eliminó definitivamente)
+ * @returns {TaskActivityDraft | null} El evento, o null si no cambió ningún campo registrado
+ */
+export function diffTaskActivity(
+  before: Task | null,
+  after: Task | null
+): TaskActivityDraft | null {
+  const task = after ?? before;
+  if (!task) {
+    return null;
+  }
+
+  if (!after) {
+    return { taskId: task.id, taskTitle: task.title, type: 'purged', changes: [] };
+  }
+
+  const changes = TASK_ACTIVITY_FIELDS.flatMap((field): TaskFieldChange[] => {
+    const oldValue = before ? getTaskActivityValue(before, field) : null;
+    const newValue = getTaskActivityValue(after, field);
+    if (!before && (newValue === null || newValue === false)) {
+      return [];
+    }
+    return JSON.stringify(oldValue) === JSON.stringify(newValue)
+      ? []
+      : [{ field, oldValue, newValue }];
+  });
+
+  let type: TaskActivityType;
+  if (!before) {
+    type = 'created';
+  } else if (!before.deletedAt && after.deletedAt) {
+    type = 'deleted';
+  } else if (before.deletedAt && !after.deletedAt) {
+    type = 'restored';
+  } else if (before.completed !== after.completed) {
+    type = after.completed ? 'completed' : 'reopened';
+  } else if (changes.length) {
+    type = 'updated';
+  } else {
+    return null;
+  }
+
+  return { taskId: task.id, taskTitle: task.title, type, changes };
+}
+
+/**
+ * Obtener el valor serializable de un campo de una tarea
+ *
+ * @param {Task} task - La tarea
+ * @param {TaskActivityField} field - El campo
+ * @returns {TaskActivityValue} El valor, o null si está vacío
+ */
+function getTaskActivityValue(
+  task: Task,
+  field: TaskActivityField
+): TaskActivityValue {
+  switch (field) {
+    case 'completed':
+      return task.completed;
+    case 'dueDate':
+      return task.dueDate?.toISOString() ?? null;
+    case 'reminders':
+      return task.reminders?.length ? [...task.reminders] : null;
+    case 'subtasks':
+      return task.subtasks?.length
+        ? `${task.subtasks.filter((subtask) => subtask.completed).length}/${task.subtasks.length}`
+        : null;
+    case 'tags':
+      return task.tags?.length ? [...task.tags] : null;
+    case 'blockedBy':
+      return task.blockedBy?.length ? [...task.blockedBy] : null;
+    case 'recurrence':
+      return task.recurrence ? describeRecurrence(task.recurrence) : null;
+    default:
+      return task[field] || null;
+  }
+}
+
+/**
+ * Describir un evento de actividad en español
+ *
+ * @param {TaskActivityType} type - El tipo de evento
+ * @returns {string} Descripción de la acción (p. ej. "Completó la tarea")
+ */
+export function describeTaskActivity(type: TaskActivityType): string {
+  switch (type) {
+    case 'created':
+      return 'Creó la tarea';
+    case 'updated':
+      return 'Modificó la tarea';
+    case 'completed':
+      return 'Completó la tarea';
+    case 'reopened':
+      return 'Marcó la tarea como pendiente';
+    case 'deleted':
+      return 'Movió la tarea a la papelera';
+    case 'restored':
+      return 'Restauró la tarea de la papelera';
+    case 'purged':
+      return 'Eliminó la tarea definitivamente';
+  }
+}
+
+/**
+ * Reconstruir un evento de actividad a partir de su representación JSON
+ *
+ * @param {TaskActivity} raw - El evento deserializado con fechas en formato texto
+ * @returns {TaskActivity} El evento con su fecha restaurada
+ */
+export function reviveTaskActivity(raw: TaskActivity): TaskActivity {
+  return {
+    ...raw,
+    timestamp: new Date(raw.timestamp),
+  };
+}
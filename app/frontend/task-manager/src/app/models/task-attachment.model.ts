@@ -0,0 +1,179 @@
+/**
+ * Interfaz de un Archivo Adjunto
+ *
+ * Metadatos de un archivo adjunto a una tarea. El contenido se guarda en el
+ * disco del servidor y se descarga desde la API de adjuntos.
+ *
+ * @interface TaskAttachment
+ */
+export interface TaskAttachment {
+  /**
+   * Identificador único del adjunto
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Nombre original del archivo
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * Tipo MIME del archivo
+   * @type {string}
+   */
+  mimeType: string;
+
+  /**
+   * Tamaño del archivo en bytes
+   * @type {number}
+   */
+  size: number;
+
+  /**
+   * ID del usuario que subió el archivo
+   * @type {string | undefined}
+   */
+  uploadedBy?: string;
+
+  /**
+   * Fecha de subida del archivo
+   * @type {Date}
+   */
+  uploadedAt: Date;
+}
+
+/**
+ * Datos de un archivo a adjuntar, antes de subirlo
+ *
+ * @interface TaskAttachmentUpload
+ */
+export interface TaskAttachmentUpload {
+  /**
+   * Nombre del archivo
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * Tipo MIME del archivo
+   * @type {string}
+   */
+  mimeType: string;
+
+  /**
+   * Tamaño del archivo en bytes
+   * @type {number}
+   */
+  size: number;
+}
+
+/**
+ * Tipos MIME de imagen que se muestran como miniatura
+ *
+ * SVG no se incluye porque puede contener scripts.
+ */
+export const TASK_ATTACHMENT_IMAGE_TYPES: ReadonlyArray<string> = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+/**
+ * Tipos MIME admitidos como adjunto, por extensión de archivo
+ *
+ * Se usa también para deducir el tipo cuando el navegador no lo indica.
+ */
+export const TASK_ATTACHMENT_TYPES_BY_EXTENSION: Readonly<Record<string, string>> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+};
+
+/**
+ * Obtener el tipo MIME de un archivo a adjuntar
+ *
+ * @param {string} name - Nombre del archivo
+ * @param {string} type - Tipo indicado por el navegador (puede estar vacío)
+ * @returns {string} El tipo indicado o, si no lo hay, el deducido de la extensión (vacío si no se conoce)
+ */
+export function getAttachmentMimeType(name: string, type: string): string {
+  if (type && type !== 'application/octet-stream') {
+    return type;
+  }
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return TASK_ATTACHMENT_TYPES_BY_EXTENSION[extension] ?? '';
+}
+
+/**
+ * Indicar si un adjunto es una imagen con miniatura
+ *
+ * @param {TaskAttachment} attachment - El adjunto
+ * @returns {boolean} True para PNG, JPEG, GIF y WebP
+ */
+export function isImageAttachment(attachment: TaskAttachment): boolean {
+  return TASK_ATTACHMENT_IMAGE_TYPES.includes(attachment.mimeType);
+}
+
+/**
+ * Obtener el icono Material de un adjunto según su tipo
+ *
+ * @param {TaskAttachment} attachment - El adjunto
+ * @returns {string} Nombre del icono
+ */
+export function getAttachmentIcon(attachment: TaskAttachment): string {
+  const mimeType = attachment.mimeType;
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'picture_as_pdf';
+  if (mimeType === 'application/zip') return 'folder_zip';
+  if (mimeType.startsWith('text/') || mimeType === 'application/json') return 'description';
+  if (/spreadsheet|ms-excel/.test(mimeType)) return 'table_chart';
+  if (/wordprocessing|msword|opendocument\.text/.test(mimeType)) return 'article';
+  return 'insert_drive_file';
+}
+
+/**
+ * Formatear el tamaño de un archivo para mostrarlo
+ *
+ * @param {number} size - Tamaño en bytes
+ * @returns {string} Tamaño legible (p. ej. "1,5 MB")
+ */
+export function formatAttachmentSize(size: number): string {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let value = size / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toLocaleString('es-ES', { maximumFractionDigits: 1 })} ${units[unitIndex]}`;
+}
+
+/**
+ * Reconstruir un adjunto deserializado desde JSON, convirtiendo su fecha
+ *
+ * @param {TaskAttachment} raw - El adjunto tal como se leyó del JSON
+ * @returns {TaskAttachment} El adjunto con su fecha como objeto Date
+ */
+export function reviveTaskAttachment(raw: TaskAttachment): TaskAttachment {
+  return { ...raw, uploadedAt: new Date(raw.uploadedAt) };
+}
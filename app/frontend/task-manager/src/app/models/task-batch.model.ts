@@ -0,0 +1,100 @@
+import { Task, UpdateTaskRequest } from './task.model';
+
+/**
+ * Acción aplicable a varias tareas a la vez
+ *
+ * - `complete` / `reopen`: completar o reabrir
+ * - `delete`: enviar a la papelera
+ * - `setPriority`: cambiar la prioridad
+ * - `setDueDate`: cambiar la fecha de vencimiento (null para quitarla)
+ * - `addTag`: agregar una etiqueta
+ */
+export type TaskBatchAction =
+  | { type: 'complete' }
+  | { type: 'reopen' }
+  | { type: 'delete' }
+  | { type: 'setPriority'; priority: Task['priority'] }
+  | { type: 'setDueDate'; dueDate: Date | null }
+  | { type: 'addTag'; tag: string };
+
+/**
+ * Resultado de aplicar una acción a varias tareas
+ *
+ * @interface TaskBatchResult
+ */
+export interface TaskBatchResult {
+  /**
+   * Tareas modificadas, tal como quedaron almacenadas
+   * @type {Task[]}
+   */
+  updated: Task[];
+
+  /**
+   * Tareas a las que no se pudo aplicar la acción (por ejemplo, completar una
+   * tarea con subtareas pendientes), con el motivo
+   * @type {{ task: Task; message: string }[]}
+   */
+  skipped: { task: Task; message: string }[];
+}
+
+/**
+ * Obtener los cambios que una acción masiva aplica a una tarea
+ *
+ * @param {Task} task - La tarea
+ * @param {TaskBatchAction} action - La acción
+ * @param {Date} now - Momento de la operación (para `delete`)
+ * @returns {UpdateTaskRequest | null} Los cambios, o null si la tarea ya cumple la acción
+ */
+export function getBatchUpdateRequest(
+  task: Task,
+  action: TaskBatchAction,
+  now: Date
+): UpdateTaskRequest | null {
+  switch (action.type) {
+    case 'complete':
+      return task.completed ? null : { completed: true };
+    case 'reopen':
+      return task.completed ? { completed: false } : null;
+    case 'delete':
+      return task.deletedAt ? null : { deletedAt: now };
+    case 'setPriority':
+      return task.priority === action.priority ? null : { priority: action.priority };
+    case 'setDueDate':
+      return task.dueDate?.getTime() === action.dueDate?.getTime()
+        ? null
+        : { dueDate: action.dueDate };
+    case 'addTag': {
+      const tags = task.tags ?? [];
+      return tags.some((tag) => tag.toLowerCase() === action.tag.toLowerCase())
+        ? null
+        : { tags: [...tags, action.tag] };
+    }
+  }
+}
+
+/**
+ * Describir una acción masiva en español, para el historial
+ *
+ * @param {TaskBatchAction} action - La acción
+ * @param {number} count - Número de tareas afectadas
+ * @returns {string} Descripción (p. ej. "Completar 3 tareas")
+ */
+export function describeBatchAction(action: TaskBatchAction, count: number): string {
+  const tasks = count === 1 ? '1 tarea' : `${count} tareas`;
+  switch (action.type) {
+    case 'complete':
+      return `Completar ${tasks}`;
+    case 'reopen':
+      return `Reabrir ${tasks}`;
+    case 'delete':
+      return `Eliminar ${tasks}`;
+    case 'setPriority':
+      return `Cambiar la prioridad de ${tasks}`;
+    case 'setDueDate':
+      return action.dueDate
+        ? `Cambiar la fecha de ${tasks}`
+        : `Quitar la fecha de ${tasks}`;
+    case 'addTag':
+      return `Etiquetar ${tasks} con "${action.tag}"`;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Interfaz del Modelo de Comentario de Tarea
+ *
+ * Mensaje de la conversación sobre una tarea. Solo su autor puede editarlo o
+ * eliminarlo.
+ *
+ * @interface TaskComment
+ */
+export interface TaskComment {
+  /**
+   * Identificador único del comentario
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * ID de la tarea comentada
+   * @type {string}
+   */
+  taskId: string;
+
+  /**
+   * Texto del comentario (admite Markdown)
+   * @type {string}
+   */
+  text: string;
+
+  /**
+   * Nombre del autor en el momento de escribir el comentario
+   * @type {string}
+   */
+  author: string;
+
+  /**
+   * ID del usuario autor (asignado por la API; sin definir sin sesión)
+   * @type {string | undefined}
+   */
+  authorId?: string;
+
+  /**
+   * Fecha de creación del comentario
+   * @type {Date}
+   */
+  createdAt: Date;
+
+  /**
+   * Fecha de la última edición del comentario
+   * @type {Date}
+   */
+  updatedAt: Date;
+}
+
+/**
+ * Interfaz para crear un comentario
+ *
+ * @interface CreateTaskCommentRequest
+ */
+export interface CreateTaskCommentRequest {
+  /**
+   * ID de la tarea comentada
+   * @type {string}
+   */
+  taskId: string;
+
+  /**
+   * Texto del comentario
+   * @type {string}
+   */
+  text: string;
+}
+
+/**
+ * Interfaz para editar un comentario
+ *
+ * @interface UpdateTaskCommentRequest
+ */
+export interface UpdateTaskCommentRequest {
+  /**
+   * Nuevo texto del comentario
+   * @type {string}
+   */
+  text: string;
+}
+
+/**
+ * Reconstruir un comentario deserializado desde JSON, convirtiendo sus fechas
+ *
+ * @param {TaskComment} raw - El comentario tal como se leyó del JSON
+ * @returns {TaskComment} El comentario con sus fechas como objetos Date
+ */
+export function reviveTaskComment(raw: TaskComment): TaskComment {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
@@ -0,0 +1,98 @@
+import { Task } from './task.model';
+
+/**
+ * Normalizar las tareas bloqueantes de una tarea
+ *
+ * @param {string[]} blockedBy - IDs de las tareas bloqueantes
+ * @param {string} taskId - ID de la propia tarea, que no puede bloquearse a sí misma (opcional)
+ * @returns {string[]} Los IDs sin repetir y sin el de la propia tarea
+ */
+export function normalizeBlockedBy(blockedBy: string[], taskId?: string): string[] {
+  return [...new Set(blockedBy)].filter((id) => id !== taskId);
+}
+
+/**
+ * Buscar la dependencia circular que crearía bloquear una tarea con otras
+ *
+ * Recorre las tareas bloqueantes y, a su vez, las que bloquean a estas; si
+ * alguna de ellas está bloqueada (directa o indirectamente) por la propia
+ * tarea, la nueva relación cerraría un ciclo.
+ *
+ * @param {string} taskId - El ID de la tarea
+ * @param {string[]} blockedBy - Los IDs de las tareas que la bloquearían
+ * @param {Task[]} tasks - Todas las tareas conocidas
+ * @returns {string[] | null} IDs del ciclo empezando y terminando en la tarea, o null si no hay ciclo
+ */
+export function findDependencyCycle(
+  taskId: string,
+  blockedBy: string[],
+  tasks: Task[]
+): string[] | null {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) {
+      return [...path, id];
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+    visited.add(id);
+
+    for (const blockerId of tasksById.get(id)?.blockedBy ?? []) {
+      const cycle = visit(blockerId, [...path, id]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+
+  for (const blockerId of blockedBy) {
+    const cycle = visit(blockerId, [taskId]);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Calcular el nivel de cada tarea en el grafo de dependencias
+ *
+ * Las tareas sin bloqueantes (entre las indicadas) quedan en el nivel 0 y
+ * cada tarea bloqueada queda un nivel por debajo de su bloqueante más profundo.
+ * Un ciclo, si existiera, se corta en la tarea por la que se vuelve a entrar.
+ *
+ * @param {Task[]} tasks - Las tareas del grafo
+ * @returns {Map<string, number>} Nivel por ID de tarea
+ */
+export function getDependencyLevels(tasks: Task[]): Map<string, number> {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const getLevel = (task: Task): number => {
+    const knownLevel = levels.get(task.id);
+    if (knownLevel !== undefined) {
+      return knownLevel;
+    }
+    if (visiting.has(task.id)) {
+      return -1;
+    }
+    visiting.add(task.id);
+
+    const level = (task.blockedBy ?? []).reduce((maxLevel, blockerId) => {
+      const blocker = tasksById.get(blockerId);
+      return blocker ? Math.max(maxLevel, getLevel(blocker) + 1) : maxLevel;
+    }, 0);
+
+    visiting.delete(task.id);
+    levels.set(task.id, level);
+    return level;
+  };
+
+  tasks.forEach(getLevel);
+  return levels;
+}
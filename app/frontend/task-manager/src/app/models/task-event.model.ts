@@ -0,0 +1,37 @@
+import { Task, reviveTask } from './task.model';
+
+/**
+ * Evento de Cambio de Tareas
+ *
+ * Notificación que el servidor difunde a todos los clientes conectados cuando
+ * cambia la lista de tareas compartida.
+ *
+ * - `snapshot`: listado completo, enviado al conectarse o reconectarse
+ * - `created` / `updated`: tarea creada o modificada
+ * - `deleted`: tarea eliminada
+ * - `cleared`: se eliminaron todas las tareas
+ */
+export type TaskChangeEvent =
+  | { type: 'snapshot'; tasks: Task[] }
+  | { type: 'created'; task: Task }
+  | { type: 'updated'; task: Task }
+  | { type: 'deleted'; id: string }
+  | { type: 'cleared' };
+
+/**
+ * Reconstruir un evento de cambio a partir de su representación JSON
+ *
+ * @param {TaskChangeEvent} raw - El evento deserializado con fechas en formato texto
+ * @returns {TaskChangeEvent} El evento con las fechas de sus tareas restauradas
+ */
+export function reviveTaskChangeEvent(raw: TaskChangeEvent): TaskChangeEvent {
+  switch (raw.type) {
+    case 'snapshot':
+      return { ...raw, tasks: raw.tasks.map(reviveTask) };
+    case 'created':
+    case 'updated':
+      return { ...raw, task: reviveTask(raw.task) };
+    default:
+      return raw;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Entrada del Historial de Tareas
+ *
+ * Operación reversible registrada por `TaskService` para deshacer y rehacer
+ * mutaciones de tareas.
+ *
+ * @interface TaskHistoryEntry
+ */
+export interface TaskHistoryEntry {
+  /**
+   * Descripción breve de la operación, mostrada al usuario
+   * @type {string}
+   */
+  label: string;
+
+  /**
+   * Revertir la operación
+   * @returns {Promise<void>}
+   */
+  undo: () => Promise<void>;
+
+  /**
+   * Volver a aplicar la operación revertida
+   * @returns {Promise<void>}
+   */
+  redo: () => Promise<void>;
+}
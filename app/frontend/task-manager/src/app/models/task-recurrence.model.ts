@@ -0,0 +1,207 @@
+/**
+ * Frecuencias de repetición de una tarea
+ *
+ * - `daily`: cada día
+ * - `weekly`: cada semana, en los días indicados
+ * - `monthly`: cada mes, el día indicado
+ * - `interval`: cada N días
+ */
+export type TaskRecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'interval';
+
+/**
+ * Interfaz de la Regla de Repetición
+ *
+ * Al completar una tarea con regla de repetición se crea la siguiente
+ * repetición con la fecha de vencimiento avanzada según la regla.
+ *
+ * @interface TaskRecurrence
+ */
+export interface TaskRecurrence {
+  /**
+   * Frecuencia de repetición
+   * @type {TaskRecurrenceFrequency}
+   */
+  frequency: TaskRecurrenceFrequency;
+
+  /**
+   * Días entre repeticiones (solo `interval`)
+   * @type {number | undefined}
+   */
+  interval?: number;
+
+  /**
+   * Días de la semana en que se repite, de 0 (domingo) a 6 (sábado) (solo `weekly`)
+   * @type {number[] | undefined}
+   */
+  weekdays?: number[];
+
+  /**
+   * Día del mes en que se repite, de 1 a 31 (solo `monthly`); en los meses
+   * más cortos se usa su último día
+   * @type {number | undefined}
+   */
+  dayOfMonth?: number;
+
+  /**
+   * Fecha a partir de la cual ya no se crean repeticiones
+   * @type {Date | undefined}
+   */
+  endDate?: Date;
+
+  /**
+   * Número total de repeticiones
+   * @type {number | undefined}
+   */
+  count?: number;
+
+  /**
+   * Número de esta repetición, empezando en 1
+   * @type {number | undefined}
+   * @default 1
+   */
+  occurrence?: number;
+}
+
+/**
+ * Frecuencias de repetición válidas
+ */
+export const TASK_RECURRENCE_FREQUENCIES: ReadonlyArray<TaskRecurrenceFrequency> = [
+  'daily',
+  'weekly',
+  'monthly',
+  'interval',
+];
+
+/**
+ * Nombres abreviados de los días de la semana, empezando en domingo
+ */
+export const WEEKDAY_LABELS = ['dom', 'lun', 'mar', 'mié', 'jue', 'vie', 'sáb'];
+
+/**
+ * Calcular la fecha de vencimiento de la siguiente repetición
+ *
+ * Conserva la hora de la fecha de partida.
+ *
+ * @param {TaskRecurrence} recurrence - La regla de repetición
+ * @param {Date} from - Fecha de vencimiento de la repetición actual (o la fecha de completado si no tiene)
+ * @returns {Date | null} La siguiente fecha, o null si la regla ya terminó
+ */
+export function getNextOccurrenceDate(
+  recurrence: TaskRecurrence,
+  from: Date
+): Date | null {
+  if (recurrence.count && (recurrence.occurrence ?? 1) >= recurrence.count) {
+    return null;
+  }
+
+  let next = new Date(from);
+  switch (recurrence.frequency) {
+    case 'daily':
+      next.setDate(next.getDate() + 1);
+      break;
+    case 'interval':
+      next.setDate(next.getDate() + (recurrence.interval ?? 1));
+      break;
+    case 'weekly': {
+      const weekdays = recurrence.weekdays?.length
+        ? recurrence.weekdays
+        : [from.getDay()];
+      for (let i = 0; i < 7; i++) {
+        next.setDate(next.getDate() + 1);
+        if (weekdays.includes(next.getDay())) break;
+      }
+      break;
+    }
+    case 'monthly': {
+      const day = recurrence.dayOfMonth ?? from.getDate();
+      next = getMonthDay(from, from.getMonth(), day);
+      if (next.getTime() <= from.getTime()) {
+        next = getMonthDay(from, from.getMonth() + 1, day);
+      }
+      break;
+    }
+  }
+
+  if (recurrence.endDate) {
+    const lastDay = new Date(recurrence.endDate);
+    lastDay.setHours(23, 59, 59, 999);
+    if (next.getTime() > lastDay.getTime()) {
+      return null;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Describir una regla de repetición en español
+ *
+ * @param {TaskRecurrence} recurrence - La regla de repetición
+ * @returns {string} Descripción breve (p. ej. "Cada semana (lun, jue)")
+ */
+export function describeRecurrence(recurrence: TaskRecurrence): string {
+  let description: string;
+  switch (recurrence.frequency) {
+    case 'daily':
+      description = 'Cada día';
+      break;
+    case 'interval':
+      description = `Cada ${recurrence.interval ?? 1} días`;
+      break;
+    case 'weekly':
+      description = recurrence.weekdays?.length
+        ? `Cada semana (${[...recurrence.weekdays]
+            .sort((a, b) => a - b)
+            .map((day) => WEEKDAY_LABELS[day])
+            .join(', ')})`
+        : 'Cada semana';
+      break;
+    case 'monthly':
+      description = recurrence.dayOfMonth
+        ? `Cada mes (día ${recurrence.dayOfMonth})`
+        : 'Cada mes';
+      break;
+  }
+
+  if (recurrence.count) {
+    description += ` · ${recurrence.occurrence ?? 1} de ${recurrence.count}`;
+  } else if (recurrence.endDate) {
+    description += ` · hasta el ${recurrence.endDate.toLocaleDateString('es-ES')}`;
+  }
+  return description;
+}
+
+/**
+ * Reconstruir una regla de repetición a partir de su representación JSON
+ *
+ * @param {TaskRecurrence} raw - La regla deserializada con fechas en formato texto
+ * @returns {TaskRecurrence} La regla con su fecha de fin restaurada
+ */
+export function reviveRecurrence(raw: TaskRecurrence): TaskRecurrence {
+  return {
+    ...raw,
+    endDate: raw.endDate ? new Date(raw.endDate) : undefined,
+  };
+}
+
+/**
+ * Obtener un día de un mes conservando la hora, ajustado al último día si el mes es más corto
+ *
+ * @param {Date} time - Fecha de la que se toma la hora
+ * @param {number} month - Mes (puede salirse de 0-11 para cambiar de año)
+ * @param {number} day - Día del mes deseado
+ * @returns {Date} La fecha resultante
+ */
+function getMonthDay(time: Date, month: number, day: number): Date {
+  const year = time.getFullYear();
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(
+    year,
+    month,
+    Math.min(day, lastDay),
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+}
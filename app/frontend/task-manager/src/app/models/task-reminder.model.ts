@@ -0,0 +1,79 @@
+/**
+ * Recordatorios predefinidos, en minutos antes del vencimiento
+ */
+export const TASK_REMINDER_PRESETS: ReadonlyArray<number> = [
+  0,
+  5,
+  15,
+  30,
+  60,
+  120,
+  1440,
+  2880,
+  10080,
+];
+
+/**
+ * Recordatorio que ha llegado a su hora
+ *
+ * @interface DueTaskReminder
+ */
+export interface DueTaskReminder {
+  /**
+   * ID de la tarea
+   * @type {string}
+   */
+  taskId: string;
+
+  /**
+   * Título de la tarea
+   * @type {string}
+   */
+  title: string;
+
+  /**
+   * Minutos de antelación del recordatorio
+   * @type {number}
+   */
+  minutesBefore: number;
+
+  /**
+   * Momento de vencimiento de la tarea
+   * @type {Date}
+   */
+  deadline: Date;
+}
+
+/**
+ * Describir la antelación de un recordatorio en español
+ *
+ * @param {number} minutes - Minutos antes del vencimiento
+ * @returns {string} Descripción (p. ej. "15 minutos antes", "1 día antes")
+ */
+export function describeReminder(minutes: number): string {
+  if (minutes === 0) {
+    return 'A la hora de vencimiento';
+  }
+  if (minutes % 10080 === 0) {
+    return pluralize(minutes / 10080, 'semana', 'semanas') + ' antes';
+  }
+  if (minutes % 1440 === 0) {
+    return pluralize(minutes / 1440, 'día', 'días') + ' antes';
+  }
+  if (minutes % 60 === 0) {
+    return pluralize(minutes / 60, 'hora', 'horas') + ' antes';
+  }
+  return pluralize(minutes, 'minuto', 'minutos') + ' antes';
+}
+
+/**
+ * Formatear una cantidad con su unidad en singular o plural
+ *
+ * @param {number} amount - La cantidad
+ * @param {string} singular - Unidad en singular
+ * @param {string} plural - Unidad en plural
+ * @returns {string} Cantidad y unidad
+ */
+function pluralize(amount: number, singular: string, plural: string): string {
+  return `${amount} ${amount === 1 ? singular : plural}`;
+}
@@ -0,0 +1,66 @@
+import { Task } from './task.model';
+
+/**
+ * Interfaz de un Estado de Tarea
+ *
+ * Cada estado es una columna del tablero. Los estados marcados como `done`
+ * corresponden a tareas completadas; el resto, a tareas pendientes.
+ *
+ * @interface TaskStatus
+ */
+export interface TaskStatus {
+  /**
+   * Identificador único del estado
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Nombre visible del estado
+   * @type {string}
+   */
+  label: string;
+
+  /**
+   * Indica si las tareas en este estado están completadas
+   * @type {boolean}
+   */
+  done: boolean;
+
+  /**
+   * Número máximo de tareas en la columna por proyecto (sin definir si no hay límite)
+   * @type {number | undefined}
+   */
+  wipLimit?: number;
+}
+
+/**
+ * Estados predeterminados del tablero
+ */
+export const DEFAULT_TASK_STATUSES: ReadonlyArray<TaskStatus> = [
+  { id: 'todo', label: 'Por hacer', done: false },
+  { id: 'in-progress', label: 'En curso', done: false, wipLimit: 5 },
+  { id: 'blocked', label: 'Bloqueada', done: false },
+  { id: 'done', label: 'Hecha', done: true },
+];
+
+/**
+ * Obtener el estado de una tarea de forma coherente con su completado
+ *
+ * Si el estado guardado no existe o no concuerda con `completed` (por ejemplo,
+ * una tarea completada desde otro cliente), se usa el primer estado que concuerde.
+ *
+ * @param {Task} task - La tarea
+ * @param {ReadonlyArray<TaskStatus>} statuses - Los estados configurados
+ * @returns {TaskStatus} El estado de la tarea
+ */
+export function resolveTaskStatus(
+  task: Task,
+  statuses: ReadonlyArray<TaskStatus>
+): TaskStatus {
+  const status = statuses.find((s) => s.id === task.status);
+  if (status && status.done === task.completed) {
+    return status;
+  }
+  return statuses.find((s) => s.done === task.completed) ?? statuses[0];
+}
@@ -0,0 +1,169 @@
+import { Task, reviveTask } from './task.model';
+
+/**
+ * Mutación de Tarea Pendiente
+ *
+ * Cambio realizado sin conexión con el servidor, guardado localmente
+ * para reenviarse cuando se recupere la conexión.
+ *
+ * @interface PendingTaskMutation
+ */
+export interface PendingTaskMutation {
+  /**
+   * Tipo de operación
+   * @type {'create' | 'update' | 'delete' | 'clear'}
+   */
+  type: 'create' | 'update' | 'delete' | 'clear';
+
+  /**
+   * ID de la tarea afectada (vacío para `clear`)
+   * @type {string}
+   */
+  taskId: string;
+
+  /**
+   * Versión local de la tarea tras el cambio (`create` y `update`)
+   * @type {Task | undefined}
+   */
+  task?: Task;
+
+  /**
+   * Versión de la tarea antes del cambio, usada para detectar conflictos
+   * (`update` y `delete`)
+   * @type {Task | undefined}
+   */
+  base?: Task;
+
+  /**
+   * Momento en que se realizó el cambio
+   * @type {Date}
+   */
+  queuedAt: Date;
+}
+
+/**
+ * Conflicto de Sincronización
+ *
+ * Cambio local que no pudo reconciliarse automáticamente con la versión
+ * del servidor y requiere que el usuario elija qué versión conservar.
+ *
+ * @interface TaskConflict
+ */
+export interface TaskConflict {
+  /**
+   * Identificador único del conflicto
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * ID de la tarea en conflicto
+   * @type {string}
+   */
+  taskId: string;
+
+  /**
+   * Versión local (null si se eliminó localmente)
+   * @type {Task | null}
+   */
+  local: Task | null;
+
+  /**
+   * Versión del servidor (null si se eliminó en el servidor)
+   * @type {Task | null}
+   */
+  remote: Task | null;
+
+  /**
+   * Campos modificados en ambos lados con valores distintos
+   * @type {TaskMergeField[]}
+   */
+  fields: TaskMergeField[];
+}
+
+/**
+ * Campos que se fusionan individualmente al reconciliar una tarea
+ */
+export type TaskMergeField =
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'dueDate'
+  | 'dueTime'
+  | 'reminders'
+  | 'completed'
+  | 'status'
+  | 'deletedAt'
+  | 'subtasks'
+  | 'tags'
+  | 'projectId'
+  | 'assigneeId'
+  | 'order'
+  | 'recurrence'
+  | 'blockedBy';
+
+/**
+ * Nombres en español de los campos de una tarea
+ */
+export const TASK_FIELD_LABELS: Record<TaskMergeField, string> = {
+  title: 'Título',
+  description: 'Descripción',
+  priority: 'Prioridad',
+  dueDate: 'Fecha de vencimiento',
+  dueTime: 'Hora de vencimiento',
+  reminders: 'Recordatorios',
+  completed: 'Completado',
+  status: 'Estado',
+  deletedAt: 'Papelera',
+  subtasks: 'Subtareas',
+  tags: 'Etiquetas',
+  projectId: 'Proyecto',
+  assigneeId: 'Responsable',
+  order: 'Orden',
+  recurrence: 'Repetición',
+  blockedBy: 'Bloqueada por',
+};
+
+/**
+ * Política para campos modificados a la vez en local y en el servidor
+ *
+ * - `last-writer-wins`: gana el cambio con `updatedAt` más reciente
+ * - `manual`: el conflicto se muestra al usuario para que decida
+ */
+export type TaskConflictPolicy = 'last-writer-wins' | 'manual';
+
+/**
+ * Versión elegida por el usuario al resolver un conflicto
+ */
+export type TaskConflictResolution = 'local' | 'remote';
+
+/**
+ * Reconstruir una mutación pendiente a partir de su representación JSON
+ *
+ * @param {PendingTaskMutation} raw - La mutación deserializada con fechas en formato texto
+ * @returns {PendingTaskMutation} La mutación con sus fechas restauradas
+ */
+export function revivePendingTaskMutation(
+  raw: PendingTaskMutation
+): PendingTaskMutation {
+  return {
+    ...raw,
+    task: raw.task ? reviveTask(raw.task) : undefined,
+    base: raw.base ? reviveTask(raw.base) : undefined,
+    queuedAt: new Date(raw.queuedAt),
+  };
+}
+
+/**
+ * Reconstruir un conflicto a partir de su representación JSON
+ *
+ * @param {TaskConflict} raw - El conflicto deserializado con fechas en formato texto
+ * @returns {TaskConflict} El conflicto con las fechas de sus tareas restauradas
+ */
+export function reviveTaskConflict(raw: TaskConflict): TaskConflict {
+  return {
+    ...raw,
+    local: raw.local ? reviveTask(raw.local) : null,
+    remote: raw.remote ? reviveTask(raw.remote) : null,
+  };
+}
@@ -1,3 +1,33 @@
+import { TaskRecurrence, reviveRecurrence } from './task-recurrence.model';
+import { TaskAttachment, reviveTaskAttachment } from './task-attachment.model';
+
+/**
+ * Interfaz de una Subtarea
+ *
+ * Paso de una lista de verificación dentro de una tarea.
+ *
+ * @interface Subtask
+ */
+export interface Subtask {
+  /**
+   * Identificador único de la subtarea dentro de su tarea
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Título de la subtarea
+   * @type {string}
+   */
+  title: string;
+
+  /**
+   * Indica si la subtarea está completada
+   * @type {boolean}
+   */
+  completed: boolean;
+}
+
 /**
  * Interfaz del Modelo de Tarea
  *
@@ -13,6 +43,24 @@ export interface Task {
    */
   id: string;
 
+  /**
+   * ID del usuario propietario; lo asigna la API (sin definir en el almacenamiento local)
+   * @type {string | undefined}
+   */
+  ownerId?: string;
+
+  /**
+   * ID del usuario que creó la tarea; lo asigna la API
+   * @type {string | undefined}
+   */
+  createdBy?: string;
+
+  /**
+   * ID del usuario responsable de la tarea (sin definir si no está asignada)
+   * @type {string | undefined}
+   */
+  assigneeId?: string;
+
   /**
    * Título de la tarea (requerido)
    * @type {string}
@@ -32,6 +80,13 @@ export interface Task {
    */
   completed: boolean;
 
+  /**
+   * ID del estado de la tarea en el tablero; debe concordar con `completed`
+   * (ver `resolveTaskStatus`)
+   * @type {string | undefined}
+   */
+  status?: string;
+
   /**
    * Nivel de prioridad de la tarea
    * @type {'low' | 'medium' | 'high'}
@@ -56,6 +111,66 @@ export interface Task {
    * @type {Date | undefined}
    */
   dueDate?: Date;
+
+  /**
+   * Hora límite opcional en formato `HH:mm`; sin ella la tarea vence al final del día
+   * @type {string | undefined}
+   */
+  dueTime?: string;
+
+  /**
+   * Recordatorios, en minutos antes del vencimiento
+   * @type {number[] | undefined}
+   */
+  reminders?: number[];
+
+  /**
+   * Fecha en que la tarea se movió a la papelera (sin definir si está activa)
+   * @type {Date | undefined}
+   */
+  deletedAt?: Date;
+
+  /**
+   * Lista de verificación de subtareas
+   * @type {Subtask[] | undefined}
+   */
+  subtasks?: Subtask[];
+
+  /**
+   * Etiquetas libres para categorizar la tarea
+   * @type {string[] | undefined}
+   */
+  tags?: string[];
+
+  /**
+   * ID del proyecto al que pertenece la tarea (sin definir para la bandeja de entrada)
+   * @type {string | undefined}
+   */
+  projectId?: string;
+
+  /**
+   * Posición de la tarea en el orden manual (menor primero)
+   * @type {number | undefined}
+   */
+  order?: number;
+
+  /**
+   * Regla de repetición; al completar la tarea se crea la siguiente repetición
+   * @type {TaskRecurrence | undefined}
+   */
+  recurrence?: TaskRecurrence;
+
+  /**
+   * IDs de las tareas que deben completarse antes que esta
+   * @type {string[] | undefined}
+   */
+  blockedBy?: string[];
+
+  /**
+   * Archivos adjuntos (solo los modifica la API de adjuntos)
+   * @type {TaskAttachment[] | undefined}
+   */
+  attachments?: TaskAttachment[];
 }
 
 /**
@@ -76,6 +191,12 @@ export interface CreateTaskRequest {
    */
   description?: string;
 
+  /**
+   * Estado de finalización inicial (por defecto, pendiente)
+   * @type {boolean | undefined}
+   */
+  completed?: boolean;
+
   /**
    * Nivel de prioridad para la nueva tarea
    * @type {'low' | 'medium' | 'high'}
@@ -83,11 +204,71 @@ export interface CreateTaskRequest {
    */
   priority?: 'low' | 'medium' | 'high';
 
+  /**
+   * Estado opcional de la nueva tarea en el tablero
+   * @type {string | undefined}
+   */
+  status?: string;
+
   /**
    * Fecha límite opcional para la nueva tarea
    * @type {Date | undefined}
    */
   dueDate?: Date;
+
+  /**
+   * Hora límite opcional (`HH:mm`) para la nueva tarea
+   * @type {string | undefined}
+   */
+  dueTime?: string;
+
+  /**
+   * Recordatorios opcionales, en minutos antes del vencimiento
+   * @type {number[] | undefined}
+   */
+  reminders?: number[];
+
+  /**
+   * Subtareas opcionales para la nueva tarea
+   * @type {Subtask[] | undefined}
+   */
+  subtasks?: Subtask[];
+
+  /**
+   * Etiquetas opcionales para la nueva tarea
+   * @type {string[] | undefined}
+   */
+  tags?: string[];
+
+  /**
+   * Proyecto opcional de la nueva tarea
+   * @type {string | undefined}
+   */
+  projectId?: string;
+
+  /**
+   * Responsable opcional de la nueva tarea
+   * @type {string | undefined}
+   */
+  assigneeId?: string;
+
+  /**
+   * Posición opcional en el orden manual (por defecto, al final)
+   * @type {number | undefined}
+   */
+  order?: number;
+
+  /**
+   * Regla de repetición opcional para la nueva tarea
+   * @type {TaskRecurrence | undefined}
+   */
+  recurrence?: TaskRecurrence;
+
+  /**
+   * IDs opcionales de las tareas que bloquean la nueva tarea
+   * @type {string[] | undefined}
+   */
+  blockedBy?: string[];
 }
 
 /**
@@ -114,6 +295,12 @@ export interface UpdateTaskRequest {
    */
   completed?: boolean;
 
+  /**
+   * Estado actualizado en el tablero
+   * @type {string | undefined}
+   */
+  status?: string;
+
   /**
    * Nivel de prioridad actualizado
    * @type {'low' | 'medium' | 'high' | undefined}
@@ -121,8 +308,161 @@ export interface UpdateTaskRequest {
   priority?: 'low' | 'medium' | 'high';
 
   /**
-   * Fecha límite actualizada
-   * @type {Date | undefined}
+   * Fecha límite actualizada (null para quitar la fecha)
+   * @type {Date | null | undefined}
    */
-  dueDate?: Date;
+  dueDate?: Date | null;
+
+  /**
+   * Hora límite actualizada (null para que venza al final del día)
+   * @type {string | null | undefined}
+   */
+  dueTime?: string | null;
+
+  /**
+   * Recordatorios actualizados (reemplazan los anteriores)
+   * @type {number[] | undefined}
+   */
+  reminders?: number[];
+
+  /**
+   * Fecha de envío a la papelera actualizada (null para restaurar la tarea)
+   * @type {Date | null | undefined}
+   */
+  deletedAt?: Date | null;
+
+  /**
+   * Lista de subtareas actualizada (reemplaza la anterior)
+   * @type {Subtask[] | undefined}
+   */
+  subtasks?: Subtask[];
+
+  /**
+   * Etiquetas actualizadas (reemplazan las anteriores)
+   * @type {string[] | undefined}
+   */
+  tags?: string[];
+
+  /**
+   * Proyecto actualizado (null para mover la tarea a la bandeja de entrada)
+   * @type {string | null | undefined}
+   */
+  projectId?: string | null;
+
+  /**
+   * Responsable actualizado (null para dejar la tarea sin asignar)
+   * @type {string | null | undefined}
+   */
+  assigneeId?: string | null;
+
+  /**
+   * Posición actualizada en el orden manual
+   * @type {number | undefined}
+   */
+  order?: number;
+
+  /**
+   * Regla de repetición actualizada (null para dejar de repetir la tarea)
+   * @type {TaskRecurrence | null | undefined}
+   */
+  recurrence?: TaskRecurrence | null;
+
+  /**
+   * IDs actualizados de las tareas que la bloquean (lista vacía para quitarlas todas)
+   * @type {string[] | undefined}
+   */
+  blockedBy?: string[];
+}
+
+/**
+ * Crear una subtarea nueva con un ID único
+ *
+ * @param {string} title - Título de la subtarea
+ * @param {boolean} completed - Estado inicial de completado
+ * @returns {Subtask} La subtarea creada
+ */
+export function createSubtask(title: string, completed = false): Subtask {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    title,
+    completed,
+  };
+}
+
+/**
+ * Normalizar una lista de etiquetas
+ *
+ * Recorta los espacios, descarta las vacías y elimina duplicados sin
+ * distinguir mayúsculas, conservando la primera forma escrita.
+ *
+ * @param {string[]} tags - Las etiquetas recibidas
+ * @returns {string[]} Las etiquetas normalizadas
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Obtener el momento exacto en que vence una tarea
+ *
+ * Combina `dueDate` con `dueTime`; sin hora, la tarea vence al final de su día.
+ *
+ * @param {Task} task - La tarea
+ * @returns {Date | null} El momento de vencimiento, o null si la tarea no tiene fecha
+ */
+export function getTaskDeadline(task: Task): Date | null {
+  if (!task.dueDate) {
+    return null;
+  }
+
+  const deadline = new Date(task.dueDate);
+  if (task.dueTime) {
+    const [hours, minutes] = task.dueTime.split(':').map(Number);
+    deadline.setHours(hours, minutes, 0, 0);
+  } else {
+    deadline.setHours(23, 59, 59, 999);
+  }
+  return deadline;
+}
+
+/**
+ * Verificar si una tarea pendiente superó su vencimiento
+ *
+ * @param {Task} task - La tarea
+ * @param {Date} now - La hora actual
+ * @returns {boolean} True si la tarea no está completada y su vencimiento ya pasó
+ */
+export function isTaskOverdue(task: Task, now: Date): boolean {
+  const deadline = getTaskDeadline(task);
+  return !!deadline && !task.completed && deadline < now;
+}
+
+/**
+ * Reconstruir una tarea a partir de su representación JSON
+ *
+ * Convierte las fechas serializadas como texto de nuevo en objetos `Date`.
+ *
+ * @param {Task} raw - La tarea deserializada con fechas en formato texto
+ * @returns {Task} La tarea con sus fechas restauradas
+ */
+export function reviveTask(raw: Task): Task {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    dueDate: raw.dueDate ? new Date(raw.dueDate) : undefined,
+    deletedAt: raw.deletedAt ? new Date(raw.deletedAt) : undefined,
+    recurrence: raw.recurrence ? reviveRecurrence(raw.recurrence) : undefined,
+    attachments: raw.attachments?.map(reviveTaskAttachment),
+  };
 }
@@ -0,0 +1,78 @@
+/**
+ * Interfaz del Modelo de Usuario
+ *
+ * Cuenta local de la aplicación. Las contraseñas nunca salen del servidor,
+ * que solo guarda su hash.
+ *
+ * @interface User
+ */
+export interface User {
+  /**
+   * Identificador único del usuario
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Nombre de usuario con el que se inicia sesión (en minúsculas)
+   * @type {string}
+   */
+  username: string;
+
+  /**
+   * Nombre mostrado en la aplicación
+   * @type {string}
+   */
+  displayName: string;
+
+  /**
+   * Fecha de registro del usuario
+   * @type {Date}
+   */
+  createdAt: Date;
+}
+
+/**
+ * Interfaz para iniciar sesión
+ *
+ * @interface LoginRequest
+ */
+export interface LoginRequest {
+  /**
+   * Nombre de usuario
+   * @type {string}
+   */
+  username: string;
+
+  /**
+   * Contraseña
+   * @type {string}
+   */
+  password: string;
+}
+
+/**
+ * Interfaz para registrar un usuario nuevo
+ *
+ * @interface RegisterRequest
+ */
+export interface RegisterRequest extends LoginRequest {
+  /**
+   * Nombre mostrado (por defecto, el nombre de usuario)
+   * @type {string | undefined}
+   */
+  displayName?: string;
+}
+
+/**
+ * Reconstruir un usuario a partir de su representación JSON
+ *
+ * @param {User} raw - El usuario deserializado con fechas en formato texto
+ * @returns {User} El usuario con sus fechas restauradas
+ */
+export function reviveUser(raw: User): User {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+  };
+}
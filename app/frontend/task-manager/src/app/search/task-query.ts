@@ -0,0 +1,349 @@
+import { Task } from '../models/task.model';
+
+/**
+ * Comparador de una condición de fecha
+ */
+export type TaskDateComparator = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * Condición sobre la fecha de vencimiento (`due:<2026-11-01`, `due:none`)
+ *
+ * @interface TaskDueCondition
+ */
+export interface TaskDueCondition {
+  /**
+   * Comparador, o `none` para tareas sin fecha de vencimiento
+   * @type {TaskDateComparator | 'none'}
+   */
+  comparator: TaskDateComparator | 'none';
+
+  /**
+   * Día de referencia (a las 00:00 hora local); sin definir con `none`
+   * @type {Date | undefined}
+   */
+  date?: Date;
+}
+
+/**
+ * Consulta de búsqueda de tareas ya interpretada
+ *
+ * @interface TaskQuery
+ */
+export interface TaskQuery {
+  /**
+   * Términos de texto libre (normalizados) que deben aparecer en título o descripción
+   * @type {string[]}
+   */
+  terms: string[];
+
+  /**
+   * Prioridades aceptadas (`priority:high`); vacío para cualquiera
+   * @type {Task['priority'][]}
+   */
+  priorities: Task['priority'][];
+
+  /**
+   * Condiciones sobre la fecha de vencimiento
+   * @type {TaskDueCondition[]}
+   */
+  due: TaskDueCondition[];
+
+  /**
+   * Etiquetas (normalizadas) que debe tener la tarea (`tag:casa`)
+   * @type {string[]}
+   */
+  tags: string[];
+
+  /**
+   * Filtros con campo conocido pero valor no reconocido
+   * @type {string[]}
+   */
+  invalid: string[];
+}
+
+/**
+ * Fragmento de texto, marcado si coincide con la búsqueda
+ *
+ * @interface TextSegment
+ */
+export interface TextSegment {
+  /**
+   * Texto original del fragmento
+   * @type {string}
+   */
+  text: string;
+
+  /**
+   * Indica si el fragmento coincide con algún término
+   * @type {boolean}
+   */
+  match: boolean;
+}
+
+/**
+ * Alias aceptados para cada prioridad (en inglés y en español)
+ */
+const PRIORITY_ALIASES: Record<string, Task['priority']> = {
+  low: 'low',
+  baja: 'low',
+  medium: 'medium',
+  media: 'medium',
+  high: 'high',
+  alta: 'high',
+};
+
+/**
+ * Patrón de un token: `campo:"valor con espacios"`, `"frase"` o palabra suelta
+ */
+const TOKEN_PATTERN = /(\w+):"([^"]*)"|"([^"]*)"|(\S+)/g;
+
+/**
+ * Patrón de una condición de fecha: comparador opcional y fecha `AAAA-MM-DD`
+ */
+const DUE_PATTERN = /^(<=|>=|<|>|=)?(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Normalizar texto para comparar sin distinguir mayúsculas ni acentos
+ *
+ * @param {string} text - El texto a normalizar
+ * @returns {string} El texto en minúsculas y sin diacríticos ("Límite" → "limite")
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Interpretar una consulta de búsqueda
+ *
+ * Admite texto libre (palabras o `"frases"`) y los filtros
+ * `priority:high` (o `alta`), `due:<2026-11-01` (comparadores `<`, `<=`,
+ * `>`, `>=`, `=` o ninguno; `due:none` para tareas sin fecha) y `tag:nombre`.
+ * Un campo desconocido (`foo:bar`) se busca como texto.
+ *
+ * @param {string} query - La consulta escrita por el usuario
+ * @returns {TaskQuery} La consulta interpretada
+ */
+export function parseTaskQuery(query: string): TaskQuery {
+  const parsed: TaskQuery = {
+    terms: [],
+    priorities: [],
+    due: [],
+    tags: [],
+    invalid: [],
+  };
+
+  for (const [token, quotedField, quotedValue, phrase, word] of query.matchAll(
+    TOKEN_PATTERN
+  )) {
+    if (phrase !== undefined) {
+      addTerm(parsed, phrase);
+      continue;
+    }
+
+    const separator = quotedField ? -1 : word.indexOf(':');
+    const field = quotedField ?? (separator > 0 ? word.slice(0, separator) : '');
+    const value = quotedValue ?? word.slice(separator + 1);
+
+    switch (field.toLowerCase()) {
+      case 'priority':
+      case 'prioridad': {
+        const priority = PRIORITY_ALIASES[normalizeSearchText(value)];
+        if (priority) {
+          parsed.priorities.push(priority);
+        } else {
+          parsed.invalid.push(token);
+        }
+        break;
+      }
+      case 'due':
+      case 'vence': {
+        const condition = parseDueCondition(value);
+        if (condition) {
+          parsed.due.push(condition);
+        } else {
+          parsed.invalid.push(token);
+        }
+        break;
+      }
+      case 'tag':
+      case 'etiqueta':
+        if (value.trim()) {
+          parsed.tags.push(normalizeSearchText(value.trim()));
+        } else {
+          parsed.invalid.push(token);
+        }
+        break;
+      default:
+        addTerm(parsed, quotedField ? value : word);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Verificar si una consulta no tiene ningún criterio
+ *
+ * @param {TaskQuery} query - La consulta interpretada
+ * @returns {boolean} True si la consulta no filtra nada
+ */
+export function isEmptyTaskQuery(query: TaskQuery): boolean {
+  return (
+    !query.terms.length &&
+    !query.priorities.length &&
+    !query.due.length &&
+    !query.tags.length
+  );
+}
+
+/**
+ * Verificar si una tarea cumple una consulta
+ *
+ * Todos los términos deben aparecer en el título o la descripción, la prioridad
+ * debe ser una de las indicadas y deben cumplirse todas las condiciones de fecha y etiquetas.
+ *
+ * @param {Task} task - La tarea a evaluar
+ * @param {TaskQuery} query - La consulta interpretada
+ * @returns {boolean} True si la tarea cumple la consulta
+ */
+export function matchesTaskQuery(task: Task, query: TaskQuery): boolean {
+  const text = normalizeSearchText(`${task.title}\n${task.description ?? ''}`);
+  const taskTags = (task.tags ?? []).map(normalizeSearchText);
+
+  return (
+    query.terms.every((term) => text.includes(term)) &&
+    (!query.priorities.length || query.priorities.includes(task.priority)) &&
+    query.due.every((condition) => matchesDueCondition(task.dueDate, condition)) &&
+    query.tags.every((tag) => taskTags.includes(tag))
+  );
+}
+
+/**
+ * Dividir un texto en fragmentos marcando las coincidencias con los términos
+ *
+ * La comparación ignora mayúsculas y acentos, pero los fragmentos conservan
+ * el texto original.
+ *
+ * @param {string} text - El texto a dividir
+ * @param {string[]} terms - Términos normalizados con `normalizeSearchText`
+ * @returns {TextSegment[]} Fragmentos en orden; uno solo sin marcar si no hay coincidencias
+ */
+export function highlightMatches(text: string, terms: string[]): TextSegment[] {
+  if (!text || !terms.length) {
+    return [{ text, match: false }];
+  }
+
+  // Texto normalizado y, para cada carácter normalizado, su posición en el original
+  let normalized = '';
+  const originalIndex: number[] = [];
+  Array.from(text).reduce((offset, char) => {
+    const normalizedChar = normalizeSearchText(char);
+    normalized += normalizedChar;
+    originalIndex.push(...new Array<number>(normalizedChar.length).fill(offset));
+    return offset + char.length;
+  }, 0);
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  for (const term of terms) {
+    let position = normalized.indexOf(term);
+    while (position !== -1) {
+      const start = originalIndex[position];
+      const lastIndex = originalIndex[position + term.length - 1];
+      const end = lastIndex + (text.codePointAt(lastIndex)! > 0xffff ? 2 : 1);
+      marked.fill(true, start, end);
+      position = normalized.indexOf(term, position + term.length);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments.at(-1);
+    if (last && last.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Agregar un término de texto libre normalizado, ignorando los vacíos
+ *
+ * @param {TaskQuery} query - La consulta en construcción
+ * @param {string} term - El término escrito
+ * @returns {void}
+ */
+function addTerm(query: TaskQuery, term: string): void {
+  const normalized = normalizeSearchText(term.trim());
+  if (normalized) {
+    query.terms.push(normalized);
+  }
+}
+
+/**
+ * Interpretar el valor de un filtro `due:`
+ *
+ * @param {string} value - El valor tras `due:` (p. ej. `<2026-11-01` o `none`)
+ * @returns {TaskDueCondition | null} La condición, o null si no es válida
+ */
+function parseDueCondition(value: string): TaskDueCondition | null {
+  const normalized = normalizeSearchText(value);
+  if (normalized === 'none' || normalized === 'ninguna') {
+    return { comparator: 'none' };
+  }
+
+  const match = DUE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, comparator, year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1) {
+    return null;
+  }
+
+  return { comparator: (comparator as TaskDateComparator) ?? '=', date };
+}
+
+/**
+ * Verificar si una fecha de vencimiento cumple una condición
+ *
+ * Las comparaciones se hacen por día: `<` significa antes del día indicado
+ * y `<=` hasta el final de ese día.
+ *
+ * @param {Date | undefined} dueDate - La fecha de vencimiento de la tarea
+ * @param {TaskDueCondition} condition - La condición a evaluar
+ * @returns {boolean} True si la fecha cumple la condición
+ */
+function matchesDueCondition(
+  dueDate: Date | undefined,
+  condition: TaskDueCondition
+): boolean {
+  if (condition.comparator === 'none') {
+    return !dueDate;
+  }
+  if (!dueDate) {
+    return false;
+  }
+
+  const dayStart = condition.date!.getTime();
+  const nextDayStart = new Date(condition.date!).setDate(
+    condition.date!.getDate() + 1
+  );
+  const time = dueDate.getTime();
+
+  switch (condition.comparator) {
+    case '<':
+      return time < dayStart;
+    case '<=':
+      return time < nextDayStart;
+    case '>':
+      return time >= nextDayStart;
+    case '>=':
+      return time >= dayStart;
+    default:
+      return time >= dayStart && time < nextDayStart;
+  }
+}
@@ -0,0 +1,98 @@
+import { Task, getTaskDeadline } from '../models/task.model';
+
+/**
+ * Modos de ordenación de la lista de tareas
+ */
+export type TaskSortMode =
+  | 'manual'
+  | 'dueDate'
+  | 'priority'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'title';
+
+/**
+ * Modos de ordenación disponibles con su nombre en español
+ */
+export const TASK_SORT_MODES: ReadonlyArray<{ value: TaskSortMode; label: string }> = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'dueDate', label: 'Fecha de vencimiento' },
+  { value: 'priority', label: 'Prioridad' },
+  { value: 'createdAt', label: 'Fecha de creación' },
+  { value: 'updatedAt', label: 'Última modificación' },
+  { value: 'title', label: 'Título' },
+];
+
+/**
+ * Peso de cada prioridad (mayor primero)
+ */
+const PRIORITY_WEIGHT: Record<Task['priority'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Obtener la posición de una tarea en el orden manual
+ *
+ * Las tareas que nunca se reordenaron usan su fecha de creación, de modo que
+ * conservan el orden de inserción.
+ *
+ * @param {Task} task - La tarea
+ * @returns {number} Posición en el orden manual (menor primero)
+ */
+export function getTaskOrder(task: Task): number {
+  return task.order ?? task.createdAt.getTime();
+}
+
+/**
+ * Ordenar tareas según un modo de ordenación
+ *
+ * - `manual`: posición `order` establecida arrastrando las tareas
+ * - `dueDate`: vencimiento (fecha y hora) más próximo primero; sin fecha al final
+ * - `priority`: prioridad alta primero
+ * - `createdAt` / `updatedAt`: más recientes primero
+ * - `title`: alfabético, sin distinguir mayúsculas ni acentos
+ *
+ * Los empates se resuelven con el orden manual.
+ *
+ * @param {Task[]} tasks - Las tareas a ordenar (no se modifica)
+ * @param {TaskSortMode} mode - El modo de ordenación
+ * @returns {Task[]} Una copia ordenada de las tareas
+ */
+export function sortTasks(tasks: Task[], mode: TaskSortMode): Task[] {
+  return [...tasks].sort(
+    (a, b) =>
+      compareByMode(a, b, mode) ||
+      getTaskOrder(a) - getTaskOrder(b) ||
+      a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Comparar dos tareas según el criterio propio de un modo
+ *
+ * @param {Task} a - Primera tarea
+ * @param {Task} b - Segunda tarea
+ * @param {TaskSortMode} mode - El modo de ordenación
+ * @returns {number} Negativo si `a` va antes, positivo si va después, 0 si empatan
+ */
+function compareByMode(a: Task, b: Task, mode: TaskSortMode): number {
+  switch (mode) {
+    case 'dueDate':
+      return (
+        (getTaskDeadline(a)?.getTime() ?? Infinity) -
+          (getTaskDeadline(b)?.getTime() ?? Infinity) || 0
+      );
+    case 'priority':
+      return PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority];
+    case 'createdAt':
+      return b.createdAt.getTime() - a.createdAt.getTime();
+    case 'updatedAt':
+      return b.updatedAt.getTime() - a.updatedAt.getTime();
+    case 'title':
+      return a.title.localeCompare(b.title, 'es', { sensitivity: 'base' });
+    default:
+      return 0;
+  }
+}
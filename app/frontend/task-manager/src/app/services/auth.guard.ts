@@ -0,0 +1,39 @@
+import { PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from './auth.service';
+
+/**
+ * Guard de las rutas que requieren sesión
+ *
+ * Sin sesión redirige a `/login` con la ruta solicitada en `returnUrl`. En el
+ * renderizado en servidor no hay sesión que comprobar y se permite el acceso;
+ * el navegador vuelve a evaluar el guard al hidratar.
+ *
+ * @returns {boolean | UrlTree} true si hay sesión, o la redirección a `/login`
+ */
+export const authGuard: CanActivateFn = (_route, state) => {
+  const auth = inject(AuthService);
+  const router = inject(Router);
+
+  if (!isPlatformBrowser(inject(PLATFORM_ID)) || auth.isAuthenticated()) {
+    return true;
+  }
+  return router.createUrlTree(['/login'], {
+    queryParams: { returnUrl: state.url },
+  });
+};
+
+/**
+ * Guard de la página de acceso
+ *
+ * Con la sesión ya iniciada redirige a la página principal.
+ *
+ * @returns {boolean | UrlTree} true si no hay sesión, o la redirección a `/`
+ */
+export const guestGuard: CanActivateFn = () => {
+  const auth = inject(AuthService);
+  const router = inject(Router);
+
+  return auth.isAuthenticated() ? router.createUrlTree(['/']) : true;
+};
@@ -0,0 +1,46 @@
+import {
+  HttpErrorResponse,
+  HttpInterceptorFn,
+} from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { catchError, throwError } from 'rxjs';
+import { AuthService } from './auth.service';
+
+/**
+ * Interceptor de Autenticación
+ *
+ * Envía la cookie de sesión en las peticiones a `/api/` y, si el servidor
+ * responde 401 fuera de `/api/auth/`, olvida la sesión y redirige a la página
+ * de acceso conservando la ruta actual en `returnUrl`.
+ *
+ * @param {HttpRequest<unknown>} request - La petición saliente
+ * @param {HttpHandlerFn} next - El siguiente manejador de la cadena
+ * @returns {Observable<HttpEvent<unknown>>} La respuesta de la petición
+ */
+export const authInterceptor: HttpInterceptorFn = (request, next) => {
+  if (!request.url.startsWith('/api/')) {
+    return next(request);
+  }
+
+  const auth = inject(AuthService);
+  const router = inject(Router);
+
+  return next(request.clone({ withCredentials: true })).pipe(
+    catchError((error: unknown) => {
+      if (
+        error instanceof HttpErrorResponse &&
+        error.status === 401 &&
+        !request.url.startsWith('/api/auth/')
+      ) {
+        auth.handleUnauthorized();
+        if (!router.url.startsWith('/login')) {
+          void router.navigate(['/login'], {
+            queryParams: { returnUrl: router.url },
+          });
+        }
+      }
+      return throwError(() => error);
+    })
+  );
+};
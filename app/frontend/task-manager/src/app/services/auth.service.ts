@@ -0,0 +1,204 @@
+import {
+  Injectable,
+  PLATFORM_ID,
+  computed,
+  inject,
+  signal,
+} from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import {
+  LoginRequest,
+  RegisterRequest,
+  User,
+  reviveUser,
+} from '../models/user.model';
+import {
+  UserValidationError,
+  UserValidationErrors,
+} from '../validators/user.validator';
+import { clearOfflineTaskStorage } from './offline-task.repository';
+
+/**
+ * Clave de localStorage del usuario con sesión iniciada
+ */
+const AUTH_USER_STORAGE_KEY = 'task-manager.auth-user';
+
+/**
+ * Clave de localStorage del ID del último usuario que inició sesión
+ */
+const LAST_USER_STORAGE_KEY = 'task-manager.last-user-id';
+
+/**
+ * Servicio de Autenticación
+ *
+ * Inicia y cierra la sesión contra la API `/api/auth`. La sesión viaja en una
+ * cookie httpOnly que gestiona el navegador; el servicio solo recuerda en
+ * localStorage qué usuario la inició, para decidir sin esperar al servidor si
+ * se muestra la página de acceso. Si el servidor responde 401, el interceptor
+ * de autenticación llama a `handleUnauthorized` y se vuelve a pedir acceso.
+ *
+ * Al iniciar sesión con un usuario distinto del anterior se borran los datos
+ * sin conexión de la cuenta anterior.
+ *
+ * @class AuthService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuthService {
+  /**
+   * Cliente HTTP de Angular
+   * @private
+   */
+  private readonly http = inject(HttpClient);
+
+  /**
+   * Indica si el servicio se ejecuta en el navegador
+   * @private
+   */
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  /**
+   * URL base de la API de autenticación
+   * @private
+   */
+  private readonly baseUrl = '/api/auth';
+
+  /**
+   * Signal privada con el usuario de la sesión
+   * @private
+   */
+  private readonly _user = signal<User | null>(this.loadUser());
+
+  /**
+   * Usuario con sesión iniciada (null si no hay sesión)
+   * @readonly
+   * @returns {Signal<User | null>} El usuario actual
+   */
+  public readonly user = this._user.asReadonly();
+
+  /**
+   * Indica si hay una sesión iniciada
+   * @readonly
+   * @returns {Signal<boolean>} true si hay un usuario con sesión
+   */
+  public readonly isAuthenticated = computed(() => this._user() !== null);
+
+  /**
+   * Iniciar sesión
+   *
+   * @param {LoginRequest} request - Nombre de usuario y contraseña
+   * @returns {Promise<User | null>} Promise que se resuelve con el usuario, o null si las credenciales son incorrectas
+   */
+  async login(request: LoginRequest): Promise<User | null> {
+    try {
+      const user = await firstValueFrom(
+        this.http.post<User>(`${this.baseUrl}/login`, request)
+      );
+      return this.setUser(reviveUser(user));
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 401) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Registrar un usuario nuevo e iniciar su sesión
+   *
+   * @param {RegisterRequest} request - Los datos del usuario
+   * @returns {Promise<User>} Promise que se resuelve con el usuario creado
+   * @throws {UserValidationError} Si los datos no son válidos o el nombre de usuario ya existe
+   */
+  async register(request: RegisterRequest): Promise<User> {
+    try {
+      const user = await firstValueFrom(
+        this.http.post<User>(`${this.baseUrl}/register`, request)
+      );
+      return this.setUser(reviveUser(user));
+    } catch (error) {
+      if (
+        error instanceof HttpErrorResponse &&
+        (error.status === 400 || error.status === 409) &&
+        error.error?.errors
+      ) {
+        throw new UserValidationError(error.error.errors as UserValidationErrors);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cerrar la sesión y borrar los datos sin conexión del usuario
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se cerró la sesión
+   */
+  async logout(): Promise<void> {
+    try {
+      await firstValueFrom(this.http.post(`${this.baseUrl}/logout`, null));
+    } catch (error) {
+      console.error('Error closing session:', error);
+    }
+
+    this._user.set(null);
+    if (this.isBrowser) {
+      localStorage.removeItem(AUTH_USER_STORAGE_KEY);
+      localStorage.removeItem(LAST_USER_STORAGE_KEY);
+      clearOfflineTaskStorage();
+    }
+  }
+
+  /**
+   * Olvidar la sesión tras una respuesta 401 del servidor
+   *
+   * Conserva los datos sin conexión: si el mismo usuario vuelve a iniciar
+   * sesión, sus cambios pendientes se reenvían.
+   *
+   * @returns {void}
+   */
+  handleUnauthorized(): void {
+    this._user.set(null);
+    if (this.isBrowser) {
+      localStorage.removeItem(AUTH_USER_STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Guardar el usuario de la sesión iniciada
+   * @private
+   * @param {User} user - El usuario
+   * @returns {User} El mismo usuario
+   */
+  private setUser(user: User): User {
+    if (this.isBrowser) {
+      if (localStorage.getItem(LAST_USER_STORAGE_KEY) !== user.id) {
+        clearOfflineTaskStorage();
+      }
+      localStorage.setItem(LAST_USER_STORAGE_KEY, user.id);
+      localStorage.setItem(AUTH_USER_STORAGE_KEY, JSON.stringify(user));
+    }
+    this._user.set(user);
+    return user;
+  }
+
+  /**
+   * Leer de localStorage el usuario de la sesión
+   * @private
+   * @returns {User | null} El usuario guardado, o null si no hay sesión
+   */
+  private loadUser(): User | null {
+    if (!this.isBrowser) {
+      return null;
+    }
+
+    try {
+      const raw = localStorage.getItem(AUTH_USER_STORAGE_KEY);
+      return raw ? reviveUser(JSON.parse(raw) as User) : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, catchError, firstValueFrom, map, throwError } from 'rxjs';
+import { Project, reviveProject } from '../models/project.model';
+import { ProjectRepository } from './project.repository';
+import { ProjectValidationError } from '../validators/project.validator';
+
+/**
+ * Almacenamiento de Proyectos vía HTTP
+ *
+ * Implementación de `ProjectRepository` que delega en la API REST `/api/projects`
+ * del servidor Express. Los IDs de los proyectos nuevos los asigna el servidor.
+ *
+ * @class HttpProjectRepository
+ */
+export class HttpProjectRepository implements ProjectRepository {
+  /**
+   * @param {HttpClient} http - Cliente HTTP de Angular
+   * @param {string} baseUrl - URL base de la API de proyectos
+   */
+  constructor(
+    private readonly http: HttpClient,
+    private readonly baseUrl = '/api/projects'
+  ) {}
+
+  async getAll(): Promise<Project[]> {
+    return firstValueFrom(
+      this.http
+        .get<Project[]>(this.baseUrl)
+        .pipe(map((projects) => projects.map(reviveProject)))
+    );
+  }
+
+  async create(project: Project): Promise<Project> {
+    return firstValueFrom(
+      this.http
+        .post<Project>(this.baseUrl, { name: project.name, color: project.color })
+        .pipe(map(reviveProject), this.mapValidationErrors())
+    );
+  }
+
+  async update(project: Project): Promise<Project> {
+    return firstValueFrom(
+      this.http
+        .patch<Project>(`${this.baseUrl}/${encodeURIComponent(project.id)}`, {
+          name: project.name,
+          color: project.color,
+          members: project.members ?? [],
+        })
+        .pipe(map(reviveProject), this.mapValidationErrors())
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await firstValueFrom(
+        this.http.delete(`${this.baseUrl}/${encodeURIComponent(id)}`)
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Operador que convierte las respuestas 400 de la API en `ProjectValidationError`
+   * @private
+   * @returns {(source: Observable<T>) => Observable<T>} Operador de RxJS
+   */
+  private mapValidationErrors<T>(): (source: Observable<T>) => Observable<T> {
+    return catchError((error: unknown) =>
+      throwError(() =>
+        error instanceof HttpErrorResponse &&
+        error.status === 400 &&
+        error.error?.errors
+          ? new ProjectValidationError(error.error.errors)
+          : error
+      )
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom, map } from 'rxjs';
+import { TaskActivity, reviveTaskActivity } from '../models/task-activity.model';
+import { TaskActivityRepository } from './task-activity.repository';
+
+/**
+ * Almacenamiento del Historial de Actividad vía HTTP
+ *
+ * Implementación de `TaskActivityRepository` que delega en la API REST
+ * `/api/task-activity` del servidor Express.
+ *
+ * @class HttpTaskActivityRepository
+ */
+export class HttpTaskActivityRepository implements TaskActivityRepository {
+  /**
+   * @param {HttpClient} http - Cliente HTTP de Angular
+   * @param {string} baseUrl - URL base de la API del historial
+   */
+  constructor(
+    private readonly http: HttpClient,
+    private readonly baseUrl = '/api/task-activity'
+  ) {}
+
+  async getByTask(taskId: string): Promise<TaskActivity[]> {
+    return firstValueFrom(
+      this.http
+        .get<TaskActivity[]>(this.baseUrl, { params: { taskId } })
+        .pipe(map((entries) => entries.map(reviveTaskActivity)))
+    );
+  }
+
+  async append(entries: TaskActivity[]): Promise<void> {
+    await firstValueFrom(this.http.post(this.baseUrl, entries));
+  }
+}
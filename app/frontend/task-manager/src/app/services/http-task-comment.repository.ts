@@ -0,0 +1,82 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, catchError, firstValueFrom, map, throwError } from 'rxjs';
+import { TaskComment, reviveTaskComment } from '../models/task-comment.model';
+import { TaskCommentRepository } from './task-comment.repository';
+import { TaskCommentValidationError } from '../validators/task-comment.validator';
+
+/**
+ * Almacenamiento de Comentarios vía HTTP
+ *
+ * Implementación de `TaskCommentRepository` que delega en la API REST
+ * `/api/task-comments` del servidor Express. Los IDs y el autor de los
+ * comentarios nuevos los asigna el servidor.
+ *
+ * @class HttpTaskCommentRepository
+ */
+export class HttpTaskCommentRepository implements TaskCommentRepository {
+  /**
+   * @param {HttpClient} http - Cliente HTTP de Angular
+   * @param {string} baseUrl - URL base de la API de comentarios
+   */
+  constructor(
+    private readonly http: HttpClient,
+    private readonly baseUrl = '/api/task-comments'
+  ) {}
+
+  async getAll(): Promise<TaskComment[]> {
+    return firstValueFrom(
+      this.http
+        .get<TaskComment[]>(this.baseUrl)
+        .pipe(map((comments) => comments.map(reviveTaskComment)))
+    );
+  }
+
+  async create(comment: TaskComment): Promise<TaskComment> {
+    return firstValueFrom(
+      this.http
+        .post<TaskComment>(this.baseUrl, { taskId: comment.taskId, text: comment.text })
+        .pipe(map(reviveTaskComment), this.mapValidationErrors())
+    );
+  }
+
+  async update(comment: TaskComment): Promise<TaskComment> {
+    return firstValueFrom(
+      this.http
+        .patch<TaskComment>(`${this.baseUrl}/${encodeURIComponent(comment.id)}`, {
+          text: comment.text,
+        })
+        .pipe(map(reviveTaskComment), this.mapValidationErrors())
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await firstValueFrom(
+        this.http.delete(`${this.baseUrl}/${encodeURIComponent(id)}`)
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Operador que convierte las respuestas 400 de la API en `TaskCommentValidationError`
+   * @private
+   * @returns {(source: Observable<T>) => Observable<T>} Operador de RxJS
+   */
+  private mapValidationErrors<T>(): (source: Observable<T>) => Observable<T> {
+    return catchError((error: unknown) =>
+      throwError(() =>
+        error instanceof HttpErrorResponse &&
+        error.status === 400 &&
+        error.error?.errors
+          ? new TaskCommentValidationError(error.error.errors)
+          : error
+      )
+    );
+  }
+}
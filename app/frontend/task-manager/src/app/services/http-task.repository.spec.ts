@@ -0,0 +1,53 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient } from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { Task } from '../models/task.model';
+import { HttpTaskRepository } from './http-task.repository';
+
+describe('HttpTaskRepository', () => {
+  let repository: HttpTaskRepository;
+  let httpTesting: HttpTestingController;
+
+  const task: Task = {
+    id: 'task-1',
+    title: 'Tarea de prueba',
+    completed: false,
+    priority: 'medium',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    repository = new HttpTaskRepository(TestBed.inject(HttpClient));
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  it('sends an empty description when the task has none, so the server clears it', async () => {
+    const update = repository.update(task);
+
+    const request = httpTesting.expectOne('/api/tasks/task-1');
+    expect(request.request.method).toBe('PATCH');
+    expect(request.request.body.description).toBe('');
+    request.flush({ ...task, description: '' });
+
+    expect((await update).description).toBe('');
+  });
+
+  it('sends the description when the task has one', async () => {
+    const update = repository.update({ ...task, description: 'Con detalles' });
+
+    const request = httpTesting.expectOne('/api/tasks/task-1');
+    expect(request.request.body.description).toBe('Con detalles');
+    request.flush({ ...task, description: 'Con detalles' });
+
+    await update;
+  });
+});
@@ -0,0 +1,158 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, catchError, firstValueFrom, map, throwError } from 'rxjs';
+import { Task, reviveTask } from '../models/task.model';
+import {
+  TaskChangeEvent,
+  reviveTaskChangeEvent,
+} from '../models/task-event.model';
+import { TaskRepository } from './task.repository';
+import { TaskValidationError } from '../validators/task.validator';
+
+/**
+ * Almacenamiento de Tareas vía HTTP
+ *
+ * Implementación de `TaskRepository` que delega en la API REST `/api/tasks`
+ * del servidor Express, de modo que varios usuarios comparten la misma lista.
+ * Los IDs de las tareas nuevas los asigna el servidor. Las respuestas 400 con
+ * errores por campo se convierten en `TaskValidationError`. Los cambios de otros
+ * clientes llegan por Server-Sent Events desde `/api/tasks/events`.
+ *
+ * @class HttpTaskRepository
+ */
+export class HttpTaskRepository implements TaskRepository {
+  /**
+   * @param {HttpClient} http - Cliente HTTP de Angular
+   * @param {string} baseUrl - URL base de la API de tareas
+   */
+  constructor(
+    private readonly http: HttpClient,
+    private readonly baseUrl = '/api/tasks'
+  ) {}
+
+  async getAll(): Promise<Task[]> {
+    return firstValueFrom(
+      this.http
+        .get<Task[]>(this.baseUrl)
+        .pipe(map((tasks) => tasks.map(reviveTask)))
+    );
+  }
+
+  /**
+   * Obtener la versión actual de una tarea en el servidor
+   * @param {string} id - El ID de la tarea
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea o null si no existe
+   */
+  async get(id: string): Promise<Task | null> {
+    try {
+      return await firstValueFrom(
+        this.http
+          .get<Task>(`${this.baseUrl}/${encodeURIComponent(id)}`)
+          .pipe(map(reviveTask))
+      );
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async create(task: Task): Promise<Task> {
+    return firstValueFrom(
+      this.http
+        .post<Task>(this.baseUrl, {
+          title: task.title,
+          description: task.description,
+          completed: task.completed,
+          priority: task.priority,
+          status: task.status,
+          dueDate: task.dueDate,
+          dueTime: task.dueTime,
+          reminders: task.reminders,
+          subtasks: task.subtasks,
+          tags: task.tags,
+          projectId: task.projectId,
+          assigneeId: task.assigneeId,
+          order: task.order,
+          recurrence: task.recurrence,
+          blockedBy: task.blockedBy,
+        })
+        .pipe(map(reviveTask), this.mapValidationErrors())
+    );
+  }
+
+  async update(task: Task): Promise<Task> {
+    return firstValueFrom(
+      this.http
+        .patch<Task>(`${this.baseUrl}/${encodeURIComponent(task.id)}`, {
+          title: task.title,
+          description: task.description ?? '',
+          completed: task.completed,
+          status: task.status,
+          priority: task.priority,
+          dueDate: task.dueDate ?? null,
+          dueTime: task.dueTime ?? null,
+          reminders: task.reminders ?? [],
+          deletedAt: task.deletedAt ?? null,
+          subtasks: task.subtasks ?? [],
+          tags: task.tags ?? [],
+          projectId: task.projectId ?? null,
+          assigneeId: task.assigneeId ?? null,
+          order: task.order,
+          recurrence: task.recurrence ?? null,
+          blockedBy: task.blockedBy ?? [],
+        })
+        .pipe(map(reviveTask), this.mapValidationErrors())
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await firstValueFrom(
+        this.http.delete(`${this.baseUrl}/${encodeURIComponent(id)}`)
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await firstValueFrom(this.http.delete(this.baseUrl));
+  }
+
+  changes(): Observable<TaskChangeEvent> {
+    return new Observable<TaskChangeEvent>((subscriber) => {
+      const source = new EventSource(`${this.baseUrl}/events`);
+      source.onmessage = (message: MessageEvent<string>) => {
+        try {
+          subscriber.next(reviveTaskChangeEvent(JSON.parse(message.data)));
+        } catch (error) {
+          console.error('Error parsing task event:', error);
+        }
+      };
+
+      return () => source.close();
+    });
+  }
+
+  /**
+   * Operador que convierte las respuestas 400 de la API en `TaskValidationError`
+   * @private
+   * @returns {(source: Observable<T>) => Observable<T>} Operador de RxJS
+   */
+  private mapValidationErrors<T>(): (source: Observable<T>) => Observable<T> {
+    return catchError((error: unknown) =>
+      throwError(() =>
+        error instanceof HttpErrorResponse &&
+        error.status === 400 &&
+        error.error?.errors
+          ? new TaskValidationError(error.error.errors)
+          : error
+      )
+    );
+  }
+}
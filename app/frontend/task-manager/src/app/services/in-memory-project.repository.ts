@@ -0,0 +1,44 @@
+import { Project } from '../models/project.model';
+import { ProjectRepository } from './project.repository';
+
+/**
+ * Almacenamiento de Proyectos en Memoria
+ *
+ * Implementación volátil de `ProjectRepository` para el renderizado en servidor.
+ *
+ * @class InMemoryProjectRepository
+ */
+export class InMemoryProjectRepository implements ProjectRepository {
+  /**
+   * Proyectos almacenados indexados por ID
+   * @private
+   */
+  private readonly projects = new Map<string, Project>();
+
+  /**
+   * @param {Project[]} initialProjects - Proyectos con los que se inicializa el almacenamiento
+   */
+  constructor(initialProjects: Project[] = []) {
+    initialProjects.forEach((project) =>
+      this.projects.set(project.id, { ...project })
+    );
+  }
+
+  async getAll(): Promise<Project[]> {
+    return Array.from(this.projects.values(), (project) => ({ ...project }));
+  }
+
+  async create(project: Project): Promise<Project> {
+    this.projects.set(project.id, { ...project });
+    return { ...project };
+  }
+
+  async update(project: Project): Promise<Project> {
+    this.projects.set(project.id, { ...project });
+    return { ...project };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.projects.delete(id);
+  }
+}
@@ -0,0 +1,27 @@
+import { TaskActivity } from '../models/task-activity.model';
+import { TaskActivityRepository } from './task-activity.repository';
+
+/**
+ * Almacenamiento del Historial de Actividad en Memoria
+ *
+ * Implementación volátil de `TaskActivityRepository` para el renderizado en servidor.
+ *
+ * @class InMemoryTaskActivityRepository
+ */
+export class InMemoryTaskActivityRepository implements TaskActivityRepository {
+  /**
+   * Eventos almacenados, del más antiguo al más reciente
+   * @private
+   */
+  private readonly entries: TaskActivity[] = [];
+
+  async getByTask(taskId: string): Promise<TaskActivity[]> {
+    return this.entries
+      .filter((entry) => entry.taskId === taskId)
+      .map((entry) => ({ ...entry }));
+  }
+
+  async append(entries: TaskActivity[]): Promise<void> {
+    this.entries.push(...entries.map((entry) => ({ ...entry })));
+  }
+}
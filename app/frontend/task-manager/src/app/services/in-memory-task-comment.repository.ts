@@ -0,0 +1,35 @@
+import { TaskComment } from '../models/task-comment.model';
+import { TaskCommentRepository } from './task-comment.repository';
+
+/**
+ * Almacenamiento de Comentarios en Memoria
+ *
+ * Implementación volátil de `TaskCommentRepository` para el renderizado en servidor.
+ *
+ * @class InMemoryTaskCommentRepository
+ */
+export class InMemoryTaskCommentRepository implements TaskCommentRepository {
+  /**
+   * Comentarios almacenados indexados por ID
+   * @private
+   */
+  private readonly comments = new Map<string, TaskComment>();
+
+  async getAll(): Promise<TaskComment[]> {
+    return Array.from(this.comments.values(), (comment) => ({ ...comment }));
+  }
+
+  async create(comment: TaskComment): Promise<TaskComment> {
+    this.comments.set(comment.id, { ...comment });
+    return { ...comment };
+  }
+
+  async update(comment: TaskComment): Promise<TaskComment> {
+    this.comments.set(comment.id, { ...comment });
+    return { ...comment };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.comments.delete(id);
+  }
+}
@@ -0,0 +1,47 @@
+import { Task } from '../models/task.model';
+import { TaskRepository } from './task.repository';
+
+/**
+ * Almacenamiento de Tareas en Memoria
+ *
+ * Implementación volátil de `TaskRepository`. Se usa durante el renderizado
+ * en servidor y en pruebas, donde no existe almacenamiento del navegador.
+ *
+ * @class InMemoryTaskRepository
+ */
+export class InMemoryTaskRepository implements TaskRepository {
+  /**
+   * Tareas almacenadas indexadas por ID
+   * @private
+   */
+  private readonly tasks = new Map<string, Task>();
+
+  /**
+   * @param {Task[]} initialTasks - Tareas con las que se inicializa el almacenamiento
+   */
+  constructor(initialTasks: Task[] = []) {
+    initialTasks.forEach((task) => this.tasks.set(task.id, { ...task }));
+  }
+
+  async getAll(): Promise<Task[]> {
+    return Array.from(this.tasks.values(), (task) => ({ ...task }));
+  }
+
+  async create(task: Task): Promise<Task> {
+    this.tasks.set(task.id, { ...task });
+    return { ...task };
+  }
+
+  async update(task: Task): Promise<Task> {
+    this.tasks.set(task.id, { ...task });
+    return { ...task };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.tasks.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.tasks.clear();
+  }
+}
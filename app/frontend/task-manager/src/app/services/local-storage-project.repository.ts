@@ -0,0 +1,67 @@
+import { Project, reviveProject } from '../models/project.model';
+import { ProjectRepository } from './project.repository';
+
+/**
+ * Almacenamiento de Proyectos en localStorage
+ *
+ * Implementación de `ProjectRepository` que guarda la lista completa de
+ * proyectos como JSON en `localStorage`.
+ *
+ * @class LocalStorageProjectRepository
+ */
+export class LocalStorageProjectRepository implements ProjectRepository {
+  /**
+   * @param {string} storageKey - Clave de localStorage donde se guardan los proyectos
+   */
+  constructor(private readonly storageKey = 'task-manager.projects') {}
+
+  async getAll(): Promise<Project[]> {
+    return this.read();
+  }
+
+  async create(project: Project): Promise<Project> {
+    this.write([...this.read(), project]);
+    return project;
+  }
+
+  async update(project: Project): Promise<Project> {
+    this.write(this.read().map((p) => (p.id === project.id ? project : p)));
+    return project;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const projects = this.read();
+    const filteredProjects = projects.filter((p) => p.id !== id);
+    this.write(filteredProjects);
+    return filteredProjects.length !== projects.length;
+  }
+
+  /**
+   * Leer y deserializar los proyectos guardados
+   * @private
+   * @returns {Project[]} Los proyectos almacenados, o un array vacío si no hay datos válidos
+   */
+  private read(): Project[] {
+    const raw = localStorage.getItem(this.storageKey);
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      return (JSON.parse(raw) as Project[]).map(reviveProject);
+    } catch (error) {
+      console.error('Error reading stored projects:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Serializar y guardar los proyectos
+   * @private
+   * @param {Project[]} projects - Los proyectos a guardar
+   * @returns {void}
+   */
+  private write(projects: Project[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(projects));
+  }
+}
@@ -0,0 +1,59 @@
+import { TaskActivity, reviveTaskActivity } from '../models/task-activity.model';
+import { TaskActivityRepository } from './task-activity.repository';
+
+/**
+ * Almacenamiento del Historial de Actividad en localStorage
+ *
+ * Implementación de `TaskActivityRepository` que guarda el historial completo
+ * como JSON en `localStorage`. Para no agotar la cuota del navegador solo se
+ * conservan los `maxEntries` eventos más recientes.
+ *
+ * @class LocalStorageTaskActivityRepository
+ */
+export class LocalStorageTaskActivityRepository implements TaskActivityRepository {
+  /**
+   * @param {string} storageKey - Clave de localStorage donde se guarda el historial
+   * @param {number} maxEntries - Número máximo de eventos conservados
+   */
+  constructor(
+    private readonly storageKey = 'task-manager.task-activity',
+    private readonly maxEntries = 5000
+  ) {}
+
+  async getByTask(taskId: string): Promise<TaskActivity[]> {
+    return this.read().filter((entry) => entry.taskId === taskId);
+  }
+
+  async append(entries: TaskActivity[]): Promise<void> {
+    this.write([...this.read(), ...entries].slice(-this.maxEntries));
+  }
+
+  /**
+   * Leer y deserializar el historial guardado
+   * @private
+   * @returns {TaskActivity[]} Los eventos almacenados, o un array vacío si no hay datos válidos
+   */
+  private read(): TaskActivity[] {
+    const raw = localStorage.getItem(this.storageKey);
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      return (JSON.parse(raw) as TaskActivity[]).map(reviveTaskActivity);
+    } catch (error) {
+      console.error('Error reading stored task activity:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Serializar y guardar el historial
+   * @private
+   * @param {TaskActivity[]} entries - Los eventos a guardar
+   * @returns {void}
+   */
+  private write(entries: TaskActivity[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(entries));
+  }
+}
@@ -0,0 +1,67 @@
+import { TaskComment, reviveTaskComment } from '../models/task-comment.model';
+import { TaskCommentRepository } from './task-comment.repository';
+
+/**
+ * Almacenamiento de Comentarios en localStorage
+ *
+ * Implementación de `TaskCommentRepository` que guarda la lista completa de
+ * comentarios como JSON en `localStorage`.
+ *
+ * @class LocalStorageTaskCommentRepository
+ */
+export class LocalStorageTaskCommentRepository implements TaskCommentRepository {
+  /**
+   * @param {string} storageKey - Clave de localStorage donde se guardan los comentarios
+   */
+  constructor(private readonly storageKey = 'task-manager.task-comments') {}
+
+  async getAll(): Promise<TaskComment[]> {
+    return this.read();
+  }
+
+  async create(comment: TaskComment): Promise<TaskComment> {
+    this.write([...this.read(), comment]);
+    return comment;
+  }
+
+  async update(comment: TaskComment): Promise<TaskComment> {
+    this.write(this.read().map((c) => (c.id === comment.id ? comment : c)));
+    return comment;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const comments = this.read();
+    const filteredComments = comments.filter((c) => c.id !== id);
+    this.write(filteredComments);
+    return filteredComments.length !== comments.length;
+  }
+
+  /**
+   * Leer y deserializar los comentarios guardados
+   * @private
+   * @returns {TaskComment[]} Los comentarios almacenados, o un array vacío si no hay datos válidos
+   */
+  private read(): TaskComment[] {
+    const raw = localStorage.getItem(this.storageKey);
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      return (JSON.parse(raw) as TaskComment[]).map(reviveTaskComment);
+    } catch (error) {
+      console.error('Error reading stored task comments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Serializar y guardar los comentarios
+   * @private
+   * @param {TaskComment[]} comments - Los comentarios a guardar
+   * @returns {void}
+   */
+  private write(comments: TaskComment[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(comments));
+  }
+}
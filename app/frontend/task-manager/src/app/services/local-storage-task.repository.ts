@@ -0,0 +1,80 @@
+import { Task, reviveTask } from '../models/task.model';
+import { TaskRepository } from './task.repository';
+
+/**
+ * Almacenamiento de Tareas en localStorage
+ *
+ * Implementación de `TaskRepository` que guarda la lista completa de tareas
+ * como JSON en `localStorage`, de modo que sobrevive a las recargas de página.
+ *
+ * @class LocalStorageTaskRepository
+ */
+export class LocalStorageTaskRepository implements TaskRepository {
+  /**
+   * @param {string} storageKey - Clave de localStorage donde se guardan las tareas
+   */
+  constructor(private readonly storageKey = 'task-manager.tasks') {}
+
+  async getAll(): Promise<Task[]> {
+    return this.read();
+  }
+
+  async create(task: Task): Promise<Task> {
+    this.write([...this.read(), task]);
+    return task;
+  }
+
+  async update(task: Task): Promise<Task> {
+    this.write(this.read().map((t) => (t.id === task.id ? task : t)));
+    return task;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const tasks = this.read();
+    const filteredTasks = tasks.filter((t) => t.id !== id);
+    this.write(filteredTasks);
+    return filteredTasks.length !== tasks.length;
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.storageKey);
+  }
+
+  /**
+   * Reemplazar todas las tareas almacenadas
+   * @param {Task[]} tasks - El nuevo listado de tareas
+   * @returns {Promise<void>}
+   */
+  async replaceAll(tasks: Task[]): Promise<void> {
+    this.write(tasks);
+  }
+
+  /**
+   * Leer y deserializar las tareas guardadas
+   * @private
+   * @returns {Task[]} Las tareas almacenadas, o un array vacío si no hay datos válidos
+   */
+  private read(): Task[] {
+    const raw = localStorage.getItem(this.storageKey);
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      return (JSON.parse(raw) as Task[]).map(reviveTask);
+    } catch (error) {
+      console.error('Error reading stored tasks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Serializar y guardar las tareas
+   * @private
+   * @param {Task[]} tasks - Las tareas a guardar
+   * @returns {void}
+   */
+  private write(tasks: Task[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(tasks));
+  }
+}
@@ -0,0 +1,654 @@
+import { Signal, computed, signal } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, Subject, filter, merge, tap } from 'rxjs';
+import { Task } from '../models/task.model';
+import { TaskChangeEvent } from '../models/task-event.model';
+import {
+  PendingTaskMutation,
+  TaskConflict,
+  TaskConflictPolicy,
+  TaskConflictResolution,
+  TaskMergeField,
+  revivePendingTaskMutation,
+  reviveTaskConflict,
+} from '../models/task-sync.model';
+import { TaskRepository } from './task.repository';
+import { HttpTaskRepository } from './http-task.repository';
+import { LocalStorageTaskRepository } from './local-storage-task.repository';
+
+/**
+ * Campos que se reconcilian de forma individual
+ */
+const MERGE_FIELDS: TaskMergeField[] = [
+  'title',
+  'description',
+  'priority',
+  'dueDate',
+  'dueTime',
+  'reminders',
+  'completed',
+  'status',
+  'deletedAt',
+  'subtasks',
+  'tags',
+  'projectId',
+  'assigneeId',
+  'order',
+  'recurrence',
+  'blockedBy',
+];
+
+/**
+ * Clave de localStorage de la cola de mutaciones pendientes
+ */
+const QUEUE_STORAGE_KEY = 'task-manager.pending-mutations';
+
+/**
+ * Clave de localStorage de los conflictos sin resolver
+ */
+const CONFLICTS_STORAGE_KEY = 'task-manager.sync-conflicts';
+
+/**
+ * Clave de localStorage de la copia local de las tareas
+ */
+const CACHE_STORAGE_KEY = 'task-manager.tasks-cache';
+
+/**
+ * Marca devuelta cuando una petición no llegó al servidor
+ */
+const OFFLINE = Symbol('offline');
+
+/**
+ * Almacenamiento de Tareas con Soporte Sin Conexión
+ *
+ * Envuelve a `HttpTaskRepository`. Cuando el servidor no es alcanzable, las
+ * mutaciones se aplican a una copia local de las tareas y se encolan en
+ * localStorage; al recuperar la conexión se reenvían en orden.
+ *
+ * Antes de reenviar una actualización se compara el `updatedAt` del servidor
+ * con el de la versión sobre la que se editó. Si ambas versiones cambiaron,
+ * los campos se fusionan uno a uno; los campos modificados en los dos lados
+ * se resuelven según la `TaskConflictPolicy`, y los casos que no admiten
+ * resolución automática (por ejemplo, una tarea editada localmente y eliminada
+ * en el servidor) se exponen en `conflicts` para que decida el usuario.
+ *
+ * @class OfflineTaskRepository
+ */
+export class OfflineTaskRepository implements TaskRepository {
+  /**
+   * Copia local de las últimas tareas conocidas
+   * @private
+   */
+  private readonly cache = new LocalStorageTaskRepository(CACHE_STORAGE_KEY);
+
+  /**
+   * Cambios generados por la propia sincronización
+   * @private
+   */
+  private readonly syncChanges = new Subject<TaskChangeEvent>();
+
+  /**
+   * Cola de mutaciones pendientes de enviar
+   * @private
+   */
+  private readonly _pending = signal<PendingTaskMutation[]>(
+    readStored<PendingTaskMutation>(QUEUE_STORAGE_KEY).map(revivePendingTaskMutation)
+  );
+
+  /**
+   * Conflictos pendientes de resolución manual
+   * @private
+   */
+  private readonly _conflicts = signal<TaskConflict[]>(
+    readStored<TaskConflict>(CONFLICTS_STORAGE_KEY).map(reviveTaskConflict)
+  );
+
+  /**
+   * Estado de conexión con el servidor
+   * @private
+   */
+  private readonly _isOnline = signal(true);
+
+  /**
+   * Reenvío de la cola en curso
+   * @private
+   */
+  private flushing: Promise<void> | null = null;
+
+  /**
+   * Número de mutaciones pendientes de sincronizar
+   * @readonly
+   */
+  readonly pendingCount: Signal<number> = computed(
+    () => this._pending().length
+  );
+
+  /**
+   * Conflictos que requieren una decisión del usuario
+   * @readonly
+   */
+  readonly conflicts: Signal<TaskConflict[]> = this._conflicts.asReadonly();
+
+  /**
+   * Indica si la última petición al servidor tuvo éxito
+   * @readonly
+   */
+  readonly isOnline: Signal<boolean> = this._isOnline.asReadonly();
+
+  /**
+   * @param {HttpTaskRepository} remote - Repositorio HTTP del servidor
+   * @param {TaskConflictPolicy} conflictPolicy - Política para campos modificados en ambos lados
+   */
+  constructor(
+    private readonly remote: HttpTaskRepository,
+    private readonly conflictPolicy: TaskConflictPolicy = 'last-writer-wins'
+  ) {
+    window.addEventListener('online', () => void this.flush());
+  }
+
+  async getAll(): Promise<Task[]> {
+    await this.flush();
+
+    if (!this._pending().length) {
+      const tasks = await this.tryRemote(() => this.remote.getAll());
+      if (tasks !== OFFLINE) {
+        await this.cache.replaceAll(tasks);
+        return tasks;
+      }
+    }
+
+    return this.cache.getAll();
+  }
+
+  async create(task: Task): Promise<Task> {
+    const storedTask = await this.tryRemote(() => this.remote.create(task));
+    if (storedTask !== OFFLINE) {
+      await this.upsertCached(storedTask);
+      return storedTask;
+    }
+
+    this.enqueue({ type: 'create', taskId: task.id, task, queuedAt: new Date() });
+    await this.upsertCached(task);
+    return task;
+  }
+
+  async update(task: Task): Promise<Task> {
+    const storedTask = await this.tryRemote(() => this.remote.update(task));
+    if (storedTask !== OFFLINE) {
+      await this.upsertCached(storedTask);
+      return storedTask;
+    }
+
+    const base = (await this.cache.getAll()).find((t) => t.id === task.id);
+    this.enqueue({ type: 'update', taskId: task.id, task, base, queuedAt: new Date() });
+    await this.upsertCached(task);
+    return task;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.tryRemote(() => this.remote.delete(id));
+    if (deleted !== OFFLINE) {
+      await this.cache.delete(id);
+      return deleted;
+    }
+
+    const base = (await this.cache.getAll()).find((t) => t.id === id);
+    this.enqueue({ type: 'delete', taskId: id, base, queuedAt: new Date() });
+    await this.cache.delete(id);
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    // El servidor conserva las tareas de proyectos compartidos por otros usuarios
+    const remainingTasks = await this.tryRemote(async () => {
+      await this.remote.clear();
+      return this.remote.getAll();
+    });
+    if (remainingTasks === OFFLINE) {
+      this.enqueue({ type: 'clear', taskId: '', queuedAt: new Date() });
+      await this.cache.clear();
+      return;
+    }
+    await this.cache.replaceAll(remainingTasks);
+  }
+
+  changes(): Observable<TaskChangeEvent> {
+    return merge(
+      this.remote.changes().pipe(
+        tap((event) => {
+          if (event.type === 'snapshot') {
+            // El servidor envía un snapshot en cada (re)conexión
+            void this.flush();
+          }
+        }),
+        filter((event) => event.type !== 'snapshot' || !this._pending().length),
+        tap((event) => void this.applyToCache(event))
+      ),
+      this.syncChanges
+    );
+  }
+
+  /**
+   * Resolver un conflicto con la versión elegida por el usuario
+   *
+   * @param {string} conflictId - ID del conflicto
+   * @param {TaskConflictResolution} resolution - Versión a conservar
+   * @returns {Promise<void>} Promise que se resuelve cuando el servidor refleja la decisión
+   */
+  async resolveConflict(
+    conflictId: string,
+    resolution: TaskConflictResolution
+  ): Promise<void> {
+    const conflict = this._conflicts().find((c) => c.id === conflictId);
+    if (!conflict) {
+      return;
+    }
+
+    if (resolution === 'local') {
+      if (!conflict.local) {
+        await this.remote.delete(conflict.taskId);
+      } else if (!conflict.remote) {
+        await this.remote.create(conflict.local);
+      } else {
+        await this.remote.update(conflict.local);
+      }
+    }
+
+    this.setConflicts(this._conflicts().filter((c) => c.id !== conflictId));
+    await this.publishSnapshot();
+  }
+
+  /**
+   * Reenviar la cola de mutaciones pendientes
+   *
+   * Si ya hay un reenvío en curso, devuelve el mismo Promise.
+   *
+   * @returns {Promise<void>} Promise que se resuelve al vaciar la cola o perder la conexión
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.replayQueue().finally(() => (this.flushing = null));
+    return this.flushing;
+  }
+
+  /**
+   * Reenviar en orden las mutaciones de la cola
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async replayQueue(): Promise<void> {
+    let replayed = false;
+
+    while (this._pending().length) {
+      const [mutation, ...rest] = this._pending();
+      this.setQueue(rest);
+
+      try {
+        await this.replay(mutation);
+      } catch (error) {
+        if (this.isNetworkError(error)) {
+          this.setQueue([mutation, ...this._pending()]);
+          this._isOnline.set(false);
+          return;
+        }
+        if (error instanceof HttpErrorResponse && error.status === 401) {
+          // Sesión caducada: la cola se reenvía al volver a iniciar sesión
+          this.setQueue([mutation, ...this._pending()]);
+          return;
+        }
+        console.error('Error replaying task mutation:', error);
+      }
+      replayed = true;
+    }
+
+    if (replayed) {
+      this._isOnline.set(true);
+      await this.publishSnapshot();
+    }
+  }
+
+  /**
+   * Reenviar una mutación al servidor
+   * @private
+   * @param {PendingTaskMutation} mutation - La mutación a reenviar
+   * @returns {Promise<void>}
+   */
+  private async replay(mutation: PendingTaskMutation): Promise<void> {
+    switch (mutation.type) {
+      case 'create':
+        await this.remote.create(mutation.task!);
+        break;
+      case 'update':
+        await this.replayUpdate(mutation);
+        break;
+      case 'delete':
+        await this.replayDelete(mutation);
+        break;
+      case 'clear':
+        await this.remote.clear();
+        break;
+    }
+  }
+
+  /**
+   * Reenviar una actualización, reconciliándola con la versión del servidor
+   * @private
+   * @param {PendingTaskMutation} mutation - La actualización pendiente
+   * @returns {Promise<void>}
+   */
+  private async replayUpdate(mutation: PendingTaskMutation): Promise<void> {
+    const local = mutation.task!;
+    const remoteTask = await this.remote.get(mutation.taskId);
+
+    if (!remoteTask) {
+      this.addConflict(local, null, []);
+      return;
+    }
+
+    const base = mutation.base;
+    if (!base || remoteTask.updatedAt.getTime() <= base.updatedAt.getTime()) {
+      await this.remote.update(local);
+      return;
+    }
+
+    const mergedTask = this.mergeTask(base, local, remoteTask);
+    if (mergedTask) {
+      await this.remote.update(mergedTask);
+    }
+  }
+
+  /**
+   * Reenviar una eliminación, respetando ediciones posteriores en el servidor
+   * @private
+   * @param {PendingTaskMutation} mutation - La eliminación pendiente
+   * @returns {Promise<void>}
+   */
+  private async replayDelete(mutation: PendingTaskMutation): Promise<void> {
+    const remoteTask = await this.remote.get(mutation.taskId);
+    if (!remoteTask) {
+      return;
+    }
+
+    const base = mutation.base;
+    if (base && remoteTask.updatedAt.getTime() > base.updatedAt.getTime()) {
+      if (this.conflictPolicy === 'manual') {
+        this.addConflict(null, remoteTask, []);
+        return;
+      }
+      if (remoteTask.updatedAt.getTime() > mutation.queuedAt.getTime()) {
+        return;
+      }
+    }
+
+    await this.remote.delete(mutation.taskId);
+  }
+
+  /**
+   * Fusionar campo a campo una versión local y otra remota de la misma tarea
+   *
+   * @private
+   * @param {Task} base - Versión sobre la que se hizo el cambio local
+   * @param {Task} local - Versión local
+   * @param {Task} remoteTask - Versión actual del servidor
+   * @returns {Task | null} La tarea fusionada, o null si quedó un conflicto manual
+   */
+  private mergeTask(base: Task, local: Task, remoteTask: Task): Task | null {
+    const mergedTask: Task = { ...remoteTask };
+    const conflictingFields: TaskMergeField[] = [];
+    const localIsNewer =
+      local.updatedAt.getTime() > remoteTask.updatedAt.getTime();
+
+    MERGE_FIELDS.forEach((field) => {
+      if (sameValue(local[field], base[field])) {
+        return;
+      }
+
+      const remoteChanged = !sameValue(remoteTask[field], base[field]);
+      if (!remoteChanged || sameValue(local[field], remoteTask[field])) {
+        Object.assign(mergedTask, { [field]: local[field] });
+      } else if (this.conflictPolicy === 'manual') {
+        conflictingFields.push(field);
+      } else if (localIsNewer) {
+        Object.assign(mergedTask, { [field]: local[field] });
+      }
+    });
+
+    if (conflictingFields.length) {
+      this.addConflict(local, remoteTask, conflictingFields);
+      return null;
+    }
+
+    return mergedTask;
+  }
+
+  /**
+   * Agregar la mutación a la cola, compactándola con las pendientes de la misma tarea
+   * @private
+   * @param {PendingTaskMutation} mutation - La mutación a encolar
+   * @returns {void}
+   */
+  private enqueue(mutation: PendingTaskMutation): void {
+    const queue = this._pending();
+
+    switch (mutation.type) {
+      case 'clear':
+        this.setQueue([mutation]);
+        return;
+      case 'update': {
+        const pending = queue.find(
+          (m) =>
+            m.taskId === mutation.taskId &&
+            (m.type === 'create' || m.type === 'update')
+        );
+        this.setQueue(
+          pending
+            ? queue.map((m) => (m === pending ? { ...m, task: mutation.task } : m))
+            : [...queue, mutation]
+        );
+        return;
+      }
+      case 'delete': {
+        const related = queue.filter((m) => m.taskId === mutation.taskId);
+        const remaining = queue.filter((m) => m.taskId !== mutation.taskId);
+        if (related.some((m) => m.type === 'create')) {
+          this.setQueue(remaining);
+          return;
+        }
+        const base = related.find((m) => m.base)?.base ?? mutation.base;
+        this.setQueue([...remaining, { ...mutation, base }]);
+        return;
+      }
+      default:
+        this.setQueue([...queue, mutation]);
+    }
+  }
+
+  /**
+   * Ejecutar una petición al servidor, detectando la falta de conexión
+   *
+   * Mientras haya mutaciones en cola, las nuevas también se encolan para
+   * conservar el orden.
+   *
+   * @private
+   * @param {() => Promise<T>} request - La petición a ejecutar
+   * @returns {Promise<T | typeof OFFLINE>} El resultado, o `OFFLINE` si no hubo conexión
+   */
+  private async tryRemote<T>(
+    request: () => Promise<T>
+  ): Promise<T | typeof OFFLINE> {
+    if (this._pending().length) {
+      return OFFLINE;
+    }
+
+    try {
+      const result = await request();
+      this._isOnline.set(true);
+      return result;
+    } catch (error) {
+      if (this.isNetworkError(error)) {
+        this._isOnline.set(false);
+        return OFFLINE;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Determinar si un error se debe a que el servidor no es alcanzable
+   * @private
+   * @param {unknown} error - El error recibido
+   * @returns {boolean} True si es un error de red
+   */
+  private isNetworkError(error: unknown): boolean {
+    return (
+      error instanceof HttpErrorResponse &&
+      (error.status === 0 || (error.status >= 502 && error.status <= 504))
+    );
+  }
+
+  /**
+   * Registrar un conflicto para resolución manual
+   * @private
+   * @param {Task | null} local - Versión local
+   * @param {Task | null} remoteTask - Versión del servidor
+   * @param {TaskMergeField[]} fields - Campos en conflicto
+   * @returns {void}
+   */
+  private addConflict(
+    local: Task | null,
+    remoteTask: Task | null,
+    fields: TaskMergeField[]
+  ): void {
+    const taskId = (local ?? remoteTask)!.id;
+    this.setConflicts([
+      ...this._conflicts().filter((c) => c.taskId !== taskId),
+      { id: crypto.randomUUID(), taskId, local, remote: remoteTask, fields },
+    ]);
+  }
+
+  /**
+   * Publicar el estado actual del servidor como snapshot
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async publishSnapshot(): Promise<void> {
+    try {
+      const tasks = await this.remote.getAll();
+      await this.cache.replaceAll(tasks);
+      this.syncChanges.next({ type: 'snapshot', tasks });
+    } catch (error) {
+      console.error('Error refreshing tasks after sync:', error);
+    }
+  }
+
+  /**
+   * Aplicar un cambio remoto a la copia local
+   * @private
+   * @param {TaskChangeEvent} event - El cambio recibido
+   * @returns {Promise<void>}
+   */
+  private async applyToCache(event: TaskChangeEvent): Promise<void> {
+    switch (event.type) {
+      case 'snapshot':
+        await this.cache.replaceAll(event.tasks);
+        break;
+      case 'created':
+      case 'updated':
+        await this.upsertCached(event.task);
+        break;
+      case 'deleted':
+        await this.cache.delete(event.id);
+        break;
+      case 'cleared':
+        await this.cache.clear();
+        break;
+    }
+  }
+
+  /**
+   * Insertar o reemplazar una tarea en la copia local
+   * @private
+   * @param {Task} task - La tarea a guardar
+   * @returns {Promise<void>}
+   */
+  private async upsertCached(task: Task): Promise<void> {
+    const tasks = await this.cache.getAll();
+    await this.cache.replaceAll(
+      tasks.some((t) => t.id === task.id)
+        ? tasks.map((t) => (t.id === task.id ? task : t))
+        : [...tasks, task]
+    );
+  }
+
+  /**
+   * Actualizar y persistir la cola de mutaciones
+   * @private
+   * @param {PendingTaskMutation[]} queue - La nueva cola
+   * @returns {void}
+   */
+  private setQueue(queue: PendingTaskMutation[]): void {
+    this._pending.set(queue);
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  }
+
+  /**
+   * Actualizar y persistir los conflictos
+   * @private
+   * @param {TaskConflict[]} conflicts - Los nuevos conflictos
+   * @returns {void}
+   */
+  private setConflicts(conflicts: TaskConflict[]): void {
+    this._conflicts.set(conflicts);
+    localStorage.setItem(CONFLICTS_STORAGE_KEY, JSON.stringify(conflicts));
+  }
+}
+
+/**
+ * Comparar dos valores de campo de tarea, tratando fechas por su valor,
+ * listas y objetos por su contenido y `undefined` como valor vacío
+ *
+ * @param {unknown} a - Primer valor
+ * @param {unknown} b - Segundo valor
+ * @returns {boolean} True si representan el mismo valor
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+    );
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+  return (a ?? '') === (b ?? '');
+}
+
+/**
+ * Borrar la copia local, la cola de cambios pendientes y los conflictos
+ *
+ * Se usa al cambiar de usuario, para que los datos sin conexión de una
+ * cuenta no se muestren ni se envíen con la sesión de otra.
+ *
+ * @returns {void}
+ */
+export function clearOfflineTaskStorage(): void {
+  [CACHE_STORAGE_KEY, QUEUE_STORAGE_KEY, CONFLICTS_STORAGE_KEY].forEach((key) =>
+    localStorage.removeItem(key)
+  );
+}
+
+/**
+ * Leer un array JSON de localStorage
+ *
+ * @param {string} key - La clave a leer
+ * @returns {T[]} Los elementos guardados, o un array vacío
+ */
+function readStored<T>(key: string): T[] {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? '[]') as T[];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,86 @@
+import { InjectionToken, PLATFORM_ID, Provider, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { Project } from '../models/project.model';
+import { TaskStorageBackend } from './task.repository';
+import { LocalStorageProjectRepository } from './local-storage-project.repository';
+import { InMemoryProjectRepository } from './in-memory-project.repository';
+import { HttpProjectRepository } from './http-project.repository';
+
+/**
+ * Contrato de Almacenamiento de Proyectos
+ *
+ * Define las operaciones de persistencia que `ProjectService` utiliza para
+ * hidratar su estado y escribir cada mutación.
+ *
+ * @interface ProjectRepository
+ */
+export interface ProjectRepository {
+  /**
+   * Obtener todos los proyectos almacenados
+   * @returns {Promise<Project[]>} Promise que se resuelve con los proyectos persistidos
+   */
+  getAll(): Promise<Project[]>;
+
+  /**
+   * Persistir un proyecto nuevo
+   * @param {Project} project - El proyecto a guardar
+   * @returns {Promise<Project>} Promise que se resuelve con el proyecto tal como quedó almacenado
+   */
+  create(project: Project): Promise<Project>;
+
+  /**
+   * Persistir los cambios de un proyecto existente
+   * @param {Project} project - El proyecto con sus valores actualizados
+   * @returns {Promise<Project>} Promise que se resuelve con el proyecto tal como quedó almacenado
+   */
+  update(project: Project): Promise<Project>;
+
+  /**
+   * Eliminar un proyecto por ID
+   * @param {string} id - El ID del proyecto a eliminar
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Token de inyección del almacenamiento de proyectos
+ *
+ * Por defecto usa localStorage en el navegador y memoria durante el renderizado
+ * en servidor. Puede sobrescribirse con `{ provide: PROJECT_REPOSITORY, useValue: ... }`.
+ */
+export const PROJECT_REPOSITORY = new InjectionToken<ProjectRepository>(
+  'PROJECT_REPOSITORY',
+  {
+    providedIn: 'root',
+    factory: () =>
+      isPlatformBrowser(inject(PLATFORM_ID))
+        ? new LocalStorageProjectRepository()
+        : new InMemoryProjectRepository(),
+  }
+);
+
+/**
+ * Registrar el almacenamiento de proyectos a usar por la aplicación
+ *
+ * Usa los mismos backends que `provideTaskRepository`; en el servidor (SSR)
+ * siempre se usa memoria.
+ *
+ * @param {TaskStorageBackend} backend - El backend de almacenamiento deseado
+ * @returns {Provider} Proveedor para el token `PROJECT_REPOSITORY`
+ */
+export function provideProjectRepository(backend: TaskStorageBackend): Provider {
+  return {
+    provide: PROJECT_REPOSITORY,
+    useFactory: (): ProjectRepository => {
+      if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+        return new InMemoryProjectRepository();
+      }
+
+      return backend === 'http'
+        ? new HttpProjectRepository(inject(HttpClient))
+        : new LocalStorageProjectRepository();
+    },
+  };
+}
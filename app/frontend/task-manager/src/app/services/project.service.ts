@@ -0,0 +1,305 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import {
+  CreateProjectRequest,
+  INBOX_PROJECT_ID,
+  Project,
+  ProjectAccess,
+  UpdateProjectRequest,
+  canEditProjectTasks,
+  getProjectAccess,
+  getProjectUserIds,
+} from '../models/project.model';
+import { Task } from '../models/task.model';
+import { PROJECT_REPOSITORY } from './project.repository';
+import { TaskService } from './task.service';
+import { AuthService } from './auth.service';
+import {
+  PROJECT_COLORS,
+  ProjectValidationError,
+  validateCreateProjectRequest,
+  validateUpdateProjectRequest,
+} from '../validators/project.validator';
+
+/**
+ * Servicio de Proyectos
+ *
+ * Gestiona los proyectos (listas de tareas) con Angular Signals. El estado se
+ * hidrata desde el `ProjectRepository` inyectado y cada mutación se escribe en él.
+ * Al eliminar un proyecto, sus tareas pasan a la bandeja de entrada.
+ * Incluye los proyectos compartidos por otros usuarios e indica qué puede
+ * hacer el usuario actual en cada uno.
+ *
+ * @class ProjectService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ProjectService {
+  /**
+   * Almacenamiento persistente de proyectos
+   * @private
+   */
+  private readonly repository = inject(PROJECT_REPOSITORY);
+
+  /**
+   * Servicio de tareas, para contar y mover las tareas de cada proyecto
+   * @private
+   */
+  private readonly taskService = inject(TaskService);
+
+  /**
+   * Servicio de autenticación, para conocer el acceso del usuario actual
+   * @private
+   */
+  private readonly auth = inject(AuthService);
+
+  /**
+   * Signal privada que contiene todos los proyectos
+   * @private
+   */
+  private readonly _projects = signal<Project[]>([]);
+
+  /**
+   * Contador privado para generar IDs únicos de proyectos
+   * @private
+   */
+  private _nextId = 1;
+
+  /**
+   * Signal pública de solo lectura con los proyectos ordenados por nombre
+   * @readonly
+   * @returns {Signal<Project[]>} Todos los proyectos
+   */
+  public readonly projects = computed(() =>
+    [...this._projects()].sort((a, b) => a.name.localeCompare(b.name))
+  );
+
+  /**
+   * Signal computada con los proyectos en los que el usuario puede crear y mover tareas
+   * @readonly
+   * @returns {Signal<Project[]>} Proyectos propios y compartidos como editor
+   */
+  public readonly editableProjects = computed(() =>
+    this.projects().filter((project) =>
+      canEditProjectTasks(getProjectAccess(project, this.auth.user()?.id))
+    )
+  );
+
+  /**
+   * Signal computada con el número de tareas pendientes de cada proyecto
+   * @readonly
+   * @returns {Signal<Map<string, number>>} Tareas pendientes por ID de proyecto
+   */
+  public readonly pendingCounts = computed(() => {
+    const counts = new Map<string, number>();
+    this.taskService
+      .tasks()
+      .filter((task) => !task.completed)
+      .forEach((task) => {
+        const projectId = this.resolveProjectId(task.projectId);
+        counts.set(projectId, (counts.get(projectId) ?? 0) + 1);
+      });
+    return counts;
+  });
+
+  /**
+   * Promise de la carga inicial desde el almacenamiento
+   * @private
+   */
+  private readonly hydration: Promise<void>;
+
+  constructor() {
+    this.hydration = this.hydrate();
+  }
+
+  /**
+   * Cargar los proyectos persistidos en el estado del servicio
+   * @private
+   * @returns {Promise<void>} Promise que se resuelve cuando los proyectos están cargados
+   */
+  private async hydrate(): Promise<void> {
+    try {
+      const storedProjects = await this.repository.getAll();
+      this._projects.set(storedProjects);
+      this._nextId =
+        storedProjects.reduce(
+          (maxId, project) => Math.max(maxId, Number(project.id) || 0),
+          0
+        ) + 1;
+    } catch (error) {
+      console.error('Error loading projects:', error);
+    }
+  }
+
+  /**
+   * Obtener un proyecto por ID
+   *
+   * @param {string} id - El ID del proyecto
+   * @returns {Project | undefined} El proyecto, o undefined si no existe
+   */
+  getProject(id: string): Project | undefined {
+    return this._projects().find((project) => project.id === id);
+  }
+
+  /**
+   * Obtener el nombre visible de un proyecto
+   *
+   * @param {string} id - El ID del proyecto
+   * @returns {string} Nombre del proyecto, o "Bandeja de entrada" para el proyecto implícito
+   */
+  getProjectName(id: string): string {
+    return id === INBOX_PROJECT_ID
+      ? 'Bandeja de entrada'
+      : this.getProject(id)?.name ?? 'Proyecto desconocido';
+  }
+
+  /**
+   * Obtener el proyecto al que pertenece una tarea
+   *
+   * Las tareas sin proyecto, o cuyo proyecto ya no existe, pertenecen a la bandeja de entrada.
+   *
+   * @param {string | undefined} projectId - El `projectId` de la tarea
+   * @returns {string} El ID del proyecto efectivo
+   */
+  resolveProjectId(projectId: string | undefined): string {
+    return projectId && this.getProject(projectId) ? projectId : INBOX_PROJECT_ID;
+  }
+
+  /**
+   * Obtener el acceso del usuario actual a un proyecto
+   *
+   * La bandeja de entrada y los proyectos desconocidos son siempre del usuario.
+   *
+   * @param {string} id - El ID del proyecto
+   * @returns {ProjectAccess | null} El acceso del usuario, o null si no tiene
+   */
+  getAccess(id: string): ProjectAccess | null {
+    const project = this.getProject(id);
+    return project ? getProjectAccess(project, this.auth.user()?.id) : 'owner';
+  }
+
+  /**
+   * Indicar si el usuario actual puede modificar y eliminar una tarea
+   *
+   * @param {Task} task - La tarea
+   * @returns {boolean} true si la tarea está en una lista propia o compartida como editor
+   */
+  canEditTask(task: Task): boolean {
+    return canEditProjectTasks(this.getAccess(this.resolveProjectId(task.projectId)));
+  }
+
+  /**
+   * Indicar si un proyecto lo compartió otro usuario con el usuario actual
+   *
+   * @param {Project} project - El proyecto
+   * @returns {boolean} true si el usuario es miembro y no propietario
+   */
+  isSharedWithMe(project: Project): boolean {
+    return getProjectAccess(project, this.auth.user()?.id) !== 'owner';
+  }
+
+  /**
+   * Obtener los IDs de los usuarios a los que se pueden asignar las tareas de un proyecto
+   *
+   * @param {string} id - El ID del proyecto (`INBOX_PROJECT_ID` para la bandeja de entrada)
+   * @returns {string[]} El propietario y los miembros del proyecto, o solo el usuario actual
+   */
+  getAssignableUserIds(id: string): string[] {
+    const project = this.getProject(id);
+    const userIds = project ? getProjectUserIds(project) : [];
+    const currentUserId = this.auth.user()?.id;
+    return userIds.length || !currentUserId ? userIds : [currentUserId];
+  }
+
+  /**
+   * Crear un nuevo proyecto
+   *
+   * @param {CreateProjectRequest} projectRequest - Los datos del proyecto a crear
+   * @returns {Promise<Project>} Promise que se resuelve con el proyecto creado
+   * @throws {ProjectValidationError} Si los datos del proyecto no son válidos
+   */
+  async createProject(projectRequest: CreateProjectRequest): Promise<Project> {
+    const errors = validateCreateProjectRequest(projectRequest);
+    if (errors) {
+      throw new ProjectValidationError(errors);
+    }
+
+    await this.hydration;
+    const now = new Date();
+    const newProject: Project = {
+      id: this._nextId.toString(),
+      name: projectRequest.name.trim(),
+      color:
+        projectRequest.color ??
+        PROJECT_COLORS[this._projects().length % PROJECT_COLORS.length],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this._nextId++;
+    const storedProject = await this.repository.create(newProject);
+    this._projects.update((projects) => [...projects, storedProject]);
+    return storedProject;
+  }
+
+  /**
+   * Actualizar un proyecto existente
+   *
+   * @param {string} id - El ID del proyecto a actualizar
+   * @param {UpdateProjectRequest} updateRequest - Los datos a actualizar
+   * @returns {Promise<Project | null>} Promise que se resuelve con el proyecto actualizado o null si no se encuentra
+   * @throws {ProjectValidationError} Si los datos a actualizar no son válidos
+   */
+  async updateProject(
+    id: string,
+    updateRequest: UpdateProjectRequest
+  ): Promise<Project | null> {
+    const errors = validateUpdateProjectRequest(updateRequest);
+    if (errors) {
+      throw new ProjectValidationError(errors);
+    }
+
+    await this.hydration;
+    const existingProject = this.getProject(id);
+    if (!existingProject) {
+      return null;
+    }
+
+    const storedProject = await this.repository.update({
+      ...existingProject,
+      ...updateRequest,
+      name: updateRequest.name?.trim() ?? existingProject.name,
+      updatedAt: new Date(),
+    });
+    this._projects.update((projects) =>
+      projects.map((p) => (p.id === id ? storedProject : p))
+    );
+    return storedProject;
+  }
+
+  /**
+   * Eliminar un proyecto, moviendo sus tareas a la bandeja de entrada
+   *
+   * @param {string} id - El ID del proyecto a eliminar
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó, false si no se encontró
+   */
+  async deleteProject(id: string): Promise<boolean> {
+    await this.hydration;
+    if (!this.getProject(id)) {
+      return false;
+    }
+
+    const projectTasks = [
+      ...this.taskService.tasks(),
+      ...this.taskService.trashedTasks(),
+    ].filter((task) => task.projectId === id);
+
+    for (const task of projectTasks) {
+      await this.taskService.moveTaskToProject(task.id, INBOX_PROJECT_ID);
+    }
+
+    await this.repository.delete(id);
+    this._projects.update((projects) => projects.filter((p) => p.id !== id));
+    return true;
+  }
+}
@@ -0,0 +1,74 @@
+import { InjectionToken, PLATFORM_ID, Provider, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { TaskActivity } from '../models/task-activity.model';
+import { TaskStorageBackend } from './task.repository';
+import { LocalStorageTaskActivityRepository } from './local-storage-task-activity.repository';
+import { InMemoryTaskActivityRepository } from './in-memory-task-activity.repository';
+import { HttpTaskActivityRepository } from './http-task-activity.repository';
+
+/**
+ * Contrato de Almacenamiento del Historial de Actividad
+ *
+ * Define las operaciones de persistencia que `TaskActivityService` utiliza.
+ * El historial es de solo adición: no hay operaciones para modificar ni
+ * eliminar eventos.
+ *
+ * @interface TaskActivityRepository
+ */
+export interface TaskActivityRepository {
+  /**
+   * Obtener los eventos de una tarea
+   * @param {string} taskId - El ID de la tarea
+   * @returns {Promise<TaskActivity[]>} Promise que se resuelve con los eventos, del más antiguo al más reciente
+   */
+  getByTask(taskId: string): Promise<TaskActivity[]>;
+
+  /**
+   * Añadir eventos al final del historial
+   * @param {TaskActivity[]} entries - Los eventos a guardar
+   * @returns {Promise<void>} Promise que se resuelve cuando los eventos están guardados
+   */
+  append(entries: TaskActivity[]): Promise<void>;
+}
+
+/**
+ * Token de inyección del almacenamiento del historial de actividad
+ *
+ * Por defecto usa localStorage en el navegador y memoria durante el renderizado
+ * en servidor. Puede sobrescribirse con `{ provide: TASK_ACTIVITY_REPOSITORY, useValue: ... }`.
+ */
+export const TASK_ACTIVITY_REPOSITORY = new InjectionToken<TaskActivityRepository>(
+  'TASK_ACTIVITY_REPOSITORY',
+  {
+    providedIn: 'root',
+    factory: () =>
+      isPlatformBrowser(inject(PLATFORM_ID))
+        ? new LocalStorageTaskActivityRepository()
+        : new InMemoryTaskActivityRepository(),
+  }
+);
+
+/**
+ * Registrar el almacenamiento del historial de actividad a usar por la aplicación
+ *
+ * Usa los mismos backends que `provideTaskRepository`; en el servidor (SSR)
+ * siempre se usa memoria.
+ *
+ * @param {TaskStorageBackend} backend - El backend de almacenamiento deseado
+ * @returns {Provider} Proveedor para el token `TASK_ACTIVITY_REPOSITORY`
+ */
+export function provideTaskActivityRepository(backend: TaskStorageBackend): Provider {
+  return {
+    provide: TASK_ACTIVITY_REPOSITORY,
+    useFactory: (): TaskActivityRepository => {
+      if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+        return new InMemoryTaskActivityRepository();
+      }
+
+      return backend === 'http'
+        ? new HttpTaskActivityRepository(inject(HttpClient))
+        : new LocalStorageTaskActivityRepository();
+    },
+  };
+}
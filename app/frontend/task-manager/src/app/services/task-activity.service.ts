@@ -0,0 +1,149 @@
+import { Injectable, InjectionToken, inject, signal } from '@angular/core';
+import {
+  TaskActivity,
+  TaskActivityDraft,
+} from '../models/task-activity.model';
+import { TASK_ACTIVITY_REPOSITORY } from './task-activity.repository';
+import { AuthService } from './auth.service';
+
+/**
+ * Nombre registrado como autor de los cambios cuando no hay sesión iniciada
+ */
+export const DEFAULT_TASK_ACTIVITY_ACTOR = 'Anónimo';
+
+/**
+ * Función que devuelve quién realiza los cambios, consultada en cada evento.
+ * Por defecto devuelve el nombre del usuario con sesión iniciada o
+ * `DEFAULT_TASK_ACTIVITY_ACTOR`; puede sobrescribirse con
+ * `{ provide: TASK_ACTIVITY_ACTOR, useValue: () => ... }`. La API sustituye
+ * el autor por el usuario de la sesión al guardar los eventos.
+ */
+export const TASK_ACTIVITY_ACTOR = new InjectionToken<() => string>(
+  'TASK_ACTIVITY_ACTOR',
+  {
+    providedIn: 'root',
+    factory: () => {
+      const auth = inject(AuthService);
+      return () => auth.user()?.displayName ?? DEFAULT_TASK_ACTIVITY_ACTOR;
+    },
+  }
+);
+
+/**
+ * Servicio del Historial de Actividad de Tareas
+ *
+ * Completa los eventos calculados por `TaskService` con su ID, autor y fecha y
+ * los añade al `TaskActivityRepository`. Las escrituras se encadenan para
+ * conservar el orden; si una falla, sus eventos se reintentan con la siguiente.
+ * Los eventos registrados en la sesión se publican en `recorded` para que el
+ * historial visible se actualice sin volver a consultar el almacenamiento.
+ *
+ * @class TaskActivityService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TaskActivityService {
+  /**
+   * Almacenamiento persistente del historial
+   * @private
+   */
+  private readonly repository = inject(TASK_ACTIVITY_REPOSITORY);
+
+  /**
+   * Función que identifica al autor de los cambios
+   * @private
+   */
+  private readonly getActor = inject(TASK_ACTIVITY_ACTOR);
+
+  /**
+   * Signal privada con los eventos registrados en esta sesión
+   * @private
+   */
+  private readonly _recorded = signal<TaskActivity[]>([]);
+
+  /**
+   * Eventos registrados en esta sesión, del más antiguo al más reciente
+   * @readonly
+   * @returns {Signal<TaskActivity[]>} Los eventos registrados
+   */
+  public readonly recorded = this._recorded.asReadonly();
+
+  /**
+   * Eventos que aún no se han guardado
+   * @private
+   */
+  private unsaved: TaskActivity[] = [];
+
+  /**
+   * Cola de escrituras pendientes en el almacenamiento
+   * @private
+   */
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Registrar eventos de actividad
+   *
+   * @param {TaskActivityDraft[]} drafts - Los eventos calculados
+   * @returns {Promise<void>} Promise que se resuelve cuando se intentó guardarlos
+   */
+  record(drafts: TaskActivityDraft[]): Promise<void> {
+    if (!drafts.length) {
+      return this.pendingWrite;
+    }
+
+    const actor = this.getActor();
+    const timestamp = new Date();
+    const entries = drafts.map(
+      (draft): TaskActivity => ({
+        ...draft,
+        id: `${timestamp.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        actor,
+        timestamp,
+      })
+    );
+
+    this._recorded.update((recorded) => [...recorded, ...entries]);
+    this.unsaved.push(...entries);
+
+    this.pendingWrite = this.pendingWrite.then(() => this.flush());
+    return this.pendingWrite;
+  }
+
+  /**
+   * Obtener el historial de una tarea, incluidos los eventos aún sin guardar
+   *
+   * @param {string} taskId - El ID de la tarea
+   * @returns {Promise<TaskActivity[]>} Promise que se resuelve con los eventos, del más antiguo al más reciente
+   */
+  async getTaskActivity(taskId: string): Promise<TaskActivity[]> {
+    const stored = await this.repository.getByTask(taskId);
+    const storedIds = new Set(stored.map((entry) => entry.id));
+    return [
+      ...stored,
+      ...this.unsaved.filter(
+        (entry) => entry.taskId === taskId && !storedIds.has(entry.id)
+      ),
+    ];
+  }
+
+  /**
+   * Guardar los eventos pendientes, conservándolos para reintentar si falla
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async flush(): Promise<void> {
+    const entries = this.unsaved;
+    if (!entries.length) {
+      return;
+    }
+
+    this.unsaved = [];
+    try {
+      await this.repository.append(entries);
+    } catch (error) {
+      console.error('Error saving task activity:', error);
+      this.unsaved = [...entries, ...this.unsaved];
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, catchError, firstValueFrom, map, throwError } from 'rxjs';
+import { Task, reviveTask } from '../models/task.model';
+import { getAttachmentMimeType } from '../models/task-attachment.model';
+import { TaskService } from './task.service';
+import {
+  TaskAttachmentValidationError,
+  TaskAttachmentValidationErrors,
+  validateTaskAttachmentUpload,
+} from '../validators/task-attachment.validator';
+
+/**
+ * Servicio de Archivos Adjuntos
+ *
+ * Sube, descarga y elimina los adjuntos de las tareas a través de la API
+ * `/api/tasks/:taskId/attachments` del servidor Express, que guarda los
+ * archivos en disco. Cada operación devuelve la tarea actualizada y la
+ * integra en `TaskService`.
+ *
+ * @class TaskAttachmentService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TaskAttachmentService {
+  /**
+   * Cliente HTTP de Angular
+   * @private
+   */
+  private readonly http = inject(HttpClient);
+
+  /**
+   * Servicio de tareas, donde se integran las tareas actualizadas
+   * @private
+   */
+  private readonly taskService = inject(TaskService);
+
+  /**
+   * URL base de la API de tareas
+   * @private
+   */
+  private readonly baseUrl = '/api/tasks';
+
+  /**
+   * Validar un archivo antes de adjuntarlo
+   *
+   * @param {File} file - El archivo elegido por el usuario
+   * @param {number} attachmentCount - Número de adjuntos que ya tendrá la tarea
+   * @returns {TaskAttachmentValidationErrors | null} Errores por campo, o null si es válido
+   */
+  validate(file: File, attachmentCount: number): TaskAttachmentValidationErrors | null {
+    return validateTaskAttachmentUpload(
+      { name: file.name, mimeType: getAttachmentMimeType(file.name, file.type), size: file.size },
+      attachmentCount
+    );
+  }
+
+  /**
+   * Obtener la URL de descarga de un adjunto
+   *
+   * @param {string} taskId - El ID de la tarea
+   * @param {string} attachmentId - El ID del adjunto
+   * @returns {string} La URL del archivo
+   */
+  getDownloadUrl(taskId: string, attachmentId: string): string {
+    return `${this.getAttachmentsUrl(taskId)}/${encodeURIComponent(attachmentId)}`;
+  }
+
+  /**
+   * Subir un archivo como adjunto de una tarea
+   *
+   * @param {Task} task - La tarea
+   * @param {File} file - El archivo a subir
+   * @returns {Promise<Task>} Promise que se resuelve con la tarea actualizada
+   * @throws {TaskAttachmentValidationError} Si el archivo no es válido
+   */
+  async upload(task: Task, file: File): Promise<Task> {
+    const errors = this.validate(file, task.attachments?.length ?? 0);
+    if (errors) {
+      throw new TaskAttachmentValidationError(errors);
+    }
+
+    const updatedTask = await firstValueFrom(
+      this.http
+        .post<Task>(this.getAttachmentsUrl(task.id), file, {
+          headers: {
+            'Content-Type': getAttachmentMimeType(file.name, file.type),
+            'X-File-Name': encodeURIComponent(file.name),
+          },
+        })
+        .pipe(map(reviveTask), this.mapValidationErrors())
+    );
+    this.taskService.applyServerTask(updatedTask);
+    return updatedTask;
+  }
+
+  /**
+   * Eliminar un adjunto de una tarea
+   *
+   * @param {string} taskId - El ID de la tarea
+   * @param {string} attachmentId - El ID del adjunto
+   * @returns {Promise<Task>} Promise que se resuelve con la tarea actualizada
+   */
+  async delete(taskId: string, attachmentId: string): Promise<Task> {
+    const updatedTask = await firstValueFrom(
+      this.http
+        .delete<Task>(this.getDownloadUrl(taskId, attachmentId))
+        .pipe(map(reviveTask))
+    );
+    this.taskService.applyServerTask(updatedTask);
+    return updatedTask;
+  }
+
+  /**
+   * URL de los adjuntos de una tarea
+   * @private
+   * @param {string} taskId - El ID de la tarea
+   * @returns {string} La URL de la colección de adjuntos
+   */
+  private getAttachmentsUrl(taskId: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(taskId)}/attachments`;
+  }
+
+  /**
+   * Operador que convierte las respuestas 400 y 413 de la API en `TaskAttachmentValidationError`
+   * @private
+   * @returns {(source: Observable<T>) => Observable<T>} Operador de RxJS
+   */
+  private mapValidationErrors<T>(): (source: Observable<T>) => Observable<T> {
+    return catchError((error: unknown) =>
+      throwError(() =>
+        error instanceof HttpErrorResponse &&
+        (error.status === 400 || error.status === 413) &&
+        error.error?.errors
+          ? new TaskAttachmentValidationError(error.error.errors)
+          : error
+      )
+    );
+  }
+}
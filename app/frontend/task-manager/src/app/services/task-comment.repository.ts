@@ -0,0 +1,86 @@
+import { InjectionToken, PLATFORM_ID, Provider, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { TaskComment } from '../models/task-comment.model';
+import { TaskStorageBackend } from './task.repository';
+import { LocalStorageTaskCommentRepository } from './local-storage-task-comment.repository';
+import { InMemoryTaskCommentRepository } from './in-memory-task-comment.repository';
+import { HttpTaskCommentRepository } from './http-task-comment.repository';
+
+/**
+ * Contrato de Almacenamiento de Comentarios
+ *
+ * Define las operaciones de persistencia que `TaskCommentService` utiliza para
+ * hidratar su estado y escribir cada mutación.
+ *
+ * @interface TaskCommentRepository
+ */
+export interface TaskCommentRepository {
+  /**
+   * Obtener todos los comentarios visibles para el usuario
+   * @returns {Promise<TaskComment[]>} Promise que se resuelve con los comentarios persistidos
+   */
+  getAll(): Promise<TaskComment[]>;
+
+  /**
+   * Persistir un comentario nuevo
+   * @param {TaskComment} comment - El comentario a guardar
+   * @returns {Promise<TaskComment>} Promise que se resuelve con el comentario tal como quedó almacenado
+   */
+  create(comment: TaskComment): Promise<TaskComment>;
+
+  /**
+   * Persistir el texto editado de un comentario existente
+   * @param {TaskComment} comment - El comentario con su texto actualizado
+   * @returns {Promise<TaskComment>} Promise que se resuelve con el comentario tal como quedó almacenado
+   */
+  update(comment: TaskComment): Promise<TaskComment>;
+
+  /**
+   * Eliminar un comentario por ID
+   * @param {string} id - El ID del comentario a eliminar
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Token de inyección del almacenamiento de comentarios
+ *
+ * Por defecto usa localStorage en el navegador y memoria durante el renderizado
+ * en servidor. Puede sobrescribirse con `{ provide: TASK_COMMENT_REPOSITORY, useValue: ... }`.
+ */
+export const TASK_COMMENT_REPOSITORY = new InjectionToken<TaskCommentRepository>(
+  'TASK_COMMENT_REPOSITORY',
+  {
+    providedIn: 'root',
+    factory: () =>
+      isPlatformBrowser(inject(PLATFORM_ID))
+        ? new LocalStorageTaskCommentRepository()
+        : new InMemoryTaskCommentRepository(),
+  }
+);
+
+/**
+ * Registrar el almacenamiento de comentarios a usar por la aplicación
+ *
+ * Usa los mismos backends que `provideTaskRepository`; en el servidor (SSR)
+ * siempre se usa memoria.
+ *
+ * @param {TaskStorageBackend} backend - El backend de almacenamiento deseado
+ * @returns {Provider} Proveedor para el token `TASK_COMMENT_REPOSITORY`
+ */
+export function provideTaskCommentRepository(backend: TaskStorageBackend): Provider {
+  return {
+    provide: TASK_COMMENT_REPOSITORY,
+    useFactory: (): TaskCommentRepository => {
+      if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+        return new InMemoryTaskCommentRepository();
+      }
+
+      return backend === 'http'
+        ? new HttpTaskCommentRepository(inject(HttpClient))
+        : new LocalStorageTaskCommentRepository();
+    },
+  };
+}
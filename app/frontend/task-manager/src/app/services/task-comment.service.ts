@@ -0,0 +1,206 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { TaskComment } from '../models/task-comment.model';
+import { TASK_COMMENT_REPOSITORY } from './task-comment.repository';
+import { AuthService } from './auth.service';
+import { DEFAULT_TASK_ACTIVITY_ACTOR } from './task-activity.service';
+import {
+  TaskCommentValidationError,
+  validateCreateTaskCommentRequest,
+  validateUpdateTaskCommentRequest,
+} from '../validators/task-comment.validator';
+
+/**
+ * Servicio de Comentarios de Tareas
+ *
+ * Gestiona la conversación de cada tarea con Angular Signals. El estado se
+ * hidrata desde el `TaskCommentRepository` inyectado y cada mutación se
+ * escribe en él. Solo el autor de un comentario puede editarlo o eliminarlo.
+ *
+ * @class TaskCommentService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TaskCommentService {
+  /**
+   * Almacenamiento persistente de los comentarios
+   * @private
+   */
+  private readonly repository = inject(TASK_COMMENT_REPOSITORY);
+
+  /**
+   * Servicio de autenticación, para conocer el autor de los comentarios
+   * @private
+   */
+  private readonly auth = inject(AuthService);
+
+  /**
+   * Signal privada que contiene todos los comentarios
+   * @private
+   */
+  private readonly _comments = signal<TaskComment[]>([]);
+
+  /**
+   * Todos los comentarios, del más antiguo al más reciente
+   * @readonly
+   * @returns {Signal<TaskComment[]>} Los comentarios
+   */
+  public readonly comments = computed(() =>
+    [...this._comments()].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  );
+
+  /**
+   * Signal computada con el número de comentarios de cada tarea
+   * @readonly
+   * @returns {Signal<Map<string, number>>} Comentarios por ID de tarea
+   */
+  public readonly commentCounts = computed(() => {
+    const counts = new Map<string, number>();
+    this._comments().forEach((comment) =>
+      counts.set(comment.taskId, (counts.get(comment.taskId) ?? 0) + 1)
+    );
+    return counts;
+  });
+
+  /**
+   * Promise de la carga inicial desde el almacenamiento
+   * @private
+   */
+  private hydration: Promise<void>;
+
+  constructor() {
+    this.hydration = this.hydrate();
+  }
+
+  /**
+   * Volver a cargar los comentarios, para ver los escritos por otros usuarios
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando los comentarios están cargados
+   */
+  refresh(): Promise<void> {
+    this.hydration = this.hydration.then(() => this.hydrate());
+    return this.hydration;
+  }
+
+  /**
+   * Obtener los comentarios de una tarea
+   *
+   * @param {string} taskId - El ID de la tarea
+   * @returns {TaskComment[]} Sus comentarios, del más antiguo al más reciente
+   */
+  getTaskComments(taskId: string): TaskComment[] {
+    return this.comments().filter((comment) => comment.taskId === taskId);
+  }
+
+  /**
+   * Obtener el número de comentarios de una tarea
+   *
+   * @param {string} taskId - El ID de la tarea
+   * @returns {number} Número de comentarios
+   */
+  getCommentCount(taskId: string): number {
+    return this.commentCounts().get(taskId) ?? 0;
+  }
+
+  /**
+   * Indicar si el usuario actual puede editar o eliminar un comentario
+   *
+   * @param {TaskComment} comment - El comentario
+   * @returns {boolean} true si es su autor
+   */
+  canModify(comment: TaskComment): boolean {
+    return comment.authorId === this.auth.user()?.id;
+  }
+
+  /**
+   * Comentar una tarea
+   *
+   * @param {string} taskId - El ID de la tarea
+   * @param {string} text - El texto del comentario
+   * @returns {Promise<TaskComment>} Promise que se resuelve con el comentario creado
+   * @throws {TaskCommentValidationError} Si el texto no es válido
+   */
+  async addComment(taskId: string, text: string): Promise<TaskComment> {
+    const errors = validateCreateTaskCommentRequest({ taskId, text });
+    if (errors) {
+      throw new TaskCommentValidationError(errors);
+    }
+
+    await this.hydration;
+    const user = this.auth.user();
+    const now = new Date();
+    const storedComment = await this.repository.create({
+      id: `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      taskId,
+      text: text.trim(),
+      author: user?.displayName ?? DEFAULT_TASK_ACTIVITY_ACTOR,
+      authorId: user?.id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this._comments.update((comments) => [...comments, storedComment]);
+    return storedComment;
+  }
+
+  /**
+   * Editar el texto de un comentario propio
+   *
+   * @param {string} id - El ID del comentario
+   * @param {string} text - El nuevo texto
+   * @returns {Promise<TaskComment | null>} Promise que se resuelve con el comentario editado, o null si no existe o es de otro usuario
+   * @throws {TaskCommentValidationError} Si el texto no es válido
+   */
+  async updateComment(id: string, text: string): Promise<TaskComment | null> {
+    const errors = validateUpdateTaskCommentRequest({ text });
+    if (errors) {
+      throw new TaskCommentValidationError(errors);
+    }
+
+    await this.hydration;
+    const existingComment = this._comments().find((comment) => comment.id === id);
+    if (!existingComment || !this.canModify(existingComment)) {
+      return null;
+    }
+
+    const storedComment = await this.repository.update({
+      ...existingComment,
+      text: text.trim(),
+      updatedAt: new Date(),
+    });
+    this._comments.update((comments) =>
+      comments.map((comment) => (comment.id === id ? storedComment : comment))
+    );
+    return storedComment;
+  }
+
+  /**
+   * Eliminar un comentario propio
+   *
+   * @param {string} id - El ID del comentario
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó
+   */
+  async deleteComment(id: string): Promise<boolean> {
+    await this.hydration;
+    const existingComment = this._comments().find((comment) => comment.id === id);
+    if (!existingComment || !this.canModify(existingComment)) {
+      return false;
+    }
+
+    const deleted = await this.repository.delete(id);
+    this._comments.update((comments) => comments.filter((comment) => comment.id !== id));
+    return deleted;
+  }
+
+  /**
+   * Cargar los comentarios persistidos en el estado del servicio
+   * @private
+   * @returns {Promise<void>} Promise que se resuelve cuando los comentarios están cargados
+   */
+  private async hydrate(): Promise<void> {
+    try {
+      this._comments.set(await this.repository.getAll());
+    } catch (error) {
+      console.error('Error loading task comments:', error);
+    }
+  }
+}
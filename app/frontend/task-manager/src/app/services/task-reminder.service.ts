@@ -0,0 +1,307 @@
+import {
+  DestroyRef,
+  Injectable,
+  InjectionToken,
+  NgZone,
+  PLATFORM_ID,
+  inject,
+  signal,
+} from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { getTaskDeadline } from '../models/task.model';
+import { DueTaskReminder } from '../models/task-reminder.model';
+import { TaskService } from './task.service';
+
+/**
+ * Milisegundos entre cada revisión de recordatorios y vencimientos.
+ * Por defecto 30 segundos; puede sobrescribirse con `{ provide: TASK_REMINDER_CHECK_INTERVAL_MS, useValue: ... }`.
+ */
+export const TASK_REMINDER_CHECK_INTERVAL_MS = new InjectionToken<number>(
+  'TASK_REMINDER_CHECK_INTERVAL_MS',
+  { providedIn: 'root', factory: () => 30000 }
+);
+
+/**
+ * Clave de localStorage de los recordatorios ya mostrados
+ */
+const FIRED_REMINDERS_STORAGE_KEY = 'task-manager.fired-reminders';
+
+/**
+ * Margen para mostrar un recordatorio cuya hora pasó con la aplicación cerrada
+ * (si la tarea ya venció)
+ */
+const MISSED_REMINDER_GRACE_MS = 15 * 60000;
+
+/**
+ * Estado del permiso de notificaciones del navegador
+ */
+export type ReminderNotificationPermission = NotificationPermission | 'unsupported';
+
+/**
+ * Servicio de Recordatorios de Tareas
+ *
+ * Revisa periódicamente las tareas pendientes y, cuando llega la hora de un
+ * recordatorio, lo muestra como notificación del navegador (si el usuario dio
+ * permiso) o como aviso emergente dentro de la aplicación. Cada recordatorio se
+ * muestra una sola vez por fecha de vencimiento, también entre recargas.
+ *
+ * Expone además la hora actual como signal, actualizada en cada revisión, para
+ * que el estado de vencimiento de las tareas se reevalúe sin esperar a otro cambio.
+ * Solo funciona en el navegador; `start()` no hace nada durante el renderizado en servidor.
+ *
+ * @class TaskReminderService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TaskReminderService {
+  /**
+   * Servicio de tareas del que se leen los recordatorios
+   * @private
+   */
+  private readonly taskService = inject(TaskService);
+
+  /**
+   * Servicio de avisos emergentes, usado si no hay permiso de notificaciones
+   * @private
+   */
+  private readonly snackBar = inject(MatSnackBar);
+
+  /**
+   * Zona de Angular, para que el temporizador no impida la estabilidad de la aplicación
+   * @private
+   */
+  private readonly ngZone = inject(NgZone);
+
+  /**
+   * Indica si el servicio se ejecuta en el navegador
+   * @private
+   */
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  /**
+   * Milisegundos entre revisiones
+   * @private
+   */
+  private readonly checkIntervalMs = inject(TASK_REMINDER_CHECK_INTERVAL_MS);
+
+  /**
+   * Signal privada con la hora de la última revisión
+   * @private
+   */
+  private readonly _now = signal(new Date());
+
+  /**
+   * Hora actual, actualizada en cada revisión
+   * @readonly
+   * @returns {Signal<Date>} La hora de la última revisión
+   */
+  public readonly now = this._now.asReadonly();
+
+  /**
+   * Signal privada con el permiso de notificaciones
+   * @private
+   */
+  private readonly _notificationPermission =
+    signal<ReminderNotificationPermission>('unsupported');
+
+  /**
+   * Permiso de notificaciones del navegador
+   * @readonly
+   * @returns {Signal<ReminderNotificationPermission>} `granted`, `denied`, `default` o `unsupported`
+   */
+  public readonly notificationPermission =
+    this._notificationPermission.asReadonly();
+
+  /**
+   * Claves de los recordatorios ya mostrados
+   * @private
+   */
+  private firedKeys = new Set<string>();
+
+  /**
+   * Temporizador de revisión activo
+   * @private
+   */
+  private timerId: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.stop());
+  }
+
+  /**
+   * Empezar a revisar recordatorios periódicamente
+   *
+   * @returns {void}
+   */
+  start(): void {
+    if (!this.isBrowser || this.timerId !== null) {
+      return;
+    }
+
+    this.firedKeys = new Set(readFiredKeys());
+    this._notificationPermission.set(
+      'Notification' in window ? Notification.permission : 'unsupported'
+    );
+
+    this.ngZone.runOutsideAngular(() => {
+      this.timerId = setInterval(
+        () => this.ngZone.run(() => this.check()),
+        this.checkIntervalMs
+      );
+    });
+    this.check();
+  }
+
+  /**
+   * Dejar de revisar recordatorios
+   *
+   * @returns {void}
+   */
+  stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  /**
+   * Pedir permiso al usuario para mostrar notificaciones del navegador
+   *
+   * @returns {Promise<ReminderNotificationPermission>} Promise que se resuelve con el permiso resultante
+   */
+  async requestNotificationPermission(): Promise<ReminderNotificationPermission> {
+    if (!this.isBrowser || !('Notification' in window)) {
+      return 'unsupported';
+    }
+
+    const permission = await Notification.requestPermission();
+    this._notificationPermission.set(permission);
+    return permission;
+  }
+
+  /**
+   * Actualizar la hora y mostrar los recordatorios que llegaron a su hora
+   * @private
+   * @returns {void}
+   */
+  private check(): void {
+    const now = new Date();
+    this._now.set(now);
+
+    const dueReminders = this.collectDueReminders(now);
+    if (!dueReminders.length) {
+      return;
+    }
+
+    dueReminders.forEach((reminder) => {
+      this.firedKeys.add(getReminderKey(reminder));
+      this.notify(reminder);
+    });
+    this.saveFiredKeys();
+  }
+
+  /**
+   * Obtener los recordatorios de tareas pendientes cuya hora ya llegó y no se mostraron
+   *
+   * Un recordatorio se muestra si su hora pasó y la tarea aún no venció, o si
+   * pasó hace menos de `MISSED_REMINDER_GRACE_MS`.
+   *
+   * @private
+   * @param {Date} now - La hora actual
+   * @returns {DueTaskReminder[]} Los recordatorios a mostrar
+   */
+  private collectDueReminders(now: Date): DueTaskReminder[] {
+    return this.taskService
+      .tasks()
+      .filter((task) => !task.completed && task.reminders?.length)
+      .flatMap((task) => {
+        const deadline = getTaskDeadline(task);
+        if (!deadline) {
+          return [];
+        }
+
+        return task.reminders!.map((minutesBefore) => ({
+          taskId: task.id,
+          title: task.title,
+          minutesBefore,
+          deadline,
+        }));
+      })
+      .filter((reminder) => {
+        const firesAt = reminder.deadline.getTime() - reminder.minutesBefore * 60000;
+        return (
+          firesAt <= now.getTime() &&
+          (now.getTime() <= reminder.deadline.getTime() ||
+            now.getTime() - firesAt <= MISSED_REMINDER_GRACE_MS) &&
+          !this.firedKeys.has(getReminderKey(reminder))
+        );
+      });
+  }
+
+  /**
+   * Mostrar un recordatorio como notificación del navegador o aviso emergente
+   * @private
+   * @param {DueTaskReminder} reminder - El recordatorio
+   * @returns {void}
+   */
+  private notify(reminder: DueTaskReminder): void {
+    const message = `"${reminder.title}" vence el ${reminder.deadline.toLocaleString(
+      'es-ES',
+      { dateStyle: 'short', timeStyle: 'short' }
+    )}`;
+
+    if (this._notificationPermission() === 'granted') {
+      new Notification('Recordatorio de tarea', {
+        body: message,
+        tag: getReminderKey(reminder),
+      });
+    } else {
+      this.snackBar.open(`Recordatorio: ${message}`, 'Cerrar', {
+        duration: 10000,
+      });
+    }
+  }
+
+  /**
+   * Guardar los recordatorios mostrados, descartando los de tareas que ya no existen
+   * @private
+   * @returns {void}
+   */
+  private saveFiredKeys(): void {
+    const taskIds = new Set(this.taskService.tasks().map((task) => task.id));
+    this.firedKeys = new Set(
+      [...this.firedKeys].filter((key) => taskIds.has(key.split('|')[0]))
+    );
+    localStorage.setItem(
+      FIRED_REMINDERS_STORAGE_KEY,
+      JSON.stringify([...this.firedKeys])
+    );
+  }
+}
+
+/**
+ * Obtener la clave que identifica un recordatorio para una fecha de vencimiento
+ *
+ * @param {DueTaskReminder} reminder - El recordatorio
+ * @returns {string} Clave `taskId|minutos|vencimiento`
+ */
+function getReminderKey(reminder: DueTaskReminder): string {
+  return `${reminder.taskId}|${reminder.minutesBefore}|${reminder.deadline.toISOString()}`;
+}
+
+/**
+ * Leer de localStorage los recordatorios ya mostrados
+ *
+ * @returns {string[]} Claves de los recordatorios mostrados
+ */
+function readFiredKeys(): string[] {
+  try {
+    return JSON.parse(
+      localStorage.getItem(FIRED_REMINDERS_STORAGE_KEY) ?? '[]'
+    ) as string[];
+  } catch {
+    return [];
+  }
+}
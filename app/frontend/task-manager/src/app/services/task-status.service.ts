@@ -0,0 +1,252 @@
+import {
+  Injectable,
+  InjectionToken,
+  PLATFORM_ID,
+  computed,
+  inject,
+  signal,
+} from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Task } from '../models/task.model';
+import {
+  DEFAULT_TASK_STATUSES,
+  TaskStatus,
+  resolveTaskStatus,
+} from '../models/task-status.model';
+
+/**
+ * Estados iniciales del tablero, usados mientras el usuario no los personalice.
+ * Puede sobrescribirse con `{ provide: TASK_STATUSES, useValue: [...] }`; debe
+ * incluir al menos un estado pendiente y uno completado.
+ */
+export const TASK_STATUSES = new InjectionToken<ReadonlyArray<TaskStatus>>(
+  'TASK_STATUSES',
+  { providedIn: 'root', factory: () => DEFAULT_TASK_STATUSES }
+);
+
+/**
+ * Clave de localStorage de los estados personalizados
+ */
+const TASK_STATUSES_STORAGE_KEY = 'task-manager.task-statuses';
+
+/**
+ * Servicio de Estados de Tarea
+ *
+ * Gestiona los estados (columnas del tablero) configurados por el usuario:
+ * su nombre, orden, si corresponden a tareas completadas y su límite de trabajo
+ * en curso. Los cambios se guardan en localStorage. Siempre hay al menos un
+ * estado pendiente y uno completado, de modo que cualquier tarea tiene un
+ * estado coherente con `completed`.
+ *
+ * @class TaskStatusService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TaskStatusService {
+  /**
+   * Indica si el servicio se ejecuta en el navegador
+   * @private
+   */
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  /**
+   * Estados iniciales configurados
+   * @private
+   */
+  private readonly defaultStatuses = inject(TASK_STATUSES);
+
+  /**
+   * Signal privada con los estados
+   * @private
+   */
+  private readonly _statuses = signal<TaskStatus[]>(this.loadStatuses());
+
+  /**
+   * Estados del tablero, en orden de columnas
+   * @readonly
+   * @returns {Signal<TaskStatus[]>} Los estados configurados
+   */
+  public readonly statuses = this._statuses.asReadonly();
+
+  /**
+   * Estado asignado al reabrir una tarea (el primer estado pendiente)
+   * @readonly
+   * @returns {Signal<TaskStatus>} El estado pendiente predeterminado
+   */
+  public readonly defaultOpenStatus = computed(
+    () => this._statuses().find((status) => !status.done)!
+  );
+
+  /**
+   * Estado asignado al completar una tarea (el primer estado completado)
+   * @readonly
+   * @returns {Signal<TaskStatus>} El estado completado predeterminado
+   */
+  public readonly defaultDoneStatus = computed(
+    () => this._statuses().find((status) => status.done)!
+  );
+
+  /**
+   * Obtener el estado de una tarea, coherente con su completado
+   *
+   * @param {Task} task - La tarea
+   * @returns {TaskStatus} El estado de la tarea
+   */
+  getTaskStatus(task: Task): TaskStatus {
+    return resolveTaskStatus(task, this._statuses());
+  }
+
+  /**
+   * Obtener un estado por su ID
+   *
+   * @param {string} id - El ID del estado
+   * @returns {TaskStatus | undefined} El estado, o undefined si no existe
+   */
+  getStatus(id: string): TaskStatus | undefined {
+    return this._statuses().find((status) => status.id === id);
+  }
+
+  /**
+   * Agregar un estado al final del tablero
+   *
+   * @param {string} label - Nombre del estado
+   * @param {boolean} done - Si las tareas en este estado están completadas
+   * @returns {TaskStatus} El estado creado
+   */
+  addStatus(label: string, done = false): TaskStatus {
+    const status: TaskStatus = {
+      id: `status-${Date.now().toString(36)}`,
+      label,
+      done,
+    };
+    this.saveStatuses([...this._statuses(), status]);
+    return status;
+  }
+
+  /**
+   * Modificar el nombre, el tipo o el límite de trabajo en curso de un estado
+   *
+   * @param {string} id - El ID del estado
+   * @param {{ label?: string; done?: boolean; wipLimit?: number | null }} changes - Los cambios (`wipLimit: null` quita el límite)
+   * @returns {boolean} True si se modificó; false si no existe o dejaría el tablero sin estados pendientes o completados
+   */
+  updateStatus(
+    id: string,
+    changes: { label?: string; done?: boolean; wipLimit?: number | null }
+  ): boolean {
+    const { wipLimit, ...rest } = changes;
+    const statuses = this._statuses().map((status) =>
+      status.id === id
+        ? {
+            ...status,
+            ...rest,
+            wipLimit: wipLimit === undefined ? status.wipLimit : wipLimit ?? undefined,
+          }
+        : status
+    );
+    return this.saveStatuses(statuses);
+  }
+
+  /**
+   * Desplazar un estado una posición a la izquierda o a la derecha
+   *
+   * @param {string} id - El ID del estado
+   * @param {number} step - -1 para moverlo a la izquierda, 1 a la derecha
+   * @returns {void}
+   */
+  moveStatus(id: string, step: number): void {
+    const statuses = [...this._statuses()];
+    const index = statuses.findIndex((status) => status.id === id);
+    const target = index + step;
+    if (index < 0 || target < 0 || target >= statuses.length) {
+      return;
+    }
+
+    [statuses[index], statuses[target]] = [statuses[target], statuses[index]];
+    this.saveStatuses(statuses);
+  }
+
+  /**
+   * Eliminar un estado
+   *
+   * Sus tareas pasan al estado predeterminado según estén completadas o no.
+   *
+   * @param {string} id - El ID del estado
+   * @returns {boolean} True si se eliminó; false si no existe o era el último pendiente o completado
+   */
+  removeStatus(id: string): boolean {
+    return this.saveStatuses(
+      this._statuses().filter((status) => status.id !== id)
+    );
+  }
+
+  /**
+   * Restablecer los estados iniciales
+   *
+   * @returns {void}
+   */
+  resetStatuses(): void {
+    this._statuses.set([...this.defaultStatuses]);
+    if (this.isBrowser) {
+      localStorage.removeItem(TASK_STATUSES_STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Publicar y guardar una nueva lista de estados si es válida
+   * @private
+   * @param {TaskStatus[]} statuses - Los nuevos estados
+   * @returns {boolean} True si se guardaron; false si no cambian o no hay estados pendientes o completados
+   */
+  private saveStatuses(statuses: TaskStatus[]): boolean {
+    const current = this._statuses();
+    const unchanged =
+      statuses.length === current.length &&
+      statuses.every((status, i) => status === current[i]);
+    if (unchanged || !isValidStatusList(statuses)) {
+      return false;
+    }
+
+    this._statuses.set(statuses);
+    if (this.isBrowser) {
+      localStorage.setItem(TASK_STATUSES_STORAGE_KEY, JSON.stringify(statuses));
+    }
+    return true;
+  }
+
+  /**
+   * Leer los estados guardados, o los iniciales si no hay o no son válidos
+   * @private
+   * @returns {TaskStatus[]} Los estados
+   */
+  private loadStatuses(): TaskStatus[] {
+    if (this.isBrowser) {
+      try {
+        const stored = JSON.parse(
+          localStorage.getItem(TASK_STATUSES_STORAGE_KEY) ?? 'null'
+        ) as TaskStatus[] | null;
+        if (stored && isValidStatusList(stored)) {
+          return stored;
+        }
+      } catch {
+        // Estados guardados ilegibles: se usan los iniciales
+      }
+    }
+    return [...this.defaultStatuses];
+  }
+}
+
+/**
+ * Verificar que una lista de estados tenga al menos uno pendiente y uno completado
+ *
+ * @param {TaskStatus[]} statuses - Los estados
+ * @returns {boolean} True si la lista es utilizable
+ */
+function isValidStatusList(statuses: TaskStatus[]): boolean {
+  return (
+    Array.isArray(statuses) &&
+    statuses.some((status) => !status.done) &&
+    statuses.some((status) => status.done)
+  );
+}
@@ -0,0 +1,192 @@
+import {
+  InjectionToken,
+  PLATFORM_ID,
+  Provider,
+  Signal,
+  inject,
+} from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { Task } from '../models/task.model';
+import { TaskChangeEvent } from '../models/task-event.model';
+import {
+  TaskConflict,
+  TaskConflictPolicy,
+  TaskConflictResolution,
+} from '../models/task-sync.model';
+import { LocalStorageTaskRepository } from './local-storage-task.repository';
+import { InMemoryTaskRepository } from './in-memory-task.repository';
+import { HttpTaskRepository } from './http-task.repository';
+import { OfflineTaskRepository } from './offline-task.repository';
+
+/**
+ * Contrato de Almacenamiento de Tareas
+ *
+ * Define las operaciones de persistencia que `TaskService` utiliza para hidratar
+ * su estado y escribir cada mutación. Permite intercambiar el backend de
+ * almacenamiento (navegador, memoria, HTTP) sin modificar el servicio.
+ *
+ * @interface TaskRepository
+ */
+export interface TaskRepository {
+  /**
+   * Obtener todas las tareas almacenadas
+   * @returns {Promise<Task[]>} Promise que se resuelve con las tareas persistidas
+   */
+  getAll(): Promise<Task[]>;
+
+  /**
+   * Persistir una tarea nueva
+   * @param {Task} task - La tarea a guardar
+   * @returns {Promise<Task>} Promise que se resuelve con la tarea tal como quedó almacenada
+   */
+  create(task: Task): Promise<Task>;
+
+  /**
+   * Persistir los cambios de una tarea existente
+   * @param {Task} task - La tarea con sus valores actualizados
+   * @returns {Promise<Task>} Promise que se resuelve con la tarea tal como quedó almacenada
+   */
+  update(task: Task): Promise<Task>;
+
+  /**
+   * Eliminar una tarea por ID
+   * @param {string} id - El ID de la tarea a eliminar
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Eliminar todas las tareas almacenadas
+   * @returns {Promise<void>}
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Flujo opcional de cambios realizados por otros clientes
+   *
+   * Los backends compartidos lo implementan para que `TaskService` mantenga
+   * su estado sincronizado sin recargar.
+   *
+   * @returns {Observable<TaskChangeEvent>} Observable de cambios remotos
+   */
+  changes?(): Observable<TaskChangeEvent>;
+
+  /**
+   * Número opcional de mutaciones pendientes de sincronizar con el servidor
+   * @type {Signal<number> | undefined}
+   */
+  readonly pendingCount?: Signal<number>;
+
+  /**
+   * Conflictos de sincronización que requieren una decisión del usuario
+   * @type {Signal<TaskConflict[]> | undefined}
+   */
+  readonly conflicts?: Signal<TaskConflict[]>;
+
+  /**
+   * Estado de conexión con el servidor
+   * @type {Signal<boolean> | undefined}
+   */
+  readonly isOnline?: Signal<boolean>;
+
+  /**
+   * Resolver un conflicto de sincronización
+   * @param {string} conflictId - ID del conflicto
+   * @param {TaskConflictResolution} resolution - Versión a conservar
+   * @returns {Promise<void>}
+   */
+  resolveConflict?(
+    conflictId: string,
+    resolution: TaskConflictResolution
+  ): Promise<void>;
+}
+
+/**
+ * Token de inyección del almacenamiento de tareas
+ *
+ * Por defecto usa localStorage en el navegador y memoria durante el renderizado
+ * en servidor. Puede sobrescribirse con `{ provide: TASK_REPOSITORY, useValue: ... }`.
+ */
+export const TASK_REPOSITORY = new InjectionToken<TaskRepository>(
+  'TASK_REPOSITORY',
+  {
+    providedIn: 'root',
+    factory: () =>
+      isPlatformBrowser(inject(PLATFORM_ID))
+        ? new LocalStorageTaskRepository()
+        : new InMemoryTaskRepository(),
+  }
+);
+
+/**
+ * Token de inyección del almacenamiento anterior de tareas
+ *
+ * Si se indica, `TaskService.importLegacyTasks()` traslada sus tareas al
+ * almacenamiento actual y lo vacía. `provideTaskRepository('http')` lo registra
+ * con el localStorage del navegador, donde se guardaban las tareas antes de
+ * usar la API; por defecto no hay ninguno.
+ */
+export const LEGACY_TASK_REPOSITORY = new InjectionToken<TaskRepository | null>(
+  'LEGACY_TASK_REPOSITORY',
+  {
+    providedIn: 'root',
+    factory: () => null,
+  }
+);
+
+/**
+ * Backends de almacenamiento disponibles para `TaskService`
+ *
+ * - `local`: localStorage del navegador, lista privada de cada navegador
+ * - `http`: API REST `/api/tasks` del servidor, lista compartida entre usuarios,
+ *   con cola de cambios sin conexión
+ */
+export type TaskStorageBackend = 'local' | 'http';
+
+/**
+ * Registrar el almacenamiento de tareas a usar por la aplicación
+ *
+ * En el servidor (SSR) siempre se usa memoria, ya que no hay navegador ni
+ * necesidad de consultar la API durante el prerenderizado.
+ * El modo `http` requiere `provideHttpClient()` y registra además el
+ * localStorage como `LEGACY_TASK_REPOSITORY`, para importar las tareas que
+ * se guardaron en el navegador con el modo `local`.
+ *
+ * @param {TaskStorageBackend} backend - El backend de almacenamiento deseado
+ * @param {TaskConflictPolicy} conflictPolicy - Política de conflictos al sincronizar cambios sin conexión (modo `http`)
+ * @returns {Provider[]} Proveedores para los tokens `TASK_REPOSITORY` y `LEGACY_TASK_REPOSITORY`
+ */
+export function provideTaskRepository(
+  backend: TaskStorageBackend,
+  conflictPolicy: TaskConflictPolicy = 'last-writer-wins'
+): Provider[] {
+  const taskRepository: Provider = {
+    provide: TASK_REPOSITORY,
+    useFactory: (): TaskRepository => {
+      if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+        return new InMemoryTaskRepository();
+      }
+
+      return backend === 'http'
+        ? new OfflineTaskRepository(
+            new HttpTaskRepository(inject(HttpClient)),
+            conflictPolicy
+          )
+        : new LocalStorageTaskRepository();
+    },
+  };
+  if (backend !== 'http') {
+    return [taskRepository];
+  }
+
+  return [
+    taskRepository,
+    {
+      provide: LEGACY_TASK_REPOSITORY,
+      useFactory: (): TaskRepository | null =>
+        isPlatformBrowser(inject(PLATFORM_ID)) ? new LocalStorageTaskRepository() : null,
+    },
+  ];
+}
@@ -0,0 +1,195 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { Observable, Subject } from 'rxjs';
+import { Task } from '../models/task.model';
+import { TaskChangeEvent } from '../models/task-event.model';
+import { InMemoryTaskActivityRepository } from './in-memory-task-activity.repository';
+import { InMemoryTaskRepository } from './in-memory-task.repository';
+import { TASK_ACTIVITY_REPOSITORY } from './task-activity.repository';
+import { TASK_REPOSITORY } from './task.repository';
+import { TaskService } from './task.service';
+
+describe('TaskService history', () => {
+  let repository: InMemoryTaskRepository;
+  let service: TaskService;
+  let first: Task;
+  let second: Task;
+
+  /**
+   * Comprobar si una tarea está en la papelera
+   *
+   * @param {Task} task - La tarea a buscar
+   * @returns {boolean} true si la tarea está en la papelera
+   */
+  function isTrashed(task: Task): boolean {
+    return service.trashedTasks().some((trashed) => trashed.id === task.id);
+  }
+
+  beforeEach(async () => {
+    repository = new InMemoryTaskRepository();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: TASK_REPOSITORY, useValue: repository },
+        { provide: TASK_ACTIVITY_REPOSITORY, useValue: new InMemoryTaskActivityRepository() },
+      ],
+    });
+    service = TestBed.inject(TaskService);
+
+    first = await service.createTask({ title: 'Primera tarea' });
+    second = await service.createTask({ title: 'Segunda tarea' });
+  });
+
+  it('undoes and redoes the last operation', async () => {
+    await service.deleteTask(first.id);
+
+    expect(await service.undo()).toBe('Eliminar "Primera tarea"');
+    expect(isTrashed(first)).toBeFalse();
+    expect(service.redoLabel()).toBe('Eliminar "Primera tarea"');
+
+    expect(await service.redo()).toBe('Eliminar "Primera tarea"');
+    expect(isTrashed(first)).toBeTrue();
+    expect(service.undoLabel()).toBe('Eliminar "Primera tarea"');
+  });
+
+  it('does not apply the same entry twice when undo is called again before it finishes', async () => {
+    await service.deleteTask(first.id);
+    const undoEntry = service.undoEntry();
+
+    const labels = await Promise.all([service.undo(undoEntry), service.undo(undoEntry)]);
+
+    expect(labels).toEqual(['Eliminar "Primera tarea"', null]);
+    expect(service.redoLabel()).toBe('Eliminar "Primera tarea"');
+    expect(service.undoLabel()).toBe('Crear "Segunda tarea"');
+  });
+
+  it('applies concurrent undos to consecutive entries in order', async () => {
+    await service.deleteTask(first.id);
+    await service.deleteTask(second.id);
+
+    const labels = await Promise.all([service.undo(), service.undo()]);
+
+    expect(labels).toEqual(['Eliminar "Segunda tarea"', 'Eliminar "Primera tarea"']);
+    expect(isTrashed(first)).toBeFalse();
+    expect(isTrashed(second)).toBeFalse();
+    expect(service.redoEntry()?.label).toBe('Eliminar "Primera tarea"');
+  });
+
+  it('ignores an entry that is no longer the last operation', async () => {
+    await service.deleteTask(first.id);
+    const staleEntry = service.undoEntry();
+    await service.deleteTask(second.id);
+
+    expect(await service.undo(staleEntry)).toBeNull();
+    expect(await service.undo(null)).toBeNull();
+    expect(isTrashed(first)).toBeTrue();
+    expect(isTrashed(second)).toBeTrue();
+    expect(service.undoLabel()).toBe('Eliminar "Segunda tarea"');
+  });
+
+  it('keeps the entry in the history when undoing fails', async () => {
+    await service.deleteTask(first.id);
+    spyOn(repository, 'update').and.rejectWith(new Error('Sin conexión'));
+
+    await expectAsync(service.undo()).toBeRejectedWithError('Sin conexión');
+    expect(service.undoLabel()).toBe('Eliminar "Primera tarea"');
+    expect(service.canRedo()).toBeFalse();
+    expect(isTrashed(first)).toBeTrue();
+  });
+});
+
+/**
+ * Almacenamiento en memoria que, como el servidor, devuelve por `changes()`
+ * un eco de cada escritura
+ */
+class EchoingTaskRepository extends InMemoryTaskRepository {
+  readonly events = new Subject<TaskChangeEvent>();
+
+  changes(): Observable<TaskChangeEvent> {
+    return this.events.asObservable();
+  }
+
+  override async update(task: Task): Promise<Task> {
+    const storedTask = await super.update({ ...task, updatedAt: new Date() });
+    this.events.next({ type: 'updated', task: storedTask });
+    return storedTask;
+  }
+}
+
+describe('TaskService batches', () => {
+  let repository: EchoingTaskRepository;
+  let service: TaskService;
+  let tasks: Task[];
+
+  beforeEach(async () => {
+    repository = new EchoingTaskRepository();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: TASK_REPOSITORY, useValue: repository },
+        { provide: TASK_ACTIVITY_REPOSITORY, useValue: new InMemoryTaskActivityRepository() },
+      ],
+    });
+    service = TestBed.inject(TaskService);
+
+    tasks = [];
+    for (const title of ['Primera tarea', 'Segunda tarea', 'Tercera tarea']) {
+      tasks.push(await service.createTask({ title }));
+    }
+  });
+
+  it('publishes a single state change although each write is echoed back', async () => {
+    const states: Task[][] = [];
+    const subscription = service.tasks$.subscribe((state) => states.push(state));
+    states.length = 0;
+
+    await service.applyBatch(
+      tasks.map((task) => task.id),
+      { type: 'complete' }
+    );
+    subscription.unsubscribe();
+
+    expect(states.length).toBe(1);
+    expect(states[0].every((task) => task.completed)).toBeTrue();
+    expect(service.tasks().every((task) => task.completed)).toBeTrue();
+  });
+
+  it('applies the changes received during the batch together with it', async () => {
+    const remoteTask: Task = {
+      ...tasks[0],
+      id: 'remote',
+      title: 'Tarea de otro usuario',
+      updatedAt: new Date(),
+    };
+    const update = repository.update.bind(repository);
+    spyOn(repository, 'update').and.callFake(async (task) => {
+      repository.events.next({ type: 'created', task: remoteTask });
+      return update(task);
+    });
+    const states: Task[][] = [];
+    const subscription = service.tasks$.subscribe((state) => states.push(state));
+    states.length = 0;
+
+    await service.applyBatch([tasks[0].id], { type: 'setPriority', priority: 'high' });
+    subscription.unsubscribe();
+
+    expect(states.length).toBe(1);
+    expect(states[0].map((task) => task.id)).toContain('remote');
+    expect(service.tasks().find((task) => task.id === tasks[0].id)?.priority).toBe('high');
+  });
+
+  it('applies the changes held back when the batch fails', async () => {
+    spyOn(repository, 'update').and.callFake(async () => {
+      repository.events.next({ type: 'deleted', id: tasks[1].id });
+      throw new Error('Sin conexión');
+    });
+
+    await expectAsync(
+      service.applyBatch([tasks[0].id], { type: 'complete' })
+    ).toBeRejectedWithError('Sin conexión');
+    expect(service.tasks().map((task) => task.id)).not.toContain(tasks[1].id);
+  });
+});
@@ -1,16 +1,135 @@
-import { Injectable, signal, computed } from '@angular/core';
+import {
+  DestroyRef,
+  InjectionToken,
+  Injectable,
+  WritableSignal,
+  signal,
+  computed,
+  inject,
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { BehaviorSubject, Observable } from 'rxjs';
 import {
   Task,
   CreateTaskRequest,
   UpdateTaskRequest,
+  normalizeTags,
 } from '../models/task.model';
+import { TaskChangeEvent } from '../models/task-event.model';
+import {
+  TaskConflict,
+  TaskConflictResolution,
+} from '../models/task-sync.model';
+import { TaskHistoryEntry } from '../models/task-history.model';
+import { TaskActivityDraft, diffTaskActivity } from '../models/task-activity.model';
+import { INBOX_PROJECT_ID } from '../models/project.model';
+import { getNextOccurrenceDate } from '../models/task-recurrence.model';
+import {
+  findDependencyCycle,
+  normalizeBlockedBy,
+} from '../models/task-dependency.model';
+import { TaskStatus } from '../models/task-status.model';
+import {
+  TaskBatchAction,
+  TaskBatchResult,
+  describeBatchAction,
+  getBatchUpdateRequest,
+} from '../models/task-batch.model';
+import { LEGACY_TASK_REPOSITORY, TASK_REPOSITORY } from './task.repository';
+import { TaskStatusService } from './task-status.service';
+import { TaskActivityService } from './task-activity.service';
+import { AuthService } from './auth.service';
+import { getTaskOrder, sortTasks } from '../search/task-sort';
+import {
+  TaskValidationError,
+  validateCreateTaskRequest,
+  validateUpdateTaskRequest,
+} from '../validators/task.validator';
+
+/**
+ * Días que una tarea permanece en la papelera antes de eliminarse definitivamente.
+ * Por defecto 30; puede sobrescribirse con `{ provide: TASK_TRASH_RETENTION_DAYS, useValue: ... }`.
+ */
+export const TASK_TRASH_RETENTION_DAYS = new InjectionToken<number>(
+  'TASK_TRASH_RETENTION_DAYS',
+  { providedIn: 'root', factory: () => 30 }
+);
+
+/**
+ * Colores de fondo de las etiquetas, asignados según el nombre de la etiqueta
+ */
+const TAG_COLORS = [
+  '#90caf9',
+  '#a5d6a7',
+  '#ffcc80',
+  '#ce93d8',
+  '#80cbc4',
+  '#f48fb1',
+  '#e6ee9c',
+  '#b0bec5',
+];
+
+/**
+ * Reglas de completado de una tarea respecto a sus subtareas y a las tareas que la bloquean
+ *
+ * @interface TaskCompletionRules
+ */
+export interface TaskCompletionRules {
+  /**
+   * Completar automáticamente la tarea al completar su última subtarea
+   * @type {boolean}
+   */
+  autoCompleteParent: boolean;
+
+  /**
+   * Impedir completar la tarea mientras tenga subtareas pendientes
+   * @type {boolean}
+   */
+  blockIncompleteParent: boolean;
+
+  /**
+   * Impedir completar la tarea mientras alguna de las tareas que la bloquean esté pendiente
+   * @type {boolean}
+   */
+  blockUntilDependenciesDone: boolean;
+}
+
+/**
+ * Reglas de completado aplicadas a las tareas con subtareas o bloqueantes.
+ * Por defecto todas activas; pueden sobrescribirse con `{ provide: TASK_COMPLETION_RULES, useValue: ... }`.
+ */
+export const TASK_COMPLETION_RULES = new InjectionToken<TaskCompletionRules>(
+  'TASK_COMPLETION_RULES',
+  {
+    providedIn: 'root',
+    factory: () => ({
+      autoCompleteParent: true,
+      blockIncompleteParent: true,
+      blockUntilDependenciesDone: true,
+    }),
+  }
+);
 
 /**
  * Servicio de Tareas - Operaciones CRUD
  *
  * Este servicio maneja todas las operaciones relacionadas con tareas incluyendo Crear, Leer, Actualizar y Eliminar.
  * Utiliza Angular Signals para gestión reactiva del estado y proporciona APIs basadas en Observable y Signal.
+ * El estado se hidrata desde el `TaskRepository` inyectado y cada mutación se escribe en él.
+ * Si el repositorio expone cambios remotos, se integran en el estado a medida que llegan.
+ * Cada mutación se registra en un historial que permite deshacerla y rehacerla.
+ * Eliminar una tarea la envía a la papelera; las tareas en la papelera se eliminan
+ * definitivamente al superar el periodo de retención.
+ * El completado de las tareas con subtareas sigue las `TaskCompletionRules` configuradas.
+ * Una tarea puede estar bloqueada por otras (`blockedBy`): no se admiten
+ * dependencias circulares y, según las `TaskCompletionRules`, no puede
+ * completarse mientras alguna de sus bloqueantes esté pendiente.
+ * El orden manual de las tareas se guarda en su campo `order`.
+ * Completar una tarea con regla de repetición crea su siguiente repetición.
+ * El estado de tablero (`status`) de cada tarea se mantiene coherente con `completed`.
+ * Las acciones masivas (`applyBatch`) publican un único cambio de estado.
+ * Cada cambio propio (incluidos deshacer y rehacer) se añade al historial de
+ * actividad de la tarea; los cambios remotos los registra el cliente que los hizo.
  *
  * @class TaskService
  */
@@ -19,7 +138,49 @@ import {
 })
 export class TaskService {
   /**
-   * Signal privada que contiene todas las tareas
+   * Almacenamiento persistente de tareas
+   * @private
+   */
+  private readonly repository = inject(TASK_REPOSITORY);
+
+  /**
+   * Almacenamiento anterior del que importar las tareas, si lo hay
+   * @private
+   */
+  private readonly legacyRepository = inject(LEGACY_TASK_REPOSITORY);
+
+  /**
+   * Días de retención de la papelera
+   * @readonly
+   */
+  public readonly trashRetentionDays = inject(TASK_TRASH_RETENTION_DAYS);
+
+  /**
+   * Reglas de completado de tareas con subtareas
+   * @readonly
+   */
+  public readonly completionRules = inject(TASK_COMPLETION_RULES);
+
+  /**
+   * Estados del tablero configurados
+   * @private
+   */
+  private readonly taskStatuses = inject(TaskStatusService);
+
+  /**
+   * Historial de actividad de las tareas
+   * @private
+   */
+  private readonly activity = inject(TaskActivityService);
+
+  /**
+   * Servicio de autenticación, para identificar las tareas propias
+   * @private
+   */
+  private readonly auth = inject(AuthService);
+
+  /**
+   * Signal privada que contiene todas las tareas, incluidas las de la papelera
    * @private
    */
   private readonly _tasks = signal<Task[]>([]);
@@ -37,16 +198,40 @@ export class TaskService {
   private _nextId = 1;
 
   /**
-   * Signal pública de solo lectura para acceder a las tareas
+   * Número de lotes que se están escribiendo en el almacenamiento
+   * @private
+   */
+  private pendingBatchWrites = 0;
+
+  /**
+   * Cambios remotos recibidos mientras se escribe un lote (incluidos los ecos
+   * de sus propias escrituras), pendientes de aplicar
+   * @private
+   */
+  private readonly heldChanges: TaskChangeEvent[] = [];
+
+  /**
+   * Signal pública de solo lectura para acceder a las tareas activas
    * @readonly
-   * @returns {Signal<Task[]>} Todas las tareas
+   * @returns {Signal<Task[]>} Todas las tareas que no están en la papelera
    */
-  public readonly tasks = this._tasks.asReadonly();
+  public readonly tasks = computed(() =>
+    this._tasks().filter((task) => !task.deletedAt)
+  );
+
+  /**
+   * Signal computada de las tareas en la papelera
+   * @readonly
+   * @returns {Signal<Task[]>} Tareas en la papelera
+   */
+  public readonly trashedTasks = computed(() =>
+    this._tasks().filter((task) => !!task.deletedAt)
+  );
 
   /**
-   * Flujo Observable de todas las tareas
+   * Flujo Observable de las tareas activas
    * @readonly
-   * @returns {Observable<Task[]>} Observable de todas las tareas
+   * @returns {Observable<Task[]>} Observable de las tareas que no están en la papelera
    */
   public readonly tasks$: Observable<Task[]> = this._tasks$.asObservable();
 
@@ -56,7 +241,7 @@ export class TaskService {
    * @returns {Signal<number>} Número de tareas completadas
    */
   public readonly completedTasksCount = computed(
-    () => this._tasks().filter((task) => task.completed).length
+    () => this.tasks().filter((task) => task.completed).length
   );
 
   /**
@@ -65,7 +250,7 @@ export class TaskService {
    * @returns {Signal<number>} Número de tareas pendientes
    */
   public readonly pendingTasksCount = computed(
-    () => this._tasks().filter((task) => !task.completed).length
+    () => this.tasks().filter((task) => !task.completed).length
   );
 
   /**
@@ -73,151 +258,1482 @@ export class TaskService {
    * @readonly
    * @returns {Signal<number>} Número total de tareas
    */
-  public readonly totalTasksCount = computed(() => this._tasks().length);
+  public readonly totalTasksCount = computed(() => this.tasks().length);
+
+  /**
+   * Signal computada para el conteo de tareas en la papelera
+   * @readonly
+   * @returns {Signal<number>} Número de tareas en la papelera
+   */
+  public readonly trashedTasksCount = computed(
+    () => this.trashedTasks().length
+  );
+
+  /**
+   * Signal computada con todas las etiquetas usadas, ordenadas alfabéticamente
+   * @readonly
+   * @returns {Signal<string[]>} Etiquetas sin duplicados
+   */
+  public readonly allTags = computed(() =>
+    normalizeTags(this._tasks().flatMap((task) => task.tags ?? [])).sort((a, b) =>
+      a.localeCompare(b)
+    )
+  );
+
+  /**
+   * Número de cambios realizados sin conexión pendientes de sincronizar
+   * @readonly
+   * @returns {Signal<number>} Número de mutaciones en cola
+   */
+  public readonly pendingChangesCount =
+    this.repository.pendingCount ?? signal(0).asReadonly();
+
+  /**
+   * Conflictos de sincronización que requieren una decisión del usuario
+   * @readonly
+   * @returns {Signal<TaskConflict[]>} Conflictos sin resolver
+   */
+  public readonly syncConflicts =
+    this.repository.conflicts ?? signal<TaskConflict[]>([]).asReadonly();
+
+  /**
+   * Estado de conexión con el almacenamiento
+   * @readonly
+   * @returns {Signal<boolean>} True si el último acceso al servidor tuvo éxito
+   */
+  public readonly isOnline =
+    this.repository.isOnline ?? signal(true).asReadonly();
+
+  /**
+   * Número máximo de operaciones conservadas en el historial
+   * @private
+   */
+  private readonly historyLimit = 50;
+
+  /**
+   * Pila de operaciones que se pueden deshacer
+   * @private
+   */
+  private readonly _undoStack = signal<TaskHistoryEntry[]>([]);
+
+  /**
+   * Pila de operaciones deshechas que se pueden rehacer
+   * @private
+   */
+  private readonly _redoStack = signal<TaskHistoryEntry[]>([]);
+
+  /**
+   * IDs reasignados al restaurar tareas (ID original → ID actual)
+   *
+   * Algunos almacenamientos asignan un ID nuevo al volver a crear una tarea
+   * eliminada; las entradas del historial resuelven sus IDs a través de este mapa.
+   * @private
+   */
+  private readonly idAliases = new Map<string, string>();
+
+  /**
+   * Última operación de deshacer o rehacer, para aplicarlas de una en una
+   * @private
+   */
+  private historyOperation: Promise<void> = Promise.resolve();
+
+  /**
+   * Signal computada que indica si hay operaciones para deshacer
+   * @readonly
+   * @returns {Signal<boolean>} True si se puede deshacer
+   */
+  public readonly canUndo = computed(() => this._undoStack().length > 0);
+
+  /**
+   * Signal computada que indica si hay operaciones para rehacer
+   * @readonly
+   * @returns {Signal<boolean>} True si se puede rehacer
+   */
+  public readonly canRedo = computed(() => this._redoStack().length > 0);
+
+  /**
+   * Signal computada con la próxima operación a deshacer
+   *
+   * Permite deshacer una operación concreta (p. ej. desde la notificación que
+   * la anuncia) con `undo(entry)`.
+   *
+   * @readonly
+   * @returns {Signal<TaskHistoryEntry | null>} La operación, o null si no hay
+   */
+  public readonly undoEntry = computed(() => this._undoStack().at(-1) ?? null);
+
+  /**
+   * Signal computada con la próxima operación a rehacer
+   * @readonly
+   * @returns {Signal<TaskHistoryEntry | null>} La operación, o null si no hay
+   */
+  public readonly redoEntry = computed(() => this._redoStack().at(-1) ?? null);
+
+  /**
+   * Signal computada con la descripción de la próxima operación a deshacer
+   * @readonly
+   * @returns {Signal<string | null>} Descripción, o null si no hay
+   */
+  public readonly undoLabel = computed(() => this.undoEntry()?.label ?? null);
+
+  /**
+   * Signal computada con la descripción de la próxima operación a rehacer
+   * @readonly
+   * @returns {Signal<string | null>} Descripción, o null si no hay
+   */
+  public readonly redoLabel = computed(() => this.redoEntry()?.label ?? null);
+
+  /**
+   * Promise de la carga inicial desde el almacenamiento
+   * @private
+   */
+  private readonly hydration: Promise<void>;
 
   constructor() {
-    this.initializeSampleData();
+    this.hydration = this.hydrate();
+
+    this.repository
+      .changes?.()
+      .pipe(takeUntilDestroyed(inject(DestroyRef)))
+      .subscribe((event) => this.applyRemoteChange(event));
   }
 
   /**
-   * Inicializar el servicio con datos de ejemplo para demostración
+   * Cargar las tareas persistidas en el estado del servicio
    * @private
-   * @returns {void}
+   * @returns {Promise<void>} Promise que se resuelve cuando las tareas están cargadas
    */
-  private initializeSampleData(): void {
-    const sampleTasks: Task[] = [
-      {
-        id: '1',
-        title: 'Configurar Angular Material',
-        description: 'Instalar y configurar Angular Material en el proyecto',
-        completed: true,
-        priority: 'high',
-        createdAt: new Date(Date.now() - 86400000),
-        updatedAt: new Date(Date.now() - 86400000),
-      },
-      {
-        id: '2',
-        title: 'Crear componentes de tareas',
-        description:
-          'Desarrollar los componentes de lista de tareas, elemento de tarea y formulario de tarea',
-        completed: false,
-        priority: 'high',
-        createdAt: new Date(Date.now() - 3600000),
-        updatedAt: new Date(Date.now() - 3600000),
-        dueDate: new Date(Date.now() + 259200000),
-      },
-    ];
+  private async hydrate(): Promise<void> {
+    try {
+      const storedTasks = await this.repository.getAll();
+      this.setTasks(storedTasks);
+      this._nextId =
+        storedTasks.reduce(
+          (maxId, task) => Math.max(maxId, Number(task.id) || 0),
+          0
+        ) + 1;
+      await this.purgeExpiredTrash();
+    } catch (error) {
+      console.error('Error loading tasks:', error);
+    }
+  }
+
+  /**
+   * Importar las tareas del almacenamiento anterior (p. ej. las guardadas en
+   * el navegador antes de usar la API)
+   *
+   * Las tareas se crean en la bandeja de entrada del usuario, al final del orden
+   * manual y conservando su estado; las de la papelera se descartan. Después se
+   * vacía el almacenamiento anterior para no volver a importarlas. Debe llamarse
+   * con sesión iniciada.
+   *
+   * @returns {Promise<number>} Promise que se resuelve con el número de tareas importadas
+   */
+  async importLegacyTasks(): Promise<number> {
+    await this.hydration;
+    const legacyTasks = await this.legacyRepository?.getAll();
+    if (!legacyTasks?.length) {
+      return 0;
+    }
 
-    this._tasks.set(sampleTasks);
-    this._tasks$.next(sampleTasks);
-    this._nextId = 3;
+    const firstOrder = this.getNextOrder();
+    const { created } = await this.writeBatch(
+      [],
+      legacyTasks
+        .filter((task) => !task.deletedAt)
+        .map((task, index) => ({
+          ...task,
+          projectId: undefined,
+          assigneeId: undefined,
+          blockedBy: undefined,
+          order: firstOrder + index,
+        }))
+    );
+    await this.legacyRepository!.clear();
+    return created.length;
   }
 
   /**
-   * Crear una nueva tarea
+   * Integrar en el estado un cambio realizado por otro cliente
    *
-   * @param {CreateTaskRequest} taskRequest - Los datos de la tarea a crear
-   * @returns {Promise<Task>} Promise que se resuelve con la tarea creada
+   * Las operaciones son idempotentes: el eco de una mutación propia
+   * no duplica ni revierte el estado local. Mientras se escribe un lote, los
+   * cambios se retienen y se aplican junto con el lote (ver `writeBatch`).
+   *
+   * @private
+   * @param {TaskChangeEvent} event - El cambio recibido
+   * @returns {void}
    */
-  async createTask(taskRequest: CreateTaskRequest): Promise<Task> {
-    const now = new Date();
-    const newTask: Task = {
-      id: this._nextId.toString(),
-      title: taskRequest.title,
-      description: taskRequest.description || '',
-      completed: false,
-      priority: taskRequest.priority || 'medium',
-      createdAt: now,
-      updatedAt: now,
-      dueDate: taskRequest.dueDate,
-    };
+  private applyRemoteChange(event: TaskChangeEvent): void {
+    if (this.pendingBatchWrites) {
+      this.heldChanges.push(event);
+      return;
+    }
 
-    this._nextId++;
-    const updatedTasks = [...this._tasks(), newTask];
-    this._tasks.set(updatedTasks);
-    this._tasks$.next(updatedTasks);
+    const tasks = this.reduceRemoteChange(this._tasks(), event);
+    if (tasks !== this._tasks()) {
+      this.setTasks(tasks);
+    }
+  }
 
-    return Promise.resolve(newTask);
+  /**
+   * Calcular el listado de tareas resultante de un cambio remoto
+   * @private
+   * @param {Task[]} tasks - El listado actual
+   * @param {TaskChangeEvent} event - El cambio recibido
+   * @returns {Task[]} El nuevo listado, o el mismo si el cambio no lo modifica
+   */
+  private reduceRemoteChange(tasks: Task[], event: TaskChangeEvent): Task[] {
+    switch (event.type) {
+      case 'snapshot':
+        return event.tasks;
+      case 'created':
+      case 'updated':
+        return this.mergeTask(tasks, event.task);
+      case 'deleted':
+        return tasks.filter((t) => t.id !== event.id);
+      case 'cleared':
+        return [];
+    }
   }
 
   /**
-   * Actualizar una tarea existente
-   *
-   * @param {string} id - El ID de la tarea a actualizar
-   * @param {UpdateTaskRequest} updateRequest - Los datos a actualizar
-   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no se encuentra
+   * Aplicar sobre un listado los cambios remotos retenidos durante la escritura de lotes
+   * @private
+   * @param {Task[]} tasks - El listado de partida
+   * @returns {Task[]} El listado con los cambios retenidos aplicados
    */
-  async updateTask(
-    id: string,
-    updateRequest: UpdateTaskRequest
-  ): Promise<Task | null> {
-    const tasks = this._tasks();
-    const taskIndex = tasks.findIndex((t) => t.id === id);
+  private takeHeldChanges(tasks: Task[]): Task[] {
+    return this.heldChanges
+      .splice(0)
+      .reduce((result, event) => this.reduceRemoteChange(result, event), tasks);
+  }
 
-    if (taskIndex === -1) {
-      return Promise.resolve(null);
+  /**
+   * Insertar una tarea o reemplazarla si ya existe, conservando la versión más reciente
+   * @private
+   * @param {Task} task - La tarea a insertar o reemplazar
+   * @returns {void}
+   */
+  private upsertTask(task: Task): void {
+    const tasks = this.mergeTask(this._tasks(), task);
+    if (tasks !== this._tasks()) {
+      this.setTasks(tasks);
     }
+  }
 
-    const existingTask = tasks[taskIndex];
-    const updatedTask: Task = {
-      ...existingTask,
-      ...updateRequest,
-      updatedAt: new Date(),
-    };
+  /**
+   * Insertar una tarea en un listado o reemplazarla si ya existe, conservando la versión más reciente
+   * @private
+   * @param {Task[]} tasks - El listado
+   * @param {Task} task - La tarea a insertar o reemplazar
+   * @returns {Task[]} El nuevo listado, o el mismo si la tarea es más antigua que la existente
+   */
+  private mergeTask(tasks: Task[], task: Task): Task[] {
+    const existingTask = tasks.find((t) => t.id === task.id);
+
+    if (!existingTask) {
+      return [...tasks, task];
+    }
+    return existingTask.updatedAt.getTime() <= task.updatedAt.getTime()
+      ? tasks.map((t) => (t.id === task.id ? task : t))
+      : tasks;
+  }
 
-    const updatedTasks = [...tasks];
-    updatedTasks[taskIndex] = updatedTask;
+  /**
+   * Publicar un nuevo estado de tareas en la signal y el BehaviorSubject
+   * @private
+   * @param {Task[]} tasks - El nuevo listado de tareas
+   * @returns {void}
+   */
+  private setTasks(tasks: Task[]): void {
+    this._tasks.set(tasks);
+    this._tasks$.next(tasks.filter((task) => !task.deletedAt));
+  }
 
-    this._tasks.set(updatedTasks);
-    this._tasks$.next(updatedTasks);
+  /**
+   * Obtener las tareas activas que bloquean a una tarea
+   *
+   * @param {Task} task - La tarea
+   * @returns {Task[]} Sus bloqueantes, completadas o no (se ignoran las eliminadas)
+   */
+  getBlockers(task: Task): Task[] {
+    const blockedBy = task.blockedBy ?? [];
+    return this.tasks().filter((t) => blockedBy.includes(t.id));
+  }
 
-    return Promise.resolve(updatedTask);
+  /**
+   * Obtener las tareas que bloquean a una tarea y aún están pendientes
+   *
+   * @param {Task} task - La tarea
+   * @returns {Task[]} Sus bloqueantes sin completar
+   */
+  getPendingBlockers(task: Task): Task[] {
+    return this.getBlockers(task).filter((blocker) => !blocker.completed);
   }
 
   /**
-   * Eliminar una tarea por ID
+   * Verificar si una tarea pendiente está bloqueada
    *
-   * @param {string} id - El ID de la tarea a eliminar
-   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó, false si no se encontró
+   * @param {Task} task - La tarea
+   * @returns {boolean} True si no está completada y tiene bloqueantes pendientes
    */
-  async deleteTask(id: string): Promise<boolean> {
-    const tasks = this._tasks();
-    const filteredTasks = tasks.filter((t) => t.id !== id);
+  isBlocked(task: Task): boolean {
+    return !task.completed && this.getPendingBlockers(task).length > 0;
+  }
 
-    if (filteredTasks.length === tasks.length) {
-      return Promise.resolve(false);
-    }
+  /**
+   * Obtener las tareas activas que dependen de una tarea
+   *
+   * @param {Task} task - La tarea
+   * @returns {Task[]} Las tareas bloqueadas por ella
+   */
+  getDependents(task: Task): Task[] {
+    return this.tasks().filter((t) => t.blockedBy?.includes(task.id));
+  }
 
-    this._tasks.set(filteredTasks);
-    this._tasks$.next(filteredTasks);
+  /**
+   * Buscar la dependencia circular que crearía bloquear una tarea con otras
+   *
+   * @param {string} taskId - El ID de la tarea
+   * @param {string[]} blockedBy - Los IDs de las tareas que la bloquearían
+   * @returns {Task[] | null} Las tareas del ciclo, empezando y terminando en la tarea, o null si no hay ciclo
+   */
+  findDependencyCycle(taskId: string, blockedBy: string[]): Task[] | null {
+    const tasks = this._tasks();
+    const cycle = findDependencyCycle(taskId, normalizeBlockedBy(blockedBy, taskId), tasks);
+    return cycle
+      ? cycle
+          .map((id) => tasks.find((task) => task.id === id))
+          .filter((task): task is Task => !!task)
+      : null;
+  }
 
-    return Promise.resolve(true);
+  /**
+   * Integrar una tarea devuelta por el servidor tras un cambio hecho fuera del
+   * repositorio de tareas (p. ej. al subir o eliminar un archivo adjunto)
+   *
+   * @param {Task} task - La tarea tal como quedó en el servidor
+   * @returns {void}
+   */
+  applyServerTask(task: Task): void {
+    this.upsertTask(task);
   }
 
   /**
-   * Alternar el estado de completado de una tarea
+   * Crear una nueva tarea
    *
-   * @param {string} id - El ID de la tarea a alternar
-   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no se encuentra
+   * @param {CreateTaskRequest} taskRequest - Los datos de la tarea a crear
+   * @returns {Promise<Task>} Promise que se resuelve con la tarea creada
+   * @throws {TaskValidationError} Si los datos de la tarea no son válidos
    */
-  async toggleTaskCompletion(id: string): Promise<Task | null> {
-    const task = this._tasks().find((t) => t.id === id);
-    if (!task) {
-      return Promise.resolve(null);
+  async createTask(taskRequest: CreateTaskRequest): Promise<Task> {
+    const errors = validateCreateTaskRequest(taskRequest);
+    if (errors) {
+      throw new TaskValidationError(errors);
     }
 
-    return this.updateTask(id, { completed: !task.completed });
+    await this.hydration;
+    const newTask = this.buildNewTask(taskRequest, this.getNextOrder());
+    const storedTask = await this.insertTask(newTask);
+
+    this.recordHistory({
+      label: `Crear "${storedTask.title}"`,
+      undo: async () => {
+        await this.removeTask(this.resolveId(storedTask.id));
+      },
+      redo: async () => {
+        await this.reinsertTask(storedTask);
+      },
+    });
+
+    return storedTask;
   }
 
   /**
-   * Limpiar todas las tareas
+   * Importar varias tareas a la vez
    *
-   * @returns {Promise<void>} Promise que se resuelve cuando se limpian todas las tareas
+   * Las tareas se crean al final del orden manual y se registran como una sola
+   * entrada del historial, de modo que deshacer las elimina todas.
+   *
+   * @param {CreateTaskRequest[]} taskRequests - Los datos de las tareas a crear
+   * @returns {Promise<Task[]>} Promise que se resuelve con las tareas creadas
+   * @throws {TaskValidationError} Si los datos de alguna tarea no son válidos (no se crea ninguna)
    */
-  async clearAllTasks(): Promise<void> {
-    this._tasks.set([]);
-    this._tasks$.next([]);
-    this._nextId = 1;
-    return Promise.resolve();
+  async importTasks(taskRequests: CreateTaskRequest[]): Promise<Task[]> {
+    for (const taskRequest of taskRequests) {
+      const errors = validateCreateTaskRequest(taskRequest);
+      if (errors) {
+        throw new TaskValidationError(errors);
+      }
+    }
+
+    await this.hydration;
+    if (!taskRequests.length) {
+      return [];
+    }
+
+    const firstOrder = this.getNextOrder();
+    const newTasks = taskRequests.map((taskRequest, index) =>
+      this.buildNewTask(taskRequest, firstOrder + index)
+    );
+    const { created } = await this.writeBatch([], newTasks);
+
+    this.recordHistory({
+      label: created.length === 1 ? 'Importar 1 tarea' : `Importar ${created.length} tareas`,
+      undo: async () => {
+        await this.writeBatch(
+          [],
+          [],
+          created.map((task) => this.resolveId(task.id))
+        );
+      },
+      redo: async () => {
+        await this.writeBatch([], created);
+      },
+    });
+
+    return created;
+  }
+
+  /**
+   * Actualizar una tarea existente
+   *
+   * @param {string} id - El ID de la tarea a actualizar
+   * @param {UpdateTaskRequest} updateRequest - Los datos a actualizar
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no se encuentra
+   * @throws {TaskValidationError} Si los datos a actualizar no son válidos
+   */
+  async updateTask(
+    id: string,
+    updateRequest: UpdateTaskRequest
+  ): Promise<Task | null> {
+    return this.applyUpdate(id, updateRequest, (task) => `Editar "${task.title}"`);
+  }
+
+  /**
+   * Enviar una tarea a la papelera
+   *
+   * La tarea se marca con `deletedAt` y deja de aparecer entre las tareas activas.
+   * Puede restaurarse con `restoreTask` o eliminarse definitivamente con `purgeTask`.
+   *
+   * @param {string} id - El ID de la tarea a eliminar
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó, false si no se encontró
+   */
+  async deleteTask(id: string): Promise<boolean> {
+    const trashedTask = await this.applyUpdate(
+      id,
+      { deletedAt: new Date() },
+      (task) => `Eliminar "${task.title}"`
+    );
+    return !!trashedTask;
+  }
+
+  /**
+   * Restaurar una tarea de la papelera
+   *
+   * @param {string} id - El ID de la tarea a restaurar
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea restaurada o null si no se encuentra
+   */
+  async restoreTask(id: string): Promise<Task | null> {
+    return this.applyUpdate(
+      id,
+      { deletedAt: null },
+      (task) => `Restaurar "${task.title}"`
+    );
+  }
+
+  /**
+   * Eliminar definitivamente una tarea
+   *
+   * @param {string} id - El ID de la tarea a eliminar
+   * @returns {Promise<boolean>} Promise que se resuelve con true si se eliminó, false si no se encontró
+   */
+  async purgeTask(id: string): Promise<boolean> {
+    await this.hydration;
+    const task = this._tasks().find((t) => t.id === id);
+    if (!task) {
+      return false;
+    }
+
+    await this.removeTask(id);
+
+    this.recordHistory({
+      label: `Eliminar definitivamente "${task.title}"`,
+      undo: async () => {
+        await this.reinsertTask(task);
+      },
+      redo: async () => {
+        await this.removeTask(this.resolveId(task.id));
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * Eliminar definitivamente todas las tareas de la papelera
+   *
+   * @returns {Promise<number>} Promise que se resuelve con el número de tareas eliminadas
+   */
+  async emptyTrash(): Promise<number> {
+    await this.hydration;
+    const trashedTasks = this.trashedTasks();
+
+    for (const task of trashedTasks) {
+      await this.removeTask(task.id);
+    }
+
+    if (trashedTasks.length) {
+      this.recordHistory({
+        label: 'Vaciar la papelera',
+        undo: async () => {
+          for (const task of trashedTasks) {
+            await this.reinsertTask(task);
+          }
+        },
+        redo: async () => {
+          for (const task of trashedTasks) {
+            await this.removeTask(this.resolveId(task.id));
+          }
+        },
+      });
+    }
+
+    return trashedTasks.length;
+  }
+
+  /**
+   * Obtener la fecha en que una tarea de la papelera se eliminará definitivamente
+   *
+   * @param {Task} task - La tarea en la papelera
+   * @returns {Date | null} La fecha de eliminación definitiva, o null si la tarea está activa
+   */
+  getPurgeDate(task: Task): Date | null {
+    return task.deletedAt
+      ? new Date(task.deletedAt.getTime() + this.trashRetentionDays * 86400000)
+      : null;
+  }
+
+  /**
+   * Alternar el estado de completado de una tarea
+   *
+   * Si la tarea se repite, completarla crea la siguiente repetición.
+   *
+   * @param {string} id - El ID de la tarea a alternar
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no se encuentra
+   */
+  async toggleTaskCompletion(id: string): Promise<Task | null> {
+    await this.hydration;
+    const task = this._tasks().find((t) => t.id === id);
+    if (!task) {
+      return Promise.resolve(null);
+    }
+
+    return this.applyUpdate(id, { completed: !task.completed }, (t) =>
+      t.completed ? `Reabrir "${t.title}"` : `Completar "${t.title}"`
+    );
+  }
+
+  /**
+   * Mover una tarea a otro proyecto
+   *
+   * @param {string} id - El ID de la tarea a mover
+   * @param {string} projectId - El ID del proyecto destino (`INBOX_PROJECT_ID` para la bandeja de entrada)
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no se encuentra
+   */
+  async moveTaskToProject(id: string, projectId: string): Promise<Task | null> {
+    return this.applyUpdate(
+      id,
+      { projectId: projectId === INBOX_PROJECT_ID ? null : projectId },
+      (task) => `Mover "${task.title}" de proyecto`
+    );
+  }
+
+  /**
+   * Cambiar el estado de una tarea en el tablero
+   *
+   * Moverla a un estado completado la completa, y a uno pendiente la reabre.
+   *
+   * @param {string} id - El ID de la tarea
+   * @param {string} statusId - El ID del estado destino
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no se encuentra
+   * @throws {TaskValidationError} Si el estado no existe o la tarea no puede completarse
+   */
+  async setTaskStatus(id: string, statusId: string): Promise<Task | null> {
+    const label = this.taskStatuses.getStatus(statusId)?.label ?? statusId;
+    return this.applyUpdate(
+      id,
+      { status: statusId },
+      (task) => `Mover "${task.title}" a "${label}"`
+    );
+  }
+
+  /**
+   * Reordenar manualmente un grupo de tareas
+   *
+   * Las tareas indicadas ocupan, en el nuevo orden, las mismas posiciones que
+   * tenían en el orden manual; las demás tareas no se mueven. Se vuelven a
+   * numerar todas las tareas activas y solo se guardan las que cambian de posición.
+   *
+   * @param {string[]} orderedIds - IDs de las tareas en el nuevo orden
+   * @returns {Promise<void>} Promise que se resuelve cuando se guarda el nuevo orden
+   */
+  async reorderTasks(orderedIds: string[]): Promise<void> {
+    await this.hydration;
+    const manualOrder = sortTasks(this.tasks(), 'manual');
+    const movedTasks = orderedIds
+      .map((id) => manualOrder.find((task) => task.id === id))
+      .filter((task): task is Task => !!task);
+    const slots = movedTasks
+      .map((task) => manualOrder.indexOf(task))
+      .sort((a, b) => a - b);
+
+    const reordered = [...manualOrder];
+    slots.forEach((slot, i) => (reordered[slot] = movedTasks[i]));
+
+    const changedTasks = reordered
+      .map((task, index) => ({ task, order: index }))
+      .filter(({ task, order }) => task.order !== order);
+    if (!changedTasks.length) {
+      return;
+    }
+
+    for (const { task, order } of changedTasks) {
+      await this.replaceTask({ ...task, order, updatedAt: new Date() });
+    }
+
+    this.recordHistory({
+      label: 'Reordenar tareas',
+      undo: async () => {
+        for (const { task } of changedTasks) {
+          await this.replaceTask({
+            ...task,
+            id: this.resolveId(task.id),
+            updatedAt: new Date(),
+          });
+        }
+      },
+      redo: async () => {
+        for (const { task, order } of changedTasks) {
+          await this.replaceTask({
+            ...task,
+            id: this.resolveId(task.id),
+            order,
+            updatedAt: new Date(),
+          });
+        }
+      },
+    });
+  }
+
+  /**
+   * Aplicar una acción a varias tareas a la vez
+   *
+   * Todos los cambios se publican en el estado de una sola vez y se registran
+   * como una única operación del historial. Las tareas que ya cumplen la acción
+   * no se modifican, y las que no la admiten (por ejemplo, completar una tarea con
+   * subtareas pendientes o superar el máximo de etiquetas) se omiten.
+   * Completar tareas con regla de repetición crea sus siguientes repeticiones.
+   *
+   * @param {string[]} ids - IDs de las tareas
+   * @param {TaskBatchAction} action - La acción a aplicar
+   * @returns {Promise<TaskBatchResult>} Promise que se resuelve con las tareas modificadas y las omitidas
+   */
+  async applyBatch(ids: string[], action: TaskBatchAction): Promise<TaskBatchResult> {
+    await this.hydration;
+    const now = new Date();
+    const previousTasks: Task[] = [];
+    const updatedTasks: Task[] = [];
+    const occurrences: Task[] = [];
+    const skipped: TaskBatchResult['skipped'] = [];
+
+    for (const id of new Set(ids)) {
+      const task = this._tasks().find((t) => t.id === id);
+      const updateRequest = task && getBatchUpdateRequest(task, action, now);
+      if (!task || !updateRequest) {
+        continue;
+      }
+
+      try {
+        const errors = validateUpdateTaskRequest(updateRequest);
+        if (errors) {
+          throw new TaskValidationError(errors);
+        }
+
+        const updatedTask = this.buildUpdatedTask(task, updateRequest);
+        const completesOccurrence =
+          updatedTask.completed && !task.completed && !!updatedTask.recurrence;
+        const nextOccurrence = completesOccurrence
+          ? this.buildNextOccurrence(updatedTask, this.getNextOrder() + occurrences.length)
+          : null;
+
+        previousTasks.push(task);
+        updatedTasks.push(
+          completesOccurrence ? { ...updatedTask, recurrence: undefined } : updatedTask
+        );
+        if (nextOccurrence) {
+          occurrences.push(nextOccurrence);
+        }
+      } catch (error) {
+        if (!(error instanceof TaskValidationError)) {
+          throw error;
+        }
+        skipped.push({
+          task,
+          message: Object.values(error.errors)[0]?.message ?? error.message,
+        });
+      }
+    }
+
+    if (!updatedTasks.length) {
+      return { updated: [], skipped };
+    }
+
+    const stored = await this.writeBatch(updatedTasks, occurrences);
+
+    this.recordHistory({
+      label: describeBatchAction(action, stored.updated.length),
+      undo: async () => {
+        await this.writeBatch(
+          previousTasks.map((task) => ({
+            ...task,
+            id: this.resolveId(task.id),
+            updatedAt: new Date(),
+          })),
+          [],
+          stored.created.map((task) => this.resolveId(task.id))
+        );
+      },
+      redo: async () => {
+        await this.writeBatch(
+          stored.updated.map((task) => ({
+            ...task,
+            id: this.resolveId(task.id),
+            updatedAt: new Date(),
+          })),
+          stored.created
+        );
+      },
+    });
+
+    return { updated: stored.updated, skipped };
+  }
+
+  /**
+   * Alternar el estado de completado de una subtarea
+   *
+   * Aplica las reglas de completado: puede completar o reabrir la tarea padre.
+   *
+   * @param {string} taskId - El ID de la tarea
+   * @param {string} subtaskId - El ID de la subtarea a alternar
+   * @returns {Promise<Task | null>} Promise que se resuelve con la tarea actualizada o null si no se encuentra
+   */
+  async toggleSubtaskCompletion(
+    taskId: string,
+    subtaskId: string
+  ): Promise<Task | null> {
+    await this.hydration;
+    const task = this._tasks().find((t) => t.id === taskId);
+    const subtask = task?.subtasks?.find((s) => s.id === subtaskId);
+    if (!task || !subtask) {
+      return null;
+    }
+
+    const subtasks = task.subtasks!.map((s) =>
+      s.id === subtaskId ? { ...s, completed: !s.completed } : s
+    );
+
+    return this.applyUpdate(taskId, { subtasks }, () =>
+      subtask.completed
+        ? `Reabrir subtarea "${subtask.title}"`
+        : `Completar subtarea "${subtask.title}"`
+    );
+  }
+
+  /**
+   * Obtener el progreso de las subtareas de una tarea
+   *
+   * @param {Task} task - La tarea a consultar
+   * @returns {{ completed: number; total: number }} Subtareas completadas y totales
+   */
+  getSubtaskProgress(task: Task): { completed: number; total: number } {
+    const subtasks = task.subtasks ?? [];
+    return {
+      completed: subtasks.filter((s) => s.completed).length,
+      total: subtasks.length,
+    };
+  }
+
+  /**
+   * Obtener el color de fondo de una etiqueta
+   *
+   * El color se deriva del nombre, de modo que una etiqueta tiene siempre el mismo color.
+   *
+   * @param {string} tag - La etiqueta
+   * @returns {string} Color CSS de fondo
+   */
+  getTagColor(tag: string): string {
+    const hash = Array.from(tag.toLowerCase()).reduce(
+      (acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0,
+      0
+    );
+    return TAG_COLORS[hash % TAG_COLORS.length];
+  }
+
+  /**
+   * Limpiar todas las tareas
+   *
+   * Las tareas de proyectos compartidos por otros usuarios se conservan.
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se limpian todas las tareas
+   */
+  async clearAllTasks(): Promise<void> {
+    await this.hydration;
+    const clearedTasks = await this.clearOwnTasks();
+
+    this.recordHistory({
+      label: 'Limpiar todas las tareas',
+      undo: async () => {
+        for (const task of clearedTasks) {
+          await this.reinsertTask(task);
+        }
+      },
+      redo: async () => {
+        await this.clearOwnTasks();
+      },
+    });
+  }
+
+  /**
+   * Eliminar las tareas propias, conservando las de otros usuarios
+   * @private
+   * @returns {Promise<Task[]>} Las tareas eliminadas
+   */
+  private async clearOwnTasks(): Promise<Task[]> {
+    const userId = this.auth.user()?.id;
+    const isOwnTask = (task: Task) => !task.ownerId || task.ownerId === userId;
+    const clearedTasks = this._tasks().filter(isOwnTask);
+
+    await this.repository.clear();
+    this.setTasks(this._tasks().filter((task) => !isOwnTask(task)));
+    this.recordActivity(clearedTasks.map((task) => [task, null]));
+    return clearedTasks;
+  }
+
+  /**
+   * Deshacer la última operación registrada
+   *
+   * @param {TaskHistoryEntry | null} entry - Operación concreta a deshacer; si ya no es la última (o es null), no se deshace nada (opcional)
+   * @returns {Promise<string | null>} Promise que se resuelve con la descripción de la operación deshecha, o null si no había
+   */
+  undo(entry?: TaskHistoryEntry | null): Promise<string | null> {
+    return this.moveHistoryEntry(this._undoStack, this._redoStack, entry, (e) => e.undo());
+  }
+
+  /**
+   * Rehacer la última operación deshecha
+   *
+   * @param {TaskHistoryEntry | null} entry - Operación concreta a rehacer; si ya no es la última (o es null), no se rehace nada (opcional)
+   * @returns {Promise<string | null>} Promise que se resuelve con la descripción de la operación rehecha, o null si no había
+   */
+  redo(entry?: TaskHistoryEntry | null): Promise<string | null> {
+    return this.moveHistoryEntry(this._redoStack, this._undoStack, entry, (e) => e.redo());
+  }
+
+  /**
+   * Aplicar una actualización y registrarla en el historial
+   *
+   * Si la actualización completa una tarea con regla de repetición, la regla pasa
+   * a una nueva tarea con la siguiente fecha de vencimiento; deshacer la
+   * operación elimina también esa nueva tarea.
+   *
+   * @private
+   * @param {string} id - El ID de la tarea a actualizar
+   * @param {UpdateTaskRequest} updateRequest - Los datos a actualizar
+   * @param {(task: Task) => string} describe - Genera la descripción a partir de la tarea original
+   * @returns {Promise<Task | null>} La tarea actualizada o null si no se encuentra
+   * @throws {TaskValidationError} Si los datos a actualizar no son válidos
+   */
+  private async applyUpdate(
+    id: string,
+    updateRequest: UpdateTaskRequest,
+    describe: (task: Task) => string
+  ): Promise<Task | null> {
+    const errors = validateUpdateTaskRequest(updateRequest);
+    if (errors) {
+      throw new TaskValidationError(errors);
+    }
+
+    await this.hydration;
+    const existingTask = this._tasks().find((t) => t.id === id);
+    if (!existingTask) {
+      return null;
+    }
+
+    const updatedTask = this.buildUpdatedTask(existingTask, updateRequest);
+
+    const completesOccurrence =
+      updatedTask.completed && !existingTask.completed && !!updatedTask.recurrence;
+    const storedTask = await this.replaceTask(
+      completesOccurrence ? { ...updatedTask, recurrence: undefined } : updatedTask
+    );
+    const nextOccurrence = completesOccurrence
+      ? await this.createNextOccurrence(updatedTask)
+      : null;
+
+    this.recordHistory({
+      label: describe(existingTask),
+      undo: async () => {
+        if (nextOccurrence) {
+          await this.removeTask(this.resolveId(nextOccurrence.id));
+        }
+        await this.replaceTask({
+          ...existingTask,
+          id: this.resolveId(existingTask.id),
+          updatedAt: new Date(),
+        });
+      },
+      redo: async () => {
+        await this.replaceTask({
+          ...storedTask,
+          id: this.resolveId(storedTask.id),
+          updatedAt: new Date(),
+        });
+        if (nextOccurrence) {
+          await this.reinsertTask(nextOccurrence);
+        }
+      },
+    });
+
+    return storedTask;
+  }
+
+  /**
+   * Calcular una tarea con una actualización aplicada, sin guardarla
+   *
+   * Aplica las reglas de completado y mantiene el estado coherente con `completed`.
+   *
+   * @private
+   * @param {Task} existingTask - La tarea actual
+   * @param {UpdateTaskRequest} updateRequest - Los datos a actualizar (ya validados)
+   * @returns {Task} La tarea actualizada
+   * @throws {TaskValidationError} Si el estado no existe, la tarea no puede completarse o sus bloqueantes forman un ciclo
+   */
+  private buildUpdatedTask(existingTask: Task, updateRequest: UpdateTaskRequest): Task {
+    const {
+      dueDate,
+      deletedAt,
+      projectId,
+      assigneeId,
+      recurrence,
+      dueTime,
+      blockedBy,
+      status: statusId,
+      ...changes
+    } = updateRequest;
+    const status = this.findStatus(statusId);
+    if (statusId !== undefined && !status) {
+      throw new TaskValidationError({
+        status: { code: 'invalid', message: 'El estado de la tarea no existe' },
+      });
+    }
+
+    const requestsCompletion = status?.done ?? changes.completed ?? false;
+
+    return this.applyStatusRules(
+      this.applyDependencyRules(
+        existingTask,
+        this.applyCompletionRules(existingTask, {
+          ...existingTask,
+          ...changes,
+          completed: status?.done ?? changes.completed ?? existingTask.completed,
+          status: status?.id ?? existingTask.status,
+          tags: changes.tags ? normalizeTags(changes.tags) : existingTask.tags,
+          dueDate: dueDate === undefined ? existingTask.dueDate : dueDate ?? undefined,
+          deletedAt:
+            deletedAt === undefined ? existingTask.deletedAt : deletedAt ?? undefined,
+          projectId:
+            projectId === undefined ? existingTask.projectId : projectId ?? undefined,
+          assigneeId:
+            assigneeId === undefined ? existingTask.assigneeId : assigneeId ?? undefined,
+          recurrence:
+            recurrence === undefined ? existingTask.recurrence : recurrence ?? undefined,
+          dueTime: dueTime === undefined ? existingTask.dueTime : dueTime ?? undefined,
+          blockedBy:
+            blockedBy === undefined
+              ? existingTask.blockedBy
+              : normalizeBlockedBy(blockedBy, existingTask.id),
+          updatedAt: new Date(),
+        }),
+        requestsCompletion
+      )
+    );
+  }
+
+  /**
+   * Ajustar el completado de una tarea según sus subtareas
+   *
+   * - Con `blockIncompleteParent`, completar la tarea con subtareas pendientes
+   *   se rechaza, y reabrir una subtarea reabre la tarea.
+   * - Con `autoCompleteParent`, completar la última subtarea completa la tarea.
+   *
+   * @private
+   * @param {Task} previousTask - La tarea antes del cambio
+   * @param {Task} nextTask - La tarea con los cambios aplicados
+   * @returns {Task} La tarea con el completado ajustado
+   * @throws {TaskValidationError} Si se intenta completar una tarea con subtareas pendientes
+   */
+  private applyCompletionRules(previousTask: Task, nextTask: Task): Task {
+    const subtasks = nextTask.subtasks ?? [];
+    if (!subtasks.length) {
+      return nextTask;
+    }
+
+    const allDone = subtasks.every((s) => s.completed);
+    const wasAllDone =
+      !!previousTask.subtasks?.length &&
+      previousTask.subtasks.every((s) => s.completed);
+
+    if (this.completionRules.blockIncompleteParent && nextTask.completed && !allDone) {
+      if (!previousTask.completed) {
+        throw new TaskValidationError({
+          completed: {
+            code: 'invalid',
+            message: 'Completa todas las subtareas antes de completar la tarea',
+          },
+        });
+      }
+      return { ...nextTask, completed: false };
+    }
+
+    if (
+      this.completionRules.autoCompleteParent &&
+      allDone &&
+      !wasAllDone &&
+      !nextTask.completed
+    ) {
+      return { ...nextTask, completed: true };
+    }
+
+    return nextTask;
+  }
+
+  /**
+   * Comprobar las dependencias de una tarea tras un cambio
+   *
+   * - Cambiar sus bloqueantes de modo que se forme un ciclo se rechaza.
+   * - Con `blockUntilDependenciesDone`, completar la tarea mientras tenga
+   *   bloqueantes pendientes se rechaza si se pidió expresamente; si la
+   *   completaban sus subtareas, la tarea sigue pendiente.
+   *
+   * @private
+   * @param {Task} previousTask - La tarea antes del cambio
+   * @param {Task} nextTask - La tarea con los cambios aplicados
+   * @param {boolean} requestsCompletion - Si el cambio pedía completar la tarea
+   * @returns {Task} La tarea con el completado ajustado
+   * @throws {TaskValidationError} Si se forma un ciclo o se intenta completar una tarea bloqueada
+   */
+  private applyDependencyRules(
+    previousTask: Task,
+    nextTask: Task,
+    requestsCompletion: boolean
+  ): Task {
+    if (nextTask.blockedBy !== previousTask.blockedBy) {
+      const cycle = this.findDependencyCycle(nextTask.id, nextTask.blockedBy ?? []);
+      if (cycle) {
+        throw new TaskValidationError({
+          blockedBy: {
+            code: 'invalid',
+            message: `Dependencia circular: ${cycle.map((t) => `"${t.title}"`).join(' → ')}`,
+          },
+        });
+      }
+    }
+
+    const pendingBlockers = this.getPendingBlockers(nextTask);
+    if (
+      !this.completionRules.blockUntilDependenciesDone ||
+      !nextTask.completed ||
+      previousTask.completed ||
+      !pendingBlockers.length
+    ) {
+      return nextTask;
+    }
+
+    if (requestsCompletion) {
+      throw new TaskValidationError({
+        completed: {
+          code: 'invalid',
+          message: `La tarea está bloqueada por ${pendingBlockers
+            .map((blocker) => `"${blocker.title}"`)
+            .join(', ')}`,
+        },
+      });
+    }
+    return { ...nextTask, completed: false };
+  }
+
+  /**
+   * Ajustar el estado de una tarea para que concuerde con su completado
+   *
+   * Si el estado no existe o no concuerda, se usa el estado predeterminado:
+   * el primero completado para las tareas completadas, el primero pendiente para el resto.
+   *
+   * @private
+   * @param {Task} task - La tarea
+   * @returns {Task} La tarea con un estado coherente
+   */
+  private applyStatusRules(task: Task): Task {
+    const status = this.findStatus(task.status);
+    if (status && status.done === task.completed) {
+      return task;
+    }
+
+    return {
+      ...task,
+      status: task.completed
+        ? this.taskStatuses.defaultDoneStatus().id
+        : this.taskStatuses.defaultOpenStatus().id,
+    };
+  }
+
+  /**
+   * Preparar una tarea nueva a partir de los datos recibidos, sin guardarla
+   *
+   * El estado indicado prevalece sobre `completed`; sin ninguno de los dos la
+   * tarea queda pendiente.
+   *
+   * @private
+   * @param {CreateTaskRequest} taskRequest - Los datos de la tarea
+   * @param {number} order - Posición por defecto en el orden manual
+   * @returns {Task} La tarea nueva, con un ID asignado
+   */
+  private buildNewTask(taskRequest: CreateTaskRequest, order: number): Task {
+    const now = new Date();
+    const status = this.findStatus(taskRequest.status);
+    const newTask: Task = this.applyStatusRules({
+      id: this._nextId.toString(),
+      title: taskRequest.title,
+      description: taskRequest.description || '',
+      completed: status?.done ?? taskRequest.completed ?? false,
+      status: status?.id,
+      priority: taskRequest.priority || 'medium',
+      createdAt: now,
+      updatedAt: now,
+      dueDate: taskRequest.dueDate,
+      dueTime: taskRequest.dueTime,
+      reminders: taskRequest.reminders,
+      subtasks: taskRequest.subtasks,
+      tags: taskRequest.tags && normalizeTags(taskRequest.tags),
+      projectId: taskRequest.projectId,
+      createdBy: this.auth.user()?.id,
+      assigneeId: taskRequest.assigneeId,
+      order: taskRequest.order ?? order,
+      recurrence: taskRequest.recurrence,
+      blockedBy: taskRequest.blockedBy && normalizeBlockedBy(taskRequest.blockedBy),
+    });
+
+    this._nextId++;
+    return newTask;
+  }
+
+  /**
+   * Buscar un estado configurado por su ID
+   * @private
+   * @param {string | undefined} id - El ID del estado
+   * @returns {TaskStatus | undefined} El estado, o undefined si no se indicó o no existe
+   */
+  private findStatus(id: string | undefined): TaskStatus | undefined {
+    return id === undefined ? undefined : this.taskStatuses.getStatus(id);
+  }
+
+  /**
+   * Crear la siguiente repetición de una tarea que se acaba de completar
+   *
+   * @private
+   * @param {Task} task - La tarea completada, con su regla de repetición
+   * @returns {Promise<Task | null>} La nueva repetición, o null si la regla ya terminó
+   */
+  private async createNextOccurrence(task: Task): Promise<Task | null> {
+    const nextTask = this.buildNextOccurrence(task, this.getNextOrder());
+    return nextTask ? this.insertTask(nextTask) : null;
+  }
+
+  /**
+   * Preparar la siguiente repetición de una tarea, sin guardarla
+   *
+   * La nueva tarea copia los datos de la anterior, con las subtareas sin completar
+   * y la fecha de vencimiento avanzada según la regla (desde hoy si no tenía fecha).
+   *
+   * @private
+   * @param {Task} task - La tarea completada, con su regla de repetición
+   * @param {number} order - Posición de la nueva tarea en el orden manual
+   * @returns {Task | null} La nueva repetición, o null si la regla ya terminó
+   */
+  private buildNextOccurrence(task: Task, order: number): Task | null {
+    const recurrence = task.recurrence!;
+    const dueDate = getNextOccurrenceDate(recurrence, task.dueDate ?? new Date());
+    if (!dueDate) {
+      return null;
+    }
+
+    const now = new Date();
+    const nextTask: Task = {
+      ...task,
+      id: this._nextId.toString(),
+      completed: false,
+      status: this.taskStatuses.defaultOpenStatus().id,
+      createdAt: now,
+      updatedAt: now,
+      dueDate,
+      subtasks: task.subtasks?.map((subtask) => ({ ...subtask, completed: false })),
+      order,
+      recurrence: { ...recurrence, occurrence: (recurrence.occurrence ?? 1) + 1 },
+    };
+
+    this._nextId++;
+    return nextTask;
+  }
+
+  /**
+   * Obtener la posición manual para una tarea nueva, al final de la lista
+   * @private
+   * @returns {number} Posición siguiente a la de la última tarea
+   */
+  private getNextOrder(): number {
+    return this._tasks().reduce(
+      (maxOrder, task) => Math.max(maxOrder, getTaskOrder(task) + 1),
+      0
+    );
+  }
+
+  /**
+   * Persistir una tarea nueva y agregarla al estado
+   * @private
+   * @param {Task} task - La tarea a guardar
+   * @returns {Promise<Task>} La tarea tal como quedó almacenada
+   */
+  private async insertTask(task: Task): Promise<Task> {
+    const storedTask = await this.repository.create(task);
+    this.upsertTask(storedTask);
+    this.recordActivity([[null, storedTask]]);
+    return storedTask;
+  }
+
+  /**
+   * Persistir los cambios de una tarea y reflejarlos en el estado
+   * @private
+   * @param {Task} task - La tarea con sus valores actualizados
+   * @returns {Promise<Task>} La tarea tal como quedó almacenada
+   */
+  private async replaceTask(task: Task): Promise<Task> {
+    const previousTask = this._tasks().find((t) => t.id === task.id) ?? null;
+    const storedTask = await this.repository.update(task);
+    this.upsertTask(storedTask);
+    this.recordActivity([[previousTask, storedTask]]);
+    return storedTask;
+  }
+
+  /**
+   * Persistir un conjunto de cambios y publicarlos en el estado de una sola vez
+   *
+   * Las tareas creadas que estaban eliminadas se vuelven a crear con su ID
+   * vigente, registrando el nuevo ID si el almacenamiento lo cambia. Los cambios
+   * remotos que llegan durante la escritura (como los ecos de cada petición en
+   * el modo HTTP) se retienen y se aplican en la misma actualización del estado.
+   *
+   * @private
+   * @param {Task[]} updatedTasks - Tareas existentes con sus valores actualizados
+   * @param {Task[]} createdTasks - Tareas a crear
+   * @param {string[]} removedIds - IDs de las tareas a eliminar
+   * @returns {Promise<{ updated: Task[]; created: Task[] }>} Las tareas tal como quedaron almacenadas
+   */
+  private async writeBatch(
+    updatedTasks: Task[],
+    createdTasks: Task[] = [],
+    removedIds: string[] = []
+  ): Promise<{ updated: Task[]; created: Task[] }> {
+    this.pendingBatchWrites++;
+    try {
+      const updated: Task[] = [];
+      for (const task of updatedTasks) {
+        updated.push(await this.repository.update(task));
+      }
+
+      const created: Task[] = [];
+      for (const task of createdTasks) {
+        const storedTask = await this.repository.create({
+          ...task,
+          id: this.resolveId(task.id),
+        });
+        if (storedTask.id !== task.id) {
+          this.idAliases.set(task.id, storedTask.id);
+        }
+        created.push(storedTask);
+      }
+
+      for (const id of removedIds) {
+        await this.repository.delete(id);
+      }
+
+      const tasksById = new Map(this._tasks().map((task) => [task.id, task]));
+      this.recordActivity([
+        ...updated.map((task): [Task | null, Task] => [tasksById.get(task.id) ?? null, task]),
+        ...created.map((task): [null, Task] => [null, task]),
+        ...removedIds.flatMap((id): [Task, null][] => {
+          const task = tasksById.get(id);
+          return task ? [[task, null]] : [];
+        }),
+      ]);
+      removedIds.forEach((id) => tasksById.delete(id));
+      [...updated, ...created].forEach((task) => tasksById.set(task.id, task));
+      const tasks = [...tasksById.values()];
+      this.setTasks(this.pendingBatchWrites === 1 ? this.takeHeldChanges(tasks) : tasks);
+
+      return { updated, created };
+    } finally {
+      this.pendingBatchWrites--;
+      if (!this.pendingBatchWrites && this.heldChanges.length) {
+        this.setTasks(this.takeHeldChanges(this._tasks()));
+      }
+    }
+  }
+
+  /**
+   * Eliminar una tarea del almacenamiento y del estado
+   * @private
+   * @param {string} id - El ID de la tarea a eliminar
+   * @returns {Promise<void>}
+   */
+  private async removeTask(id: string): Promise<void> {
+    const task = this._tasks().find((t) => t.id === id) ?? null;
+    await this.repository.delete(id);
+    this.setTasks(this._tasks().filter((t) => t.id !== id));
+    this.recordActivity([[task, null]]);
+  }
+
+  /**
+   * Volver a crear una tarea eliminada, registrando su nuevo ID si cambia
+   * @private
+   * @param {Task} task - La tarea a restaurar
+   * @returns {Promise<void>}
+   */
+  private async reinsertTask(task: Task): Promise<void> {
+    const restoredTask = await this.insertTask({
+      ...task,
+      id: this.resolveId(task.id),
+    });
+
+    if (restoredTask.id !== task.id) {
+      this.idAliases.set(task.id, restoredTask.id);
+    }
+  }
+
+  /**
+   * Eliminar definitivamente las tareas que superaron el periodo de retención de la papelera
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async purgeExpiredTrash(): Promise<void> {
+    const cutoff = Date.now() - this.trashRetentionDays * 86400000;
+    const expiredTasks = this.trashedTasks().filter(
+      (task) => task.deletedAt!.getTime() < cutoff
+    );
+
+    for (const task of expiredTasks) {
+      await this.removeTask(task.id);
+    }
+  }
+
+  /**
+   * Obtener el ID actual de una tarea que pudo haberse restaurado con otro ID
+   * @private
+   * @param {string} id - El ID original
+   * @returns {string} El ID vigente
+   */
+  private resolveId(id: string): string {
+    return this.idAliases.get(id) ?? id;
+  }
+
+  /**
+   * Aplicar la última operación de una pila del historial y pasarla a la otra
+   *
+   * La operación se saca de su pila antes de aplicarse, para que dos llamadas
+   * seguidas (p. ej. al mantener pulsado Ctrl+Z) no la apliquen dos veces, y
+   * las operaciones se aplican de una en una. Si falla, vuelve a su pila.
+   *
+   * @private
+   * @param {WritableSignal<TaskHistoryEntry[]>} from - Pila de la que se saca la operación
+   * @param {WritableSignal<TaskHistoryEntry[]>} to - Pila a la que pasa una vez aplicada
+   * @param {TaskHistoryEntry | null | undefined} expected - Operación que debe estar en lo alto de la pila, si se indica
+   * @param {(entry: TaskHistoryEntry) => Promise<void>} apply - Deshace o rehace la operación
+   * @returns {Promise<string | null>} Promise que se resuelve con la descripción de la operación, o null si no se aplicó ninguna
+   */
+  private async moveHistoryEntry(
+    from: WritableSignal<TaskHistoryEntry[]>,
+    to: WritableSignal<TaskHistoryEntry[]>,
+    expected: TaskHistoryEntry | null | undefined,
+    apply: (entry: TaskHistoryEntry) => Promise<void>
+  ): Promise<string | null> {
+    const entry = from().at(-1);
+    if (!entry || (expected !== undefined && entry !== expected)) {
+      return null;
+    }
+    from.update((stack) => stack.slice(0, -1));
+
+    const operation = this.historyOperation
+      .catch(() => undefined)
+      .then(() => apply(entry));
+    this.historyOperation = operation;
+    try {
+      await operation;
+    } catch (error) {
+      from.update((stack) => [...stack, entry]);
+      throw error;
+    }
+
+    to.update((stack) => [...stack, entry]);
+    return entry.label;
+  }
+
+  /**
+   * Registrar una operación en el historial, descartando las deshechas
+   * @private
+   * @param {TaskHistoryEntry} entry - La operación a registrar
+   * @returns {void}
+   */
+  private recordHistory(entry: TaskHistoryEntry): void {
+    this._undoStack.update((stack) =>
+      [...stack, entry].slice(-this.historyLimit)
+    );
+    this._redoStack.set([]);
+  }
+
+  /**
+   * Añadir al historial de actividad los cambios de un conjunto de tareas
+   * @private
+   * @param {Array<[Task | null, Task | null]>} changes - Pares de versiones (antes, después) de cada tarea
+   * @returns {void}
+   */
+  private recordActivity(changes: Array<[Task | null, Task | null]>): void {
+    const drafts = changes
+      .map(([before, after]) => diffTaskActivity(before, after))
+      .filter((draft): draft is TaskActivityDraft => draft !== null);
+    void this.activity.record(drafts);
+  }
+
+  /**
+   * Resolver un conflicto de sincronización conservando la versión elegida
+   *
+   * @param {string} conflictId - ID del conflicto
+   * @param {TaskConflictResolution} resolution - `local` para conservar el cambio propio, `remote` para aceptar el del servidor
+   * @returns {Promise<void>} Promise que se resuelve cuando el conflicto queda resuelto
+   */
+  async resolveConflict(
+    conflictId: string,
+    resolution: TaskConflictResolution
+  ): Promise<void> {
+    await this.repository.resolveConflict?.(conflictId, resolution);
   }
 }
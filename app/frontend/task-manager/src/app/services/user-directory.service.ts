@@ -0,0 +1,109 @@
+import { Injectable, PLATFORM_ID, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom, map } from 'rxjs';
+import { User, reviveUser } from '../models/user.model';
+import { AuthService } from './auth.service';
+
+/**
+ * Servicio del Directorio de Usuarios
+ *
+ * Carga las cuentas registradas desde la API `/api/users` para elegir con
+ * quién compartir un proyecto o a quién asignar una tarea, y para mostrar el
+ * nombre de los usuarios a partir de su ID.
+ *
+ * @class UserDirectoryService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class UserDirectoryService {
+  /**
+   * Cliente HTTP de Angular
+   * @private
+   */
+  private readonly http = inject(HttpClient);
+
+  /**
+   * Servicio de autenticación
+   * @private
+   */
+  private readonly auth = inject(AuthService);
+
+  /**
+   * URL base de la API de usuarios
+   * @private
+   */
+  private readonly baseUrl = '/api/users';
+
+  /**
+   * Signal privada con los usuarios registrados
+   * @private
+   */
+  private readonly _users = signal<User[]>([]);
+
+  /**
+   * Usuarios registrados, ordenados por nombre mostrado
+   * @readonly
+   * @returns {Signal<User[]>} Los usuarios
+   */
+  public readonly users = this._users.asReadonly();
+
+  constructor() {
+    if (isPlatformBrowser(inject(PLATFORM_ID)) && this.auth.isAuthenticated()) {
+      void this.refresh();
+    }
+  }
+
+  /**
+   * Volver a cargar los usuarios desde el servidor
+   *
+   * @returns {Promise<void>} Promise que se resuelve cuando se cargaron los usuarios
+   */
+  async refresh(): Promise<void> {
+    try {
+      const users = await firstValueFrom(
+        this.http
+          .get<User[]>(this.baseUrl)
+          .pipe(map((users) => users.map(reviveUser)))
+      );
+      this._users.set(users);
+    } catch (error) {
+      console.error('Error loading users:', error);
+    }
+  }
+
+  /**
+   * Obtener un usuario por ID
+   *
+   * @param {string} id - El ID del usuario
+   * @returns {User | undefined} El usuario, o undefined si no se conoce
+   */
+  getUser(id: string): User | undefined {
+    const currentUser = this.auth.user();
+    return currentUser?.id === id
+      ? currentUser
+      : this._users().find((user) => user.id === id);
+  }
+
+  /**
+   * Obtener el nombre visible de un usuario
+   *
+   * @param {string} id - El ID del usuario
+   * @returns {string} Su nombre mostrado, o "Usuario desconocido"
+   */
+  getDisplayName(id: string): string {
+    return this.getUser(id)?.displayName ?? 'Usuario desconocido';
+  }
+
+  /**
+   * Buscar un usuario por su nombre de usuario, sin distinguir mayúsculas
+   *
+   * @param {string} username - El nombre de usuario
+   * @returns {User | undefined} El usuario, o undefined si no existe
+   */
+  findByUsername(username: string): User | undefined {
+    const normalized = username.trim().toLowerCase();
+    return this._users().find((user) => user.username === normalized);
+  }
+}
@@ -0,0 +1,29 @@
+import { parseCsv, toCsv, unescapeCsvFormula } from './csv';
+
+describe('toCsv', () => {
+  it('quotes values with separators, quotes or line breaks', () => {
+    expect(toCsv([['a,b', 'dice "hola"', 'dos\nlíneas', 'simple']])).toBe(
+      '"a,b","dice ""hola""","dos\nlíneas",simple'
+    );
+  });
+
+  it('prefixes values that a spreadsheet would run as a formula', () => {
+    expect(
+      toCsv([['=HYPERLINK("http://example.com")', '+1', '-1', '@SUM(A1)', '\tx', 'a=b']])
+    ).toBe('"\'=HYPERLINK(""http://example.com"")",\'+1,\'-1,\'@SUM(A1),\'\tx,a=b');
+  });
+
+  it('reads back the original values', () => {
+    const values = ['=1+1', '-restar', "'ya citado", 'normal', 'con, coma'];
+
+    expect(parseCsv(toCsv([values]))[0].map(unescapeCsvFormula)).toEqual(values);
+  });
+});
+
+describe('unescapeCsvFormula', () => {
+  it('only removes the apostrophe added in front of a formula', () => {
+    expect(unescapeCsvFormula("'=1+1")).toBe('=1+1');
+    expect(unescapeCsvFormula("'hola")).toBe("'hola");
+    expect(unescapeCsvFormula('=1+1')).toBe('=1+1');
+  });
+});
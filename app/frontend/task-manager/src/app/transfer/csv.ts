@@ -0,0 +1,115 @@
+/**
+ * Caracteres iniciales con los que una hoja de cálculo interpreta una celda
+ * como fórmula
+ */
+const CSV_FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Convertir filas en texto CSV (RFC 4180)
+ *
+ * Los valores con separador, comillas o saltos de línea se escriben entre
+ * comillas, y los que empiezan como una fórmula llevan delante un apóstrofo
+ * para que la hoja de cálculo los muestre como texto (`unescapeCsvFormula` lo
+ * quita al leerlos). Las líneas terminan en CRLF.
+ *
+ * @param {string[][]} rows - Filas, incluida la cabecera
+ * @param {string} separator - Separador de columnas
+ * @returns {string} El texto CSV
+ */
+export function toCsv(rows: string[][], separator = ','): string {
+  return rows
+    .map((row) => row.map((value) => quoteCsvValue(value, separator)).join(separator))
+    .join('\r\n');
+}
+
+/**
+ * Interpretar un texto CSV (RFC 4180)
+ *
+ * Admite valores entre comillas con separadores, comillas dobles (`""`) y saltos
+ * de línea, finales de línea CRLF o LF y marca de orden de bytes inicial. El
+ * separador se detecta en la primera línea: `;` (habitual en hojas de cálculo en
+ * español) si aparece más que `,`. Se descartan las filas vacías.
+ *
+ * @param {string} text - El texto CSV
+ * @returns {string[][]} Las filas, incluida la cabecera
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = detectSeparator(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  row.push(value);
+  rows.push(row);
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Quitar el apóstrofo que `toCsv` añade a los valores que empiezan como una fórmula
+ *
+ * @param {string} value - El valor leído del CSV
+ * @returns {string} El valor original
+ */
+export function unescapeCsvFormula(value: string): string {
+  return value.startsWith("'") && CSV_FORMULA_PATTERN.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+}
+
+/**
+ * Escribir un valor CSV, neutralizando las fórmulas y entre comillas si es necesario
+ *
+ * @param {string} value - El valor
+ * @param {string} separator - Separador de columnas
+ * @returns {string} El valor listo para el CSV
+ */
+function quoteCsvValue(value: string, separator: string): string {
+  const text = CSV_FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return text.includes(separator) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Detectar el separador de columnas a partir de la primera línea
+ *
+ * @param {string} content - El texto CSV
+ * @returns {string} `;` o `,`
+ */
+function detectSeparator(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
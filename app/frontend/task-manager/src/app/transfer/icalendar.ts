@@ -0,0 +1,476 @@
+import { TaskRecurrence } from '../models/task-recurrence.model';
+
+/**
+ * Propiedad de un componente iCalendar (RFC 5545)
+ *
+ * @interface ICalProperty
+ */
+export interface ICalProperty {
+  /**
+   * Nombre de la propiedad, en mayúsculas (p. ej. `SUMMARY`)
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * Parámetros de la propiedad, con el nombre en mayúsculas (p. ej. `VALUE`)
+   * @type {Record<string, string>}
+   */
+  params: Record<string, string>;
+
+  /**
+   * Valor sin interpretar (los textos siguen escapados)
+   * @type {string}
+   */
+  value: string;
+}
+
+/**
+ * Componente iCalendar (`VCALENDAR`, `VTODO`, `VALARM`...)
+ *
+ * @interface ICalComponent
+ */
+export interface ICalComponent {
+  /**
+   * Nombre del componente, en mayúsculas
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * Propiedades del componente, en el orden del archivo
+   * @type {ICalProperty[]}
+   */
+  properties: ICalProperty[];
+
+  /**
+   * Componentes anidados
+   * @type {ICalComponent[]}
+   */
+  components: ICalComponent[];
+}
+
+/**
+ * Códigos RRULE de los días de la semana, empezando en domingo
+ */
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Longitud máxima de una línea, en bytes, antes de plegarla
+ */
+const ICAL_LINE_MAX_BYTES = 75;
+
+/**
+ * Formato de una duración negativa o positiva (`-P1DT2H30M`)
+ */
+const DURATION_PATTERN =
+  /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Formato de una fecha (`20261019`) o fecha y hora (`20261019T143000`, con `Z` en UTC)
+ */
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+/**
+ * Interpretar un texto iCalendar
+ *
+ * Despliega las líneas plegadas y construye el árbol de componentes. Las
+ * líneas fuera de un componente o mal formadas se ignoran.
+ *
+ * @param {string} text - El contenido del archivo `.ics`
+ * @returns {ICalComponent[]} Los componentes de primer nivel (normalmente un `VCALENDAR`)
+ * @throws {Error} Si un componente no se cierra o se cierra con otro nombre
+ */
+export function parseICalendar(text: string): ICalComponent[] {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/);
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of lines) {
+    const property = parseICalProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = {
+        name: property.value.toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      (stack.length ? stack[stack.length - 1].components : roots).push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const component = stack.pop();
+      if (component?.name !== property.value.toUpperCase()) {
+        throw new Error(`Cierre inesperado del componente ${property.value}`);
+      }
+    } else if (stack.length) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  if (stack.length) {
+    throw new Error(`El componente ${stack[stack.length - 1].name} no está cerrado`);
+  }
+  return roots;
+}
+
+/**
+ * Buscar la primera propiedad de un componente por su nombre
+ *
+ * @param {ICalComponent} component - El componente
+ * @param {string} name - Nombre de la propiedad, en mayúsculas
+ * @returns {ICalProperty | undefined} La propiedad, o undefined si no existe
+ */
+export function getICalProperty(
+  component: ICalComponent,
+  name: string
+): ICalProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+/**
+ * Escribir una línea de propiedad, plegada a 75 bytes
+ *
+ * @param {string} name - Nombre de la propiedad
+ * @param {string} value - Valor ya formateado (los textos deben pasar por `escapeICalText`)
+ * @param {Record<string, string>} params - Parámetros opcionales
+ * @returns {string} La línea (o líneas plegadas) sin salto final
+ */
+export function formatICalProperty(
+  name: string,
+  value: string,
+  params: Record<string, string> = {}
+): string {
+  const paramText = Object.entries(params)
+    .map(([key, paramValue]) => `;${key}=${paramValue}`)
+    .join('');
+  return foldICalLine(`${name}${paramText}:${value}`);
+}
+
+/**
+ * Escapar un texto para usarlo como valor iCalendar
+ *
+ * @param {string} text - El texto
+ * @returns {string} El texto con `\`, `;`, `,` y saltos de línea escapados
+ */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Recuperar un texto escapado de un valor iCalendar
+ *
+ * @param {string} value - El valor escapado
+ * @returns {string} El texto original
+ */
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Separar una lista de textos iCalendar (`CATEGORIES`) respetando las comas escapadas
+ *
+ * @param {string} value - El valor escapado
+ * @returns {string[]} Los textos, sin escapar
+ */
+export function splitICalList(value: string): string[] {
+  return (value.match(/(?:\\.|[^,])+/g) ?? []).map(unescapeICalText);
+}
+
+/**
+ * Formatear un día como fecha iCalendar (`AAAAMMDD`)
+ *
+ * @param {Date} date - La fecha (se usa el día local)
+ * @returns {string} La fecha formateada
+ */
+export function formatICalDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+/**
+ * Formatear un instante como fecha y hora iCalendar en UTC (`AAAAMMDDTHHmmssZ`)
+ *
+ * @param {Date} date - El instante
+ * @returns {string} La fecha y hora formateadas
+ */
+export function formatICalUtcDateTime(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Interpretar una fecha iCalendar
+ *
+ * Las fechas sin hora y las horas flotantes se leen en hora local; las horas
+ * en UTC (`Z`) se convierten a hora local.
+ *
+ * @param {string} value - El valor (`20261019`, `20261019T143000` o `20261019T143000Z`)
+ * @returns {{ date: Date; time?: string } | null} El día (a medianoche local) y la hora `HH:mm` si la tiene, o null si no es válida
+ */
+export function parseICalDateTime(value: string): { date: Date; time?: string } | null {
+  const match = DATE_TIME_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) {
+    const date = new Date(Number(year), Number(month) - 1, Number(day));
+    return isNaN(date.getTime()) ? null : { date };
+  }
+
+  const moment = utc
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  if (isNaN(moment.getTime())) {
+    return null;
+  }
+  return {
+    date: new Date(moment.getFullYear(), moment.getMonth(), moment.getDate()),
+    time: `${pad(moment.getHours())}:${pad(moment.getMinutes())}`,
+  };
+}
+
+/**
+ * Formatear una antelación en minutos como duración negativa (`-PT15M`, `-P1D`)
+ *
+ * @param {number} minutes - Minutos antes del vencimiento
+ * @returns {string} La duración iCalendar
+ */
+export function formatICalTrigger(minutes: number): string {
+  if (minutes === 0) {
+    return 'PT0S';
+  }
+  if (minutes % 1440 === 0) {
+    return `-P${minutes / 1440}D`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `-PT${hours ? `${hours}H` : ''}${rest ? `${rest}M` : ''}`;
+}
+
+/**
+ * Interpretar la duración de un aviso como minutos de antelación
+ *
+ * @param {string} value - La duración iCalendar (`-PT15M`, `-P1DT2H`...)
+ * @returns {number | null} Los minutos antes del vencimiento, o null si no es una antelación
+ */
+export function parseICalTrigger(value: string): number | null {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 10080 +
+    Number(days ?? 0) * 1440 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0) +
+    Math.ceil(Number(seconds ?? 0) / 60);
+  if (total === 0) {
+    return 0;
+  }
+  return sign === '-' ? total : null;
+}
+
+/**
+ * Convertir una regla de repetición en una RRULE
+ *
+ * Las repeticiones con límite exportan como `COUNT` las que quedan,
+ * incluida la actual.
+ *
+ * @param {TaskRecurrence} recurrence - La regla de repetición
+ * @returns {string} El valor de la propiedad `RRULE`
+ */
+export function formatICalRecurrence(recurrence: TaskRecurrence): string {
+  const parts: string[] = [];
+  switch (recurrence.frequency) {
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'interval':
+      parts.push('FREQ=DAILY', `INTERVAL=${recurrence.interval ?? 1}`);
+      break;
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      if (recurrence.weekdays?.length) {
+        parts.push(
+          `BYDAY=${[...recurrence.weekdays]
+            .sort((a, b) => a - b)
+            .map((day) => ICAL_WEEKDAYS[day])
+            .join(',')}`
+        );
+      }
+      break;
+    case 'monthly':
+      parts.push('FREQ=MONTHLY');
+      if (recurrence.dayOfMonth) {
+        parts.push(`BYMONTHDAY=${recurrence.dayOfMonth}`);
+      }
+      break;
+  }
+
+  if (recurrence.count) {
+    parts.push(`COUNT=${recurrence.count - (recurrence.occurrence ?? 1) + 1}`);
+  } else if (recurrence.endDate) {
+    parts.push(`UNTIL=${formatICalDate(recurrence.endDate)}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Convertir una RRULE en una regla de repetición
+ *
+ * Solo se admiten las reglas que la aplicación puede representar: diarias
+ * (con intervalo), semanales (cada semana, con días opcionales) y mensuales
+ * (cada mes, con un día del mes opcional).
+ *
+ * @param {string} value - El valor de la propiedad `RRULE`
+ * @returns {TaskRecurrence | null} La regla, o null si no es compatible
+ */
+export function parseICalRecurrence(value: string): TaskRecurrence | null {
+  const parts = new Map(
+    value.split(';').map((part) => {
+      const [key, partValue = ''] = part.split('=');
+      return [key.trim().toUpperCase(), partValue.trim().toUpperCase()] as const;
+    })
+  );
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    return null;
+  }
+
+  let recurrence: TaskRecurrence;
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+      recurrence =
+        interval === 1 ? { frequency: 'daily' } : { frequency: 'interval', interval };
+      break;
+    case 'WEEKLY': {
+      const weekdays = (parts.get('BYDAY') ?? '')
+        .split(',')
+        .filter(Boolean)
+        .map((day) => ICAL_WEEKDAYS.indexOf(day));
+      if (interval !== 1 || weekdays.includes(-1)) {
+        return null;
+      }
+      recurrence = weekdays.length
+        ? { frequency: 'weekly', weekdays }
+        : { frequency: 'weekly' };
+      break;
+    }
+    case 'MONTHLY': {
+      const dayOfMonth = parts.has('BYMONTHDAY') ? Number(parts.get('BYMONTHDAY')) : undefined;
+      if (
+        interval !== 1 ||
+        (dayOfMonth !== undefined &&
+          (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31))
+      ) {
+        return null;
+      }
+      recurrence = dayOfMonth ? { frequency: 'monthly', dayOfMonth } : { frequency: 'monthly' };
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : undefined;
+  if (count !== undefined) {
+    if (!Number.isInteger(count) || count < 1) {
+      return null;
+    }
+    recurrence.count = count;
+  }
+
+  const until = parts.has('UNTIL') ? parseICalDateTime(parts.get('UNTIL')!) : undefined;
+  if (until === null) {
+    return null;
+  }
+  if (until) {
+    recurrence.endDate = until.date;
+  }
+  return recurrence;
+}
+
+/**
+ * Interpretar una línea de contenido (`NOMBRE;PARAM=valor:valor`)
+ *
+ * @param {string} line - La línea desplegada
+ * @returns {ICalProperty | null} La propiedad, o null si la línea está vacía o mal formada
+ */
+function parseICalProperty(line: string): ICalProperty | null {
+  let separator = -1;
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator <= 0) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"(.*)"$/, '$1');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Plegar una línea en varias de como máximo 75 bytes, sin partir caracteres
+ *
+ * @param {string} line - La línea completa
+ * @returns {string} La línea plegada (continuaciones con CRLF y un espacio)
+ */
+function foldICalLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkBytes = 0;
+
+  for (const char of line) {
+    const code = char.codePointAt(0)!;
+    const bytes = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    const limit = chunks.length ? ICAL_LINE_MAX_BYTES - 1 : ICAL_LINE_MAX_BYTES;
+    if (chunkBytes + bytes > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += bytes;
+  }
+
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Completar un número con un cero a la izquierda
+ *
+ * @param {number} value - El número
+ * @returns {string} El número con al menos dos cifras
+ */
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
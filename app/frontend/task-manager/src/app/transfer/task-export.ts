@@ -0,0 +1,271 @@
+import { Task } from '../models/task.model';
+import { toCsv } from './csv';
+import {
+  escapeICalText,
+  formatICalDate,
+  formatICalProperty,
+  formatICalRecurrence,
+  formatICalTrigger,
+  formatICalUtcDateTime,
+} from './icalendar';
+
+/**
+ * Formatos de exportación e importación de tareas
+ *
+ * - `json`: copia completa (subtareas, recordatorios y repetición incluidos)
+ * - `csv`: hoja de cálculo con los campos principales
+ * - `ics`: tareas iCalendar (`VTODO`) para otras aplicaciones de tareas
+ */
+export type TaskTransferFormat = 'json' | 'csv' | 'ics';
+
+/**
+ * Datos de un formato de exportación
+ *
+ * @interface TaskTransferFormatInfo
+ */
+export interface TaskTransferFormatInfo {
+  /**
+   * El formato
+   * @type {TaskTransferFormat}
+   */
+  format: TaskTransferFormat;
+
+  /**
+   * Nombre visible del formato
+   * @type {string}
+   */
+  label: string;
+
+  /**
+   * Extensión de archivo, sin punto
+   * @type {string}
+   */
+  extension: string;
+
+  /**
+   * Tipo MIME del archivo
+   * @type {string}
+   */
+  mimeType: string;
+}
+
+/**
+ * Formatos de exportación disponibles
+ */
+export const TASK_TRANSFER_FORMATS: ReadonlyArray<TaskTransferFormatInfo> = [
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'ics', label: 'iCalendar', extension: 'ics', mimeType: 'text/calendar' },
+];
+
+/**
+ * Columnas del CSV exportado, en orden
+ */
+export const TASK_CSV_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'status',
+  'dueDate',
+  'dueTime',
+  'tags',
+] as const;
+
+/**
+ * Identificador del formato JSON de la aplicación
+ */
+export const TASK_JSON_FORMAT = 'task-manager';
+
+/**
+ * Sufijo de los UID de las tareas exportadas a iCalendar
+ */
+export const TASK_ICAL_UID_SUFFIX = '@task-manager';
+
+/**
+ * Valores de `PRIORITY` en iCalendar (1 es la más alta)
+ */
+const ICAL_PRIORITIES: Record<Task['priority'], number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+/**
+ * Obtener los datos de un formato de exportación
+ *
+ * @param {TaskTransferFormat} format - El formato
+ * @returns {TaskTransferFormatInfo} Sus datos
+ */
+export function getTransferFormatInfo(format: TaskTransferFormat): TaskTransferFormatInfo {
+  return TASK_TRANSFER_FORMATS.find((info) => info.format === format)!;
+}
+
+/**
+ * Deducir el formato de un archivo por su extensión
+ *
+ * @param {string} fileName - Nombre del archivo
+ * @returns {TaskTransferFormat | null} El formato, o null si la extensión no es compatible
+ */
+export function getTransferFormatFromFileName(fileName: string): TaskTransferFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return TASK_TRANSFER_FORMATS.find((info) => info.extension === extension)?.format ?? null;
+}
+
+/**
+ * Obtener el nombre de archivo para una exportación (p. ej. `tareas-2026-10-19.csv`)
+ *
+ * @param {TaskTransferFormat} format - El formato
+ * @param {Date} now - Momento de la exportación
+ * @returns {string} El nombre del archivo
+ */
+export function getExportFileName(format: TaskTransferFormat, now: Date): string {
+  return `tareas-${formatDay(now)}.${getTransferFormatInfo(format).extension}`;
+}
+
+/**
+ * Exportar tareas a texto en el formato indicado
+ *
+ * @param {Task[]} tasks - Las tareas a exportar
+ * @param {TaskTransferFormat} format - El formato
+ * @param {Date} now - Momento de la exportación
+ * @returns {string} El contenido del archivo
+ */
+export function exportTasks(tasks: Task[], format: TaskTransferFormat, now: Date): string {
+  switch (format) {
+    case 'json':
+      return exportTasksToJson(tasks, now);
+    case 'csv':
+      return exportTasksToCsv(tasks);
+    case 'ics':
+      return exportTasksToICalendar(tasks, now);
+  }
+}
+
+/**
+ * Formatear un día como `AAAA-MM-DD` en hora local
+ *
+ * @param {Date} date - La fecha
+ * @returns {string} El día formateado
+ */
+export function formatDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Exportar tareas a JSON, con todos sus campos salvo el proyecto
+ *
+ * @param {Task[]} tasks - Las tareas
+ * @param {Date} now - Momento de la exportación
+ * @returns {string} El documento JSON
+ */
+function exportTasksToJson(tasks: Task[], now: Date): string {
+  return JSON.stringify(
+    {
+      format: TASK_JSON_FORMAT,
+      version: 1,
+      exportedAt: now,
+      tasks: tasks.map(({ projectId, order, deletedAt, ...task }) => task),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Exportar tareas a CSV con las columnas de `TASK_CSV_COLUMNS`
+ *
+ * Las etiquetas se separan con `;` dentro de su columna.
+ *
+ * @param {Task[]} tasks - Las tareas
+ * @returns {string} El texto CSV
+ */
+function exportTasksToCsv(tasks: Task[]): string {
+  return toCsv([
+    [...TASK_CSV_COLUMNS],
+    ...tasks.map((task) => [
+      task.id,
+      task.title,
+      task.description ?? '',
+      String(task.completed),
+      task.priority,
+      task.status ?? '',
+      task.dueDate ? formatDay(task.dueDate) : '',
+      task.dueTime ?? '',
+      (task.tags ?? []).join(';'),
+    ]),
+  ]);
+}
+
+/**
+ * Exportar tareas a iCalendar, una `VTODO` por tarea
+ *
+ * Los vencimientos con hora se escriben en hora flotante (la hora local de
+ * quien abra el archivo) y los recordatorios como avisos relativos al vencimiento.
+ *
+ * @param {Task[]} tasks - Las tareas
+ * @param {Date} now - Momento de la exportación
+ * @returns {string} El documento iCalendar
+ */
+function exportTasksToICalendar(tasks: Task[], now: Date): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Task Manager//ES',
+    'CALSCALE:GREGORIAN',
+  ];
+
+  for (const task of tasks) {
+    lines.push(
+      'BEGIN:VTODO',
+      formatICalProperty('UID', `${task.id}${TASK_ICAL_UID_SUFFIX}`),
+      formatICalProperty('DTSTAMP', formatICalUtcDateTime(now)),
+      formatICalProperty('CREATED', formatICalUtcDateTime(task.createdAt)),
+      formatICalProperty('LAST-MODIFIED', formatICalUtcDateTime(task.updatedAt)),
+      formatICalProperty('SUMMARY', escapeICalText(task.title)),
+      formatICalProperty('PRIORITY', String(ICAL_PRIORITIES[task.priority])),
+      formatICalProperty('STATUS', task.completed ? 'COMPLETED' : 'NEEDS-ACTION')
+    );
+
+    if (task.description) {
+      lines.push(formatICalProperty('DESCRIPTION', escapeICalText(task.description)));
+    }
+    if (task.status) {
+      lines.push(formatICalProperty('X-TASK-MANAGER-STATUS', escapeICalText(task.status)));
+    }
+    if (task.tags?.length) {
+      lines.push(
+        formatICalProperty('CATEGORIES', task.tags.map(escapeICalText).join(','))
+      );
+    }
+    if (task.dueDate) {
+      lines.push(
+        task.dueTime
+          ? formatICalProperty(
+              'DUE',
+              `${formatICalDate(task.dueDate)}T${task.dueTime.replace(':', '')}00`
+            )
+          : formatICalProperty('DUE', formatICalDate(task.dueDate), { VALUE: 'DATE' })
+      );
+    }
+    if (task.recurrence) {
+      lines.push(formatICalProperty('RRULE', formatICalRecurrence(task.recurrence)));
+    }
+    for (const minutes of task.dueDate ? task.reminders ?? [] : []) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        formatICalProperty('DESCRIPTION', escapeICalText(task.title)),
+        formatICalProperty('TRIGGER', formatICalTrigger(minutes), { RELATED: 'END' }),
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VTODO');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n') + '\r\n';
+}
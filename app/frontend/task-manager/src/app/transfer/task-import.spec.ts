@@ -0,0 +1,26 @@
+import { Task } from '../models/task.model';
+import { exportTasks } from './task-export';
+import { previewTaskImport } from './task-import';
+
+describe('previewTaskImport', () => {
+  it('restores CSV cells that were exported with a formula prefix', () => {
+    const task: Task = {
+      id: 'task-1',
+      title: '=HYPERLINK("http://example.com","Abrir")',
+      description: '-5 grados por la mañana',
+      completed: false,
+      priority: 'medium',
+      tags: ['@casa'],
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    };
+
+    const csv = exportTasks([task], 'csv', new Date(0));
+    const [row] = previewTaskImport(csv, 'csv', [], 'tareas.csv').rows;
+
+    expect(csv).not.toMatch(/(^|,)[=+\-@]/m);
+    expect(row.request.title).toBe(task.title);
+    expect(row.request.description).toBe(task.description);
+    expect(row.request.tags).toEqual(['@casa']);
+  });
+});
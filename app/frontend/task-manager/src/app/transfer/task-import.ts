@@ -0,0 +1,520 @@
+import { CreateTaskRequest, Task, normalizeTags } from '../models/task.model';
+import { reviveRecurrence } from '../models/task-recurrence.model';
+import { normalizeSearchText } from '../search/task-query';
+import {
+  TaskValidationErrors,
+  parseTaskDate,
+  validateCreateTaskRequest,
+} from '../validators/task.validator';
+import { parseCsv, unescapeCsvFormula } from './csv';
+import {
+  ICalComponent,
+  getICalProperty,
+  parseICalDateTime,
+  parseICalRecurrence,
+  parseICalTrigger,
+  parseICalendar,
+  splitICalList,
+  unescapeICalText,
+} from './icalendar';
+import { TaskTransferFormat, formatDay } from './task-export';
+
+/**
+ * Número máximo de filas de un archivo de importación
+ */
+export const TASK_IMPORT_MAX_ROWS = 1000;
+
+/**
+ * Resultado de revisar una fila antes de importarla
+ *
+ * - `new`: se puede importar
+ * - `duplicate`: coincide (título y día de vencimiento) con una tarea existente o una fila anterior
+ * - `invalid`: sus datos no son válidos y no se puede importar
+ */
+export type TaskImportRowStatus = 'new' | 'duplicate' | 'invalid';
+
+/**
+ * Fila de un archivo de importación, ya revisada
+ *
+ * @interface TaskImportRow
+ */
+export interface TaskImportRow {
+  /**
+   * Número de la fila en el archivo, empezando en 1 (sin contar la cabecera del CSV)
+   * @type {number}
+   */
+  position: number;
+
+  /**
+   * Datos de la tarea a crear (solo completos si la fila no es `invalid`)
+   * @type {CreateTaskRequest}
+   */
+  request: CreateTaskRequest;
+
+  /**
+   * Resultado de la revisión
+   * @type {TaskImportRowStatus}
+   */
+  status: TaskImportRowStatus;
+
+  /**
+   * Errores de validación o motivo del duplicado, en español
+   * @type {string[]}
+   */
+  messages: string[];
+}
+
+/**
+ * Vista previa de una importación
+ *
+ * @interface TaskImportPreview
+ */
+export interface TaskImportPreview {
+  /**
+   * Nombre del archivo importado
+   * @type {string}
+   */
+  fileName: string;
+
+  /**
+   * Formato del archivo
+   * @type {TaskTransferFormat}
+   */
+  format: TaskTransferFormat;
+
+  /**
+   * Filas revisadas, en el orden del archivo
+   * @type {TaskImportRow[]}
+   */
+  rows: TaskImportRow[];
+}
+
+/**
+ * Error lanzado cuando un archivo no se puede leer como tareas
+ *
+ * @class TaskImportError
+ */
+export class TaskImportError extends Error {
+  /**
+   * @param {string} message - Motivo, en español
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskImportError';
+  }
+}
+
+/**
+ * Fila leída de un archivo, antes de validarla
+ */
+interface RawImportRow {
+  /**
+   * Campos de la tarea, tal como se leyeron
+   */
+  data: Record<string, unknown>;
+
+  /**
+   * Errores encontrados al leer los campos
+   */
+  errors: TaskValidationErrors;
+}
+
+/**
+ * Nombres de columna CSV aceptados para cada campo (normalizados, sin acentos)
+ */
+const CSV_COLUMN_ALIASES: Record<string, string> = {
+  title: 'title',
+  titulo: 'title',
+  tarea: 'title',
+  description: 'description',
+  descripcion: 'description',
+  notas: 'description',
+  completed: 'completed',
+  completada: 'completed',
+  priority: 'priority',
+  prioridad: 'priority',
+  status: 'status',
+  estado: 'status',
+  duedate: 'dueDate',
+  vencimiento: 'dueDate',
+  fecha: 'dueDate',
+  duetime: 'dueTime',
+  hora: 'dueTime',
+  tags: 'tags',
+  etiquetas: 'tags',
+};
+
+/**
+ * Valores CSV aceptados para la prioridad (normalizados, sin acentos)
+ */
+const CSV_PRIORITY_VALUES: Record<string, Task['priority']> = {
+  low: 'low',
+  baja: 'low',
+  medium: 'medium',
+  media: 'medium',
+  high: 'high',
+  alta: 'high',
+};
+
+/**
+ * Valores CSV aceptados para el estado de completado (normalizados, sin acentos)
+ */
+const CSV_BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  verdadero: true,
+  si: true,
+  yes: true,
+  x: true,
+  '1': true,
+  false: false,
+  falso: false,
+  no: false,
+  '0': false,
+};
+
+/**
+ * Campos que se toman de cada tarea de un archivo JSON
+ */
+const JSON_FIELDS = [
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'status',
+  'dueDate',
+  'dueTime',
+  'reminders',
+  'subtasks',
+  'tags',
+  'recurrence',
+];
+
+/**
+ * Leer un archivo de tareas y revisar cada fila antes de importarla
+ *
+ * Cada fila se convierte en un `CreateTaskRequest` y se valida con las mismas
+ * reglas que al crear una tarea. Las filas válidas que repiten el título
+ * (sin distinguir mayúsculas ni acentos) y el día de vencimiento de una tarea
+ * existente o de una fila anterior se marcan como duplicadas.
+ *
+ * @param {string} text - El contenido del archivo
+ * @param {TaskTransferFormat} format - El formato del archivo
+ * @param {Task[]} existingTasks - Tareas actuales, para detectar duplicados
+ * @param {string} fileName - Nombre del archivo
+ * @returns {TaskImportPreview} La vista previa
+ * @throws {TaskImportError} Si el archivo no se puede leer o no contiene tareas
+ */
+export function previewTaskImport(
+  text: string,
+  format: TaskTransferFormat,
+  existingTasks: Task[],
+  fileName: string
+): TaskImportPreview {
+  const rawRows = readRows(text, format);
+  if (!rawRows.length) {
+    throw new TaskImportError('El archivo no contiene tareas');
+  }
+  if (rawRows.length > TASK_IMPORT_MAX_ROWS) {
+    throw new TaskImportError(
+      `El archivo no puede tener más de ${TASK_IMPORT_MAX_ROWS} tareas`
+    );
+  }
+
+  const seenKeys = new Set(existingTasks.map(getDuplicateKey));
+  const rows = rawRows.map(({ data, errors }, index): TaskImportRow => {
+    const allErrors = { ...validateCreateTaskRequest(data), ...errors };
+    const messages = Object.values(allErrors).map((error) => error!.message);
+    const request = toCreateTaskRequest(data);
+    if (messages.length) {
+      return { position: index + 1, request, status: 'invalid', messages };
+    }
+
+    const key = getDuplicateKey(request);
+    if (seenKeys.has(key)) {
+      return {
+        position: index + 1,
+        request,
+        status: 'duplicate',
+        messages: ['Ya existe una tarea con el mismo título y fecha'],
+      };
+    }
+
+    seenKeys.add(key);
+    return { position: index + 1, request, status: 'new', messages: [] };
+  });
+
+  return { fileName, format, rows };
+}
+
+/**
+ * Leer las filas de un archivo según su formato
+ *
+ * @param {string} text - El contenido del archivo
+ * @param {TaskTransferFormat} format - El formato
+ * @returns {RawImportRow[]} Las filas leídas
+ * @throws {TaskImportError} Si el archivo no tiene el formato esperado
+ */
+function readRows(text: string, format: TaskTransferFormat): RawImportRow[] {
+  switch (format) {
+    case 'json':
+      return readJsonRows(text);
+    case 'csv':
+      return readCsvRows(text);
+    case 'ics':
+      return readICalendarRows(text);
+  }
+}
+
+/**
+ * Leer las tareas de un JSON exportado (o de una lista de tareas)
+ *
+ * @param {string} text - El documento JSON
+ * @returns {RawImportRow[]} Las filas leídas
+ * @throws {TaskImportError} Si no es JSON o no contiene una lista de tareas
+ */
+function readJsonRows(text: string): RawImportRow[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new TaskImportError('El archivo no es un JSON válido');
+  }
+
+  const tasks = Array.isArray(document)
+    ? document
+    : (document as Record<string, unknown> | null)?.['tasks'];
+  if (!Array.isArray(tasks)) {
+    throw new TaskImportError('El JSON no contiene una lista de tareas');
+  }
+
+  return tasks.map((task) => {
+    const item = typeof task === 'object' && task !== null ? task : {};
+    const data: Record<string, unknown> = {};
+    for (const field of JSON_FIELDS) {
+      const value = (item as Record<string, unknown>)[field];
+      if (value !== undefined && value !== null) {
+        data[field] = value;
+      }
+    }
+    return { data, errors: {} };
+  });
+}
+
+/**
+ * Leer las tareas de un CSV con cabecera
+ *
+ * Las columnas se reconocen por su nombre en inglés (como en la exportación)
+ * o en español; las desconocidas se ignoran.
+ * Las etiquetas se separan con `;` dentro de su columna.
+ *
+ * @param {string} text - El texto CSV
+ * @returns {RawImportRow[]} Las filas leídas
+ * @throws {TaskImportError} Si falta la columna del título
+ */
+function readCsvRows(text: string): RawImportRow[] {
+  const [header = [], ...rows] = parseCsv(text);
+  const fields = header.map(
+    (column) => CSV_COLUMN_ALIASES[normalizeSearchText(column.trim()).replace(/[\s_-]/g, '')]
+  );
+  if (!fields.includes('title')) {
+    throw new TaskImportError('El CSV debe tener una columna "title" o "título"');
+  }
+
+  return rows.map((row) => {
+    const data: Record<string, unknown> = {};
+    const errors: TaskValidationErrors = {};
+
+    fields.forEach((field, column) => {
+      const value = row[column] && unescapeCsvFormula(row[column]).trim();
+      if (!field || !value) {
+        return;
+      }
+
+      const key = normalizeSearchText(value);
+      switch (field) {
+        case 'completed':
+          data[field] = CSV_BOOLEAN_VALUES[key] ?? value;
+          break;
+        case 'priority':
+          data[field] = CSV_PRIORITY_VALUES[key] ?? value;
+          break;
+        case 'dueDate': {
+          const dueDate = parseDay(value);
+          if (dueDate) {
+            data[field] = dueDate;
+          } else {
+            errors.dueDate = {
+              code: 'invalid',
+              message: 'La fecha de vencimiento debe tener el formato AAAA-MM-DD',
+            };
+          }
+          break;
+        }
+        case 'tags':
+          data[field] = value.split(';');
+          break;
+        default:
+          data[field] = value;
+      }
+    });
+
+    return { data, errors };
+  });
+}
+
+/**
+ * Leer las tareas (`VTODO`) de un documento iCalendar
+ *
+ * @param {string} text - El documento iCalendar
+ * @returns {RawImportRow[]} Las filas leídas
+ * @throws {TaskImportError} Si el documento está mal formado o no tiene tareas
+ */
+function readICalendarRows(text: string): RawImportRow[] {
+  let components: ICalComponent[];
+  try {
+    components = parseICalendar(text);
+  } catch {
+    throw new TaskImportError('El archivo no es un iCalendar válido');
+  }
+
+  const todos = findComponents(components, 'VTODO');
+  if (!todos.length) {
+    throw new TaskImportError('El archivo iCalendar no contiene tareas (VTODO)');
+  }
+  return todos.map(readICalendarTodo);
+}
+
+/**
+ * Leer una tarea de un componente `VTODO`
+ *
+ * @param {ICalComponent} todo - El componente
+ * @returns {RawImportRow} La fila leída
+ */
+function readICalendarTodo(todo: ICalComponent): RawImportRow {
+  const data: Record<string, unknown> = {};
+  const errors: TaskValidationErrors = {};
+  const text = (name: string) => {
+    const property = getICalProperty(todo, name);
+    return property && unescapeICalText(property.value).trim();
+  };
+
+  data['title'] = text('SUMMARY');
+  data['description'] = text('DESCRIPTION') || undefined;
+  data['completed'] = text('STATUS')?.toUpperCase() === 'COMPLETED';
+  data['status'] = text('X-TASK-MANAGER-STATUS') || undefined;
+
+  const priority = Number(text('PRIORITY'));
+  if (priority >= 1 && priority <= 9) {
+    data['priority'] = priority < 5 ? 'high' : priority === 5 ? 'medium' : 'low';
+  }
+
+  const tags = todo.properties
+    .filter((property) => property.name === 'CATEGORIES')
+    .flatMap((property) => splitICalList(property.value));
+  if (tags.length) {
+    data['tags'] = tags;
+  }
+
+  const due = getICalProperty(todo, 'DUE');
+  if (due) {
+    const parsed = parseICalDateTime(due.value);
+    if (parsed) {
+      data['dueDate'] = parsed.date;
+      data['dueTime'] = parsed.time;
+    } else {
+      errors.dueDate = {
+        code: 'invalid',
+        message: 'La fecha de vencimiento no es válida',
+      };
+    }
+  }
+
+  const rule = getICalProperty(todo, 'RRULE');
+  if (rule) {
+    const recurrence = parseICalRecurrence(rule.value);
+    if (recurrence) {
+      data['recurrence'] = recurrence;
+    } else {
+      errors.recurrence = {
+        code: 'invalid',
+        message: 'La regla de repetición no es compatible',
+      };
+    }
+  }
+
+  const reminders = todo.components
+    .filter((component) => component.name === 'VALARM')
+    .map((alarm) => getICalProperty(alarm, 'TRIGGER'))
+    .filter((trigger) => trigger && trigger.params['VALUE'] !== 'DATE-TIME')
+    .map((trigger) => parseICalTrigger(trigger!.value))
+    .filter((minutes): minutes is number => minutes !== null);
+  if (due && reminders.length) {
+    data['reminders'] = [...new Set(reminders)].sort((a, b) => a - b);
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Buscar todos los componentes con un nombre, a cualquier profundidad
+ *
+ * @param {ICalComponent[]} components - Componentes en los que buscar
+ * @param {string} name - Nombre del componente
+ * @returns {ICalComponent[]} Los componentes encontrados
+ */
+function findComponents(components: ICalComponent[], name: string): ICalComponent[] {
+  return components.flatMap((component) => [
+    ...(component.name === name ? [component] : []),
+    ...findComponents(component.components, name),
+  ]);
+}
+
+/**
+ * Convertir los campos leídos (ya validados) en los datos para crear la tarea
+ *
+ * @param {Record<string, unknown>} data - Los campos leídos
+ * @returns {CreateTaskRequest} Los datos de la tarea
+ */
+function toCreateTaskRequest(data: Record<string, unknown>): CreateTaskRequest {
+  const request = { ...data } as unknown as CreateTaskRequest;
+  return {
+    ...request,
+    title: typeof request.title === 'string' ? request.title.trim() : request.title,
+    dueDate: parseTaskDate(data['dueDate']),
+    tags: Array.isArray(request.tags) ? normalizeTags(request.tags) : request.tags,
+    recurrence: request.recurrence && reviveRecurrence(request.recurrence),
+  };
+}
+
+/**
+ * Obtener la clave con la que se comparan tareas para detectar duplicados
+ *
+ * @param {Pick<Task, 'title' | 'dueDate'>} task - La tarea o los datos de la nueva
+ * @returns {string} Título normalizado y día de vencimiento
+ */
+function getDuplicateKey(task: Pick<Task, 'title' | 'dueDate'>): string {
+  const title = normalizeSearchText(task.title.trim()).replace(/\s+/g, ' ');
+  return `${title}|${task.dueDate ? formatDay(task.dueDate) : ''}`;
+}
+
+/**
+ * Interpretar un día escrito como `AAAA-MM-DD` o `DD/MM/AAAA`
+ *
+ * @param {string} value - El texto
+ * @returns {Date | null} El día a medianoche local, o null si no es válido
+ */
+function parseDay(value: string): Date | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const local = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : local
+      ? [local[3], local[2], local[1]]
+      : [];
+  if (!year) {
+    return null;
+  }
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  return date.getMonth() === Number(month) - 1 ? date : null;
+}
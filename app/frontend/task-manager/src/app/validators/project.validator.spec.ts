@@ -0,0 +1,67 @@
+import {
+  PROJECT_COLORS,
+  PROJECT_NAME_MAX_LENGTH,
+  validateCreateProjectRequest,
+  validateUpdateProjectRequest,
+} from './project.validator';
+
+describe('validateCreateProjectRequest', () => {
+  it('accepts a project with a name and a palette colour', () => {
+    expect(
+      validateCreateProjectRequest({ name: 'Casa', color: PROJECT_COLORS[0] })
+    ).toBeNull();
+  });
+
+  it('requires a name', () => {
+    expect(validateCreateProjectRequest({})?.name?.code).toBe('required');
+    expect(validateCreateProjectRequest({ name: '  ' })?.name?.code).toBe('required');
+  });
+
+  it('limits the length of the name', () => {
+    expect(
+      validateCreateProjectRequest({ name: 'a'.repeat(PROJECT_NAME_MAX_LENGTH + 1) })?.name
+        ?.code
+    ).toBe('maxlength');
+  });
+
+  it('rejects colours outside the palette', () => {
+    expect(
+      validateCreateProjectRequest({ name: 'Casa', color: '#000000' })?.color?.code
+    ).toBe('invalid');
+  });
+});
+
+describe('validateUpdateProjectRequest', () => {
+  it('accepts an empty update', () => {
+    expect(validateUpdateProjectRequest({})).toBeNull();
+  });
+
+  it('accepts members with a known role', () => {
+    expect(
+      validateUpdateProjectRequest({
+        members: [
+          { userId: 'user-1', role: 'editor' },
+          { userId: 'user-2', role: 'viewer' },
+        ],
+      })
+    ).toBeNull();
+  });
+
+  it('rejects malformed or repeated members', () => {
+    expect(validateUpdateProjectRequest({ members: 'user-1' })?.members?.code).toBe(
+      'invalid'
+    );
+    expect(
+      validateUpdateProjectRequest({ members: [{ userId: 'user-1', role: 'owner' }] })
+        ?.members?.code
+    ).toBe('invalid');
+    expect(
+      validateUpdateProjectRequest({
+        members: [
+          { userId: 'user-1', role: 'editor' },
+          { userId: 'user-1', role: 'viewer' },
+        ],
+      })?.members?.code
+    ).toBe('invalid');
+  });
+});
@@ -0,0 +1,146 @@
+import { PROJECT_ROLES, UpdateProjectRequest } from '../models/project.model';
+import { TaskFieldError } from './task.validator';
+
+/**
+ * Longitud máxima del nombre de un proyecto
+ */
+export const PROJECT_NAME_MAX_LENGTH = 50;
+
+/**
+ * Colores disponibles para los proyectos
+ */
+export const PROJECT_COLORS: ReadonlyArray<string> = [
+  '#5c6bc0',
+  '#26a69a',
+  '#ef5350',
+  '#ffa726',
+  '#ab47bc',
+  '#8d6e63',
+  '#42a5f5',
+  '#66bb6a',
+];
+
+/**
+ * Errores de validación de proyecto indexados por nombre de campo
+ */
+export type ProjectValidationErrors = Partial<
+  Record<keyof UpdateProjectRequest, TaskFieldError>
+>;
+
+/**
+ * Error lanzado cuando los datos de un proyecto no son válidos
+ *
+ * @class ProjectValidationError
+ */
+export class ProjectValidationError extends Error {
+  /**
+   * @param {ProjectValidationErrors} errors - Errores por campo
+   */
+  constructor(readonly errors: ProjectValidationErrors) {
+    super('Datos de proyecto inválidos');
+    this.name = 'ProjectValidationError';
+  }
+}
+
+/**
+ * Validar los datos para crear un proyecto
+ *
+ * @param {unknown} request - Los datos recibidos
+ * @returns {ProjectValidationErrors | null} Errores por campo, o null si son válidos
+ */
+export function validateCreateProjectRequest(
+  request: unknown
+): ProjectValidationErrors | null {
+  const data = asRecord(request);
+  const errors: ProjectValidationErrors = {};
+
+  if (data['name'] === undefined) {
+    errors.name = {
+      code: 'required',
+      message: 'El nombre del proyecto es obligatorio',
+    };
+  }
+
+  collectFieldErrors(data, errors);
+  return Object.keys(errors).length ? errors : null;
+}
+
+/**
+ * Validar los datos para actualizar un proyecto
+ *
+ * @param {unknown} request - Los datos recibidos
+ * @returns {ProjectValidationErrors | null} Errores por campo, o null si son válidos
+ */
+export function validateUpdateProjectRequest(
+  request: unknown
+): ProjectValidationErrors | null {
+  const errors: ProjectValidationErrors = {};
+  collectFieldErrors(asRecord(request), errors);
+  return Object.keys(errors).length ? errors : null;
+}
+
+/**
+ * Validar los campos comunes a creación y actualización
+ *
+ * @param {Record<string, unknown>} data - Los datos recibidos
+ * @param {ProjectValidationErrors} errors - Acumulador de errores
+ * @returns {void}
+ */
+function collectFieldErrors(
+  data: Record<string, unknown>,
+  errors: ProjectValidationErrors
+): void {
+  const name = data['name'];
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.name = {
+        code: 'required',
+        message: 'El nombre del proyecto es obligatorio',
+      };
+    } else if (name.trim().length > PROJECT_NAME_MAX_LENGTH) {
+      errors.name = {
+        code: 'maxlength',
+        message: `El nombre no puede superar los ${PROJECT_NAME_MAX_LENGTH} caracteres`,
+      };
+    }
+  }
+
+  const color = data['color'];
+  if (color !== undefined && !PROJECT_COLORS.includes(color as string)) {
+    errors.color = { code: 'invalid', message: 'El color no es válido' };
+  }
+
+  const members = data['members'];
+  if (members !== undefined) {
+    const memberIds = Array.isArray(members)
+      ? members.map((member) => asRecord(member)['userId'])
+      : [];
+    if (
+      !Array.isArray(members) ||
+      members.some(
+        (member) =>
+          typeof asRecord(member)['userId'] !== 'string' ||
+          !PROJECT_ROLES.some((role) => role.value === asRecord(member)['role'])
+      )
+    ) {
+      errors.members = { code: 'invalid', message: 'Los miembros no son válidos' };
+    } else if (new Set(memberIds).size !== memberIds.length) {
+      errors.members = {
+        code: 'invalid',
+        message: 'Un usuario no puede aparecer dos veces entre los miembros',
+      };
+    }
+  }
+}
+
+/**
+ * Normalizar los datos recibidos a un objeto indexable
+ *
+ * @param {unknown} value - Los datos recibidos
+ * @returns {Record<string, unknown>} El objeto, o uno vacío si no lo es
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)
+    : {};
+}
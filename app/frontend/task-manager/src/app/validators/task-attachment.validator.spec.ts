@@ -0,0 +1,49 @@
+import {
+  TASK_ATTACHMENTS_MAX,
+  TASK_ATTACHMENT_MAX_SIZE,
+  TASK_ATTACHMENT_NAME_MAX_LENGTH,
+  validateTaskAttachmentUpload,
+} from './task-attachment.validator';
+
+describe('validateTaskAttachmentUpload', () => {
+  const upload = { name: 'factura.pdf', mimeType: 'application/pdf', size: 2048 };
+
+  it('accepts a supported file', () => {
+    expect(validateTaskAttachmentUpload(upload, 0)).toBeNull();
+  });
+
+  it('checks the file name', () => {
+    expect(validateTaskAttachmentUpload({ ...upload, name: ' ' }, 0)?.name?.code).toBe(
+      'required'
+    );
+    expect(
+      validateTaskAttachmentUpload(
+        { ...upload, name: 'a'.repeat(TASK_ATTACHMENT_NAME_MAX_LENGTH + 1) },
+        0
+      )?.name?.code
+    ).toBe('maxlength');
+  });
+
+  it('rejects unsupported file types', () => {
+    expect(
+      validateTaskAttachmentUpload({ ...upload, mimeType: 'text/html' }, 0)?.mimeType?.code
+    ).toBe('invalid');
+  });
+
+  it('rejects empty and oversized files', () => {
+    expect(validateTaskAttachmentUpload({ ...upload, size: 0 }, 0)?.size?.code).toBe(
+      'required'
+    );
+    expect(
+      validateTaskAttachmentUpload({ ...upload, size: TASK_ATTACHMENT_MAX_SIZE + 1 }, 0)?.size
+        ?.code
+    ).toBe('maxlength');
+  });
+
+  it('limits the number of attachments per task', () => {
+    expect(validateTaskAttachmentUpload(upload, TASK_ATTACHMENTS_MAX - 1)).toBeNull();
+    expect(
+      validateTaskAttachmentUpload(upload, TASK_ATTACHMENTS_MAX)?.attachments?.code
+    ).toBe('maxlength');
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  TASK_ATTACHMENT_TYPES_BY_EXTENSION,
+  TaskAttachmentUpload,
+} from '../models/task-attachment.model';
+import { TaskFieldError } from './task.validator';
+
+/**
+ * Tamaño máximo de un archivo adjunto en bytes (10 MB)
+ */
+export const TASK_ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Número máximo de archivos adjuntos por tarea
+ */
+export const TASK_ATTACHMENTS_MAX = 10;
+
+/**
+ * Longitud máxima del nombre de un archivo adjunto
+ */
+export const TASK_ATTACHMENT_NAME_MAX_LENGTH = 255;
+
+/**
+ * Errores de validación de adjunto indexados por nombre de campo;
+ * `attachments` indica que la tarea ya tiene el máximo de adjuntos
+ */
+export type TaskAttachmentValidationErrors = Partial<
+  Record<keyof TaskAttachmentUpload | 'attachments', TaskFieldError>
+>;
+
+/**
+ * Error lanzado cuando un archivo no puede adjuntarse
+ *
+ * @class TaskAttachmentValidationError
+ */
+export class TaskAttachmentValidationError extends Error {
+  /**
+   * @param {TaskAttachmentValidationErrors} errors - Errores por campo
+   */
+  constructor(readonly errors: TaskAttachmentValidationErrors) {
+    super('Archivo adjunto inválido');
+    this.name = 'TaskAttachmentValidationError';
+  }
+}
+
+/**
+ * Validar un archivo antes de adjuntarlo a una tarea
+ *
+ * @param {TaskAttachmentUpload} upload - Nombre, tipo y tamaño del archivo
+ * @param {number} attachmentCount - Número de adjuntos que ya tiene la tarea
+ * @returns {TaskAttachmentValidationErrors | null} Errores por campo, o null si es válido
+ */
+export function validateTaskAttachmentUpload(
+  upload: TaskAttachmentUpload,
+  attachmentCount: number
+): TaskAttachmentValidationErrors | null {
+  const errors: TaskAttachmentValidationErrors = {};
+
+  if (!upload.name.trim()) {
+    errors.name = { code: 'required', message: 'El archivo debe tener nombre' };
+  } else if (upload.name.length > TASK_ATTACHMENT_NAME_MAX_LENGTH) {
+    errors.name = {
+      code: 'maxlength',
+      message: `El nombre del archivo no puede superar los ${TASK_ATTACHMENT_NAME_MAX_LENGTH} caracteres`,
+    };
+  }
+
+  if (!Object.values(TASK_ATTACHMENT_TYPES_BY_EXTENSION).includes(upload.mimeType)) {
+    errors.mimeType = {
+      code: 'invalid',
+      message: 'Tipo de archivo no admitido: solo imágenes, PDF, texto y documentos de oficina',
+    };
+  }
+
+  if (upload.size <= 0) {
+    errors.size = { code: 'required', message: 'El archivo está vacío' };
+  } else if (upload.size > TASK_ATTACHMENT_MAX_SIZE) {
+    errors.size = {
+      code: 'maxlength',
+      message: `El archivo no puede superar los ${TASK_ATTACHMENT_MAX_SIZE / (1024 * 1024)} MB`,
+    };
+  }
+
+  if (attachmentCount >= TASK_ATTACHMENTS_MAX) {
+    errors.attachments = {
+      code: 'maxlength',
+      message: `Una tarea no puede tener más de ${TASK_ATTACHMENTS_MAX} adjuntos`,
+    };
+  }
+
+  return Object.keys(errors).length ? errors : null;
+}
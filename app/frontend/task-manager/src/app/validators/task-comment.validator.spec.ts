@@ -0,0 +1,37 @@
+import {
+  TASK_COMMENT_MAX_LENGTH,
+  validateCreateTaskCommentRequest,
+  validateUpdateTaskCommentRequest,
+} from './task-comment.validator';
+
+describe('validateCreateTaskCommentRequest', () => {
+  it('accepts a comment on a task', () => {
+    expect(
+      validateCreateTaskCommentRequest({ taskId: 'task-1', text: 'Hecho a medias' })
+    ).toBeNull();
+  });
+
+  it('requires the task and the text', () => {
+    const errors = validateCreateTaskCommentRequest({ taskId: ' ', text: ' ' });
+
+    expect(errors?.taskId?.code).toBe('required');
+    expect(errors?.text?.code).toBe('required');
+  });
+
+  it('limits the length of the text', () => {
+    expect(
+      validateCreateTaskCommentRequest({
+        taskId: 'task-1',
+        text: 'a'.repeat(TASK_COMMENT_MAX_LENGTH + 1),
+      })?.text?.code
+    ).toBe('maxlength');
+  });
+});
+
+describe('validateUpdateTaskCommentRequest', () => {
+  it('only checks the text', () => {
+    expect(validateUpdateTaskCommentRequest({ text: 'Corregido' })).toBeNull();
+    expect(validateUpdateTaskCommentRequest({})?.text?.code).toBe('required');
+    expect(validateUpdateTaskCommentRequest({ text: 3 })?.text?.code).toBe('required');
+  });
+});
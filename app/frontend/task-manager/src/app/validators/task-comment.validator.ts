@@ -0,0 +1,94 @@
+import { CreateTaskCommentRequest } from '../models/task-comment.model';
+import { TaskFieldError } from './task.validator';
+
+/**
+ * Longitud máxima del texto de un comentario
+ */
+export const TASK_COMMENT_MAX_LENGTH = 2000;
+
+/**
+ * Errores de validación de comentario indexados por nombre de campo
+ */
+export type TaskCommentValidationErrors = Partial<
+  Record<keyof CreateTaskCommentRequest, TaskFieldError>
+>;
+
+/**
+ * Error lanzado cuando los datos de un comentario no son válidos
+ *
+ * @class TaskCommentValidationError
+ */
+export class TaskCommentValidationError extends Error {
+  /**
+   * @param {TaskCommentValidationErrors} errors - Errores por campo
+   */
+  constructor(readonly errors: TaskCommentValidationErrors) {
+    super('Datos de comentario inválidos');
+    this.name = 'TaskCommentValidationError';
+  }
+}
+
+/**
+ * Validar los datos para crear un comentario
+ *
+ * @param {unknown} request - Los datos recibidos
+ * @returns {TaskCommentValidationErrors | null} Errores por campo, o null si son válidos
+ */
+export function validateCreateTaskCommentRequest(
+  request: unknown
+): TaskCommentValidationErrors | null {
+  const data = asRecord(request);
+  const errors: TaskCommentValidationErrors = {};
+
+  const taskId = data['taskId'];
+  if (typeof taskId !== 'string' || !taskId.trim()) {
+    errors.taskId = { code: 'required', message: 'La tarea es obligatoria' };
+  }
+
+  collectTextError(data['text'], errors);
+  return Object.keys(errors).length ? errors : null;
+}
+
+/**
+ * Validar los datos para editar un comentario
+ *
+ * @param {unknown} request - Los datos recibidos
+ * @returns {TaskCommentValidationErrors | null} Errores por campo, o null si son válidos
+ */
+export function validateUpdateTaskCommentRequest(
+  request: unknown
+): TaskCommentValidationErrors | null {
+  const errors: TaskCommentValidationErrors = {};
+  collectTextError(asRecord(request)['text'], errors);
+  return Object.keys(errors).length ? errors : null;
+}
+
+/**
+ * Validar el texto de un comentario
+ *
+ * @param {unknown} text - El texto recibido
+ * @param {TaskCommentValidationErrors} errors - Acumulador de errores
+ * @returns {void}
+ */
+function collectTextError(text: unknown, errors: TaskCommentValidationErrors): void {
+  if (typeof text !== 'string' || !text.trim()) {
+    errors.text = { code: 'required', message: 'El comentario no puede estar vacío' };
+  } else if (text.trim().length > TASK_COMMENT_MAX_LENGTH) {
+    errors.text = {
+      code: 'maxlength',
+      message: `El comentario no puede superar los ${TASK_COMMENT_MAX_LENGTH} caracteres`,
+    };
+  }
+}
+
+/**
+ * Normalizar los datos recibidos a un objeto indexable
+ *
+ * @param {unknown} value - Los datos recibidos
+ * @returns {Record<string, unknown>} El objeto, o uno vacío si no lo es
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)
+    : {};
+}
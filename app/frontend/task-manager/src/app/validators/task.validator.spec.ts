@@ -0,0 +1,176 @@
+import {
+  TASK_BLOCKERS_MAX,
+  TASK_DESCRIPTION_MAX_LENGTH,
+  TASK_REMINDERS_MAX,
+  TASK_SUBTASKS_MAX,
+  TASK_TAGS_MAX,
+  TASK_TITLE_MAX_LENGTH,
+  parseTaskDate,
+  validateCreateTaskRequest,
+  validateUpdateTaskRequest,
+} from './task.validator';
+
+describe('validateCreateTaskRequest', () => {
+  it('accepts a task with only a title', () => {
+    expect(validateCreateTaskRequest({ title: 'Comprar pan' })).toBeNull();
+  });
+
+  it('requires a title', () => {
+    expect(validateCreateTaskRequest({})?.title?.code).toBe('required');
+    expect(validateCreateTaskRequest(null)?.title?.code).toBe('required');
+  });
+
+  it('rejects a blank, short, long or non-text title', () => {
+    expect(validateCreateTaskRequest({ title: '   ' })?.title?.code).toBe('required');
+    expect(validateCreateTaskRequest({ title: null })?.title?.code).toBe('required');
+    expect(validateCreateTaskRequest({ title: ' ab ' })?.title?.code).toBe('minlength');
+    expect(
+      validateCreateTaskRequest({ title: 'a'.repeat(TASK_TITLE_MAX_LENGTH + 1) })?.title?.code
+    ).toBe('maxlength');
+    expect(validateCreateTaskRequest({ title: 42 })?.title?.code).toBe('invalid');
+  });
+
+  it('accepts a complete, valid task', () => {
+    expect(
+      validateCreateTaskRequest({
+        title: 'Preparar la reunión',
+        description: 'Revisar el orden del día',
+        completed: false,
+        priority: 'high',
+        status: 'in-progress',
+        dueDate: '2026-10-20',
+        dueTime: '09:30',
+        reminders: [0, 15, 1440],
+        subtasks: [{ id: 'sub-1', title: 'Reservar sala', completed: true }],
+        projectId: 'project-1',
+        assigneeId: 'user-1',
+        order: 3,
+        recurrence: { frequency: 'weekly', weekdays: [1, 3] },
+        tags: ['trabajo'],
+        blockedBy: ['task-2'],
+      })
+    ).toBeNull();
+  });
+});
+
+describe('validateUpdateTaskRequest', () => {
+  it('accepts an empty update', () => {
+    expect(validateUpdateTaskRequest({})).toBeNull();
+  });
+
+  it('allows clearing the optional fields with null', () => {
+    expect(
+      validateUpdateTaskRequest({
+        description: null,
+        dueDate: null,
+        dueTime: null,
+        deletedAt: null,
+        projectId: null,
+        assigneeId: null,
+        recurrence: null,
+      })
+    ).toBeNull();
+  });
+
+  it('rejects a null title', () => {
+    expect(validateUpdateTaskRequest({ title: null })?.title?.code).toBe('required');
+  });
+
+  it('reports each invalid field', () => {
+    const errors = validateUpdateTaskRequest({
+      description: 'a'.repeat(TASK_DESCRIPTION_MAX_LENGTH + 1),
+      completed: 'sí',
+      priority: 'urgent',
+      status: 'En curso',
+      dueDate: 'mañana',
+      dueTime: '24:00',
+      deletedAt: 7,
+      projectId: '',
+      assigneeId: 5,
+      order: Number.NaN,
+      recurrence: { frequency: 'weekly', weekdays: [] },
+      tags: [1],
+      blockedBy: [''],
+    });
+
+    expect(errors?.description?.code).toBe('maxlength');
+    expect(errors?.completed?.code).toBe('invalid');
+    expect(errors?.priority?.code).toBe('invalid');
+    expect(errors?.status?.code).toBe('invalid');
+    expect(errors?.dueDate?.code).toBe('invalid');
+    expect(errors?.dueTime?.code).toBe('invalid');
+    expect(errors?.deletedAt?.code).toBe('invalid');
+    expect(errors?.projectId?.code).toBe('invalid');
+    expect(errors?.assigneeId?.code).toBe('invalid');
+    expect(errors?.order?.code).toBe('invalid');
+    expect(errors?.recurrence?.code).toBe('invalid');
+    expect(errors?.tags?.code).toBe('invalid');
+    expect(errors?.blockedBy?.code).toBe('invalid');
+  });
+
+  it('limits the number of reminders, subtasks, tags and blockers', () => {
+    const subtasks = Array.from({ length: TASK_SUBTASKS_MAX + 1 }, (_, index) => ({
+      id: `sub-${index}`,
+      title: 'Paso',
+      completed: false,
+    }));
+    const errors = validateUpdateTaskRequest({
+      reminders: Array.from({ length: TASK_REMINDERS_MAX + 1 }, (_, index) => index),
+      subtasks,
+      tags: Array.from({ length: TASK_TAGS_MAX + 1 }, (_, index) => `tag-${index}`),
+      blockedBy: Array.from({ length: TASK_BLOCKERS_MAX + 1 }, (_, index) => `task-${index}`),
+    });
+
+    expect(errors?.reminders?.code).toBe('maxlength');
+    expect(errors?.subtasks?.code).toBe('maxlength');
+    expect(errors?.tags?.code).toBe('maxlength');
+    expect(errors?.blockedBy?.code).toBe('maxlength');
+  });
+
+  it('rejects reminders that are not whole minutes within range', () => {
+    expect(validateUpdateTaskRequest({ reminders: [-1] })?.reminders?.code).toBe('invalid');
+    expect(validateUpdateTaskRequest({ reminders: [1.5] })?.reminders?.code).toBe('invalid');
+    expect(validateUpdateTaskRequest({ reminders: [40321] })?.reminders?.code).toBe('invalid');
+  });
+
+  it('rejects subtasks without an ID or title', () => {
+    expect(
+      validateUpdateTaskRequest({ subtasks: [{ id: '', title: 'Paso', completed: false }] })
+        ?.subtasks?.code
+    ).toBe('invalid');
+    expect(
+      validateUpdateTaskRequest({ subtasks: [{ id: 'sub-1', title: ' ', completed: false }] })
+        ?.subtasks?.code
+    ).toBe('invalid');
+  });
+
+  it('checks the parameters of each recurrence frequency', () => {
+    const recurrenceError = (recurrence: unknown) =>
+      validateUpdateTaskRequest({ recurrence })?.recurrence?.code;
+
+    expect(recurrenceError({ frequency: 'daily' })).toBeUndefined();
+    expect(recurrenceError({ frequency: 'interval', interval: 3 })).toBeUndefined();
+    expect(recurrenceError({ frequency: 'interval', interval: 0 })).toBe('invalid');
+    expect(recurrenceError({ frequency: 'monthly', dayOfMonth: 31 })).toBeUndefined();
+    expect(recurrenceError({ frequency: 'monthly', dayOfMonth: 32 })).toBe('invalid');
+    expect(recurrenceError({ frequency: 'weekly', weekdays: [7] })).toBe('invalid');
+    expect(recurrenceError({ frequency: 'daily', count: 0 })).toBe('invalid');
+    expect(recurrenceError({ frequency: 'daily', endDate: 'nunca' })).toBe('invalid');
+    expect(recurrenceError({ frequency: 'hourly' })).toBe('invalid');
+  });
+});
+
+describe('parseTaskDate', () => {
+  it('returns undefined for empty values', () => {
+    expect(parseTaskDate(undefined)).toBeUndefined();
+    expect(parseTaskDate(null)).toBeUndefined();
+    expect(parseTaskDate('')).toBeUndefined();
+  });
+
+  it('keeps dates and parses ISO strings', () => {
+    const date = new Date('2026-10-20T09:30:00.000Z');
+
+    expect(parseTaskDate(date)).toBe(date);
+    expect(parseTaskDate('2026-10-20T09:30:00.000Z')?.getTime()).toBe(date.getTime());
+  });
+});
@@ -0,0 +1,524 @@
+import { Subtask, Task, UpdateTaskRequest } from '../models/task.model';
+import {
+  TASK_RECURRENCE_FREQUENCIES,
+  TaskRecurrence,
+} from '../models/task-recurrence.model';
+
+/**
+ * Longitud mínima del título de una tarea
+ */
+export const TASK_TITLE_MIN_LENGTH = 3;
+
+/**
+ * Longitud máxima del título de una tarea
+ */
+export const TASK_TITLE_MAX_LENGTH = 100;
+
+/**
+ * Longitud máxima de la descripción de una tarea (texto Markdown)
+ */
+export const TASK_DESCRIPTION_MAX_LENGTH = 5000;
+
+/**
+ * Longitud máxima del título de una subtarea
+ */
+export const TASK_SUBTASK_TITLE_MAX_LENGTH = 100;
+
+/**
+ * Número máximo de subtareas por tarea
+ */
+export const TASK_SUBTASKS_MAX = 50;
+
+/**
+ * Longitud máxima de una etiqueta
+ */
+export const TASK_TAG_MAX_LENGTH = 30;
+
+/**
+ * Número máximo de etiquetas por tarea
+ */
+export const TASK_TAGS_MAX = 10;
+
+/**
+ * Número máximo de días entre repeticiones de una tarea
+ */
+export const TASK_RECURRENCE_INTERVAL_MAX = 365;
+
+/**
+ * Número máximo de recordatorios por tarea
+ */
+export const TASK_REMINDERS_MAX = 5;
+
+/**
+ * Antelación máxima de un recordatorio, en minutos (4 semanas)
+ */
+export const TASK_REMINDER_MAX_MINUTES = 40320;
+
+/**
+ * Longitud máxima del nombre de un estado del tablero
+ */
+export const TASK_STATUS_LABEL_MAX_LENGTH = 30;
+
+/**
+ * Número máximo de tareas que pueden bloquear a una tarea
+ */
+export const TASK_BLOCKERS_MAX = 20;
+
+/**
+ * Formato del ID de un estado del tablero
+ */
+const STATUS_ID_PATTERN = /^[a-z0-9-]{1,40}$/;
+
+/**
+ * Formato de la hora de vencimiento (`HH:mm`)
+ */
+const DUE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Niveles de prioridad válidos
+ */
+export const TASK_PRIORITIES: ReadonlyArray<Task['priority']> = [
+  'low',
+  'medium',
+  'high',
+];
+
+/**
+ * Código de un error de validación.
+ * Coincide con las claves de error de los `Validators` de Angular para que
+ * el formulario pueda reutilizar sus mensajes.
+ */
+export type TaskValidationErrorCode =
+  | 'required'
+  | 'minlength'
+  | 'maxlength'
+  | 'invalid';
+
+/**
+ * Error de validación de un campo de tarea
+ *
+ * @interface TaskFieldError
+ */
+export interface TaskFieldError {
+  /**
+   * Código del error
+   * @type {TaskValidationErrorCode}
+   */
+  code: TaskValidationErrorCode;
+
+  /**
+   * Mensaje descriptivo en español
+   * @type {string}
+   */
+  message: string;
+}
+
+/**
+ * Errores de validación indexados por nombre de campo
+ */
+export type TaskValidationErrors = Partial<
+  Record<keyof UpdateTaskRequest, TaskFieldError>
+>;
+
+/**
+ * Error lanzado cuando los datos de una tarea no son válidos
+ *
+ * @class TaskValidationError
+ */
+export class TaskValidationError extends Error {
+  /**
+   * @param {TaskValidationErrors} errors - Errores por campo
+   */
+  constructor(readonly errors: TaskValidationErrors) {
+    super('Datos de tarea inválidos');
+    this.name = 'TaskValidationError';
+  }
+}
+
+/**
+ * Validar los datos para crear una tarea
+ *
+ * @param {unknown} request - Los datos recibidos
+ * @returns {TaskValidationErrors | null} Errores por campo, o null si son válidos
+ */
+export function validateCreateTaskRequest(
+  request: unknown
+): TaskValidationErrors | null {
+  const data = asRecord(request);
+  const errors: TaskValidationErrors = {};
+
+  if (data['title'] === undefined) {
+    errors.title = {
+      code: 'required',
+      message: 'El título de la tarea es obligatorio',
+    };
+  }
+
+  collectFieldErrors(data, errors);
+  return Object.keys(errors).length ? errors : null;
+}
+
+/**
+ * Validar los datos para actualizar una tarea
+ *
+ * Todos los campos son opcionales, pero los presentes deben ser válidos.
+ *
+ * @param {unknown} request - Los datos recibidos
+ * @returns {TaskValidationErrors | null} Errores por campo, o null si son válidos
+ */
+export function validateUpdateTaskRequest(
+  request: unknown
+): TaskValidationErrors | null {
+  const data = asRecord(request);
+  const errors: TaskValidationErrors = {};
+
+  collectFieldErrors(data, errors);
+  return Object.keys(errors).length ? errors : null;
+}
+
+/**
+ * Convertir una fecha recibida (Date o texto) en `Date`
+ *
+ * @param {unknown} value - El valor recibido
+ * @returns {Date | undefined} La fecha, o undefined si no se indicó
+ */
+export function parseTaskDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  return value instanceof Date ? value : new Date(value as string);
+}
+
+/**
+ * Validar los campos comunes a creación y actualización
+ *
+ * @param {Record<string, unknown>} data - Los datos recibidos
+ * @param {TaskValidationErrors} errors - Acumulador de errores
+ * @returns {void}
+ */
+function collectFieldErrors(
+  data: Record<string, unknown>,
+  errors: TaskValidationErrors
+): void {
+  const title = data['title'];
+  if (title !== undefined) {
+    if (title === null) {
+      errors.title = {
+        code: 'required',
+        message: 'El título de la tarea es obligatorio',
+      };
+    } else if (typeof title !== 'string') {
+      errors.title = { code: 'invalid', message: 'El título debe ser texto' };
+    } else if (!title.trim()) {
+      errors.title = {
+        code: 'required',
+        message: 'El título de la tarea es obligatorio',
+      };
+    } else if (title.trim().length < TASK_TITLE_MIN_LENGTH) {
+      errors.title = {
+        code: 'minlength',
+        message: `El título debe tener al menos ${TASK_TITLE_MIN_LENGTH} caracteres`,
+      };
+    } else if (title.trim().length > TASK_TITLE_MAX_LENGTH) {
+      errors.title = {
+        code: 'maxlength',
+        message: `El título no puede superar los ${TASK_TITLE_MAX_LENGTH} caracteres`,
+      };
+    }
+  }
+
+  const description = data['description'];
+  if (description !== undefined && description !== null) {
+    if (typeof description !== 'string') {
+      errors.description = {
+        code: 'invalid',
+        message: 'La descripción debe ser texto',
+      };
+    } else if (description.length > TASK_DESCRIPTION_MAX_LENGTH) {
+      errors.description = {
+        code: 'maxlength',
+        message: `La descripción no puede superar los ${TASK_DESCRIPTION_MAX_LENGTH} caracteres`,
+      };
+    }
+  }
+
+  if (data['completed'] !== undefined && typeof data['completed'] !== 'boolean') {
+    errors.completed = {
+      code: 'invalid',
+      message: 'El estado de completado debe ser verdadero o falso',
+    };
+  }
+
+  const priority = data['priority'];
+  if (
+    priority !== undefined &&
+    !TASK_PRIORITIES.includes(priority as Task['priority'])
+  ) {
+    errors.priority = {
+      code: 'invalid',
+      message: 'La prioridad debe ser baja, media o alta',
+    };
+  }
+
+  const status = data['status'];
+  if (
+    status !== undefined &&
+    (typeof status !== 'string' || !STATUS_ID_PATTERN.test(status))
+  ) {
+    errors.status = {
+      code: 'invalid',
+      message: 'El estado de la tarea no es válido',
+    };
+  }
+
+  if (!isValidOptionalDate(data['dueDate'])) {
+    errors.dueDate = {
+      code: 'invalid',
+      message: 'La fecha de vencimiento no es válida',
+    };
+  }
+
+  const dueTime = data['dueTime'];
+  if (
+    dueTime !== undefined &&
+    dueTime !== null &&
+    (typeof dueTime !== 'string' || !DUE_TIME_PATTERN.test(dueTime))
+  ) {
+    errors.dueTime = {
+      code: 'invalid',
+      message: 'La hora de vencimiento debe tener el formato HH:mm',
+    };
+  }
+
+  const reminders = data['reminders'];
+  if (reminders !== undefined) {
+    if (
+      !Array.isArray(reminders) ||
+      !reminders.every((minutes) =>
+        isIntegerInRange(minutes, 0, TASK_REMINDER_MAX_MINUTES)
+      )
+    ) {
+      errors.reminders = {
+        code: 'invalid',
+        message: 'Los recordatorios deben ser minutos antes del vencimiento',
+      };
+    } else if (reminders.length > TASK_REMINDERS_MAX) {
+      errors.reminders = {
+        code: 'maxlength',
+        message: `Una tarea no puede tener más de ${TASK_REMINDERS_MAX} recordatorios`,
+      };
+    }
+  }
+
+  if (!isValidOptionalDate(data['deletedAt'])) {
+    errors.deletedAt = {
+      code: 'invalid',
+      message: 'La fecha de envío a la papelera no es válida',
+    };
+  }
+
+  const subtasks = data['subtasks'];
+  if (subtasks !== undefined) {
+    if (!Array.isArray(subtasks) || !subtasks.every(isValidSubtaskShape)) {
+      errors.subtasks = {
+        code: 'invalid',
+        message: 'Las subtareas deben tener un título y un estado de completado',
+      };
+    } else if (subtasks.length > TASK_SUBTASKS_MAX) {
+      errors.subtasks = {
+        code: 'maxlength',
+        message: `Una tarea no puede tener más de ${TASK_SUBTASKS_MAX} subtareas`,
+      };
+    } else if (
+      subtasks.some((subtask) => subtask.title.trim().length > TASK_SUBTASK_TITLE_MAX_LENGTH)
+    ) {
+      errors.subtasks = {
+        code: 'maxlength',
+        message: `El título de una subtarea no puede superar los ${TASK_SUBTASK_TITLE_MAX_LENGTH} caracteres`,
+      };
+    }
+  }
+
+  const projectId = data['projectId'];
+  if (
+    projectId !== undefined &&
+    projectId !== null &&
+    (typeof projectId !== 'string' || !projectId)
+  ) {
+    errors.projectId = {
+      code: 'invalid',
+      message: 'El proyecto no es válido',
+    };
+  }
+
+  const assigneeId = data['assigneeId'];
+  if (
+    assigneeId !== undefined &&
+    assigneeId !== null &&
+    (typeof assigneeId !== 'string' || !assigneeId)
+  ) {
+    errors.assigneeId = {
+      code: 'invalid',
+      message: 'El responsable no es válido',
+    };
+  }
+
+  const order = data['order'];
+  if (
+    order !== undefined &&
+    (typeof order !== 'number' || !Number.isFinite(order))
+  ) {
+    errors.order = {
+      code: 'invalid',
+      message: 'La posición de la tarea debe ser un número',
+    };
+  }
+
+  const recurrence = data['recurrence'];
+  if (
+    recurrence !== undefined &&
+    recurrence !== null &&
+    !isValidRecurrenceShape(recurrence)
+  ) {
+    errors.recurrence = {
+      code: 'invalid',
+      message: 'La regla de repetición no es válida',
+    };
+  }
+
+  const tags = data['tags'];
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string')) {
+      errors.tags = {
+        code: 'invalid',
+        message: 'Las etiquetas deben ser una lista de textos',
+      };
+    } else if (tags.length > TASK_TAGS_MAX) {
+      errors.tags = {
+        code: 'maxlength',
+        message: `Una tarea no puede tener más de ${TASK_TAGS_MAX} etiquetas`,
+      };
+    } else if (tags.some((tag) => tag.trim().length > TASK_TAG_MAX_LENGTH)) {
+      errors.tags = {
+        code: 'maxlength',
+        message: `Una etiqueta no puede superar los ${TASK_TAG_MAX_LENGTH} caracteres`,
+      };
+    }
+  }
+
+  const blockedBy = data['blockedBy'];
+  if (blockedBy !== undefined) {
+    if (
+      !Array.isArray(blockedBy) ||
+      !blockedBy.every((id) => typeof id === 'string' && id)
+    ) {
+      errors.blockedBy = {
+        code: 'invalid',
+        message: 'Las tareas bloqueantes deben ser una lista de IDs',
+      };
+    } else if (blockedBy.length > TASK_BLOCKERS_MAX) {
+      errors.blockedBy = {
+        code: 'maxlength',
+        message: `Una tarea no puede estar bloqueada por más de ${TASK_BLOCKERS_MAX} tareas`,
+      };
+    }
+  }
+}
+
+/**
+ * Verificar que un valor tenga la forma de una regla de repetición válida
+ *
+ * @param {unknown} value - El valor recibido
+ * @returns {boolean} True si la frecuencia y sus parámetros son válidos
+ */
+function isValidRecurrenceShape(value: unknown): value is TaskRecurrence {
+  const recurrence = asRecord(value);
+  const frequency = recurrence['frequency'];
+  const weekdays = recurrence['weekdays'];
+
+  if (!TASK_RECURRENCE_FREQUENCIES.includes(frequency as TaskRecurrence['frequency'])) {
+    return false;
+  }
+  if (
+    frequency === 'interval' &&
+    !isIntegerInRange(recurrence['interval'], 1, TASK_RECURRENCE_INTERVAL_MAX)
+  ) {
+    return false;
+  }
+  if (
+    frequency === 'weekly' &&
+    (!Array.isArray(weekdays) ||
+      !weekdays.length ||
+      !weekdays.every((day) => isIntegerInRange(day, 0, 6)))
+  ) {
+    return false;
+  }
+  if (frequency === 'monthly' && !isIntegerInRange(recurrence['dayOfMonth'], 1, 31)) {
+    return false;
+  }
+
+  return (
+    isValidOptionalDate(recurrence['endDate']) &&
+    (recurrence['count'] === undefined ||
+      isIntegerInRange(recurrence['count'], 1, Infinity)) &&
+    (recurrence['occurrence'] === undefined ||
+      isIntegerInRange(recurrence['occurrence'], 1, Infinity))
+  );
+}
+
+/**
+ * Verificar que un valor sea un entero dentro de un rango
+ *
+ * @param {unknown} value - El valor recibido
+ * @param {number} min - Valor mínimo permitido
+ * @param {number} max - Valor máximo permitido
+ * @returns {boolean} True si es un entero entre `min` y `max`
+ */
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+/**
+ * Verificar que un valor tenga la forma de una subtarea válida
+ *
+ * @param {unknown} value - El valor recibido
+ * @returns {boolean} True si tiene ID, título no vacío y estado de completado
+ */
+function isValidSubtaskShape(value: unknown): value is Subtask {
+  const subtask = asRecord(value);
+  return (
+    typeof subtask['id'] === 'string' &&
+    !!subtask['id'] &&
+    typeof subtask['title'] === 'string' &&
+    !!subtask['title'].trim() &&
+    typeof subtask['completed'] === 'boolean'
+  );
+}
+
+/**
+ * Verificar que un valor opcional de fecha sea una fecha válida
+ *
+ * @param {unknown} value - El valor recibido
+ * @returns {boolean} True si está vacío o representa una fecha válida
+ */
+function isValidOptionalDate(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') {
+    return true;
+  }
+
+  const isDateLike = value instanceof Date || typeof value === 'string';
+  const parsed = isDateLike ? parseTaskDate(value) : undefined;
+  return !!parsed && !isNaN(parsed.getTime());
+}
+
+/**
+ * Normalizar los datos recibidos a un objeto indexable
+ *
+ * @param {unknown} value - Los datos recibidos
+ * @returns {Record<string, unknown>} El objeto, o uno vacío si no lo es
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)
+    : {};
+}
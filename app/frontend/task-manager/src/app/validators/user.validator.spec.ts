@@ -0,0 +1,56 @@
+import {
+  DISPLAY_NAME_MAX_LENGTH,
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+  validateRegisterRequest,
+} from './user.validator';
+
+describe('validateRegisterRequest', () => {
+  it('accepts a valid registration', () => {
+    expect(
+      validateRegisterRequest({
+        username: 'ana.garcia',
+        password: 'contraseña segura',
+        displayName: 'Ana García',
+      })
+    ).toBeNull();
+  });
+
+  it('requires a username and a password', () => {
+    const errors = validateRegisterRequest({ username: ' ', password: '' });
+
+    expect(errors?.username?.code).toBe('required');
+    expect(errors?.password?.code).toBe('required');
+  });
+
+  it('rejects usernames outside the allowed characters or length', () => {
+    const usernameError = (username: string) =>
+      validateRegisterRequest({ username, password: 'contraseña' })?.username?.code;
+
+    expect(usernameError('ab')).toBe('invalid');
+    expect(usernameError('a'.repeat(33))).toBe('invalid');
+    expect(usernameError('ana garcia')).toBe('invalid');
+    expect(usernameError('ana/../admin')).toBe('invalid');
+    expect(usernameError('Ana_G-1')).toBeUndefined();
+  });
+
+  it('checks the password length', () => {
+    const passwordError = (password: string) =>
+      validateRegisterRequest({ username: 'ana', password })?.password?.code;
+
+    expect(passwordError('a'.repeat(PASSWORD_MIN_LENGTH - 1))).toBe('minlength');
+    expect(passwordError('a'.repeat(PASSWORD_MIN_LENGTH))).toBeUndefined();
+    expect(passwordError('a'.repeat(PASSWORD_MAX_LENGTH + 1))).toBe('maxlength');
+  });
+
+  it('allows omitting the display name but not an invalid one', () => {
+    const displayNameError = (displayName: unknown) =>
+      validateRegisterRequest({ username: 'ana', password: 'contraseña', displayName })
+        ?.displayName?.code;
+
+    expect(displayNameError(undefined)).toBeUndefined();
+    expect(displayNameError(null)).toBeUndefined();
+    expect(displayNameError(7)).toBe('invalid');
+    expect(displayNameError('a'.repeat(DISPLAY_NAME_MAX_LENGTH + 1))).toBe('maxlength');
+  });
+});
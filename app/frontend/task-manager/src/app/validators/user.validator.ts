@@ -0,0 +1,112 @@
+import { RegisterRequest } from '../models/user.model';
+import { TaskFieldError } from './task.validator';
+
+/**
+ * Formato de los nombres de usuario: letras, números, `.`, `_` o `-`
+ */
+export const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/i;
+
+/**
+ * Longitud mínima de las contraseñas
+ */
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * Longitud máxima de las contraseñas
+ */
+export const PASSWORD_MAX_LENGTH = 128;
+
+/**
+ * Longitud máxima del nombre mostrado
+ */
+export const DISPLAY_NAME_MAX_LENGTH = 50;
+
+/**
+ * Errores de validación de usuario indexados por nombre de campo
+ */
+export type UserValidationErrors = Partial<
+  Record<keyof RegisterRequest, TaskFieldError>
+>;
+
+/**
+ * Error lanzado cuando los datos de registro no son válidos
+ *
+ * @class UserValidationError
+ */
+export class UserValidationError extends Error {
+  /**
+   * @param {UserValidationErrors} errors - Errores por campo
+   */
+  constructor(readonly errors: UserValidationErrors) {
+    super('Datos de usuario inválidos');
+    this.name = 'UserValidationError';
+  }
+}
+
+/**
+ * Validar los datos para registrar un usuario
+ *
+ * @param {unknown} request - Los datos recibidos
+ * @returns {UserValidationErrors | null} Errores por campo, o null si son válidos
+ */
+export function validateRegisterRequest(
+  request: unknown
+): UserValidationErrors | null {
+  const data = asRecord(request);
+  const errors: UserValidationErrors = {};
+
+  const username = data['username'];
+  if (typeof username !== 'string' || !username.trim()) {
+    errors.username = {
+      code: 'required',
+      message: 'El nombre de usuario es obligatorio',
+    };
+  } else if (!USERNAME_PATTERN.test(username.trim())) {
+    errors.username = {
+      code: 'invalid',
+      message:
+        'El nombre de usuario debe tener entre 3 y 32 letras, números, puntos, guiones o guiones bajos',
+    };
+  }
+
+  const password = data['password'];
+  if (typeof password !== 'string' || !password) {
+    errors.password = { code: 'required', message: 'La contraseña es obligatoria' };
+  } else if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.password = {
+      code: 'minlength',
+      message: `La contraseña debe tener al menos ${PASSWORD_MIN_LENGTH} caracteres`,
+    };
+  } else if (password.length > PASSWORD_MAX_LENGTH) {
+    errors.password = {
+      code: 'maxlength',
+      message: `La contraseña no puede superar los ${PASSWORD_MAX_LENGTH} caracteres`,
+    };
+  }
+
+  const displayName = data['displayName'];
+  if (displayName !== undefined && displayName !== null) {
+    if (typeof displayName !== 'string') {
+      errors.displayName = { code: 'invalid', message: 'El nombre no es válido' };
+    } else if (displayName.trim().length > DISPLAY_NAME_MAX_LENGTH) {
+      errors.displayName = {
+        code: 'maxlength',
+        message: `El nombre no puede superar los ${DISPLAY_NAME_MAX_LENGTH} caracteres`,
+      };
+    }
+  }
+
+  return Object.keys(errors).length ? errors : null;
+}
+
+/**
+ * Normalizar los datos recibidos a un objeto indexable
+ *
+ * @param {unknown} value - Los datos recibidos
+ * @returns {Record<string, unknown>} El objeto, o uno vacío si no lo es
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)
+    : {};
+}
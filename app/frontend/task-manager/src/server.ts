@@ -7,6 +7,23 @@ import {
 import express from 'express';
 import { dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { TaskFileStore } from './api/task-file.store';
+import { createTasksRouter } from './api/tasks.router';
+import { TaskAttachmentFileStore } from './api/task-attachment-file.store';
+import { createTaskAttachmentsRouter } from './api/task-attachments.router';
+import { TaskEventBroadcaster } from './api/task-events';
+import { ProjectFileStore } from './api/project-file.store';
+import { createProjectsRouter } from './api/projects.router';
+import { TaskActivityFileStore } from './api/task-activity-file.store';
+import { createTaskActivityRouter } from './api/task-activity.router';
+import { TaskCommentFileStore } from './api/task-comment-file.store';
+import { createTaskCommentsRouter } from './api/task-comments.router';
+import { UserFileStore } from './api/user-file.store';
+import { AuthSessionStore } from './api/auth-sessions';
+import { createAuthMiddleware } from './api/auth.middleware';
+import { createAuthRouter } from './api/auth.router';
+import { createUsersRouter } from './api/users.router';
+import { TaskAccessPolicy } from './api/task-access';
 
 const serverDistFolder = dirname(fileURLToPath(import.meta.url));
 const browserDistFolder = resolve(serverDistFolder, '../browser');
@@ -15,16 +32,117 @@ const app = express();
 const angularApp = new AngularNodeAppEngine();
 
 /**
- * Los endpoints de la API REST de Express pueden ser definidos aquí.
- * Descomenta y define endpoints según sea necesario.
- *
- * Ejemplo:
- * ```ts
- * app.get('/api/**', (req, res) => {
- *   // Manejar petición de API
- * });
- * ```
+ * Cuentas de usuario y sesiones.
+ * Los usuarios se guardan en el archivo definido por la variable de entorno `USERS_FILE`,
+ * o por defecto en `data/users.json` dentro del directorio de trabajo.
+ * Todas las rutas de la API salvo `/api/auth` requieren una sesión iniciada.
  */
+const userStore = new UserFileStore(
+  process.env['USERS_FILE'] || resolve(process.cwd(), 'data/users.json'),
+);
+const sessions = new AuthSessionStore();
+const requireAuth = createAuthMiddleware(userStore, sessions);
+
+app.use('/api/users', requireAuth, createUsersRouter(userStore));
+
+/**
+ * Proyectos y permisos.
+ * Los proyectos se guardan en el archivo definido por la variable de entorno `PROJECTS_FILE`,
+ * o por defecto en `data/projects.json` dentro del directorio de trabajo.
+ * Cada usuario accede a sus tareas y a las de los proyectos compartidos con él.
+ */
+const projectStore = new ProjectFileStore(
+  process.env['PROJECTS_FILE'] || resolve(process.cwd(), 'data/projects.json'),
+);
+const taskAccess = new TaskAccessPolicy(projectStore);
+
+app.use(
+  '/api/projects',
+  requireAuth,
+  express.json(),
+  createProjectsRouter(projectStore, userStore),
+);
+
+/**
+ * API REST de tareas.
+ * Las tareas se guardan en el archivo definido por la variable de entorno `TASKS_FILE`,
+ * o por defecto en `data/tasks.json` dentro del directorio de trabajo.
+ * Los cambios se difunden a los clientes conectados en `/api/tasks/events`.
+ */
+const taskStore = new TaskFileStore(
+  process.env['TASKS_FILE'] || resolve(process.cwd(), 'data/tasks.json'),
+);
+const taskEvents = new TaskEventBroadcaster();
+
+/**
+ * Archivos adjuntos de las tareas.
+ * El contenido se guarda en el directorio definido por la variable de entorno `TASK_ATTACHMENTS_DIR`,
+ * o por defecto en `data/attachments` dentro del directorio de trabajo.
+ * Se monta antes que `/api/tasks` para recibir los archivos sin pasar por `express.json()`.
+ */
+const taskAttachmentStore = new TaskAttachmentFileStore(
+  process.env['TASK_ATTACHMENTS_DIR'] || resolve(process.cwd(), 'data/attachments'),
+);
+
+app.use(
+  '/api/tasks/:taskId/attachments',
+  requireAuth,
+  createTaskAttachmentsRouter(taskStore, taskAttachmentStore, taskEvents, taskAccess),
+);
+
+app.use(
+  '/api/tasks',
+  requireAuth,
+  express.json(),
+  createTasksRouter(taskStore, taskEvents, taskAccess, taskAttachmentStore),
+);
+
+/**
+ * API REST del historial de actividad de las tareas.
+ * El historial se guarda en el archivo definido por la variable de entorno `TASK_ACTIVITY_FILE`,
+ * o por defecto en `data/task-activity.json` dentro del directorio de trabajo.
+ */
+const taskActivityStore = new TaskActivityFileStore(
+  process.env['TASK_ACTIVITY_FILE'] || resolve(process.cwd(), 'data/task-activity.json'),
+);
+
+app.use(
+  '/api/task-activity',
+  requireAuth,
+  express.json({ limit: '1mb' }),
+  createTaskActivityRouter(taskActivityStore, taskStore, taskAccess),
+);
+
+/**
+ * API REST de comentarios de las tareas.
+ * Los comentarios se guardan en el archivo definido por la variable de entorno `TASK_COMMENTS_FILE`,
+ * o por defecto en `data/task-comments.json` dentro del directorio de trabajo.
+ */
+const taskCommentStore = new TaskCommentFileStore(
+  process.env['TASK_COMMENTS_FILE'] || resolve(process.cwd(), 'data/task-comments.json'),
+);
+
+app.use(
+  '/api/task-comments',
+  requireAuth,
+  express.json(),
+  createTaskCommentsRouter(taskCommentStore, taskStore, taskAccess),
+);
+
+/**
+ * API de autenticación.
+ * El primer usuario registrado recibe las tareas, proyectos e historial
+ * creados antes de existir cuentas.
+ */
+app.use(
+  '/api/auth',
+  express.json(),
+  createAuthRouter(userStore, sessions, async (user) => {
+    await taskStore.claimUnowned(user.id);
+    await projectStore.claimUnowned(user.id);
+    await taskActivityStore.claimUnowned(user.id);
+  }),
+);
 
 /**
  * Servir archivos estáticos desde /browser